@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "tariffId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Tariff" (
+    "id" TEXT NOT NULL,
+    "version" SERIAL NOT NULL,
+    "name" TEXT,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "baseFare" INTEGER NOT NULL,
+    "perKmRate" DOUBLE PRECISION NOT NULL,
+    "perMinuteRate" DOUBLE PRECISION NOT NULL,
+    "minimumFare" INTEGER NOT NULL,
+    "regularMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1.0,
+    "seatReserveMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1.2,
+    "deliveryMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 0.8,
+    "commissionPercent" DOUBLE PRECISION NOT NULL,
+    "cancellationPenaltyPercent" DOUBLE PRECISION NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tariff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tariff_version_key" ON "public"."Tariff"("version");
+
+-- AddForeignKey
+ALTER TABLE "public"."Ride" ADD CONSTRAINT "Ride_tariffId_fkey" FOREIGN KEY ("tariffId") REFERENCES "public"."Tariff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
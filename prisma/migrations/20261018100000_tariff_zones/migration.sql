@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "zoneId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."TariffZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "polygon" JSONB,
+    "wilayaCodes" TEXT[],
+    "communes" TEXT[],
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "baseFare" INTEGER NOT NULL,
+    "perKmRate" DOUBLE PRECISION NOT NULL,
+    "perMinuteRate" DOUBLE PRECISION NOT NULL,
+    "minimumFare" INTEGER NOT NULL,
+    "crossZoneSurcharge" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TariffZone_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."Ride" ADD CONSTRAINT "Ride_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "public"."TariffZone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
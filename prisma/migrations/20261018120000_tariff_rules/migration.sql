@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "timeRuleIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."TariffRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "daysOfWeek" INTEGER[],
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1.0,
+    "surcharge" INTEGER NOT NULL DEFAULT 0,
+    "exclusive" BOOLEAN NOT NULL DEFAULT false,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TariffRule_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "public"."RideOfferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED', 'WITHDRAWN');
+
+-- CreateTable
+CREATE TABLE "public"."RideOffer" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "status" "public"."RideOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RideOffer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RideOffer_rideId_driverId_key" ON "public"."RideOffer"("rideId", "driverId");
+
+-- AddForeignKey
+ALTER TABLE "public"."RideOffer" ADD CONSTRAINT "RideOffer_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RideOffer" ADD CONSTRAINT "RideOffer_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RideOffer" ADD CONSTRAINT "RideOffer_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."Vehicle"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "public"."RideStatus" ADD VALUE 'SCHEDULED' BEFORE 'PENDING';
+
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "dispatchedAt" TIMESTAMP(3),
+ADD COLUMN     "reservedAt" TIMESTAMP(3),
+ADD COLUMN     "scheduledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Ride_status_scheduledAt_idx" ON "public"."Ride"("status", "scheduledAt");
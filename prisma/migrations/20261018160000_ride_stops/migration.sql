@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."Tariff" ADD COLUMN     "stopFee" INTEGER NOT NULL DEFAULT 50;
+
+-- CreateTable
+CREATE TABLE "public"."RideStop" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "address" TEXT,
+    "reachedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RideStop_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RideStop_rideId_order_key" ON "public"."RideStop"("rideId", "order");
+
+-- AddForeignKey
+ALTER TABLE "public"."RideStop" ADD CONSTRAINT "RideStop_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
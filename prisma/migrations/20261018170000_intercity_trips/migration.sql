@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "public"."TripStatus" AS ENUM ('SCHEDULED', 'ONGOING', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "public"."TripBookingStatus" AS ENUM ('CONFIRMED', 'CANCELLED', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "public"."Trip" (
+    "id" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "originWilaya" TEXT NOT NULL,
+    "destWilaya" TEXT NOT NULL,
+    "meetingPoint" TEXT,
+    "departureAt" TIMESTAMP(3) NOT NULL,
+    "seatCapacity" INTEGER NOT NULL,
+    "seatsAvailable" INTEGER NOT NULL,
+    "pricePerSeat" INTEGER NOT NULL,
+    "commissionPercent" DOUBLE PRECISION NOT NULL,
+    "status" "public"."TripStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Trip_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."TripBooking" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "passengerId" TEXT NOT NULL,
+    "seats" INTEGER NOT NULL,
+    "price" INTEGER NOT NULL,
+    "status" "public"."TripBookingStatus" NOT NULL DEFAULT 'CONFIRMED',
+    "commissionAmount" INTEGER,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TripBooking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Trip_originWilaya_destWilaya_departureAt_idx" ON "public"."Trip"("originWilaya", "destWilaya", "departureAt");
+
+-- CreateIndex
+CREATE INDEX "TripBooking_tripId_status_idx" ON "public"."TripBooking"("tripId", "status");
+
+-- CreateIndex
+CREATE INDEX "TripBooking_passengerId_idx" ON "public"."TripBooking"("passengerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Trip" ADD CONSTRAINT "Trip_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Trip" ADD CONSTRAINT "Trip_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."Vehicle"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TripBooking" ADD CONSTRAINT "TripBooking_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "public"."Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TripBooking" ADD CONSTRAINT "TripBooking_passengerId_fkey" FOREIGN KEY ("passengerId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "public"."PackageSize" AS ENUM ('SMALL', 'MEDIUM', 'LARGE');
+
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "isFragile" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "packageDescription" TEXT,
+ADD COLUMN     "packageSize" "public"."PackageSize",
+ADD COLUMN     "recipientName" TEXT,
+ADD COLUMN     "recipientPhone" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DeliveryCode" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "verifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeliveryCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeliveryCode_rideId_key" ON "public"."DeliveryCode"("rideId");
+
+-- AddForeignKey
+ALTER TABLE "public"."DeliveryCode" ADD CONSTRAINT "DeliveryCode_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
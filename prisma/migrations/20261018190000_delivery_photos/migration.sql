@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "public"."DeliveryPhotoStage" AS ENUM ('PICKUP', 'DROPOFF');
+
+-- CreateTable
+CREATE TABLE "public"."DeliveryPhoto" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "stage" "public"."DeliveryPhotoStage" NOT NULL,
+    "url" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "takenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeliveryPhoto_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeliveryPhoto_rideId_idx" ON "public"."DeliveryPhoto"("rideId");
+
+-- AddForeignKey
+ALTER TABLE "public"."DeliveryPhoto" ADD CONSTRAINT "DeliveryPhoto_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
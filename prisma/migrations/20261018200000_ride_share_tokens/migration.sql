@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."RideShareToken" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "hashedToken" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RideShareToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RideShareToken_hashedToken_key" ON "public"."RideShareToken"("hashedToken");
+
+-- CreateIndex
+CREATE INDEX "RideShareToken_rideId_idx" ON "public"."RideShareToken"("rideId");
+
+-- AddForeignKey
+ALTER TABLE "public"."RideShareToken" ADD CONSTRAINT "RideShareToken_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."RidePin" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "pin" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "verifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RidePin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RidePin_rideId_key" ON "public"."RidePin"("rideId");
+
+-- AddForeignKey
+ALTER TABLE "public"."RidePin" ADD CONSTRAINT "RidePin_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "public"."RideStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "expiredAt" TIMESTAMP(3),
+ADD COLUMN     "pendingSince" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "searchRadiusKm" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Ride_status_pendingSince_idx" ON "public"."Ride"("status", "pendingSince");
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."DispatchMode" AS ENUM ('BROADCAST', 'SEQUENTIAL');
+
+-- CreateEnum
+CREATE TYPE "public"."DispatchOfferStatus" AS ENUM ('OFFERED', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "dispatchMode" "public"."DispatchMode" NOT NULL DEFAULT 'BROADCAST';
+
+-- CreateTable
+CREATE TABLE "public"."DispatchOffer" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "status" "public"."DispatchOfferStatus" NOT NULL DEFAULT 'OFFERED',
+    "score" DOUBLE PRECISION NOT NULL,
+    "etaMinutes" DOUBLE PRECISION NOT NULL,
+    "offeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DispatchOffer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DispatchOffer_rideId_idx" ON "public"."DispatchOffer"("rideId");
+
+-- CreateIndex
+CREATE INDEX "DispatchOffer_driverId_offeredAt_idx" ON "public"."DispatchOffer"("driverId", "offeredAt");
+
+-- CreateIndex
+CREATE INDEX "DispatchOffer_status_expiresAt_idx" ON "public"."DispatchOffer"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."DispatchOffer" ADD CONSTRAINT "DispatchOffer_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
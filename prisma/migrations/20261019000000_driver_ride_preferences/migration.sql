@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."DriverProfile" ADD COLUMN     "acceptedRideTypes" "public"."RideType"[] DEFAULT ARRAY[]::"public"."RideType"[],
+ADD COLUMN     "maxPickupDistanceKm" DOUBLE PRECISION,
+ADD COLUMN     "minFare" DOUBLE PRECISION;
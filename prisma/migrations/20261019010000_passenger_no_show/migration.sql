@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "public"."RideStatus" ADD VALUE 'ARRIVED' BEFORE 'ONGOING';
+
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "arrivedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."PassengerNoShow" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "passengerId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "arrivedAt" TIMESTAMP(3) NOT NULL,
+    "feeCharged" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PassengerNoShow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PassengerNoShow_rideId_key" ON "public"."PassengerNoShow"("rideId");
+
+-- CreateIndex
+CREATE INDEX "PassengerNoShow_passengerId_createdAt_idx" ON "public"."PassengerNoShow"("passengerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."PassengerNoShow" ADD CONSTRAINT "PassengerNoShow_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PassengerNoShow" ADD CONSTRAINT "PassengerNoShow_passengerId_fkey" FOREIGN KEY ("passengerId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "acceptLat" DOUBLE PRECISION,
+ADD COLUMN     "acceptLng" DOUBLE PRECISION,
+ADD COLUMN     "acceptedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."CancellationFee" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "passengerId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "chargedAmount" INTEGER NOT NULL,
+    "debtAmount" INTEGER NOT NULL DEFAULT 0,
+    "debtSettledAt" TIMESTAMP(3),
+    "driverCompensation" INTEGER NOT NULL,
+    "minutesSinceAccept" DOUBLE PRECISION NOT NULL,
+    "driverDistanceKm" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CancellationFee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CancellationFee_rideId_key" ON "public"."CancellationFee"("rideId");
+
+-- CreateIndex
+CREATE INDEX "CancellationFee_passengerId_debtSettledAt_idx" ON "public"."CancellationFee"("passengerId", "debtSettledAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."CancellationFee" ADD CONSTRAINT "CancellationFee_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CancellationFee" ADD CONSTRAINT "CancellationFee_passengerId_fkey" FOREIGN KEY ("passengerId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."CancellationActor" AS ENUM ('PASSENGER', 'DRIVER', 'SYSTEM', 'ADMIN');
+
+-- CreateEnum
+CREATE TYPE "public"."CancellationReason" AS ENUM ('DRIVER_TOO_FAR', 'DRIVER_NOT_MOVING', 'DRIVER_ASKED_TO_CANCEL', 'CHANGED_PLANS', 'BOOKED_BY_MISTAKE', 'FOUND_OTHER_RIDE', 'PICKUP_TOO_FAR', 'PASSENGER_UNREACHABLE', 'PASSENGER_ASKED_TO_CANCEL', 'PASSENGER_NO_SHOW', 'VEHICLE_PROBLEM', 'UNSAFE_PICKUP', 'NO_DRIVER_FOUND', 'FRAUD_SUSPECTED', 'SUPPORT_REQUEST', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "cancellationNote" TEXT,
+ADD COLUMN     "cancellationReason" "public"."CancellationReason",
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "cancelledBy" "public"."CancellationActor",
+ADD COLUMN     "originWilayaCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."RideCancellation" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "actor" "public"."CancellationActor" NOT NULL,
+    "reason" "public"."CancellationReason" NOT NULL,
+    "note" TEXT,
+    "userId" TEXT,
+    "driverId" TEXT,
+    "rideStatus" "public"."RideStatus" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RideCancellation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RideCancellation_createdAt_idx" ON "public"."RideCancellation"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "RideCancellation_rideId_idx" ON "public"."RideCancellation"("rideId");
+
+-- AddForeignKey
+ALTER TABLE "public"."RideCancellation" ADD CONSTRAINT "RideCancellation_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "public"."CancellationActor" RENAME TO "RideActor";
+
+-- CreateTable
+CREATE TABLE "public"."RideStatusEvent" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "fromStatus" "public"."RideStatus",
+    "toStatus" "public"."RideStatus" NOT NULL,
+    "actor" "public"."RideActor" NOT NULL,
+    "userId" TEXT,
+    "lat" DOUBLE PRECISION,
+    "lng" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RideStatusEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RideStatusEvent_rideId_createdAt_idx" ON "public"."RideStatusEvent"("rideId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."RideStatusEvent" ADD CONSTRAINT "RideStatusEvent_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
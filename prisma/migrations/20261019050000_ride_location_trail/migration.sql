@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "actualDistanceKm" DOUBLE PRECISION,
+ADD COLUMN     "actualDurationMin" DOUBLE PRECISION,
+ADD COLUMN     "bookedPrice" INTEGER,
+ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "startedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."RideLocationPoint" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "rideStatus" "public"."RideStatus" NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "heading" DOUBLE PRECISION,
+    "speed" DOUBLE PRECISION,
+    "accuracy" DOUBLE PRECISION,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RideLocationPoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RideLocationPoint_rideId_recordedAt_idx" ON "public"."RideLocationPoint"("rideId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."RideLocationPoint" ADD CONSTRAINT "RideLocationPoint_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "public"."Ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
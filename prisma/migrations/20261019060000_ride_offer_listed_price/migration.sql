@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."RideOfferStatus" ADD VALUE 'VOID';
+
+-- AlterTable
+ALTER TABLE "public"."RideOffer" ADD COLUMN     "listedPrice" INTEGER;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Trip" ADD COLUMN     "commissionDebt" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Trip_driverId_commissionDebt_idx" ON "public"."Trip"("driverId", "commissionDebt");
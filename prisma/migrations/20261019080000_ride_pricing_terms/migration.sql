@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Ride" ADD COLUMN     "crossZoneSurcharge" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "timeRules" JSONB NOT NULL DEFAULT '[]';
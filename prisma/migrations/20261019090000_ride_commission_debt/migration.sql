@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Commission" ADD COLUMN     "debtAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "debtSettledAt" TIMESTAMP(3);
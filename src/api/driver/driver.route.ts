@@ -1,7 +1,15 @@
 import express, { Request, Response, Handler } from 'express';
 import { JwtPayload } from 'jsonwebtoken';
 import { isAuthenticated, requireRole } from '../../middlewares/middlewares';
-import { addVehicleForDriver, deleteVehicleForDriver, findDriverById, getAllVehiclesForDriver, updateVehicle } from './driver.services';
+import {
+  addVehicleForDriver,
+  deleteVehicleForDriver,
+  findDriverById,
+  getAllVehiclesForDriver,
+  getDriverPreferences,
+  updateDriverPreferences,
+  updateVehicle
+} from './driver.services';
 import { Role, VehicleType } from "@prisma/client";
 
 const router = express.Router();
@@ -12,6 +20,10 @@ interface AuthenticatedRequest extends Request {
   payload?: JwtPayload;
 }
 
+interface CustomError extends Error {
+  statusCode?: number;
+}
+
 
 router.get('/profile', isAuthenticated, async (
   req: AuthenticatedRequest, res: Response, next: any) => {
@@ -141,4 +153,46 @@ router.delete("/vehicles/:vehicleId",
   }
 )
 
+/**
+ * GET /drivers/preferences - Get the ride types, pickup distance and fare the driver accepts
+ */
+router.get("/preferences",
+  isAuthenticated,
+  requireRole(Role.DRIVER),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.payload!;
+
+      const preferences = await getDriverPreferences(userId);
+      res.json(preferences);
+    } catch (error: any) {
+      res.status((error as CustomError).statusCode || 500).json({ error: error.message });
+    }
+  }
+)
+
+/**
+ * PUT /drivers/preferences - Update the rides the driver is offered
+ * Body: { acceptedRideTypes?, maxPickupDistanceKm?, minFare? } (null clears a limit)
+ */
+router.put("/preferences",
+  isAuthenticated,
+  requireRole(Role.DRIVER),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.payload!;
+      const { acceptedRideTypes, maxPickupDistanceKm, minFare } = req.body;
+
+      const preferences = await updateDriverPreferences(userId, {
+        ...(acceptedRideTypes !== undefined && { acceptedRideTypes }),
+        ...(maxPickupDistanceKm !== undefined && { maxPickupDistanceKm }),
+        ...(minFare !== undefined && { minFare }),
+      });
+      res.json(preferences);
+    } catch (error: any) {
+      res.status((error as CustomError).statusCode || 500).json({ error: error.message });
+    }
+  }
+)
+
 export = router;
\ No newline at end of file
@@ -1,6 +1,23 @@
-import { Role, Sex, User, VehicleType } from "@prisma/client";
+import { RideType, Role, Sex, User, VehicleType } from "@prisma/client";
 import bcrypt from 'bcrypt';
 import { db } from '../../utils/db';
+import { BadRequestError, NotFoundError } from '../../utils/errors';
+
+/**
+ * Rides a driver wants to be offered
+ * Empty acceptedRideTypes and null limits mean no restriction
+ */
+export interface DriverPreferences {
+  acceptedRideTypes: RideType[];
+  maxPickupDistanceKm: number | null;
+  minFare: number | null;
+}
+
+const preferencesSelect = {
+  acceptedRideTypes: true,
+  maxPickupDistanceKm: true,
+  minFare: true,
+};
 
 
 export function createDriverByEmailAndPassword(user:
@@ -200,4 +217,70 @@ export async function getAllVehiclesForDriver(userId: string) {
   return db.vehicle.findMany({
     where: { driverId: driverProfile.id }
   });
-}
\ No newline at end of file
+}
+
+export async function getDriverPreferences(userId: string): Promise<DriverPreferences> {
+  const driverProfile = await db.driverProfile.findUnique({
+    where: { userId: userId },
+    select: preferencesSelect,
+  });
+
+  if (!driverProfile) {
+    throw new NotFoundError('Driver profile not found');
+  }
+
+  return driverProfile;
+}
+
+/**
+ * Validate ride preferences sent by a driver
+ *
+ * @throws BadRequestError if a ride type is unknown or a limit is not a positive number
+ */
+export function validateDriverPreferences(preferences: Partial<DriverPreferences>) {
+  const { acceptedRideTypes, maxPickupDistanceKm, minFare } = preferences;
+
+  if (acceptedRideTypes !== undefined) {
+    if (!Array.isArray(acceptedRideTypes) ||
+      acceptedRideTypes.some((type) => !Object.values(RideType).includes(type))) {
+      throw new BadRequestError(`acceptedRideTypes must be a list of ${Object.values(RideType).join(", ")}`);
+    }
+  }
+
+  if (maxPickupDistanceKm !== undefined && maxPickupDistanceKm !== null &&
+    (typeof maxPickupDistanceKm !== 'number' || !(maxPickupDistanceKm > 0))) {
+    throw new BadRequestError('maxPickupDistanceKm must be a positive number or null');
+  }
+
+  if (minFare !== undefined && minFare !== null &&
+    (typeof minFare !== 'number' || !(minFare >= 0))) {
+    throw new BadRequestError('minFare must be a positive number or null');
+  }
+}
+
+/**
+ * Update the ride preferences of a driver (only the fields given)
+ */
+export async function updateDriverPreferences(userId: string, preferences: Partial<DriverPreferences>) {
+  validateDriverPreferences(preferences);
+
+  const driverProfile = await db.driverProfile.findUnique({
+    where: { userId: userId }
+  });
+
+  if (!driverProfile) {
+    throw new NotFoundError('Driver profile not found');
+  }
+
+  return db.driverProfile.update({
+    where: { id: driverProfile.id },
+    data: {
+      ...(preferences.acceptedRideTypes !== undefined && {
+        acceptedRideTypes: [...new Set(preferences.acceptedRideTypes)],
+      }),
+      ...(preferences.maxPickupDistanceKm !== undefined && { maxPickupDistanceKm: preferences.maxPickupDistanceKm }),
+      ...(preferences.minFare !== undefined && { minFare: preferences.minFare }),
+    },
+    select: preferencesSelect,
+  });
+}
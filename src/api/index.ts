@@ -6,6 +6,9 @@ import rides from "./ride/ride.route";
 import wallet from "./wallet/wallet.route";
 import giftcards from "./giftcard/giftcard.route";
 import ratings from "./rating/rating.route";
+import tariffs from "./tariff/tariff.route";
+import promos from "./promo/promo.route";
+import trips from "./trip/trip.route";
 
 const router = express.Router();
 
@@ -29,4 +32,10 @@ router.use('/giftcards', giftcards);
 
 router.use('/ratings', ratings);
 
+router.use('/tariffs', tariffs);
+
+router.use('/promos', promos);
+
+router.use('/trips', trips);
+
 export = router;
\ No newline at end of file
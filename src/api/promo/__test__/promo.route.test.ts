@@ -0,0 +1,140 @@
+import express from "express";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+import { PromoDiscountType, Role } from "@prisma/client";
+import promoRouter from "../promo.route";
+import { BadRequestError } from "../../../utils/errors";
+
+// Mock the promo services
+jest.mock("../promo.services", () => ({
+    createPromoCode: jest.fn(),
+    getAllPromoCodes: jest.fn(),
+    findPromoCodeById: jest.fn(),
+    updatePromoCode: jest.fn(),
+    deactivatePromoCode: jest.fn(),
+}));
+
+import * as promoServices from "../promo.services";
+
+// Mock environment
+process.env.JWT_ACCESS_SECRET = "testsecret";
+
+const app = express();
+app.use(express.json());
+app.use("/promos", promoRouter);
+
+describe("Promo Routes", () => {
+    const userPayload = { userId: "user-123", role: Role.USER };
+    const adminPayload = { userId: "admin-123", role: Role.ADMIN };
+
+    const generateToken = (payload: any) => {
+        return jwt.sign(payload, process.env.JWT_ACCESS_SECRET!, {
+            expiresIn: "1h",
+        });
+    };
+
+    const validBody = {
+        code: "WELCOME",
+        discountType: PromoDiscountType.PERCENTAGE,
+        discountValue: 0.2,
+        maxDiscount: 300,
+        firstRideOnly: true,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("POST /promos", () => {
+        it("should allow admin to create a promo code", async () => {
+            (promoServices.createPromoCode as jest.Mock).mockResolvedValue({ id: "promo-1", ...validBody });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/promos")
+                .set("Authorization", `Bearer ${token}`)
+                .send(validBody);
+
+            expect(res.status).toBe(201);
+            expect(res.body.code).toBe("WELCOME");
+            expect(promoServices.createPromoCode).toHaveBeenCalledWith(validBody, "admin-123");
+        });
+
+        it("should reject missing required fields", async () => {
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/promos")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ code: "WELCOME" });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Missing required fields: discountType, discountValue");
+        });
+
+        it("should surface validation errors as 400", async () => {
+            (promoServices.createPromoCode as jest.Mock).mockRejectedValue(
+                new BadRequestError("Promo code already exists")
+            );
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/promos")
+                .set("Authorization", `Bearer ${token}`)
+                .send(validBody);
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Promo code already exists");
+        });
+
+        it("should reject non-admin users (403 Forbidden)", async () => {
+            const token = generateToken(userPayload);
+            const res = await request(app)
+                .post("/promos")
+                .set("Authorization", `Bearer ${token}`)
+                .send(validBody);
+
+            expect(res.status).toBe(403);
+            expect(promoServices.createPromoCode).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("GET /promos/:promoId", () => {
+        it("should return 404 for an unknown promo code", async () => {
+            (promoServices.findPromoCodeById as jest.Mock).mockResolvedValue(null);
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .get("/promos/missing")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    describe("PUT /promos/:promoId", () => {
+        it("should not allow changing the code", async () => {
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .put("/promos/promo-1")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ code: "OTHER" });
+
+            expect(res.status).toBe(400);
+            expect(promoServices.updatePromoCode).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("DELETE /promos/:promoId", () => {
+        it("should deactivate the promo code", async () => {
+            (promoServices.deactivatePromoCode as jest.Mock).mockResolvedValue({ id: "promo-1", isActive: false });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .delete("/promos/promo-1")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.isActive).toBe(false);
+        });
+    });
+});
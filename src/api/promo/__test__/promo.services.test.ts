@@ -0,0 +1,286 @@
+import { PromoDiscountType, RideType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import * as geocoding from "../../../utils/geocoding";
+import {
+    createPromoCode,
+    updatePromoCode,
+    calculatePromoDiscount,
+    applyPromoCode,
+    reapplyPromoCode,
+    redeemPromoCode,
+} from "../promo.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        promoCode: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+        },
+        promoRedemption: {
+            count: jest.fn(),
+            create: jest.fn(),
+        },
+        ride: {
+            count: jest.fn(),
+        },
+    },
+}));
+
+// Mock the region lookup, keep the code normalization
+jest.mock("../../../utils/geocoding", () => ({
+    ...jest.requireActual("../../../utils/geocoding"),
+    reverseGeocodeRegion: jest.fn(),
+}));
+
+describe("Promo Code Services", () => {
+    const promoDefaults = {
+        id: "promo-1",
+        code: "WELCOME",
+        description: null,
+        discountType: PromoDiscountType.PERCENTAGE,
+        discountValue: 0.2,
+        maxDiscount: null as number | null,
+        minFare: null as number | null,
+        maxRedemptions: null as number | null,
+        perUserLimit: 1,
+        firstRideOnly: false,
+        startsAt: null as Date | null,
+        endsAt: null as Date | null,
+        rideTypes: [] as RideType[],
+        wilayaCodes: [] as string[],
+        isActive: true,
+        createdBy: "admin-123",
+        createdAt: new Date("2026-01-01"),
+        updatedAt: new Date("2026-01-01"),
+    };
+
+    const trip = { type: RideType.REGULAR, originLat: 36.7538, originLng: 3.0588 };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (db.promoRedemption.count as jest.Mock).mockResolvedValue(0);
+        (db.ride.count as jest.Mock).mockResolvedValue(0);
+    });
+
+    describe("createPromoCode", () => {
+        it("should store the code upper-case with normalized restrictions", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue(null);
+            (db.promoCode.create as jest.Mock).mockImplementation(({ data }) =>
+                Promise.resolve({ id: "promo-1", ...data })
+            );
+
+            const promo = await createPromoCode({
+                code: " welcome ",
+                discountType: PromoDiscountType.FIXED,
+                discountValue: 200,
+                wilayaCodes: ["DZ-16", 16, "9"],
+            }, "admin-123");
+
+            expect(promo.code).toBe("WELCOME");
+            expect(promo.wilayaCodes).toEqual(["16", "09"]);
+            expect(promo.perUserLimit).toBe(1);
+            expect(promo.createdBy).toBe("admin-123");
+        });
+
+        it("should reject percentages given as whole numbers", async () => {
+            await expect(createPromoCode({
+                code: "HALF",
+                discountType: PromoDiscountType.PERCENTAGE,
+                discountValue: 50,
+            }, "admin-123")).rejects.toThrow("discountValue 0.2 means 20% off");
+            expect(db.promoCode.create).not.toHaveBeenCalled();
+        });
+
+        it("should reject a duplicate code", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue(promoDefaults);
+
+            await expect(createPromoCode({
+                code: "welcome",
+                discountType: PromoDiscountType.FIXED,
+                discountValue: 200,
+            }, "admin-123")).rejects.toThrow("Promo code already exists");
+        });
+    });
+
+    describe("updatePromoCode", () => {
+        it("should validate the merged validity window", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue({
+                ...promoDefaults,
+                endsAt: new Date("2026-03-01"),
+            });
+
+            await expect(updatePromoCode("promo-1", { startsAt: new Date("2026-04-01") })).rejects.toThrow(
+                "startsAt must be before endsAt"
+            );
+            expect(db.promoCode.update).not.toHaveBeenCalled();
+        });
+
+        it("should throw when the promo code does not exist", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(updatePromoCode("missing", { isActive: false })).rejects.toThrow("Promo code not found");
+        });
+    });
+
+    describe("calculatePromoDiscount", () => {
+        it("should apply percentages with their cap", () => {
+            expect(calculatePromoDiscount(promoDefaults, 1000)).toBe(200);
+            expect(calculatePromoDiscount({ ...promoDefaults, maxDiscount: 150 }, 1000)).toBe(150);
+        });
+
+        it("should never discount more than the price", () => {
+            const fixed = { ...promoDefaults, discountType: PromoDiscountType.FIXED, discountValue: 500 };
+
+            expect(calculatePromoDiscount(fixed, 1000)).toBe(500);
+            expect(calculatePromoDiscount(fixed, 300)).toBe(300);
+        });
+    });
+
+    describe("applyPromoCode", () => {
+        it("should return the discount of a valid code", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue(promoDefaults);
+
+            const result = await applyPromoCode("welcome", "user-1", trip, 1000);
+
+            expect(db.promoCode.findUnique).toHaveBeenCalledWith({ where: { code: "WELCOME" } });
+            expect(result.discountAmount).toBe(200);
+        });
+
+        it("should reject unknown, inactive and out-of-window codes", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValueOnce(null);
+            await expect(applyPromoCode("NOPE", "user-1", trip, 1000)).rejects.toThrow("Invalid promo code");
+
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValueOnce({ ...promoDefaults, isActive: false });
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).rejects.toThrow("Invalid promo code");
+
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...promoDefaults,
+                endsAt: new Date(Date.now() - 1000),
+            });
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).rejects.toThrow("Promo code has expired");
+
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...promoDefaults,
+                startsAt: new Date(Date.now() + 60 * 1000),
+            });
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).rejects.toThrow("Promo code is not valid yet");
+        });
+
+        it("should enforce the global cap and the per-user limit", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue({ ...promoDefaults, maxRedemptions: 100 });
+
+            (db.promoRedemption.count as jest.Mock).mockResolvedValueOnce(100);
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).rejects.toThrow(
+                "Promo code is no longer available"
+            );
+
+            (db.promoRedemption.count as jest.Mock).mockResolvedValueOnce(10).mockResolvedValueOnce(1);
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).rejects.toThrow(
+                "You have already used this promo code"
+            );
+            expect(db.promoRedemption.count).toHaveBeenLastCalledWith({
+                where: { promoCodeId: "promo-1", userId: "user-1" },
+            });
+        });
+
+        it("should only allow first-ride codes before any completed ride", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue({ ...promoDefaults, firstRideOnly: true });
+            (db.ride.count as jest.Mock).mockResolvedValue(1);
+
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).rejects.toThrow(
+                "Promo code is only valid on your first ride"
+            );
+        });
+
+        it("should enforce ride type and minimum fare restrictions", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue({
+                ...promoDefaults,
+                rideTypes: [RideType.DELIVERY],
+                minFare: 500,
+            });
+
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).rejects.toThrow(
+                "Promo code is only valid for DELIVERY rides"
+            );
+            await expect(
+                applyPromoCode("WELCOME", "user-1", { ...trip, type: RideType.DELIVERY }, 400)
+            ).rejects.toThrow("Promo code requires a fare of at least 500 DA");
+        });
+
+        it("should match the wilaya of the pickup point", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue({ ...promoDefaults, wilayaCodes: ["31"] });
+            (geocoding.reverseGeocodeRegion as jest.Mock).mockResolvedValue({
+                wilayaCode: "16",
+                wilaya: "Alger",
+                commune: null,
+            });
+
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).rejects.toThrow(
+                "Promo code is not valid in this area"
+            );
+            expect(geocoding.reverseGeocodeRegion).toHaveBeenCalledWith(36.7538, 3.0588);
+
+            (geocoding.reverseGeocodeRegion as jest.Mock).mockResolvedValue({
+                wilayaCode: "31",
+                wilaya: "Oran",
+                commune: null,
+            });
+            await expect(applyPromoCode("WELCOME", "user-1", trip, 1000)).resolves.toEqual(
+                expect.objectContaining({ discountAmount: 200 })
+            );
+        });
+
+        it("should not geocode codes valid everywhere", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue(promoDefaults);
+
+            await applyPromoCode("WELCOME", "user-1", trip, 1000);
+
+            expect(geocoding.reverseGeocodeRegion).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("reapplyPromoCode", () => {
+        it("should recompute the discount on the new price", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue({ ...promoDefaults, minFare: 500 });
+
+            expect(await reapplyPromoCode("promo-1", trip, 1500)).toBe(300);
+            expect(db.promoCode.findUnique).toHaveBeenCalledWith({ where: { id: "promo-1" } });
+            // Already redeemed on the ride: the limits are not counted again
+            expect(db.promoRedemption.count).not.toHaveBeenCalled();
+        });
+
+        it("should drop a code the edited trip no longer qualifies for", async () => {
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue({ ...promoDefaults, minFare: 500 });
+            expect(await reapplyPromoCode("promo-1", trip, 400)).toBeNull();
+
+            (db.promoCode.findUnique as jest.Mock).mockResolvedValue({ ...promoDefaults, wilayaCodes: ["16"] });
+            (geocoding.reverseGeocodeRegion as jest.Mock).mockResolvedValue({
+                wilayaCode: "09",
+                wilaya: "Blida",
+                commune: null,
+            });
+            expect(await reapplyPromoCode("promo-1", { ...trip, originLat: 36.47, originLng: 2.83 }, 1000)).toBeNull();
+            expect(geocoding.reverseGeocodeRegion).toHaveBeenCalledWith(36.47, 2.83);
+        });
+    });
+
+    describe("redeemPromoCode", () => {
+        it("should record the use on the ride within the limits", async () => {
+            await redeemPromoCode(db, promoDefaults, "user-1", "ride-1");
+
+            expect(db.promoRedemption.create).toHaveBeenCalledWith({
+                data: { promoCodeId: "promo-1", userId: "user-1", rideId: "ride-1" },
+            });
+        });
+
+        it("should check the limits again when redeeming", async () => {
+            (db.promoRedemption.count as jest.Mock).mockResolvedValueOnce(100);
+
+            await expect(redeemPromoCode(db, { ...promoDefaults, maxRedemptions: 100 }, "user-1", "ride-1"))
+                .rejects.toThrow("Promo code is no longer available");
+            expect(db.promoRedemption.create).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,152 @@
+import express, { Request, Response } from "express";
+import { JwtPayload } from "jsonwebtoken";
+import { isAuthenticated, requireRole } from "../../middlewares/middlewares";
+import {
+    createPromoCode,
+    getAllPromoCodes,
+    findPromoCodeById,
+    updatePromoCode,
+    deactivatePromoCode,
+} from "./promo.services";
+import { Role } from "@prisma/client";
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+    payload?: JwtPayload & { userId: string; role: Role };
+}
+
+interface CustomError extends Error {
+    statusCode?: number;
+}
+
+const REQUIRED_FIELDS = ["code", "discountType", "discountValue"] as const;
+
+/**
+ * POST /promos - Create a promo code (admin only)
+ */
+router.post(
+    "/",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { userId } = req.payload!;
+
+            const missing = REQUIRED_FIELDS.filter((field) => req.body[field] === undefined);
+            if (missing.length > 0) {
+                return res.status(400).json({
+                    error: `Missing required fields: ${missing.join(", ")}`,
+                });
+            }
+
+            const promo = await createPromoCode(req.body, userId);
+
+            res.status(201).json(promo);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /promos - List all promo codes with their redemption counts (admin only)
+ */
+router.get(
+    "/",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const promos = await getAllPromoCodes();
+            res.json(promos);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /promos/:promoId - Get a promo code by ID (admin only)
+ */
+router.get(
+    "/:promoId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { promoId } = req.params;
+
+            if (!promoId) {
+                return res.status(400).json({ error: "promoId is required" });
+            }
+
+            const promo = await findPromoCodeById(promoId);
+
+            if (!promo) {
+                return res.status(404).json({ error: "Promo code not found" });
+            }
+
+            res.json(promo);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /promos/:promoId - Update a promo code (admin only)
+ */
+router.put(
+    "/:promoId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { promoId } = req.params;
+
+            if (!promoId) {
+                return res.status(400).json({ error: "promoId is required" });
+            }
+
+            if (req.body.code !== undefined) {
+                return res.status(400).json({ error: "code cannot be changed" });
+            }
+
+            const promo = await updatePromoCode(promoId, req.body);
+            res.json(promo);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * DELETE /promos/:promoId - Deactivate a promo code (admin only)
+ */
+router.delete(
+    "/:promoId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { promoId } = req.params;
+
+            if (!promoId) {
+                return res.status(400).json({ error: "promoId is required" });
+            }
+
+            const promo = await deactivatePromoCode(promoId);
+            res.json(promo);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+export = router;
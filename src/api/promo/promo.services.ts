@@ -0,0 +1,414 @@
+import { Prisma, PromoCode, PromoDiscountType, RideStatus, RideType } from "@prisma/client";
+import { db } from "../../utils/db";
+import { normalizeWilayaCode, reverseGeocodeRegion } from "../../utils/geocoding";
+import { BadRequestError, NotFoundError } from "../../utils/errors";
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+/**
+ * Fields an admin can set on a promo code
+ */
+export interface PromoCodeInput {
+    code: string;
+    description?: string | null;
+    discountType: PromoDiscountType;
+    discountValue: number;
+    maxDiscount?: number | null;
+    minFare?: number | null;
+    maxRedemptions?: number | null;
+    perUserLimit?: number;
+    firstRideOnly?: boolean;
+    startsAt?: Date | null;
+    endsAt?: Date | null;
+    rideTypes?: RideType[];
+    wilayaCodes?: Array<string | number>;
+    isActive?: boolean;
+}
+
+/**
+ * Trip a promo code is applied to
+ */
+export interface PromoTrip {
+    type: RideType;
+    originLat?: number;
+    originLng?: number;
+}
+
+const normalizeCode = (code: string) => String(code).trim().toUpperCase();
+
+const toDateOrNull = (value: Date | null | undefined) => (value ? new Date(value) : null);
+
+const isPositiveIntegerOrNull = (value: unknown) =>
+    value === null || (typeof value === "number" && Number.isInteger(value) && value > 0);
+
+/**
+ * Validate promo code values (only the fields that are present)
+ */
+function validatePromoInput(data: Partial<PromoCodeInput>) {
+    if (data.code !== undefined && !CODE_PATTERN.test(normalizeCode(data.code))) {
+        throw new BadRequestError("code must be 3 to 32 letters, digits, dashes or underscores");
+    }
+
+    if (data.discountType !== undefined && !Object.values(PromoDiscountType).includes(data.discountType)) {
+        throw new BadRequestError(`discountType must be one of ${Object.values(PromoDiscountType).join(", ")}`);
+    }
+
+    if (data.discountValue !== undefined && (typeof data.discountValue !== "number" || isNaN(data.discountValue) || data.discountValue <= 0)) {
+        throw new BadRequestError("discountValue must be a positive number");
+    }
+
+    for (const field of ["maxDiscount", "minFare", "maxRedemptions"] as const) {
+        if (data[field] !== undefined && !isPositiveIntegerOrNull(data[field])) {
+            throw new BadRequestError(`${field} must be a positive whole number`);
+        }
+    }
+
+    if (data.perUserLimit !== undefined && !isPositiveIntegerOrNull(data.perUserLimit)) {
+        throw new BadRequestError("perUserLimit must be a positive whole number");
+    }
+
+    for (const field of ["startsAt", "endsAt"] as const) {
+        const value = data[field];
+        if (value !== undefined && value !== null && isNaN(new Date(value).getTime())) {
+            throw new BadRequestError(`${field} must be a valid date`);
+        }
+    }
+
+    if (data.rideTypes !== undefined) {
+        const isValidTypes =
+            Array.isArray(data.rideTypes) &&
+            data.rideTypes.every((type) => Object.values(RideType).includes(type));
+
+        if (!isValidTypes) {
+            throw new BadRequestError(`rideTypes must be a list of ${Object.values(RideType).join(", ")}`);
+        }
+    }
+
+    if (data.wilayaCodes !== undefined) {
+        if (!Array.isArray(data.wilayaCodes) || data.wilayaCodes.some((c) => normalizeWilayaCode(c) === null)) {
+            throw new BadRequestError("wilayaCodes must be a list of wilaya codes (e.g. \"16\")");
+        }
+    }
+}
+
+/**
+ * Check the promo code as a whole once the new values are merged with the stored ones
+ */
+function validatePromoDiscount(promo: {
+    discountType: PromoDiscountType;
+    discountValue: number;
+    startsAt: Date | null;
+    endsAt: Date | null;
+}) {
+    if (promo.discountType === PromoDiscountType.PERCENTAGE && promo.discountValue > 1) {
+        throw new BadRequestError("Percentage discounts are fractions: discountValue 0.2 means 20% off");
+    }
+
+    if (promo.discountType === PromoDiscountType.FIXED && !Number.isInteger(promo.discountValue)) {
+        throw new BadRequestError("Fixed discounts must be a whole number of DA");
+    }
+
+    if (promo.startsAt && promo.endsAt && promo.startsAt > promo.endsAt) {
+        throw new BadRequestError("startsAt must be before endsAt");
+    }
+}
+
+const normalizeWilayaCodes = (codes: Array<string | number>) =>
+    [...new Set(codes.map((c) => normalizeWilayaCode(c)!))];
+
+/**
+ * Create a promo code (admin only)
+ */
+export async function createPromoCode(data: PromoCodeInput, adminId: string) {
+    validatePromoInput(data);
+
+    const code = normalizeCode(data.code);
+    const discount = {
+        discountType: data.discountType,
+        discountValue: data.discountValue,
+        startsAt: toDateOrNull(data.startsAt),
+        endsAt: toDateOrNull(data.endsAt),
+    };
+    validatePromoDiscount(discount);
+
+    const existing = await db.promoCode.findUnique({
+        where: { code },
+    });
+
+    if (existing) {
+        throw new BadRequestError("Promo code already exists");
+    }
+
+    return db.promoCode.create({
+        data: {
+            code,
+            description: data.description ?? null,
+            ...discount,
+            maxDiscount: data.maxDiscount ?? null,
+            minFare: data.minFare ?? null,
+            maxRedemptions: data.maxRedemptions ?? null,
+            perUserLimit: data.perUserLimit ?? 1,
+            firstRideOnly: data.firstRideOnly ?? false,
+            rideTypes: [...new Set(data.rideTypes ?? [])],
+            wilayaCodes: normalizeWilayaCodes(data.wilayaCodes ?? []),
+            isActive: data.isActive ?? true,
+            createdBy: adminId,
+        },
+    });
+}
+
+/**
+ * Get all promo codes with their redemption counts (admin only)
+ */
+export async function getAllPromoCodes() {
+    return db.promoCode.findMany({
+        include: { _count: { select: { redemptions: true } } },
+        orderBy: [{ isActive: "desc" }, { createdAt: "desc" }],
+    });
+}
+
+/**
+ * Find a promo code by ID with its redemption count
+ */
+export async function findPromoCodeById(promoId: string) {
+    return db.promoCode.findUnique({
+        where: { id: promoId },
+        include: { _count: { select: { redemptions: true } } },
+    });
+}
+
+/**
+ * Update a promo code (admin only)
+ * The code itself cannot change once created
+ */
+export async function updatePromoCode(promoId: string, data: Partial<Omit<PromoCodeInput, "code">>) {
+    validatePromoInput(data);
+
+    const promo = await db.promoCode.findUnique({
+        where: { id: promoId },
+    });
+
+    if (!promo) {
+        throw new NotFoundError("Promo code not found");
+    }
+
+    const discount = {
+        discountType: data.discountType ?? promo.discountType,
+        discountValue: data.discountValue ?? promo.discountValue,
+        startsAt: data.startsAt !== undefined ? toDateOrNull(data.startsAt) : promo.startsAt,
+        endsAt: data.endsAt !== undefined ? toDateOrNull(data.endsAt) : promo.endsAt,
+    };
+    validatePromoDiscount(discount);
+
+    return db.promoCode.update({
+        where: { id: promoId },
+        data: {
+            ...discount,
+            ...(data.description !== undefined && { description: data.description }),
+            ...(data.maxDiscount !== undefined && { maxDiscount: data.maxDiscount }),
+            ...(data.minFare !== undefined && { minFare: data.minFare }),
+            ...(data.maxRedemptions !== undefined && { maxRedemptions: data.maxRedemptions }),
+            ...(data.perUserLimit !== undefined && { perUserLimit: data.perUserLimit }),
+            ...(data.firstRideOnly !== undefined && { firstRideOnly: data.firstRideOnly }),
+            ...(data.rideTypes !== undefined && { rideTypes: [...new Set(data.rideTypes)] }),
+            ...(data.wilayaCodes !== undefined && { wilayaCodes: normalizeWilayaCodes(data.wilayaCodes) }),
+            ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+    });
+}
+
+/**
+ * Deactivate a promo code (admin only)
+ */
+export async function deactivatePromoCode(promoId: string) {
+    const promo = await db.promoCode.findUnique({
+        where: { id: promoId },
+    });
+
+    if (!promo) {
+        throw new NotFoundError("Promo code not found");
+    }
+
+    return db.promoCode.update({
+        where: { id: promoId },
+        data: { isActive: false },
+    });
+}
+
+/**
+ * Calculate the discount of a promo code on a ride price
+ * The discount never exceeds the price
+ */
+export function calculatePromoDiscount(promo: PromoCode, price: number) {
+    const discount =
+        promo.discountType === PromoDiscountType.PERCENTAGE
+            ? Math.floor(price * promo.discountValue)
+            : promo.discountValue;
+
+    const capped = promo.maxDiscount !== null ? Math.min(discount, promo.maxDiscount) : discount;
+
+    return Math.max(Math.min(capped, price), 0);
+}
+
+/**
+ * Check the global and per-passenger usage limits of a promo code
+ */
+async function assertPromoLimits(client: Prisma.TransactionClient, promo: PromoCode, userId: string) {
+    if (promo.maxRedemptions !== null) {
+        const totalRedemptions = await client.promoRedemption.count({
+            where: { promoCodeId: promo.id },
+        });
+
+        if (totalRedemptions >= promo.maxRedemptions) {
+            throw new BadRequestError("Promo code is no longer available");
+        }
+    }
+
+    const userRedemptions = await client.promoRedemption.count({
+        where: { promoCodeId: promo.id, userId },
+    });
+
+    if (userRedemptions >= promo.perUserLimit) {
+        throw new BadRequestError("You have already used this promo code");
+    }
+}
+
+/**
+ * Check the trip restrictions of a promo code: ride type, minimum fare and pickup wilaya
+ */
+async function assertPromoTrip(promo: PromoCode, trip: PromoTrip, price: number) {
+    if (promo.rideTypes.length > 0 && !promo.rideTypes.includes(trip.type)) {
+        throw new BadRequestError(`Promo code is only valid for ${promo.rideTypes.join(", ")} rides`);
+    }
+
+    if (promo.minFare !== null && price < promo.minFare) {
+        throw new BadRequestError(`Promo code requires a fare of at least ${promo.minFare} DA`);
+    }
+
+    // Only geocode when the code is restricted to some wilayas
+    if (promo.wilayaCodes.length > 0) {
+        const region =
+            trip.originLat !== undefined && trip.originLng !== undefined
+                ? await reverseGeocodeRegion(trip.originLat, trip.originLng)
+                : null;
+
+        if (!region?.wilayaCode || !promo.wilayaCodes.includes(region.wilayaCode)) {
+            throw new BadRequestError("Promo code is not valid in this area");
+        }
+    }
+}
+
+/**
+ * Validate a promo code for a passenger's trip and compute its discount
+ *
+ * @param code - Code entered by the passenger
+ * @param userId - Passenger applying the code
+ * @param trip - Ride type and pickup point
+ * @param price - Ride price before discount
+ * @throws BadRequestError if the code cannot be used on this ride
+ */
+export async function applyPromoCode(code: string, userId: string, trip: PromoTrip, price: number) {
+    const promo = await db.promoCode.findUnique({
+        where: { code: normalizeCode(code) },
+    });
+
+    if (!promo || !promo.isActive) {
+        throw new BadRequestError("Invalid promo code");
+    }
+
+    const now = new Date();
+    if (promo.startsAt && promo.startsAt > now) {
+        throw new BadRequestError("Promo code is not valid yet");
+    }
+
+    if (promo.endsAt && promo.endsAt < now) {
+        throw new BadRequestError("Promo code has expired");
+    }
+
+    await assertPromoTrip(promo, trip, price);
+
+    await assertPromoLimits(db, promo, userId);
+
+    if (promo.firstRideOnly) {
+        const completedRides = await db.ride.count({
+            where: { userId, status: RideStatus.COMPLETED },
+        });
+
+        if (completedRides > 0) {
+            throw new BadRequestError("Promo code is only valid on your first ride");
+        }
+    }
+
+    return {
+        promoCode: promo,
+        discountAmount: calculatePromoDiscount(promo, price),
+    };
+}
+
+/**
+ * Record a passenger's use of a promo code on a new ride
+ * Run it in the serializable transaction that creates the ride: the limits are
+ * checked again there, so of two bookings racing for the last use only one commits
+ */
+export async function redeemPromoCode(
+    tx: Prisma.TransactionClient,
+    promo: PromoCode,
+    userId: string,
+    rideId: string
+) {
+    await assertPromoLimits(tx, promo, userId);
+
+    return tx.promoRedemption.create({
+        data: { promoCodeId: promo.id, userId, rideId },
+    });
+}
+
+/**
+ * Recompute the discount of an already applied promo code after a price change
+ * (ride accepted at a negotiated fare, or given back at its listed price)
+ */
+export async function getRideDiscount(promoCodeId: string, price: number) {
+    const promo = await db.promoCode.findUnique({
+        where: { id: promoCodeId },
+    });
+
+    return promo ? calculatePromoDiscount(promo, price) : 0;
+}
+
+/**
+ * Check an applied promo code again after the passenger edited their trip,
+ * and recompute its discount on the new price
+ * The trip restrictions are checked as in applyPromoCode; the usage limits
+ * were checked when the code was redeemed on the ride.
+ * @returns The new discount, or null when the code no longer applies to the trip
+ */
+export async function reapplyPromoCode(promoCodeId: string, trip: PromoTrip, price: number) {
+    const promo = await db.promoCode.findUnique({
+        where: { id: promoCodeId },
+    });
+
+    if (!promo) {
+        return null;
+    }
+
+    try {
+        await assertPromoTrip(promo, trip, price);
+    } catch (error) {
+        if (error instanceof BadRequestError) {
+            return null;
+        }
+        throw error;
+    }
+
+    return calculatePromoDiscount(promo, price);
+}
+
+/**
+ * Give a passenger's promo code use back when their ride does not happen
+ * (cancelled, no-show or expired): only rides that take place use up the code
+ */
+export async function releasePromoRedemption(rideId: string) {
+    return db.promoRedemption.deleteMany({
+        where: { rideId },
+    });
+}
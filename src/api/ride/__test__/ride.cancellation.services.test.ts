@@ -0,0 +1,343 @@
+import { CancellationReason, RideActor, RideStatus } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { getDriverLocation } from "../../../socket/handlers/location.handler";
+import { getAvailableDriverLocations } from "../../../socket/handlers/driver-location.handler";
+import { debitAvailableBalance } from "../../wallet/wallet.services";
+import { processPassengerCancellationFee } from "../ride.payment.services";
+import {
+    CANCELLATION_POLICY,
+    calculatePassengerCancellationFee,
+    chargePassengerCancellationFee,
+    collectCancellationDebts,
+    getAcceptanceData,
+    getCancellationReport,
+    validateCancellationReason,
+} from "../ride.cancellation.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        $transaction: jest.fn(),
+        ride: {
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+            groupBy: jest.fn(),
+        },
+        rideCancellation: {
+            findMany: jest.fn(),
+        },
+        user: {
+            findMany: jest.fn(),
+        },
+        cancellationFee: {
+            create: jest.fn(),
+            findMany: jest.fn(),
+            updateMany: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../../socket/handlers/location.handler", () => ({
+    getDriverLocation: jest.fn(),
+}));
+
+jest.mock("../../../socket/handlers/driver-location.handler", () => ({
+    getAvailableDriverLocations: jest.fn(() => new Map()),
+}));
+
+jest.mock("../ride.payment.services", () => ({
+    processPassengerCancellationFee: jest.fn(),
+}));
+
+jest.mock("../../wallet/wallet.services", () => ({
+    debitAvailableBalance: jest.fn(),
+}));
+
+describe("Ride Cancellation Services", () => {
+    const now = new Date("2026-10-19T10:00:00.000Z");
+    const minutesBefore = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+    // The driver accepted ~5.6km north of the pickup point
+    const acceptedRide = {
+        id: "ride-123",
+        status: RideStatus.ACCEPTED,
+        driverId: "driver-123",
+        price: 1200,
+        originLat: 36.75,
+        originLng: 3.05,
+        acceptedAt: minutesBefore(1),
+        acceptLat: 36.8,
+        acceptLng: 3.05,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("getAcceptanceData", () => {
+        it("should record where the driver was when accepting", () => {
+            (getAvailableDriverLocations as jest.Mock).mockReturnValueOnce(
+                new Map([["driver-123", { latitude: 36.8, longitude: 3.05, lastUpdate: now }]])
+            );
+
+            expect(getAcceptanceData("driver-123", now)).toEqual({
+                acceptedAt: now,
+                acceptLat: 36.8,
+                acceptLng: 3.05,
+            });
+        });
+    });
+
+    describe("calculatePassengerCancellationFee", () => {
+        it("should be free within the window while the driver has not moved toward the pickup", () => {
+            (getDriverLocation as jest.Mock).mockReturnValueOnce({ rideId: "ride-123", latitude: 36.8, longitude: 3.05 });
+
+            expect(calculatePassengerCancellationFee(acceptedRide, now).amount).toBe(0);
+        });
+
+        it("should charge the base fee once the free window is over", () => {
+            const fee = calculatePassengerCancellationFee(
+                { ...acceptedRide, acceptedAt: minutesBefore(CANCELLATION_POLICY.FREE_WINDOW_MINUTES + 1) },
+                now
+            );
+
+            expect(fee.amount).toBe(CANCELLATION_POLICY.BASE_FEE);
+            expect(fee.driverCompensation).toBe(Math.floor(CANCELLATION_POLICY.BASE_FEE * CANCELLATION_POLICY.DRIVER_SHARE));
+        });
+
+        it("should charge the distance driven toward the pickup, even within the window", () => {
+            // ~2.2km driven toward the pickup
+            (getDriverLocation as jest.Mock).mockReturnValueOnce({ rideId: "ride-123", latitude: 36.78, longitude: 3.05 });
+
+            const fee = calculatePassengerCancellationFee(acceptedRide, now);
+
+            expect(fee.driverDistanceKm).toBeCloseTo(2.22, 1);
+            expect(fee.amount).toBe(Math.round(CANCELLATION_POLICY.BASE_FEE + CANCELLATION_POLICY.FEE_PER_KM * 2.2239));
+        });
+
+        it("should count the whole approach once the driver arrived, up to the cap", () => {
+            const fee = calculatePassengerCancellationFee(
+                { ...acceptedRide, status: RideStatus.ARRIVED, acceptLat: 37.0 },
+                now
+            );
+
+            expect(fee.driverDistanceKm).toBeGreaterThan(20);
+            expect(fee.amount).toBe(CANCELLATION_POLICY.MAX_FEE);
+        });
+
+        it("should never charge more than the ride price", () => {
+            const fee = calculatePassengerCancellationFee(
+                { ...acceptedRide, status: RideStatus.ARRIVED, acceptLat: 37.0, price: 300 },
+                now
+            );
+
+            expect(fee.amount).toBe(300);
+        });
+
+        it("should ignore the driver's position from another ride", () => {
+            (getDriverLocation as jest.Mock).mockReturnValueOnce({ rideId: "ride-old", latitude: 36.75, longitude: 3.05 });
+
+            expect(calculatePassengerCancellationFee(acceptedRide, now).driverDistanceKm).toBe(0);
+        });
+
+        it("should not charge rides without a driver", () => {
+            const fee = calculatePassengerCancellationFee(
+                { ...acceptedRide, status: RideStatus.PENDING, driverId: null, acceptedAt: minutesBefore(30) },
+                now
+            );
+
+            expect(fee.amount).toBe(0);
+        });
+    });
+
+    describe("chargePassengerCancellationFee", () => {
+        const lateRide = { ...acceptedRide, userId: "passenger-123", acceptedAt: new Date(Date.now() - 10 * 60 * 1000) };
+        const tx = db as any;
+
+        it("should charge the fee and record the debt in the cancelling transaction", async () => {
+            (processPassengerCancellationFee as jest.Mock).mockResolvedValueOnce({
+                chargedAmount: 60,
+                debtAmount: 40,
+                driverCompensation: 80,
+            });
+
+            await chargePassengerCancellationFee(tx, lateRide);
+
+            expect(processPassengerCancellationFee).toHaveBeenCalledWith(
+                tx, "ride-123", "passenger-123", "driver-123", 100, 80
+            );
+            expect(db.cancellationFee.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ amount: 100, chargedAmount: 60, debtAmount: 40 }),
+            });
+        });
+
+        it("should not record a fee when the wallets could not be updated", async () => {
+            (processPassengerCancellationFee as jest.Mock).mockRejectedValueOnce(new Error("Wallet not found"));
+
+            await expect(chargePassengerCancellationFee(tx, lateRide)).rejects.toThrow("Wallet not found");
+            expect(db.cancellationFee.create).not.toHaveBeenCalled();
+        });
+
+        it("should not charge a free cancellation", async () => {
+            expect(await chargePassengerCancellationFee(tx, { ...lateRide, acceptedAt: new Date() })).toBeNull();
+            expect(processPassengerCancellationFee).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("collectCancellationDebts", () => {
+        beforeEach(() => {
+            (db.$transaction as jest.Mock).mockImplementation(async (callback) => callback(db));
+        });
+
+        it("should collect the debts oldest first while the wallet allows", async () => {
+            (db.cancellationFee.findMany as jest.Mock).mockResolvedValueOnce([
+                { id: "fee-1", rideId: "ride-1", debtAmount: 100 },
+                { id: "fee-2", rideId: "ride-2", debtAmount: 150 },
+            ]);
+            (debitAvailableBalance as jest.Mock)
+                .mockResolvedValueOnce(100)
+                .mockResolvedValueOnce(50);
+            (db.cancellationFee.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const remaining = await collectCancellationDebts("passenger-123");
+
+            expect(remaining).toBe(100);
+            expect(debitAvailableBalance).toHaveBeenCalledWith(db, "passenger-123", 100, "Cancellation fee debt: ride-1");
+            expect(db.cancellationFee.updateMany).toHaveBeenCalledWith({
+                where: { id: "fee-1", debtAmount: 100, debtSettledAt: null },
+                data: { chargedAmount: { increment: 100 }, debtAmount: 0, debtSettledAt: expect.any(Date) },
+            });
+            expect(db.cancellationFee.updateMany).toHaveBeenCalledWith({
+                where: { id: "fee-2", debtAmount: 150, debtSettledAt: null },
+                data: { chargedAmount: { increment: 50 }, debtAmount: 100 },
+            });
+        });
+
+        it("should roll the debit back when the debt was collected in the meantime", async () => {
+            (db.cancellationFee.findMany as jest.Mock).mockResolvedValueOnce([
+                { id: "fee-1", rideId: "ride-1", debtAmount: 100 },
+            ]);
+            (debitAvailableBalance as jest.Mock).mockResolvedValueOnce(100);
+            (db.cancellationFee.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(collectCancellationDebts("passenger-123")).rejects.toThrow(
+                "Cancellation fee debt is already being collected"
+            );
+        });
+    });
+
+    describe("Cancellation reasons", () => {
+        it("should only accept the reasons of the actor's catalogue", () => {
+            expect(validateCancellationReason(RideActor.DRIVER, { reason: CancellationReason.VEHICLE_PROBLEM }))
+                .toEqual({ reason: CancellationReason.VEHICLE_PROBLEM });
+
+            expect(() => validateCancellationReason(RideActor.PASSENGER, { reason: CancellationReason.VEHICLE_PROBLEM }))
+                .toThrow(/reason must be one of: DRIVER_TOO_FAR/);
+            expect(() => validateCancellationReason(RideActor.DRIVER, { reason: "BORED" }))
+                .toThrow(/reason must be one of/);
+        });
+
+        it("should require a note for OTHER", () => {
+            expect(() => validateCancellationReason(RideActor.PASSENGER, { reason: CancellationReason.OTHER, note: "  " }))
+                .toThrow("A note is required when the reason is OTHER");
+
+            expect(validateCancellationReason(RideActor.PASSENGER, { reason: CancellationReason.OTHER, note: " Sick " }))
+                .toEqual({ reason: CancellationReason.OTHER, note: "Sick" });
+        });
+    });
+
+    describe("getCancellationReport", () => {
+        const period = { from: new Date("2026-10-01T00:00:00.000Z"), to: new Date("2026-10-19T00:00:00.000Z") };
+
+        it("should compute the rates by reason, driver, wilaya and local hour", async () => {
+            // 08:15 UTC is 09:15 in Algiers
+            const at = new Date("2026-10-10T08:15:00.000Z");
+            (db.ride.findMany as jest.Mock).mockResolvedValueOnce([
+                { createdAt: at, originWilayaCode: "16" },
+                { createdAt: at, originWilayaCode: "16" },
+                { createdAt: at, originWilayaCode: "16" },
+                { createdAt: at, originWilayaCode: "31" },
+            ]);
+            (db.rideCancellation.findMany as jest.Mock).mockResolvedValueOnce([
+                {
+                    actor: RideActor.DRIVER,
+                    reason: CancellationReason.PICKUP_TOO_FAR,
+                    userId: "driver-1",
+                    rideStatus: RideStatus.ACCEPTED,
+                    createdAt: at,
+                    ride: { createdAt: at, originWilayaCode: "16" },
+                },
+                {
+                    actor: RideActor.PASSENGER,
+                    reason: CancellationReason.CHANGED_PLANS,
+                    userId: "passenger-1",
+                    rideStatus: RideStatus.PENDING,
+                    createdAt: at,
+                    ride: { createdAt: at, originWilayaCode: "16" },
+                },
+            ]);
+            (db.ride.groupBy as jest.Mock).mockResolvedValueOnce([{ driverId: "driver-1", _count: { _all: 3 } }]);
+            (db.user.findMany as jest.Mock).mockResolvedValueOnce([{ id: "driver-1", firstName: "Karim" }]);
+
+            const report = await getCancellationReport(period);
+
+            expect(db.rideCancellation.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { ride: { createdAt: { gte: period.from, lt: period.to } } } })
+            );
+            expect(report.totalRides).toBe(4);
+            // The ride the driver gave back went on: only the passenger's cancellation ended a ride
+            expect(report.totalCancellations).toBe(1);
+            expect(report.cancellationRate).toBe(0.25);
+            expect(report.totalGiveBacks).toBe(1);
+            expect(report.byReason).toEqual([
+                { actor: RideActor.PASSENGER, reason: CancellationReason.CHANGED_PLANS, count: 1, rate: 0.25 },
+            ]);
+            expect(report.giveBacksByReason).toEqual([
+                { actor: RideActor.DRIVER, reason: CancellationReason.PICKUP_TOO_FAR, count: 1, rate: 0.25 },
+            ]);
+            // 3 rides still held plus the one given back
+            expect(report.byDriver).toEqual([
+                { driver: { id: "driver-1", firstName: "Karim" }, acceptedRides: 4, cancellations: 1, rate: 0.25 },
+            ]);
+            expect(report.byWilaya).toEqual([
+                { wilayaCode: "16", rides: 3, cancellations: 1, rate: 0.333 },
+                { wilayaCode: "31", rides: 1, cancellations: 0, rate: 0 },
+            ]);
+            expect(report.byHour).toHaveLength(24);
+            expect(report.byHour[9]).toEqual({ hour: 9, rides: 4, cancellations: 1, rate: 0.25 });
+        });
+
+        it("should keep the rate at most 1 when a ride is given back several times", async () => {
+            const at = new Date("2026-10-10T08:15:00.000Z");
+            const giveBack = (driverId: string) => ({
+                actor: RideActor.DRIVER,
+                reason: CancellationReason.PICKUP_TOO_FAR,
+                userId: driverId,
+                rideStatus: RideStatus.ACCEPTED,
+                createdAt: at,
+                ride: { createdAt: at, originWilayaCode: "16" },
+            });
+            (db.ride.findMany as jest.Mock).mockResolvedValueOnce([{ createdAt: at, originWilayaCode: "16" }]);
+            (db.rideCancellation.findMany as jest.Mock).mockResolvedValueOnce([
+                giveBack("driver-1"),
+                giveBack("driver-2"),
+                {
+                    actor: RideActor.PASSENGER,
+                    reason: CancellationReason.CHANGED_PLANS,
+                    userId: "passenger-1",
+                    rideStatus: RideStatus.PENDING,
+                    createdAt: at,
+                    ride: { createdAt: at, originWilayaCode: "16" },
+                },
+            ]);
+            (db.ride.groupBy as jest.Mock).mockResolvedValueOnce([]);
+            (db.user.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+            const report = await getCancellationReport(period);
+
+            expect(report.cancellationRate).toBe(1);
+            expect(report.totalGiveBacks).toBe(2);
+            expect(report.byWilaya[0]!.rate).toBe(1);
+        });
+    });
+});
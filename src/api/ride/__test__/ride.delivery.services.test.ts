@@ -0,0 +1,231 @@
+import { DeliveryPhotoStage, RideStatus, RideType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { hashToken } from "../../../utils/hashToken";
+import { sendSms } from "../../../utils/sms";
+import {
+    validateDeliveryDetails,
+    issueDeliveryCode,
+    verifyDeliveryCode,
+    resendDeliveryCode,
+    addDeliveryPhoto,
+} from "../ride.delivery.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findUnique: jest.fn(),
+        },
+        deliveryCode: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            upsert: jest.fn(),
+        },
+        deliveryPhoto: {
+            create: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../../utils/sms", () => ({
+    sendSms: jest.fn(),
+}));
+
+describe("Ride Delivery Services", () => {
+    const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    const deliveryCode = {
+        rideId: "ride-123",
+        codeHash: hashToken("123456"),
+        expiresAt: inHours(1),
+        attempts: 0,
+        verifiedAt: null as Date | null,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("validateDeliveryDetails", () => {
+        it("should normalise the recipient", () => {
+            expect(validateDeliveryDetails({ recipientName: " Amina ", recipientPhone: "0555 12-34.56" })).toEqual({
+                recipientName: "Amina",
+                recipientPhone: "0555123456",
+            });
+        });
+
+        it("should reject invalid details", () => {
+            expect(() => validateDeliveryDetails({ recipientName: "Amina" })).toThrow(
+                "recipientName and recipientPhone are required"
+            );
+            expect(() => validateDeliveryDetails({ recipientName: "Amina", recipientPhone: "call me" })).toThrow(
+                "recipientPhone must be a valid phone number"
+            );
+            expect(() =>
+                validateDeliveryDetails({ recipientName: "Amina", recipientPhone: "0555123456", packageSize: "HUGE" as any })
+            ).toThrow("packageSize must be one of SMALL, MEDIUM, LARGE");
+        });
+    });
+
+    describe("issueDeliveryCode", () => {
+        it("should store a hashed code and text the plain code to the recipient", async () => {
+            await issueDeliveryCode({ id: "ride-123", recipientPhone: "0555123456" });
+
+            const { create } = (db.deliveryCode.upsert as jest.Mock).mock.calls[0][0];
+            const message = (sendSms as jest.Mock).mock.calls[0][1];
+            const code = message.match(/\d{6}/)[0];
+
+            expect(sendSms).toHaveBeenCalledWith("0555123456", expect.any(String));
+            expect(create.codeHash).toBe(hashToken(code));
+            expect(create.codeHash).not.toContain(code);
+        });
+    });
+
+    describe("verifyDeliveryCode", () => {
+        it("should accept the right code", async () => {
+            (db.deliveryCode.findUnique as jest.Mock).mockResolvedValue(deliveryCode);
+
+            await verifyDeliveryCode("ride-123", "123456");
+
+            expect(db.deliveryCode.update).toHaveBeenCalledWith({
+                where: { rideId: "ride-123" },
+                data: { verifiedAt: expect.any(Date) },
+            });
+        });
+
+        it("should count wrong codes", async () => {
+            (db.deliveryCode.findUnique as jest.Mock).mockResolvedValue({ ...deliveryCode, attempts: 3 });
+            (db.deliveryCode.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+            await expect(verifyDeliveryCode("ride-123", "000000")).rejects.toThrow(
+                "Invalid delivery code (1 attempts left)"
+            );
+            expect(db.deliveryCode.updateMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", attempts: { lt: 5 } },
+                data: { attempts: { increment: 1 } },
+            });
+        });
+
+        it("should not count guesses past the limit when they race", async () => {
+            // Read before the other guesses were counted
+            (db.deliveryCode.findUnique as jest.Mock).mockResolvedValue({ ...deliveryCode, attempts: 4 });
+            (db.deliveryCode.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(verifyDeliveryCode("ride-123", "000000")).rejects.toThrow("Too many wrong codes");
+        });
+
+        it("should lock the code after too many wrong attempts", async () => {
+            (db.deliveryCode.findUnique as jest.Mock).mockResolvedValue({ ...deliveryCode, attempts: 5 });
+
+            await expect(verifyDeliveryCode("ride-123", "123456")).rejects.toThrow("Too many wrong codes");
+        });
+
+        it("should reject expired codes", async () => {
+            (db.deliveryCode.findUnique as jest.Mock).mockResolvedValue({ ...deliveryCode, expiresAt: inHours(-1) });
+
+            await expect(verifyDeliveryCode("ride-123", "123456")).rejects.toThrow("Delivery code has expired");
+        });
+
+        it("should require a code that was sent", async () => {
+            (db.deliveryCode.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(verifyDeliveryCode("ride-123", "123456")).rejects.toThrow(
+                "No delivery code was sent for this ride"
+            );
+        });
+    });
+
+    describe("resendDeliveryCode", () => {
+        const ride = {
+            id: "ride-123",
+            userId: "sender-123",
+            type: RideType.DELIVERY,
+            status: RideStatus.ONGOING,
+            recipientPhone: "0555123456",
+        };
+
+        it("should let the sender send a new code", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            await resendDeliveryCode("ride-123", "sender-123");
+
+            expect(db.deliveryCode.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    update: expect.objectContaining({ attempts: 0, verifiedAt: null }),
+                })
+            );
+            expect(sendSms).toHaveBeenCalled();
+        });
+
+        it("should only send codes for picked up deliveries of the sender", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+            await expect(resendDeliveryCode("ride-123", "driver-123")).rejects.toThrow(
+                "Only the sender can send a new delivery code"
+            );
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...ride, status: RideStatus.ACCEPTED });
+            await expect(resendDeliveryCode("ride-123", "sender-123")).rejects.toThrow(
+                "A delivery code is sent once the package is picked up"
+            );
+            expect(sendSms).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("addDeliveryPhoto", () => {
+        const ride = {
+            id: "ride-123",
+            userId: "sender-123",
+            driverId: "driver-123",
+            type: RideType.DELIVERY,
+            status: RideStatus.ACCEPTED,
+        };
+        const photo = {
+            stage: DeliveryPhotoStage.PICKUP,
+            url: "uploads/deliveries/pickup.jpg",
+            lat: 36.7538,
+            lng: 3.0588,
+        };
+
+        it("should store the photo with the driver's position", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            await addDeliveryPhoto("ride-123", "driver-123", photo);
+
+            expect(db.deliveryPhoto.create).toHaveBeenCalledWith({
+                data: { rideId: "ride-123", driverId: "driver-123", ...photo },
+            });
+        });
+
+        it("should only take the drop-off photo while the package is on its way", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            await expect(
+                addDeliveryPhoto("ride-123", "driver-123", { ...photo, stage: DeliveryPhotoStage.DROPOFF })
+            ).rejects.toThrow("Cannot upload a DROPOFF photo for a ACCEPTED delivery");
+            expect(db.deliveryPhoto.create).not.toHaveBeenCalled();
+        });
+
+        it("should only let the assigned driver upload photos of a delivery", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+            await expect(addDeliveryPhoto("ride-123", "driver-456", photo)).rejects.toThrow(
+                "Only the assigned driver can upload delivery photos"
+            );
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...ride, type: RideType.REGULAR });
+            await expect(addDeliveryPhoto("ride-123", "driver-123", photo)).rejects.toThrow(
+                "Only deliveries have delivery photos"
+            );
+        });
+
+        it("should reject an invalid stage or position", async () => {
+            await expect(
+                addDeliveryPhoto("ride-123", "driver-123", { ...photo, stage: "MIDWAY" as DeliveryPhotoStage })
+            ).rejects.toThrow("stage must be one of PICKUP, DROPOFF");
+            await expect(addDeliveryPhoto("ride-123", "driver-123", { ...photo, lat: NaN })).rejects.toThrow(
+                "lat and lng of the driver are required"
+            );
+            expect(db.ride.findUnique).not.toHaveBeenCalled();
+        });
+    });
+});
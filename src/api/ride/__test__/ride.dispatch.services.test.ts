@@ -0,0 +1,422 @@
+import { DispatchMode, DispatchOfferStatus, RideStatus, RideType, VehicleType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { getAvailableDriverLocations } from "../../../socket/handlers/driver-location.handler";
+import {
+    DISPATCH_CONFIG,
+    getDispatchMode,
+    scoreDispatchCandidate,
+    rankDispatchCandidates,
+    dispatchRide,
+    offerRideToNextDriver,
+    expireDispatchOffer,
+    declineDispatchOffer,
+    assertHoldsDispatchOffer,
+    closeDispatchOffers,
+    expireStaleDispatchOffers,
+} from "../ride.dispatch.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findUnique: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        rating: {
+            groupBy: jest.fn(),
+        },
+        driverProfile: {
+            findMany: jest.fn(),
+        },
+        dispatchOffer: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            findFirst: jest.fn(),
+            findMany: jest.fn(),
+            groupBy: jest.fn(),
+            updateMany: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../../socket/handlers/driver-location.handler", () => ({
+    getAvailableDriverLocations: jest.fn(),
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitRideCreated: jest.fn(),
+    emitDispatchOffer: jest.fn(),
+    emitDispatchOfferExpired: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+describe("Ride Dispatch Services", () => {
+    const sequentialRide = {
+        id: "ride-123",
+        userId: "passenger-123",
+        type: RideType.REGULAR,
+        status: RideStatus.PENDING,
+        dispatchMode: DispatchMode.SEQUENTIAL,
+        price: 1000,
+        originLat: 36.75,
+        originLng: 3.05,
+        searchRadiusKm: null,
+        dispatchOffers: [] as Array<{ driverId: string; status: DispatchOfferStatus }>,
+    };
+
+    const offer = {
+        id: "dispatch-1",
+        rideId: "ride-123",
+        driverId: "driver-near",
+        status: DispatchOfferStatus.OFFERED,
+        etaMinutes: 0,
+        expiresAt: new Date(Date.now() + 20 * 1000),
+    };
+
+    const originalConfig = { ...DISPATCH_CONFIG };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.useFakeTimers();
+
+        const drivers = new Map();
+        drivers.set("driver-near", { latitude: 36.751, longitude: 3.051, lastUpdate: new Date() }); // ~0.1km
+        drivers.set("driver-mid", { latitude: 36.79, longitude: 3.05, lastUpdate: new Date() });    // ~4.5km
+        drivers.set("driver-far", { latitude: 37.0, longitude: 3.05, lastUpdate: new Date() });     // ~28km
+        (getAvailableDriverLocations as jest.Mock).mockReturnValue(drivers);
+        (db.driverProfile.findMany as jest.Mock).mockResolvedValue(
+            ["driver-near", "driver-mid", "driver-far"].map((userId) => ({
+                userId,
+                acceptedRideTypes: [],
+                maxPickupDistanceKm: null,
+                minFare: null,
+                vehicles: [{ type: VehicleType.CAR }],
+            }))
+        );
+        (db.rating.groupBy as jest.Mock).mockResolvedValue([]);
+        (db.dispatchOffer.groupBy as jest.Mock).mockResolvedValue([]);
+        (db.dispatchOffer.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+        (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    afterEach(() => {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    afterAll(() => {
+        Object.assign(DISPATCH_CONFIG, originalConfig);
+    });
+
+    describe("getDispatchMode", () => {
+        it("should dispatch the configured ride types sequentially and broadcast the others", () => {
+            DISPATCH_CONFIG.SEQUENTIAL_TYPES = [RideType.REGULAR];
+
+            expect(getDispatchMode(RideType.REGULAR)).toBe(DispatchMode.SEQUENTIAL);
+            expect(getDispatchMode(RideType.DELIVERY)).toBe(DispatchMode.BROADCAST);
+
+            DISPATCH_CONFIG.SEQUENTIAL_TYPES = originalConfig.SEQUENTIAL_TYPES;
+        });
+    });
+
+    describe("scoreDispatchCandidate", () => {
+        it("should prefer closer drivers", () => {
+            const near = scoreDispatchCandidate({ etaMinutes: 2, rating: 4.5, acceptanceRate: 0.9 });
+            const far = scoreDispatchCandidate({ etaMinutes: 12, rating: 4.5, acceptanceRate: 0.9 });
+
+            expect(near).toBeGreaterThan(far);
+        });
+
+        it("should rank a well rated driver who accepts offers above a closer one who ignores them", () => {
+            const reliable = scoreDispatchCandidate({ etaMinutes: 4, rating: 4.9, acceptanceRate: 1 });
+            const unreliable = scoreDispatchCandidate({ etaMinutes: 2, rating: 3, acceptanceRate: 0.1 });
+
+            expect(reliable).toBeGreaterThan(unreliable);
+        });
+
+        it("should give new drivers the default rating and a full acceptance rate", () => {
+            expect(scoreDispatchCandidate({ etaMinutes: 0, rating: null, acceptanceRate: null })).toBeCloseTo(
+                0.5 + 0.25 * (4.5 / 5) + 0.25
+            );
+        });
+    });
+
+    describe("rankDispatchCandidates", () => {
+        it("should rank the drivers within the radius by score", async () => {
+            (db.rating.groupBy as jest.Mock).mockResolvedValue([
+                { toId: "driver-near", _avg: { score: 2 } },
+                { toId: "driver-mid", _avg: { score: 5 } },
+            ]);
+            (db.dispatchOffer.groupBy as jest.Mock).mockResolvedValue([
+                { driverId: "driver-near", status: DispatchOfferStatus.EXPIRED, _count: { _all: 9 } },
+                { driverId: "driver-near", status: DispatchOfferStatus.ACCEPTED, _count: { _all: 1 } },
+            ]);
+
+            const candidates = await rankDispatchCandidates(sequentialRide);
+
+            expect(candidates.map((c) => c.driverId)).toEqual(["driver-mid", "driver-near"]);
+            expect(candidates[1]).toEqual(
+                expect.objectContaining({ rating: 2, acceptanceRate: 0.1 })
+            );
+        });
+
+        it("should skip excluded drivers and reach farther once the search widened", async () => {
+            const candidates = await rankDispatchCandidates(
+                { ...sequentialRide, searchRadiusKm: 30 },
+                ["driver-near"]
+            );
+
+            expect(candidates.map((c) => c.driverId)).toEqual(["driver-mid", "driver-far"]);
+        });
+
+        it("should leave out the drivers whose vehicle or preferences do not suit the ride", async () => {
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValue([
+                { userId: "driver-near", acceptedRideTypes: [], maxPickupDistanceKm: null, minFare: null, vehicles: [{ type: VehicleType.BIKE }] },
+                { userId: "driver-mid", acceptedRideTypes: [], maxPickupDistanceKm: null, minFare: 1500, vehicles: [{ type: VehicleType.CAR }] },
+            ]);
+
+            expect(await rankDispatchCandidates(sequentialRide)).toEqual([]);
+            expect(db.rating.groupBy).not.toHaveBeenCalled();
+        });
+
+        it("should not query ratings when nobody is around", async () => {
+            (getAvailableDriverLocations as jest.Mock).mockReturnValue(new Map());
+
+            expect(await rankDispatchCandidates(sequentialRide)).toEqual([]);
+            expect(db.rating.groupBy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("dispatchRide", () => {
+        it("should broadcast rides in broadcast mode", async () => {
+            const ride = { ...sequentialRide, dispatchMode: DispatchMode.BROADCAST };
+
+            await dispatchRide(ride);
+
+            // Only to the drivers within the broadcast radius
+            expect(mockEmitter.emitRideCreated).toHaveBeenCalledWith(ride, ["driver-near", "driver-mid"]);
+            expect(db.dispatchOffer.create).not.toHaveBeenCalled();
+        });
+
+        it("should offer sequential rides to the best driver only", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(sequentialRide);
+            (db.dispatchOffer.create as jest.Mock).mockResolvedValue(offer);
+
+            await dispatchRide(sequentialRide);
+
+            expect(db.dispatchOffer.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    rideId: "ride-123",
+                    driverId: "driver-near",
+                    expiresAt: expect.any(Date),
+                }),
+            });
+            expect(mockEmitter.emitDispatchOffer).toHaveBeenCalledWith(
+                expect.objectContaining({ id: "ride-123" }),
+                offer,
+                expect.any(Number)
+            );
+            expect(mockEmitter.emitRideCreated).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("offerRideToNextDriver", () => {
+        it("should skip the drivers already offered the ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...sequentialRide,
+                dispatchOffers: [{ driverId: "driver-near", status: DispatchOfferStatus.DECLINED }],
+            });
+            (db.dispatchOffer.create as jest.Mock).mockResolvedValue({ ...offer, driverId: "driver-mid" });
+
+            await offerRideToNextDriver("ride-123");
+
+            expect(db.dispatchOffer.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ driverId: "driver-mid" }),
+            });
+        });
+
+        it("should wait while a driver is deciding", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...sequentialRide,
+                dispatchOffers: [{ driverId: "driver-near", status: DispatchOfferStatus.OFFERED }],
+            });
+
+            expect(await offerRideToNextDriver("ride-123")).toBeNull();
+            expect(db.dispatchOffer.create).not.toHaveBeenCalled();
+        });
+
+        it("should broadcast the ride once every nearby driver passed", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...sequentialRide,
+                dispatchOffers: [
+                    { driverId: "driver-near", status: DispatchOfferStatus.DECLINED },
+                    { driverId: "driver-mid", status: DispatchOfferStatus.EXPIRED },
+                ],
+            });
+
+            await offerRideToNextDriver("ride-123");
+
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-123", status: RideStatus.PENDING, dispatchMode: DispatchMode.SEQUENTIAL },
+                data: { dispatchMode: DispatchMode.BROADCAST },
+            });
+            expect(mockEmitter.emitRideCreated).toHaveBeenCalledWith(
+                expect.objectContaining({ id: "ride-123", dispatchMode: DispatchMode.BROADCAST }),
+                ["driver-near", "driver-mid"]
+            );
+            expect(db.dispatchOffer.create).not.toHaveBeenCalled();
+        });
+
+        it("should broadcast the ride after the maximum number of offers", async () => {
+            DISPATCH_CONFIG.MAX_OFFERS = 1;
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...sequentialRide,
+                dispatchOffers: [{ driverId: "driver-near", status: DispatchOfferStatus.EXPIRED }],
+            });
+
+            await offerRideToNextDriver("ride-123");
+
+            expect(mockEmitter.emitRideCreated).toHaveBeenCalled();
+            expect(db.dispatchOffer.create).not.toHaveBeenCalled();
+
+            DISPATCH_CONFIG.MAX_OFFERS = originalConfig.MAX_OFFERS;
+        });
+
+        it("should leave rides taken or cancelled in the meantime", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...sequentialRide, status: RideStatus.ACCEPTED });
+
+            expect(await offerRideToNextDriver("ride-123")).toBeNull();
+            expect(db.dispatchOffer.create).not.toHaveBeenCalled();
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("expireDispatchOffer", () => {
+        it("should move on to the next driver when the accept window runs out", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(sequentialRide);
+            (db.dispatchOffer.create as jest.Mock)
+                .mockResolvedValueOnce(offer)
+                .mockResolvedValueOnce({ ...offer, id: "dispatch-2", driverId: "driver-mid" });
+            (db.dispatchOffer.findUnique as jest.Mock).mockResolvedValue(offer);
+
+            await offerRideToNextDriver("ride-123");
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...sequentialRide,
+                dispatchOffers: [{ driverId: "driver-near", status: DispatchOfferStatus.EXPIRED }],
+            });
+            await jest.advanceTimersByTimeAsync(DISPATCH_CONFIG.ACCEPT_WINDOW_SECONDS * 1000);
+
+            expect(db.dispatchOffer.updateMany).toHaveBeenCalledWith({
+                where: { id: "dispatch-1", status: DispatchOfferStatus.OFFERED },
+                data: { status: DispatchOfferStatus.EXPIRED, respondedAt: expect.any(Date) },
+            });
+            expect(mockEmitter.emitDispatchOfferExpired).toHaveBeenCalledWith(offer);
+            expect(db.dispatchOffer.create).toHaveBeenLastCalledWith({
+                data: expect.objectContaining({ driverId: "driver-mid" }),
+            });
+        });
+
+        it("should do nothing when the driver answered in the meantime", async () => {
+            (db.dispatchOffer.findUnique as jest.Mock).mockResolvedValue(offer);
+            (db.dispatchOffer.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            await expireDispatchOffer("dispatch-1");
+
+            expect(mockEmitter.emitDispatchOfferExpired).not.toHaveBeenCalled();
+            expect(db.ride.findUnique).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("declineDispatchOffer", () => {
+        it("should offer the ride to the next driver right away", async () => {
+            (db.dispatchOffer.findFirst as jest.Mock).mockResolvedValue(offer);
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...sequentialRide,
+                dispatchOffers: [{ driverId: "driver-near", status: DispatchOfferStatus.DECLINED }],
+            });
+            (db.dispatchOffer.create as jest.Mock).mockResolvedValue({ ...offer, driverId: "driver-mid" });
+
+            const declined = await declineDispatchOffer("ride-123", "driver-near");
+
+            expect(declined.status).toBe(DispatchOfferStatus.DECLINED);
+            expect(db.dispatchOffer.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ driverId: "driver-mid" }),
+            });
+        });
+
+        it("should reject drivers the ride is not offered to", async () => {
+            (db.dispatchOffer.findFirst as jest.Mock).mockResolvedValue(null);
+
+            await expect(declineDispatchOffer("ride-123", "driver-mid")).rejects.toThrow(
+                "This ride is not offered to you"
+            );
+        });
+    });
+
+    describe("assertHoldsDispatchOffer", () => {
+        it("should only accept a driver holding an offer still open", async () => {
+            (db.dispatchOffer.findFirst as jest.Mock).mockResolvedValueOnce(offer).mockResolvedValueOnce(null);
+
+            await expect(assertHoldsDispatchOffer("ride-123", "driver-near")).resolves.toEqual(offer);
+            await expect(assertHoldsDispatchOffer("ride-123", "driver-mid")).rejects.toThrow(
+                "This ride is offered to another driver"
+            );
+            expect(db.dispatchOffer.findFirst).toHaveBeenCalledWith({
+                where: {
+                    rideId: "ride-123",
+                    driverId: "driver-mid",
+                    status: DispatchOfferStatus.OFFERED,
+                    expiresAt: { gt: expect.any(Date) },
+                },
+            });
+        });
+    });
+
+    describe("closeDispatchOffers", () => {
+        it("should mark the accepting driver's offer accepted and cancel the others", async () => {
+            (db.dispatchOffer.findMany as jest.Mock).mockResolvedValue([{ id: "dispatch-1" }]);
+
+            await closeDispatchOffers("ride-123", "driver-near");
+
+            expect(db.dispatchOffer.updateMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", driverId: "driver-near", status: DispatchOfferStatus.OFFERED },
+                data: { status: DispatchOfferStatus.ACCEPTED, respondedAt: expect.any(Date) },
+            });
+            expect(db.dispatchOffer.updateMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", status: DispatchOfferStatus.OFFERED },
+                data: { status: DispatchOfferStatus.CANCELLED, respondedAt: expect.any(Date) },
+            });
+        });
+
+        it("should do nothing for broadcast rides", async () => {
+            (db.dispatchOffer.findMany as jest.Mock).mockResolvedValue([]);
+
+            await closeDispatchOffers("ride-123", "driver-near");
+
+            expect(db.dispatchOffer.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("expireStaleDispatchOffers", () => {
+        it("should expire the offers whose window ran out", async () => {
+            (db.dispatchOffer.findMany as jest.Mock).mockResolvedValue([{ id: "dispatch-1" }]);
+            (db.dispatchOffer.findUnique as jest.Mock).mockResolvedValue(offer);
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...sequentialRide, status: RideStatus.CANCELLED });
+
+            const now = new Date();
+            const expired = await expireStaleDispatchOffers(now);
+
+            expect(expired).toBe(1);
+            expect(db.dispatchOffer.findMany).toHaveBeenCalledWith({
+                where: { status: DispatchOfferStatus.OFFERED, expiresAt: { lte: now } },
+                select: { id: true },
+            });
+            expect(mockEmitter.emitDispatchOfferExpired).toHaveBeenCalledWith(offer);
+        });
+    });
+});
@@ -0,0 +1,208 @@
+import { CancellationReason, DispatchMode, RideActor, RideStatus } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { releasePromoRedemption } from "../../promo/promo.services";
+import { closeDispatchOffers } from "../ride.dispatch.services";
+import { rejectRideOffers } from "../ride.offer.services";
+import { findMatchingDriverIds } from "../ride.matching.services";
+import { recordCancellation } from "../ride.cancellation.services";
+import { recordStatusEvent } from "../ride.state.services";
+import { EXPIRY_CONFIG, expirePendingRides } from "../ride.expiry.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findMany: jest.fn(),
+            updateMany: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../promo/promo.services", () => ({
+    releasePromoRedemption: jest.fn(),
+}));
+
+jest.mock("../ride.dispatch.services", () => ({
+    closeDispatchOffers: jest.fn(),
+}));
+
+jest.mock("../ride.offer.services", () => ({
+    rejectRideOffers: jest.fn(),
+}));
+
+jest.mock("../ride.matching.services", () => ({
+    findMatchingDriverIds: jest.fn().mockResolvedValue(["driver-1"]),
+}));
+
+jest.mock("../ride.cancellation.services", () => ({
+    recordCancellation: jest.fn(),
+}));
+
+jest.mock("../ride.state.services", () => ({
+    recordStatusEvent: jest.fn(),
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitRideSearchWidened: jest.fn(),
+    emitRideExpired: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+describe("Ride Expiry Services", () => {
+    const now = new Date("2026-10-18T10:00:00.000Z");
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+    const pendingRide = {
+        id: "ride-123",
+        userId: "passenger-123",
+        status: RideStatus.PENDING,
+        originLat: 36.7538,
+        originLng: 3.0588,
+        promoCodeId: null as string | null,
+        searchRadiusKm: null as number | null,
+    };
+
+    const originalConfig = { ...EXPIRY_CONFIG };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        // Give up after 9 minutes, widening to 15km after 3 and to 20km after 6
+        EXPIRY_CONFIG.PENDING_TIMEOUT_MINUTES = 9;
+        EXPIRY_CONFIG.SEARCH_RADIUS_STAGES_KM = [15, 20];
+        (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    afterAll(() => {
+        Object.assign(EXPIRY_CONFIG, originalConfig);
+    });
+
+    it("should only load the rides pending since the first stage", async () => {
+        (db.ride.findMany as jest.Mock).mockResolvedValue([]);
+
+        await expirePendingRides(now);
+
+        expect(db.ride.findMany).toHaveBeenCalledWith({
+            where: { status: RideStatus.PENDING, pendingSince: { lte: minutesAgo(3) } },
+            orderBy: { pendingSince: "asc" },
+        });
+    });
+
+    it("should widen the search in stages", async () => {
+        (db.ride.findMany as jest.Mock).mockResolvedValue([
+            { ...pendingRide, id: "ride-1", pendingSince: minutesAgo(4) },
+            { ...pendingRide, id: "ride-2", pendingSince: minutesAgo(7), searchRadiusKm: 15 },
+        ]);
+
+        const result = await expirePendingRides(now);
+
+        expect(result).toEqual({ widened: 2, expired: 0 });
+        expect(db.ride.updateMany).toHaveBeenCalledWith({
+            where: { id: "ride-1", status: RideStatus.PENDING, pendingSince: minutesAgo(4) },
+            data: { searchRadiusKm: 15 },
+        });
+        expect(findMatchingDriverIds).toHaveBeenCalledWith(expect.objectContaining({ id: "ride-1" }), 15);
+        expect(mockEmitter.emitRideSearchWidened).toHaveBeenCalledWith(
+            expect.objectContaining({ id: "ride-1", searchRadiusKm: 15 }),
+            undefined,
+            ["driver-1"]
+        );
+        expect(mockEmitter.emitRideSearchWidened).toHaveBeenCalledWith(
+            expect.objectContaining({ id: "ride-2", searchRadiusKm: 20 }),
+            15,
+            ["driver-1"]
+        );
+    });
+
+    it("should not widen a search twice", async () => {
+        (db.ride.findMany as jest.Mock).mockResolvedValue([
+            { ...pendingRide, pendingSince: minutesAgo(7), searchRadiusKm: 20 },
+        ]);
+
+        const result = await expirePendingRides(now);
+
+        expect(result).toEqual({ widened: 0, expired: 0 });
+        expect(db.ride.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should expire rides nobody accepted before the timeout", async () => {
+        (db.ride.findMany as jest.Mock).mockResolvedValue([
+            { ...pendingRide, pendingSince: minutesAgo(9), promoCodeId: "promo-123" },
+        ]);
+
+        const result = await expirePendingRides(now);
+
+        expect(result).toEqual({ widened: 0, expired: 1 });
+        expect(db.ride.updateMany).toHaveBeenCalledWith({
+            where: { id: "ride-123", status: RideStatus.PENDING, pendingSince: minutesAgo(9) },
+            data: {
+                status: RideStatus.EXPIRED,
+                expiredAt: now,
+                cancelledAt: now,
+                cancelledBy: RideActor.SYSTEM,
+                cancellationReason: CancellationReason.NO_DRIVER_FOUND,
+            },
+        });
+        expect(recordCancellation).toHaveBeenCalledWith(
+            expect.objectContaining({ id: "ride-123" }),
+            RideActor.SYSTEM,
+            { reason: CancellationReason.NO_DRIVER_FOUND },
+            null
+        );
+        expect(recordStatusEvent).toHaveBeenCalledWith({
+            rideId: "ride-123",
+            from: RideStatus.PENDING,
+            to: RideStatus.EXPIRED,
+            actor: RideActor.SYSTEM,
+            userId: null,
+        });
+        expect(releasePromoRedemption).toHaveBeenCalledWith("ride-123");
+        expect(rejectRideOffers).toHaveBeenCalledWith("ride-123", "The ride expired before the passenger chose a driver");
+        expect(mockEmitter.emitRideExpired).toHaveBeenCalledWith(
+            expect.objectContaining({ id: "ride-123", status: RideStatus.EXPIRED })
+        );
+    });
+
+    it("should widen sequentially dispatched rides without broadcasting them", async () => {
+        (db.ride.findMany as jest.Mock).mockResolvedValue([
+            { ...pendingRide, pendingSince: minutesAgo(4), dispatchMode: DispatchMode.SEQUENTIAL },
+            { ...pendingRide, id: "ride-2", pendingSince: minutesAgo(9), dispatchMode: DispatchMode.SEQUENTIAL },
+        ]);
+
+        const result = await expirePendingRides(now);
+
+        expect(result).toEqual({ widened: 1, expired: 1 });
+        expect(db.ride.updateMany).toHaveBeenCalledWith(
+            expect.objectContaining({ data: { searchRadiusKm: 15 } })
+        );
+        expect(mockEmitter.emitRideSearchWidened).not.toHaveBeenCalled();
+        expect(closeDispatchOffers).toHaveBeenCalledWith("ride-2");
+    });
+
+    it("should leave rides accepted or cancelled in the meantime", async () => {
+        (db.ride.findMany as jest.Mock).mockResolvedValue([{ ...pendingRide, pendingSince: minutesAgo(12) }]);
+        (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+        const result = await expirePendingRides(now);
+
+        expect(result).toEqual({ widened: 0, expired: 0 });
+        expect(mockEmitter.emitRideExpired).not.toHaveBeenCalled();
+    });
+
+    it("should expire without widening when no stages are configured", async () => {
+        EXPIRY_CONFIG.SEARCH_RADIUS_STAGES_KM = [];
+        (db.ride.findMany as jest.Mock).mockResolvedValue([{ ...pendingRide, pendingSince: minutesAgo(9) }]);
+
+        const result = await expirePendingRides(now);
+
+        expect(db.ride.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: { status: RideStatus.PENDING, pendingSince: { lte: minutesAgo(9) } },
+            })
+        );
+        expect(result).toEqual({ widened: 0, expired: 1 });
+    });
+});
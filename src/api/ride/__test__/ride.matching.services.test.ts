@@ -0,0 +1,157 @@
+import { PackageSize, RideType, VehicleType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { getAvailableDriverLocations } from "../../../socket/handlers/driver-location.handler";
+import {
+    assertDriverCanTakeRide,
+    canVehicleTakeRide,
+    findMatchingDriverIds,
+    isRideMatch,
+} from "../ride.matching.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        driverProfile: {
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+        },
+        vehicle: {
+            findUnique: jest.fn(),
+        },
+        wallet: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../../socket/handlers/driver-location.handler", () => ({
+    getAvailableDriverLocations: jest.fn(),
+}));
+
+describe("Ride Matching Services", () => {
+    const carDriver = {
+        vehicleTypes: [VehicleType.CAR],
+        acceptedRideTypes: [] as RideType[],
+        maxPickupDistanceKm: null,
+        minFare: null,
+    };
+
+    const regularRide = { type: RideType.REGULAR, price: 1000 };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("canVehicleTakeRide", () => {
+        it("should let cars take every ride type", () => {
+            Object.values(RideType).forEach((type) => {
+                expect(canVehicleTakeRide(VehicleType.CAR, { type })).toBe(true);
+            });
+        });
+
+        it("should only let motorbikes take deliveries that do not need the trunk", () => {
+            expect(canVehicleTakeRide(VehicleType.BIKE, { type: RideType.REGULAR })).toBe(false);
+            expect(canVehicleTakeRide(VehicleType.BIKE, { type: RideType.SEAT_RESERVE })).toBe(false);
+            expect(canVehicleTakeRide(VehicleType.BIKE, { type: RideType.DELIVERY, packageSize: PackageSize.MEDIUM })).toBe(true);
+            expect(canVehicleTakeRide(VehicleType.BIKE, { type: RideType.DELIVERY, packageSize: PackageSize.LARGE })).toBe(false);
+        });
+    });
+
+    describe("assertDriverCanTakeRide", () => {
+        const ride = { ...regularRide, tariff: { commissionPercent: 0.15 } };
+
+        beforeEach(() => {
+            (db.driverProfile.findUnique as jest.Mock).mockResolvedValue({ id: "profile-123" });
+            (db.vehicle.findUnique as jest.Mock).mockResolvedValue({
+                id: "vehicle-123",
+                driverId: "profile-123",
+                type: VehicleType.CAR,
+            });
+        });
+
+        it("should require the commission of the ride's tariff on the given price", async () => {
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: "driver-123", balance: 299 });
+
+            await expect(assertDriverCanTakeRide("driver-123", "vehicle-123", ride, 2000)).rejects.toThrow(
+                "Insufficient balance. Minimum 300 DA required"
+            );
+
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: "driver-123", balance: 300 });
+            await expect(assertDriverCanTakeRide("driver-123", "vehicle-123", ride, 2000)).resolves.toBeUndefined();
+        });
+
+        it("should reject a vehicle of another driver", async () => {
+            (db.vehicle.findUnique as jest.Mock).mockResolvedValue({ id: "vehicle-123", driverId: "other-profile" });
+
+            await expect(assertDriverCanTakeRide("driver-123", "vehicle-123", ride, 1000)).rejects.toThrow(
+                "Vehicle not found or does not belong to driver"
+            );
+            expect(db.wallet.findUnique).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("isRideMatch", () => {
+        it("should match any ride a car can take when the driver set no preferences", () => {
+            expect(isRideMatch(carDriver, regularRide, 8)).toBe(true);
+        });
+
+        it("should not match drivers without an active vehicle", () => {
+            expect(isRideMatch({ ...carDriver, vehicleTypes: [] }, regularRide, 1)).toBe(false);
+        });
+
+        it("should match when any of the driver's active vehicles can take the ride", () => {
+            const driver = { ...carDriver, vehicleTypes: [VehicleType.BIKE, VehicleType.CAR] };
+
+            expect(isRideMatch(driver, regularRide, 1)).toBe(true);
+        });
+
+        it("should apply the accepted ride types, the pickup distance and the minimum fare", () => {
+            const driver = {
+                ...carDriver,
+                acceptedRideTypes: [RideType.REGULAR],
+                maxPickupDistanceKm: 3,
+                minFare: 800,
+            };
+
+            expect(isRideMatch(driver, regularRide, 2)).toBe(true);
+            expect(isRideMatch(driver, { ...regularRide, type: RideType.DELIVERY }, 2)).toBe(false);
+            expect(isRideMatch(driver, regularRide, 4)).toBe(false);
+            expect(isRideMatch(driver, { ...regularRide, price: 700 }, 2)).toBe(false);
+        });
+    });
+
+    describe("findMatchingDriverIds", () => {
+        const ride = { ...regularRide, originLat: 36.75, originLng: 3.05 };
+
+        beforeEach(() => {
+            const drivers = new Map();
+            drivers.set("driver-car", { latitude: 36.751, longitude: 3.051 });   // ~0.1km
+            drivers.set("driver-bike", { latitude: 36.752, longitude: 3.052 });  // ~0.3km
+            drivers.set("driver-far", { latitude: 37.0, longitude: 3.05 });      // ~28km
+            (getAvailableDriverLocations as jest.Mock).mockReturnValue(drivers);
+        });
+
+        it("should keep the nearby drivers whose vehicle and preferences suit the ride", async () => {
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValue([
+                { userId: "driver-car", acceptedRideTypes: [], maxPickupDistanceKm: null, minFare: null, vehicles: [{ type: VehicleType.CAR }] },
+                { userId: "driver-bike", acceptedRideTypes: [], maxPickupDistanceKm: null, minFare: null, vehicles: [{ type: VehicleType.BIKE }] },
+            ]);
+
+            const driverIds = await findMatchingDriverIds(ride, 10);
+
+            expect(driverIds).toEqual(["driver-car"]);
+            expect(db.driverProfile.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { userId: { in: ["driver-car", "driver-bike"] } },
+                })
+            );
+        });
+
+        it("should not query profiles when nobody is in range", async () => {
+            (getAvailableDriverLocations as jest.Mock).mockReturnValue(new Map());
+
+            expect(await findMatchingDriverIds(ride, 10)).toEqual([]);
+            expect(db.driverProfile.findMany).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,234 @@
+import { CancellationReason, RideActor, RideStatus } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { releasePromoRedemption } from "../../promo/promo.services";
+import { processPassengerNoShowFee } from "../ride.payment.services";
+import { recordCancellation } from "../ride.cancellation.services";
+import { recordStatusEvent } from "../ride.state.services";
+import {
+    NO_SHOW_CONFIG,
+    getRepeatNoShowPassengers,
+    markPassengerNoShow,
+} from "../ride.noshow.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        $transaction: jest.fn(),
+        ride: {
+            findUnique: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        cancellationFee: {
+            create: jest.fn(),
+        },
+        passengerNoShow: {
+            create: jest.fn(),
+            findMany: jest.fn(),
+            groupBy: jest.fn(),
+        },
+        user: {
+            findMany: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../ride.payment.services", () => ({
+    processPassengerNoShowFee: jest.fn(),
+}));
+
+jest.mock("../ride.cancellation.services", () => ({
+    getDriverDistanceTravelledKm: jest.fn(() => 0),
+    recordCancellation: jest.fn(),
+}));
+
+jest.mock("../ride.state.services", () => ({
+    recordStatusEvent: jest.fn(),
+}));
+
+jest.mock("../../promo/promo.services", () => ({
+    releasePromoRedemption: jest.fn(),
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitRideCancelled: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+describe("Passenger No-Show Services", () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+    const arrivedRide = {
+        id: "ride-123",
+        userId: "passenger-123",
+        driverId: "driver-123",
+        status: RideStatus.ARRIVED,
+        arrivedAt: minutesAgo(NO_SHOW_CONFIG.GRACE_MINUTES + 1),
+        promoCodeId: null as string | null,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (db.$transaction as jest.Mock).mockImplementation(async (callback) => callback(db));
+    });
+
+    describe("markPassengerNoShow", () => {
+        it("should cancel the ride, charge the fee and record the no-show", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(arrivedRide);
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+            (processPassengerNoShowFee as jest.Mock).mockResolvedValueOnce({ feeAmount: 200, feeCharged: 200, debtAmount: 0 });
+            (db.passengerNoShow.create as jest.Mock).mockResolvedValueOnce({ id: "no-show-1", feeCharged: 200 });
+
+            const result = await markPassengerNoShow("ride-123", "driver-123");
+
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-123", status: RideStatus.ARRIVED, driverId: "driver-123" },
+                data: {
+                    status: RideStatus.CANCELLED,
+                    cancelledAt: expect.any(Date),
+                    cancelledBy: RideActor.DRIVER,
+                    cancellationReason: CancellationReason.PASSENGER_NO_SHOW,
+                },
+            });
+            expect(processPassengerNoShowFee).toHaveBeenCalledWith(db, "ride-123", "passenger-123", "driver-123");
+            expect(db.passengerNoShow.create).toHaveBeenCalledWith({
+                data: {
+                    rideId: "ride-123",
+                    passengerId: "passenger-123",
+                    driverId: "driver-123",
+                    arrivedAt: arrivedRide.arrivedAt,
+                    feeCharged: 200,
+                },
+            });
+            expect(recordCancellation).toHaveBeenCalledWith(
+                arrivedRide,
+                RideActor.DRIVER,
+                { reason: CancellationReason.PASSENGER_NO_SHOW },
+                "driver-123",
+                db
+            );
+            expect(recordStatusEvent).toHaveBeenCalledWith(
+                expect.objectContaining({ from: RideStatus.ARRIVED, to: RideStatus.CANCELLED, actor: RideActor.DRIVER }),
+                db
+            );
+            expect(result.ride.status).toBe(RideStatus.CANCELLED);
+            expect(mockEmitter.emitRideCancelled).toHaveBeenCalledWith(
+                expect.objectContaining({ id: "ride-123", status: RideStatus.CANCELLED }),
+                CancellationReason.PASSENGER_NO_SHOW
+            );
+        });
+
+        it("should record what the wallet could not cover as a fee debt", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(arrivedRide);
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+            (processPassengerNoShowFee as jest.Mock).mockResolvedValueOnce({ feeAmount: 200, feeCharged: 50, debtAmount: 150 });
+
+            await markPassengerNoShow("ride-123", "driver-123");
+
+            expect(db.cancellationFee.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    rideId: "ride-123",
+                    passengerId: "passenger-123",
+                    driverId: "driver-123",
+                    amount: 200,
+                    chargedAmount: 50,
+                    debtAmount: 150,
+                    driverCompensation: 200,
+                }),
+            });
+            expect(db.passengerNoShow.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ feeCharged: 50 }),
+            });
+        });
+
+        it("should cancel the ride in the transaction that records the fee", async () => {
+            const tx = {
+                ride: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+                cancellationFee: { create: jest.fn() },
+                passengerNoShow: { create: jest.fn() },
+            };
+            (db.$transaction as jest.Mock).mockImplementationOnce(async (callback) => callback(tx));
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(arrivedRide);
+            (processPassengerNoShowFee as jest.Mock).mockRejectedValueOnce(new Error("Wallet update failed"));
+
+            await expect(markPassengerNoShow("ride-123", "driver-123")).rejects.toThrow("Wallet update failed");
+            expect(tx.ride.updateMany).toHaveBeenCalled();
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+            expect(mockEmitter.emitRideCancelled).not.toHaveBeenCalled();
+        });
+
+        it("should release the passenger's promo code use", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...arrivedRide, promoCodeId: "promo-1" });
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+            (processPassengerNoShowFee as jest.Mock).mockResolvedValueOnce({ feeAmount: 200, feeCharged: 0, debtAmount: 200 });
+
+            await markPassengerNoShow("ride-123", "driver-123");
+
+            expect(releasePromoRedemption).toHaveBeenCalledWith("ride-123");
+        });
+
+        it("should make the driver wait the grace period", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...arrivedRide, arrivedAt: minutesAgo(1) });
+
+            await expect(markPassengerNoShow("ride-123", "driver-123")).rejects.toThrow(/Wait \d+ more minute/);
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should only accept the assigned driver", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(arrivedRide);
+
+            await expect(markPassengerNoShow("ride-123", "driver-456")).rejects.toThrow(
+                "Only the assigned driver can report a no-show"
+            );
+        });
+
+        it("should reject rides where the driver has not arrived", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...arrivedRide,
+                status: RideStatus.ACCEPTED,
+                arrivedAt: null,
+            });
+
+            await expect(markPassengerNoShow("ride-123", "driver-123")).rejects.toThrow(/once arrived/);
+        });
+
+        it("should not charge anything when the passenger boarded in the meantime", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(arrivedRide);
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(markPassengerNoShow("ride-123", "driver-123")).rejects.toThrow(
+                "This ride is no longer waiting for the passenger"
+            );
+            expect(processPassengerNoShowFee).not.toHaveBeenCalled();
+            expect(db.passengerNoShow.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getRepeatNoShowPassengers", () => {
+        it("should list the passengers at or above the threshold, most no-shows first", async () => {
+            const lastNoShowAt = new Date();
+            (db.passengerNoShow.groupBy as jest.Mock).mockResolvedValueOnce([
+                { passengerId: "passenger-1", _count: { _all: 2 }, _sum: { feeCharged: 400 }, _max: { createdAt: lastNoShowAt } },
+                { passengerId: "passenger-2", _count: { _all: 1 }, _sum: { feeCharged: 200 }, _max: { createdAt: lastNoShowAt } },
+                { passengerId: "passenger-3", _count: { _all: 4 }, _sum: { feeCharged: null }, _max: { createdAt: lastNoShowAt } },
+            ]);
+            (db.user.findMany as jest.Mock).mockResolvedValueOnce([
+                { id: "passenger-1", firstName: "Amine" },
+                { id: "passenger-3", firstName: "Sara" },
+            ]);
+
+            const report = await getRepeatNoShowPassengers({ minCount: 2 });
+
+            expect(db.user.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: { in: ["passenger-3", "passenger-1"] } } })
+            );
+            expect(report.passengers).toEqual([
+                { passenger: { id: "passenger-3", firstName: "Sara" }, noShowCount: 4, feesCharged: 0, lastNoShowAt },
+                { passenger: { id: "passenger-1", firstName: "Amine" }, noShowCount: 2, feesCharged: 400, lastNoShowAt },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,383 @@
+import { DispatchMode, RideOfferStatus, RideStatus, RideType, VehicleType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { getAvailableDriverLocations } from "../../../socket/handlers/driver-location.handler";
+import { acceptRide } from "../ride.services";
+import { assertHoldsDispatchOffer } from "../ride.dispatch.services";
+import {
+    createRideOffer,
+    withdrawRideOffer,
+    getRideOffers,
+    acceptRideOffer,
+    closeRideOffers,
+    rejectRideOffers,
+} from "../ride.offer.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findUnique: jest.fn(),
+        },
+        driverProfile: {
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+        },
+        vehicle: {
+            findUnique: jest.fn(),
+        },
+        wallet: {
+            findUnique: jest.fn(),
+        },
+        rideOffer: {
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+            upsert: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+    },
+}));
+
+// Acceptance itself is covered by the ride services
+jest.mock("../ride.services", () => ({
+    acceptRide: jest.fn(),
+}));
+
+jest.mock("../ride.dispatch.services", () => ({
+    assertHoldsDispatchOffer: jest.fn(),
+    getBroadcastRadiusKm: jest.fn(() => 10),
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitOfferReceived: jest.fn(),
+    emitOfferWithdrawn: jest.fn(),
+    emitOfferRejected: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+jest.mock("../../../socket/handlers/driver-location.handler", () => ({
+    getAvailableDriverLocations: jest.fn(),
+}));
+
+describe("Ride Offer Services", () => {
+    const pendingRide = {
+        id: "ride-123",
+        userId: "passenger-123",
+        type: RideType.REGULAR,
+        status: RideStatus.PENDING,
+        dispatchMode: DispatchMode.BROADCAST,
+        price: 1000,
+        originLat: 36.75,
+        originLng: 3.05,
+        tariff: null,
+    };
+
+    const pendingOffer = {
+        id: "offer-123",
+        rideId: "ride-123",
+        driverId: "driver-123",
+        vehicleId: "vehicle-123",
+        price: 800,
+        status: RideOfferStatus.PENDING,
+        expiresAt: new Date(Date.now() + 60 * 1000),
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (db.driverProfile.findUnique as jest.Mock).mockResolvedValue({ id: "profile-123" });
+        (db.vehicle.findUnique as jest.Mock).mockResolvedValue({
+            id: "vehicle-123",
+            driverId: "profile-123",
+            type: VehicleType.CAR,
+        });
+        (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: "driver-123", balance: 5000 });
+        (db.driverProfile.findMany as jest.Mock).mockResolvedValue([{
+            userId: "driver-123",
+            acceptedRideTypes: [],
+            maxPickupDistanceKm: null,
+            minFare: null,
+            vehicles: [{ type: VehicleType.CAR }],
+        }]);
+        (getAvailableDriverLocations as jest.Mock).mockReturnValue(
+            new Map([["driver-123", { latitude: 36.76, longitude: 3.05 }]])
+        );
+    });
+
+    describe("createRideOffer", () => {
+        it("should upsert the driver's offer with an expiry", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.rideOffer.upsert as jest.Mock).mockResolvedValue(pendingOffer);
+
+            await createRideOffer("ride-123", "driver-123", { price: 800, vehicleId: "vehicle-123" });
+
+            expect(db.rideOffer.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { rideId_driverId: { rideId: "ride-123", driverId: "driver-123" } },
+                    update: expect.objectContaining({
+                        price: 800,
+                        status: RideOfferStatus.PENDING,
+                        expiresAt: expect.any(Date),
+                    }),
+                })
+            );
+        });
+
+        it("should only allow offers on pending rides", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...pendingRide, status: RideStatus.ACCEPTED });
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 800, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("Can only make offers on pending rides");
+        });
+
+        it("should keep offers within bounds of the listed price", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 400, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("Offer must be between 500 and 3000 DA");
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 80.5, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("price must be a positive whole number");
+            expect(db.rideOffer.upsert).not.toHaveBeenCalled();
+        });
+
+        it("should require the commission balance for the offered price", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: "driver-123", balance: 100 });
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 2000, vehicleId: "vehicle-123" })
+            ).rejects.toThrow(/Insufficient balance/);
+        });
+
+        it("should reject a vehicle of another driver", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.vehicle.findUnique as jest.Mock).mockResolvedValue({ id: "vehicle-123", driverId: "other-profile" });
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 800, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("Vehicle not found or does not belong to driver");
+        });
+
+        it("should not let motorbikes bid on passenger rides", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.vehicle.findUnique as jest.Mock).mockResolvedValue({
+                id: "vehicle-123",
+                driverId: "profile-123",
+                type: VehicleType.BIKE,
+            });
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 800, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("This vehicle cannot take this ride");
+            expect(db.rideOffer.upsert).not.toHaveBeenCalled();
+        });
+
+        it("should only take offers on a sequentially dispatched ride from the driver it is offered to", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...pendingRide, dispatchMode: DispatchMode.SEQUENTIAL });
+            (assertHoldsDispatchOffer as jest.Mock).mockRejectedValueOnce(
+                new Error("This ride is offered to another driver")
+            );
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 800, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("This ride is offered to another driver");
+            expect(assertHoldsDispatchOffer).toHaveBeenCalledWith("ride-123", "driver-123");
+            expect(db.rideOffer.upsert).not.toHaveBeenCalled();
+        });
+
+        it("should reject offers from drivers too far from the pickup", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (getAvailableDriverLocations as jest.Mock).mockReturnValue(
+                new Map([["driver-123", { latitude: 35.7, longitude: -0.63 }]])
+            );
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 800, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("This ride is too far from you");
+            expect(db.rideOffer.upsert).not.toHaveBeenCalled();
+        });
+
+        it("should reject offers from drivers without a shared location", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (getAvailableDriverLocations as jest.Mock).mockReturnValue(new Map());
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 800, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("Share your location to make offers");
+        });
+
+        it("should reject offers on rides outside the driver's preferences", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValueOnce([{
+                userId: "driver-123",
+                acceptedRideTypes: [],
+                maxPickupDistanceKm: null,
+                minFare: 2000,
+                vehicles: [{ type: VehicleType.CAR }],
+            }]);
+
+            await expect(
+                createRideOffer("ride-123", "driver-123", { price: 800, vehicleId: "vehicle-123" })
+            ).rejects.toThrow("This ride does not match your ride preferences");
+            expect(db.rideOffer.upsert).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("withdrawRideOffer", () => {
+        it("should withdraw a pending offer", async () => {
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValue({
+                ...pendingOffer,
+                ride: { userId: "passenger-123" },
+            });
+            (db.rideOffer.update as jest.Mock).mockResolvedValue({
+                ...pendingOffer,
+                status: RideOfferStatus.WITHDRAWN,
+            });
+
+            const offer = await withdrawRideOffer("ride-123", "driver-123");
+
+            expect(offer.status).toBe(RideOfferStatus.WITHDRAWN);
+        });
+
+        it("should not withdraw an offer that is already closed", async () => {
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValue({
+                ...pendingOffer,
+                status: RideOfferStatus.REJECTED,
+                ride: { userId: "passenger-123" },
+            });
+
+            await expect(withdrawRideOffer("ride-123", "driver-123")).rejects.toThrow(
+                "Offer is no longer pending"
+            );
+        });
+    });
+
+    describe("getRideOffers", () => {
+        it("should only show offers to the passenger", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+
+            await expect(getRideOffers("ride-123", "driver-123")).rejects.toThrow(
+                "Only the passenger can view offers on this ride"
+            );
+        });
+
+        it("should list live offers, cheapest first", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.rideOffer.findMany as jest.Mock).mockResolvedValue([pendingOffer]);
+
+            await getRideOffers("ride-123", "passenger-123");
+
+            expect(db.rideOffer.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        rideId: "ride-123",
+                        status: RideOfferStatus.PENDING,
+                        expiresAt: { gt: expect.any(Date) },
+                    },
+                    orderBy: [{ price: "asc" }, { createdAt: "asc" }],
+                })
+            );
+        });
+    });
+
+    describe("acceptRideOffer", () => {
+        it("should accept the ride for the offering driver at the offered price", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValue(pendingOffer);
+
+            await acceptRideOffer("ride-123", "offer-123", "passenger-123");
+
+            expect(acceptRide).toHaveBeenCalledWith("ride-123", "driver-123", "vehicle-123", {
+                id: "offer-123",
+                price: 800,
+            });
+        });
+
+        it("should reject an expired offer", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValue({
+                ...pendingOffer,
+                expiresAt: new Date(Date.now() - 1000),
+            });
+
+            await expect(acceptRideOffer("ride-123", "offer-123", "passenger-123")).rejects.toThrow(
+                "Offer has expired"
+            );
+            expect(acceptRide).not.toHaveBeenCalled();
+        });
+
+        it("should reject an offer made on another ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(pendingRide);
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValue({ ...pendingOffer, rideId: "ride-999" });
+
+            await expect(acceptRideOffer("ride-123", "offer-123", "passenger-123")).rejects.toThrow(
+                "Offer not found"
+            );
+        });
+    });
+
+    describe("closeRideOffers", () => {
+        it("should accept the chosen offer with the price it replaced and reject the others", async () => {
+            const otherOffer = { ...pendingOffer, id: "offer-456", driverId: "driver-456" };
+            (db.rideOffer.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.rideOffer.findMany as jest.Mock).mockResolvedValue([otherOffer]);
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValue({ ...pendingOffer, status: RideOfferStatus.ACCEPTED });
+
+            const { acceptedOffer, rejectedOffers } = await closeRideOffers("ride-123", {
+                offerId: "offer-123",
+                price: 800,
+                listedPrice: 1000,
+            });
+
+            expect(db.rideOffer.updateMany).toHaveBeenCalledWith({
+                where: { id: "offer-123", status: RideOfferStatus.PENDING, price: 800 },
+                data: { status: RideOfferStatus.ACCEPTED, listedPrice: 1000 },
+            });
+            expect(db.rideOffer.updateMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", status: RideOfferStatus.PENDING },
+                data: { status: RideOfferStatus.REJECTED },
+            });
+            expect(acceptedOffer).toEqual(expect.objectContaining({ status: RideOfferStatus.ACCEPTED }));
+            expect(rejectedOffers).toEqual([otherOffer]);
+        });
+
+        it("should not accept an offer the driver withdrew or revised in the meantime", async () => {
+            (db.rideOffer.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(
+                closeRideOffers("ride-123", { offerId: "offer-123", price: 800, listedPrice: 1000 })
+            ).rejects.toThrow("The driver withdrew or changed this offer");
+            expect(db.rideOffer.findMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("rejectRideOffers", () => {
+        it("should reject every pending offer and tell the offering drivers why", async () => {
+            (db.rideOffer.findMany as jest.Mock).mockResolvedValue([pendingOffer]);
+
+            await rejectRideOffers("ride-123", "The ride was cancelled");
+
+            expect(db.rideOffer.updateMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", status: RideOfferStatus.PENDING },
+                data: { status: RideOfferStatus.REJECTED },
+            });
+            expect(db.rideOffer.update).not.toHaveBeenCalled();
+            expect(mockEmitter.emitOfferRejected).toHaveBeenCalledWith(pendingOffer, "The ride was cancelled");
+        });
+
+        it("should do nothing when no offer is pending", async () => {
+            (db.rideOffer.findMany as jest.Mock).mockResolvedValue([]);
+
+            await rejectRideOffers("ride-123", "The ride was cancelled");
+
+            expect(db.rideOffer.updateMany).not.toHaveBeenCalled();
+            expect(mockEmitter.emitOfferRejected).not.toHaveBeenCalled();
+        });
+    });
+});
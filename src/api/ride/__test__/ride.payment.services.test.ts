@@ -1,8 +1,12 @@
 import { db } from "../../../utils/db";
 import * as walletServices from "../../wallet/wallet.services";
 import {
+    collectCommissionDebts,
     processDriverCommission,
     processDriverCancellationPenalty,
+    processPromoDiscountRefund,
+    processPassengerNoShowFee,
+    processPassengerCancellationFee,
     validateDriverBalance,
     getPaymentConfig,
 } from "../ride.payment.services";
@@ -13,6 +17,11 @@ jest.mock("../../../utils/db", () => ({
         $transaction: jest.fn(),
         commission: {
             create: jest.fn(),
+            findMany: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        ride: {
+            findUnique: jest.fn(),
         },
     },
 }));
@@ -26,44 +35,32 @@ describe("Ride Payment Services - Cash Only Model", () => {
     });
 
     describe("processDriverCommission", () => {
+        const tx = {
+            ride: { findUnique: jest.fn() },
+            commission: { create: jest.fn().mockImplementation(({ data }) => data) },
+        } as any;
+
         it("should process 10% commission from driver on ride completion", async () => {
             const rideId = "ride-123";
             const driverId = "driver-123";
             const ridePrice = 100000; // 1000 DA
             const expectedCommission = 10000; // 10% of 100000
 
-            const mockDriverDebit = {
-                wallet: { balance: 90000 },
-                transaction: { id: "tx-1", amount: 10000 },
-            };
-
-            const mockCommission = {
-                id: "comm-1",
-                rideId,
-                percent: 0.10,
-                amount: 10000,
-            };
-
-            (walletServices.debitWallet as jest.Mock).mockResolvedValue(mockDriverDebit);
-
-            (db.$transaction as jest.Mock).mockImplementation(async (callback) => {
-                const tx = {
-                    commission: {
-                        create: jest.fn().mockResolvedValue(mockCommission),
-                    },
-                };
-                return callback(tx);
-            });
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(expectedCommission);
 
-            const result = await processDriverCommission(rideId, driverId, ridePrice);
+            const result = await processDriverCommission(tx, rideId, driverId, ridePrice);
 
-            expect(walletServices.debitWallet).toHaveBeenCalledWith(
+            expect(walletServices.debitAvailableBalance).toHaveBeenCalledWith(
+                tx,
                 driverId,
                 expectedCommission,
                 `Platform commission: ${rideId}`
             );
-            expect(result.driverBalance).toBe(90000);
+            expect(tx.commission.create).toHaveBeenCalledWith({
+                data: { rideId, percent: 0.10, amount: 10000, debtAmount: 0 },
+            });
             expect(result.commissionAmount).toBe(10000);
+            expect(result.debtAmount).toBe(0);
         });
 
         it("should calculate 10% commission correctly for various ride prices", async () => {
@@ -76,54 +73,142 @@ describe("Ride Payment Services - Cash Only Model", () => {
             for (const { ridePrice, expectedCommission } of testCases) {
                 jest.clearAllMocks();
 
-                (walletServices.debitWallet as jest.Mock).mockResolvedValue({
-                    wallet: { balance: 100000 },
-                    transaction: { id: "tx-1" },
-                });
-
-                (db.$transaction as jest.Mock).mockImplementation(async (callback) => {
-                    const tx = {
-                        commission: {
-                            create: jest.fn().mockImplementation((data) => data.data),
-                        },
-                    };
-                    return callback(tx);
-                });
+                (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(expectedCommission);
 
-                await processDriverCommission("ride-123", "driver-123", ridePrice);
+                await processDriverCommission(tx, "ride-123", "driver-123", ridePrice);
 
-                expect(walletServices.debitWallet).toHaveBeenCalledWith(
+                expect(walletServices.debitAvailableBalance).toHaveBeenCalledWith(
+                    tx,
                     "driver-123",
                     expectedCommission,
                     expect.any(String)
                 );
             }
         });
+
+        it("should owe the commission of an upward-repriced fare the wallet cannot cover", async () => {
+            // Balance checked against the booked 1000 DA (100 DA), the ride completes at 1250 DA
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(100);
+
+            const result = await processDriverCommission(tx, "ride-123", "driver-123", 1250);
+
+            expect(walletServices.debitAvailableBalance).toHaveBeenCalledWith(
+                tx, "driver-123", 125, "Platform commission: ride-123"
+            );
+            expect(tx.commission.create).toHaveBeenCalledWith({
+                data: { rideId: "ride-123", percent: 0.10, amount: 125, debtAmount: 25 },
+            });
+            expect(result).toEqual(expect.objectContaining({ commissionAmount: 125, chargedAmount: 100, debtAmount: 25 }));
+        });
+    });
+
+    describe("collectCommissionDebts", () => {
+        const debt = { id: "comm-1", rideId: "ride-1", debtAmount: 50 };
+
+        beforeEach(() => {
+            (db.$transaction as jest.Mock).mockImplementation(async (callback) => callback(db));
+        });
+
+        it("should collect a debt from the driver's wallet and settle it", async () => {
+            (db.commission.findMany as jest.Mock).mockResolvedValueOnce([debt]);
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(50);
+            (db.commission.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+            const remaining = await collectCommissionDebts("driver-123");
+
+            expect(remaining).toBe(0);
+            expect(walletServices.debitAvailableBalance).toHaveBeenCalledWith(
+                db, "driver-123", 50, "Commission debt: ride-1"
+            );
+            expect(db.commission.updateMany).toHaveBeenCalledWith({
+                where: { id: "comm-1", debtAmount: 50, debtSettledAt: null },
+                data: { debtAmount: 0, debtSettledAt: expect.any(Date) },
+            });
+        });
+
+        it("should leave what the wallet cannot cover owed", async () => {
+            (db.commission.findMany as jest.Mock).mockResolvedValueOnce([debt]);
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(20);
+            (db.commission.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+            const remaining = await collectCommissionDebts("driver-123");
+
+            expect(remaining).toBe(30);
+            expect(db.commission.updateMany).toHaveBeenCalledWith({
+                where: { id: "comm-1", debtAmount: 50, debtSettledAt: null },
+                data: { debtAmount: 30 },
+            });
+        });
+
+        it("should roll the debit back when the debt was collected in the meantime", async () => {
+            (db.commission.findMany as jest.Mock).mockResolvedValueOnce([debt]);
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(50);
+            (db.commission.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(collectCommissionDebts("driver-123")).rejects.toThrow(
+                "Commission debt is already being collected"
+            );
+        });
+    });
+
+    describe("Tariff-based rates", () => {
+        it("should charge the commission of the tariff that priced the ride", async () => {
+            const createCommission = jest.fn().mockResolvedValue({ id: "comm-1", debtAmount: 0 });
+            const tx = {
+                ride: {
+                    findUnique: jest.fn().mockResolvedValue({
+                        tariff: { commissionPercent: 0.15, cancellationPenaltyPercent: 0.05 },
+                    }),
+                },
+                commission: { create: createCommission },
+            } as any;
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(15000);
+
+            const result = await processDriverCommission(tx, "ride-123", "driver-123", 100000);
+
+            expect(result.commissionAmount).toBe(15000);
+            expect(createCommission).toHaveBeenCalledWith({
+                data: { rideId: "ride-123", percent: 0.15, amount: 15000, debtAmount: 0 },
+            });
+        });
+
+        it("should charge the cancellation penalty of the tariff that priced the ride", async () => {
+            const tx = {
+                ride: {
+                    findUnique: jest.fn().mockResolvedValueOnce({
+                        tariff: { commissionPercent: 0.10, cancellationPenaltyPercent: 0.08 },
+                    }),
+                },
+            } as any;
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(8000);
+
+            const result = await processDriverCancellationPenalty(tx, "ride-123", "driver-123", 100000);
+
+            expect(result.penaltyCharged).toBe(8000);
+        });
     });
 
     describe("processDriverCancellationPenalty", () => {
+        const tx = { ride: { findUnique: jest.fn() } } as any;
+
         it("should charge driver 5% when driver cancels accepted ride", async () => {
             const rideId = "ride-123";
             const driverId = "driver-123";
             const ridePrice = 100000; // 1000 DA
             const expectedPenalty = 5000; // 5% of 100000
 
-            const mockDebit = {
-                wallet: { balance: 95000 },
-                transaction: { id: "tx-1", amount: 5000 },
-            };
-
-            (walletServices.debitWallet as jest.Mock).mockResolvedValue(mockDebit);
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(expectedPenalty);
 
-            const result = await processDriverCancellationPenalty(rideId, driverId, ridePrice);
+            const result = await processDriverCancellationPenalty(tx, rideId, driverId, ridePrice);
 
-            expect(walletServices.debitWallet).toHaveBeenCalledWith(
+            expect(walletServices.debitAvailableBalance).toHaveBeenCalledWith(
+                tx,
                 driverId,
                 expectedPenalty,
                 `Cancellation penalty: ${rideId}`
             );
             expect(result.penaltyCharged).toBe(5000);
-            expect(result.driverBalance).toBe(95000);
+            expect(result.partial).toBe(false);
         });
 
         it("should calculate 5% penalty correctly for various ride prices", async () => {
@@ -136,14 +221,12 @@ describe("Ride Payment Services - Cash Only Model", () => {
             for (const { ridePrice, expectedPenalty } of testCases) {
                 jest.clearAllMocks();
 
-                (walletServices.debitWallet as jest.Mock).mockResolvedValue({
-                    wallet: { balance: 100000 },
-                    transaction: { id: "tx-1" },
-                });
+                (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(expectedPenalty);
 
-                await processDriverCancellationPenalty("ride-123", "driver-123", ridePrice);
+                await processDriverCancellationPenalty(tx, "ride-123", "driver-123", ridePrice);
 
-                expect(walletServices.debitWallet).toHaveBeenCalledWith(
+                expect(walletServices.debitAvailableBalance).toHaveBeenCalledWith(
+                    tx,
                     "driver-123",
                     expectedPenalty,
                     expect.any(String)
@@ -152,49 +235,106 @@ describe("Ride Payment Services - Cash Only Model", () => {
         });
 
         it("should deduct partial amount when driver has insufficient balance", async () => {
-            const rideId = "ride-123";
-            const driverId = "driver-123";
-            const ridePrice = 100000;
-
-            // First call throws insufficient balance error
-            (walletServices.debitWallet as jest.Mock)
-                .mockRejectedValueOnce(new Error("Insufficient balance"))
-                .mockResolvedValueOnce({
-                    wallet: { balance: 0 },
-                    transaction: { id: "tx-1", amount: 3000 },
-                });
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(3000);
 
-            (walletServices.getWalletBalance as jest.Mock).mockResolvedValue(3000);
+            const result = await processDriverCancellationPenalty(tx, "ride-123", "driver-123", 100000);
 
-            const result = await processDriverCancellationPenalty(rideId, driverId, ridePrice);
-
-            expect(walletServices.getWalletBalance).toHaveBeenCalledWith(driverId);
-            expect(walletServices.debitWallet).toHaveBeenCalledWith(
-                driverId,
-                3000,
-                `Partial cancellation penalty: ${rideId}`
-            );
+            expect(result.penaltyAmount).toBe(5000);
             expect(result.penaltyCharged).toBe(3000);
-            expect(result.driverBalance).toBe(0);
             expect(result.partial).toBe(true);
         });
 
         it("should handle driver with zero balance", async () => {
-            (walletServices.debitWallet as jest.Mock).mockRejectedValue(
-                new Error("Insufficient balance")
-            );
-            (walletServices.getWalletBalance as jest.Mock).mockResolvedValue(0);
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(0);
 
-            const result = await processDriverCancellationPenalty(
-                "ride-123",
-                "driver-123",
-                100000
-            );
+            const result = await processDriverCancellationPenalty(tx, "ride-123", "driver-123", 100000);
 
             expect(result.penaltyCharged).toBe(0);
-            expect(result.driverBalance).toBe(0);
             expect(result.partial).toBe(true);
-            expect(result.transaction).toBeNull();
+        });
+
+        it("should not record a penalty when the wallet could not be updated", async () => {
+            (walletServices.debitAvailableBalance as jest.Mock).mockRejectedValueOnce(new Error("Write conflict"));
+
+            await expect(
+                processDriverCancellationPenalty(tx, "ride-123", "driver-123", 100000)
+            ).rejects.toThrow("Write conflict");
+        });
+    });
+
+    describe("processPromoDiscountRefund", () => {
+        it("should credit the driver the discount the passenger did not pay", async () => {
+            const tx = {} as any;
+            (walletServices.creditWalletInTransaction as jest.Mock).mockResolvedValue({
+                wallet: { balance: 5300 },
+                transaction: { id: "tx-refund", amount: 300 },
+            });
+
+            const result = await processPromoDiscountRefund(tx, "ride-123", "driver-123", 300);
+
+            expect(walletServices.creditWalletInTransaction).toHaveBeenCalledWith(
+                tx,
+                "driver-123",
+                300,
+                "Promo discount refund: ride-123"
+            );
+            expect(result.refundAmount).toBe(300);
+            expect(result.driverBalance).toBe(5300);
+        });
+    });
+
+    describe("processPassengerNoShowFee", () => {
+        const tx = {} as any;
+
+        it("should move the no-show fee from the passenger to the driver", async () => {
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(200);
+
+            const result = await processPassengerNoShowFee(tx, "ride-123", "passenger-123", "driver-123");
+
+            expect(walletServices.debitAvailableBalance).toHaveBeenCalledWith(
+                tx, "passenger-123", 200, "No-show fee: ride-123"
+            );
+            expect(walletServices.creditWalletInTransaction).toHaveBeenCalledWith(
+                tx, "driver-123", 200, "No-show compensation: ride-123"
+            );
+            expect(result).toEqual({ feeAmount: 200, feeCharged: 200, debtAmount: 0 });
+        });
+
+        it("should owe what the passenger cannot pay and still pay the driver in full", async () => {
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(50);
+
+            const result = await processPassengerNoShowFee(tx, "ride-123", "passenger-123", "driver-123");
+
+            expect(walletServices.creditWalletInTransaction).toHaveBeenCalledWith(
+                tx, "driver-123", 200, "No-show compensation: ride-123"
+            );
+            expect(result).toEqual({ feeAmount: 200, feeCharged: 50, debtAmount: 150 });
+        });
+    });
+
+    describe("processPassengerCancellationFee", () => {
+        const tx = {} as any;
+
+        it("should charge the wallet, owe the rest and compensate the driver in full", async () => {
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(60);
+
+            const result = await processPassengerCancellationFee(tx, "ride-123", "passenger-123", "driver-123", 100, 80);
+
+            expect(walletServices.debitAvailableBalance).toHaveBeenCalledWith(
+                tx, "passenger-123", 100, "Cancellation fee: ride-123"
+            );
+            expect(walletServices.creditWalletInTransaction).toHaveBeenCalledWith(
+                tx, "driver-123", 80, "Cancellation compensation: ride-123"
+            );
+            expect(result).toEqual({ chargedAmount: 60, debtAmount: 40, driverCompensation: 80 });
+        });
+
+        it("should owe the whole fee when the passenger has no wallet", async () => {
+            (walletServices.debitAvailableBalance as jest.Mock).mockResolvedValueOnce(0);
+
+            const result = await processPassengerCancellationFee(tx, "ride-123", "passenger-123", "driver-123", 100, 80);
+
+            expect(result).toEqual({ chargedAmount: 0, debtAmount: 100, driverCompensation: 80 });
         });
     });
 
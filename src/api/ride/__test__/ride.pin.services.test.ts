@@ -0,0 +1,175 @@
+import { RideStatus } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { issueRidePin, getRidePin, reissueRidePin, verifyRidePin } from "../ride.pin.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findUnique: jest.fn(),
+        },
+        ridePin: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            upsert: jest.fn(),
+        },
+    },
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitRidePin: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+describe("Ride PIN Services", () => {
+    const ridePin = {
+        rideId: "ride-123",
+        pin: "4821",
+        attempts: 0,
+        verifiedAt: null as Date | null,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("issueRidePin", () => {
+        it("should store a new 4-digit PIN and send it to the passenger", async () => {
+            const ride = { id: "ride-123", userId: "passenger-123" };
+
+            const pin = await issueRidePin(ride);
+
+            expect(pin).toMatch(/^\d{4}$/);
+            expect(db.ridePin.upsert).toHaveBeenCalledWith({
+                where: { rideId: "ride-123" },
+                create: { rideId: "ride-123", pin },
+                update: { pin, attempts: 0, verifiedAt: null },
+            });
+            expect(mockEmitter.emitRidePin).toHaveBeenCalledWith(ride, pin);
+        });
+    });
+
+    describe("getRidePin", () => {
+        const ride = {
+            id: "ride-123",
+            userId: "passenger-123",
+            driverId: "driver-123",
+            status: RideStatus.ACCEPTED,
+            pin: ridePin,
+        };
+
+        it("should return the PIN to the passenger", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            await expect(getRidePin("ride-123", "passenger-123")).resolves.toEqual({ rideId: "ride-123", pin: "4821" });
+        });
+
+        it("should never return the PIN to the driver", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            await expect(getRidePin("ride-123", "driver-123")).rejects.toThrow(
+                "Only the passenger can see the ride PIN"
+            );
+        });
+
+        it("should only return the PIN before the ride starts", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...ride, status: RideStatus.ONGOING });
+
+            await expect(getRidePin("ride-123", "passenger-123")).rejects.toThrow(
+                "The PIN is only available once a driver accepted the ride"
+            );
+        });
+    });
+
+    describe("reissueRidePin", () => {
+        const ride = {
+            id: "ride-123",
+            userId: "passenger-123",
+            driverId: "driver-123",
+            status: RideStatus.ARRIVED,
+            pin: { ...ridePin, attempts: 5 },
+        };
+
+        it("should send the passenger a new PIN with fresh attempts", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            const result = await reissueRidePin("ride-123", "passenger-123");
+
+            expect(result.pin).toMatch(/^\d{4}$/);
+            expect(db.ridePin.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({ update: { pin: result.pin, attempts: 0, verifiedAt: null } })
+            );
+            expect(mockEmitter.emitRidePin).toHaveBeenCalledWith(ride, result.pin);
+        });
+
+        it("should only let the passenger get a new PIN", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            await expect(reissueRidePin("ride-123", "driver-123")).rejects.toThrow(
+                "Only the passenger can get a new ride PIN"
+            );
+            expect(db.ridePin.upsert).not.toHaveBeenCalled();
+        });
+
+        it("should not replace a PIN that was already confirmed", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...ride,
+                pin: { ...ridePin, verifiedAt: new Date() },
+            });
+
+            await expect(reissueRidePin("ride-123", "passenger-123")).rejects.toThrow("already confirmed");
+        });
+    });
+
+    describe("verifyRidePin", () => {
+        it("should accept the right PIN", async () => {
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValue(ridePin);
+
+            await verifyRidePin("ride-123", " 4821 ");
+
+            expect(db.ridePin.update).toHaveBeenCalledWith({
+                where: { rideId: "ride-123" },
+                data: { verifiedAt: expect.any(Date) },
+            });
+        });
+
+        it("should count wrong PINs", async () => {
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValue({ ...ridePin, attempts: 2 });
+            (db.ridePin.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+            await expect(verifyRidePin("ride-123", "1234")).rejects.toThrow("Invalid PIN (2 attempts left)");
+            expect(db.ridePin.updateMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", attempts: { lt: 5 } },
+                data: { attempts: { increment: 1 } },
+            });
+        });
+
+        it("should not count guesses past the limit when they race", async () => {
+            // Read before the other guesses were counted
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValue({ ...ridePin, attempts: 4 });
+            (db.ridePin.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(verifyRidePin("ride-123", "1234")).rejects.toThrow("Too many wrong PINs");
+        });
+
+        it("should lock the PIN after too many wrong attempts", async () => {
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValue({ ...ridePin, attempts: 5 });
+
+            await expect(verifyRidePin("ride-123", "4821")).rejects.toThrow("Too many wrong PINs");
+            expect(db.ridePin.update).not.toHaveBeenCalled();
+        });
+
+        it("should require a PIN", async () => {
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValue(ridePin);
+            await expect(verifyRidePin("ride-123")).rejects.toThrow("pin is required to start the ride");
+
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValue(null);
+            await expect(verifyRidePin("ride-123", "4821")).rejects.toThrow("No PIN was generated for this ride");
+        });
+    });
+});
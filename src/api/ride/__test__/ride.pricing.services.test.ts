@@ -0,0 +1,387 @@
+import { RideType } from "@prisma/client";
+import {
+    calculatePriceBreakdown,
+    estimateRidePrice,
+    getRidePriceBreakdown,
+} from "../ride.pricing.services";
+import { getActiveTariff } from "../../tariff/tariff.services";
+import { resolveTripZones } from "../../tariff/tariff.zone.services";
+import { getSurgeMultiplier } from "../ride.surge.services";
+import { getApplicableTariffRules } from "../../tariff/tariff.rule.services";
+
+// Mock the tariff and zone lookups
+jest.mock("../../tariff/tariff.services", () => ({
+    getActiveTariff: jest.fn(),
+}));
+
+jest.mock("../../tariff/tariff.zone.services", () => ({
+    resolveTripZones: jest.fn(),
+}));
+
+jest.mock("../ride.surge.services", () => ({
+    getSurgeMultiplier: jest.fn(),
+}));
+
+jest.mock("../../tariff/tariff.rule.services", () => ({
+    getApplicableTariffRules: jest.fn(),
+}));
+
+describe("Ride Pricing Services - Distance & Time Based Fares", () => {
+    const mockTariff = {
+        id: "tariff-2",
+        version: 2,
+        name: "Test tariff",
+        effectiveFrom: new Date("2026-01-01"),
+        baseFare: 150,
+        perKmRate: 60,
+        perMinuteRate: 5,
+        minimumFare: 300,
+        regularMultiplier: 1.0,
+        seatReserveMultiplier: 1.5,
+        deliveryMultiplier: 0.5,
+        stopFee: 80,
+        commissionPercent: 0.12,
+        cancellationPenaltyPercent: 0.05,
+        createdBy: "admin-123",
+        createdAt: new Date("2025-12-01"),
+        updatedAt: new Date("2025-12-01"),
+    };
+
+    const mockZone = {
+        id: "zone-south",
+        name: "Southern wilayas",
+        polygon: null,
+        wilayaCodes: ["01", "11", "33"],
+        communes: [],
+        priority: 0,
+        baseFare: 200,
+        perKmRate: 30,
+        perMinuteRate: 5,
+        minimumFare: 400,
+        crossZoneSurcharge: 150,
+        isActive: true,
+        createdAt: new Date("2026-01-01"),
+        updatedAt: new Date("2026-01-01"),
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (getActiveTariff as jest.Mock).mockResolvedValue(null);
+        (resolveTripZones as jest.Mock).mockResolvedValue({ zone: null, crossesZone: false });
+        (getSurgeMultiplier as jest.Mock).mockResolvedValue(1.0);
+        (getApplicableTariffRules as jest.Mock).mockResolvedValue([]);
+    });
+
+    describe("calculatePriceBreakdown (default rates)", () => {
+        it("should itemise base fare, distance charge and time charge", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.REGULAR,
+                distanceKm: 10,
+                durationMin: 20,
+            }, null);
+
+            expect(breakdown.baseFare).toBe(100);
+            expect(breakdown.distanceCharge).toBe(500); // 10 km * 50 DA
+            expect(breakdown.timeCharge).toBe(200);     // 20 min * 10 DA
+            expect(breakdown.subtotal).toBe(800);
+            expect(breakdown.typeMultiplier).toBe(1.0);
+            expect(breakdown.surgeMultiplier).toBe(1.0);
+            expect(breakdown.minimumFareAdjustment).toBe(0);
+            expect(breakdown.totalPrice).toBe(800);
+            expect(breakdown.tariffId).toBeNull();
+            expect(breakdown.currency).toBe("DA");
+        });
+
+        it("should apply the ride type multiplier", () => {
+            const params = { distanceKm: 10, durationMin: 20 };
+
+            expect(calculatePriceBreakdown({ ...params, type: RideType.SEAT_RESERVE }, null).totalPrice).toBe(960);
+            expect(calculatePriceBreakdown({ ...params, type: RideType.DELIVERY }, null).totalPrice).toBe(640);
+        });
+
+        it("should top up short rides to the minimum fare", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.REGULAR,
+                distanceKm: 0.5,
+                durationMin: 2,
+            }, null);
+
+            // 100 + 25 + 20 = 145 < 200
+            expect(breakdown.subtotal).toBe(145);
+            expect(breakdown.minimumFareAdjustment).toBe(55);
+            expect(breakdown.totalPrice).toBe(200);
+        });
+
+        it("should derive distance and duration from coordinates when not provided", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.REGULAR,
+                originLat: 36.7538,
+                originLng: 3.0588,
+                destLat: 36.7650,
+                destLng: 3.0700,
+            }, null);
+
+            expect(breakdown.distanceKm).toBeGreaterThan(1.5);
+            expect(breakdown.distanceKm).toBeLessThan(1.7);
+            expect(breakdown.durationMin).toBe(2); // ~1.6 km at 40 km/h
+        });
+
+        it("should route the derived distance through the stops and charge each stop", () => {
+            const trip = {
+                type: RideType.REGULAR,
+                originLat: 36.7538,
+                originLng: 3.0588,
+                destLat: 36.7650,
+                destLng: 3.0700,
+            };
+
+            const direct = calculatePriceBreakdown(trip, null);
+            const withStops = calculatePriceBreakdown({
+                ...trip,
+                stops: [{ lat: 36.7800, lng: 3.0600 }, { lat: 36.7700, lng: 3.0800 }],
+            }, null);
+
+            expect(withStops.distanceKm).toBeGreaterThan(direct.distanceKm);
+            expect(withStops.stopCount).toBe(2);
+            expect(withStops.stopCharge).toBe(100); // 2 stops * 50 DA
+            expect(direct.stopCharge).toBe(0);
+        });
+
+        it("should fall back to the minimum fare when no trip data is given", () => {
+            const breakdown = calculatePriceBreakdown({ type: RideType.REGULAR }, null);
+
+            expect(breakdown.distanceCharge).toBe(0);
+            expect(breakdown.timeCharge).toBe(0);
+            expect(breakdown.totalPrice).toBe(200);
+        });
+    });
+
+    describe("calculatePriceBreakdown (tariff rates)", () => {
+        it("should price with the tariff rates and record its version", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.SEAT_RESERVE,
+                distanceKm: 10,
+                durationMin: 20,
+            }, mockTariff);
+
+            // (150 + 600 + 100) * 1.5
+            expect(breakdown.subtotal).toBe(850);
+            expect(breakdown.typeMultiplier).toBe(1.5);
+            expect(breakdown.totalPrice).toBe(1275);
+            expect(breakdown.tariffId).toBe("tariff-2");
+            expect(breakdown.tariffVersion).toBe(2);
+        });
+
+        it("should apply the tariff minimum fare", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.DELIVERY,
+                distanceKm: 1,
+                durationMin: 2,
+            }, mockTariff);
+
+            expect(breakdown.totalPrice).toBe(300);
+        });
+
+        it("should charge the tariff stop fee before the multipliers", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.SEAT_RESERVE,
+                distanceKm: 10,
+                durationMin: 20,
+                stops: [{ lat: 36.7800, lng: 3.0600 }],
+            }, mockTariff);
+
+            // (150 + 600 + 100 + 80) * 1.5
+            expect(breakdown.stopCharge).toBe(80);
+            expect(breakdown.subtotal).toBe(930);
+            expect(breakdown.totalPrice).toBe(1395);
+        });
+    });
+
+    describe("calculatePriceBreakdown (zone rates)", () => {
+        it("should price with the pickup zone rates and keep the tariff multipliers", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.SEAT_RESERVE,
+                distanceKm: 20,
+                durationMin: 20,
+            }, mockTariff, { zone: mockZone, crossesZone: false });
+
+            // (200 + 600 + 100) * 1.5
+            expect(breakdown.baseFare).toBe(200);
+            expect(breakdown.crossZoneSurcharge).toBe(0);
+            expect(breakdown.totalPrice).toBe(1350);
+            expect(breakdown.zoneId).toBe("zone-south");
+            expect(breakdown.zoneName).toBe("Southern wilayas");
+        });
+
+        it("should add the cross-zone surcharge when the drop-off is outside the zone", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.REGULAR,
+                distanceKm: 20,
+                durationMin: 20,
+            }, null, { zone: mockZone, crossesZone: true });
+
+            expect(breakdown.crossZoneSurcharge).toBe(150);
+            expect(breakdown.subtotal).toBe(200 + 600 + 100 + 150);
+        });
+
+        it("should apply the zone minimum fare", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.REGULAR,
+                distanceKm: 1,
+                durationMin: 2,
+            }, null, { zone: mockZone, crossesZone: false });
+
+            expect(breakdown.totalPrice).toBe(400);
+        });
+    });
+
+    describe("calculatePriceBreakdown (surge)", () => {
+        it("should scale the fare by the surge multiplier", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.REGULAR,
+                distanceKm: 10,
+                durationMin: 20,
+            }, null, undefined, 1.5);
+
+            expect(breakdown.surgeMultiplier).toBe(1.5);
+            expect(breakdown.totalPrice).toBe(1200); // 800 * 1.5
+        });
+    });
+
+    describe("calculatePriceBreakdown (time rules)", () => {
+        const rule = (overrides: object) => ({
+            id: "rule-night",
+            name: "Night",
+            daysOfWeek: [],
+            startTime: "22:00",
+            endTime: "06:00",
+            startDate: null,
+            endDate: null,
+            multiplier: 1.0,
+            surcharge: 0,
+            exclusive: false,
+            priority: 0,
+            isActive: true,
+            createdBy: null,
+            createdAt: new Date("2026-01-01"),
+            updatedAt: new Date("2026-01-01"),
+            ...overrides,
+        });
+
+        it("should add each rule as its own line", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.REGULAR,
+                distanceKm: 10,
+                durationMin: 20,
+            }, null, undefined, 1.0, [
+                rule({ multiplier: 1.25 }),
+                rule({ id: "rule-weekend", name: "Weekend", surcharge: 50 }),
+            ]);
+
+            expect(breakdown.timeRules).toEqual([
+                { ruleId: "rule-night", name: "Night", multiplier: 1.25, surcharge: 0, amount: 200 },
+                { ruleId: "rule-weekend", name: "Weekend", multiplier: 1.0, surcharge: 50, amount: 50 },
+            ]);
+            expect(breakdown.timeRulesTotal).toBe(250);
+            expect(breakdown.totalPrice).toBe(1050); // 800 + 200 + 50
+        });
+
+        it("should apply the type and surge multipliers after the rules", () => {
+            const breakdown = calculatePriceBreakdown({
+                type: RideType.DELIVERY,
+                distanceKm: 10,
+                durationMin: 20,
+            }, null, undefined, 1.5, [rule({ surcharge: 200 })]);
+
+            expect(breakdown.totalPrice).toBe(1200); // (800 + 200) * 0.8 * 1.5
+        });
+
+        it("should have no rule lines by default", () => {
+            const breakdown = calculatePriceBreakdown({ type: RideType.REGULAR, distanceKm: 10 }, null);
+
+            expect(breakdown.timeRules).toEqual([]);
+            expect(breakdown.timeRulesTotal).toBe(0);
+        });
+    });
+
+    describe("getRidePriceBreakdown / estimateRidePrice", () => {
+        it("should evaluate the rules at the pickup time", async () => {
+            const pickupAt = new Date("2026-03-20T21:30:00.000Z");
+
+            await getRidePriceBreakdown({ type: RideType.REGULAR, distanceKm: 5, pickupAt });
+
+            expect(getApplicableTariffRules).toHaveBeenCalledWith(pickupAt);
+        });
+
+        it("should apply the surge of the pickup area", async () => {
+            (getSurgeMultiplier as jest.Mock).mockResolvedValue(1.3);
+
+            const breakdown = await getRidePriceBreakdown({
+                type: RideType.REGULAR,
+                distanceKm: 10,
+                durationMin: 20,
+                originLat: 36.75,
+                originLng: 3.06,
+            });
+
+            expect(getSurgeMultiplier).toHaveBeenCalledWith(36.75, 3.06);
+            expect(breakdown.surgeMultiplier).toBe(1.3);
+            expect(breakdown.totalPrice).toBe(1040);
+        });
+
+        it("should not surge rides booked for later", async () => {
+            (getSurgeMultiplier as jest.Mock).mockResolvedValue(1.3);
+
+            const breakdown = await getRidePriceBreakdown({
+                type: RideType.REGULAR,
+                distanceKm: 10,
+                durationMin: 20,
+                originLat: 36.75,
+                originLng: 3.06,
+                pickupAt: new Date(Date.now() + 2 * 60 * 60 * 1000),
+            });
+
+            expect(getSurgeMultiplier).not.toHaveBeenCalled();
+            expect(breakdown.surgeMultiplier).toBe(1.0);
+        });
+
+        it("should resolve the zone from the trip coordinates", async () => {
+            (resolveTripZones as jest.Mock).mockResolvedValue({ zone: mockZone, crossesZone: false });
+            const params = {
+                type: RideType.REGULAR,
+                originLat: 22.785,
+                originLng: 5.5228,
+                destLat: 22.8,
+                destLng: 5.53,
+            };
+
+            const breakdown = await getRidePriceBreakdown(params);
+
+            expect(resolveTripZones).toHaveBeenCalledWith(params);
+            expect(breakdown.zoneId).toBe("zone-south");
+        });
+
+        it("should price with the tariff currently in effect", async () => {
+            (getActiveTariff as jest.Mock).mockResolvedValue(mockTariff);
+
+            const breakdown = await getRidePriceBreakdown({ type: RideType.REGULAR, distanceKm: 10, durationMin: 20 });
+
+            expect(getActiveTariff).toHaveBeenCalled();
+            expect(breakdown.tariffId).toBe("tariff-2");
+            expect(breakdown.totalPrice).toBe(850);
+        });
+
+        it("should charge a long ride more than a short one", async () => {
+            const shortRide = await estimateRidePrice({ type: RideType.REGULAR, distanceKm: 2 });
+            const longRide = await estimateRidePrice({ type: RideType.REGULAR, distanceKm: 30 });
+
+            expect(longRide).toBeGreaterThan(shortRide);
+        });
+
+        it("should match the breakdown total", async () => {
+            const params = { type: RideType.REGULAR, distanceKm: 12.3, durationMin: 17 };
+
+            expect(await estimateRidePrice(params)).toBe((await getRidePriceBreakdown(params)).totalPrice);
+        });
+    });
+});
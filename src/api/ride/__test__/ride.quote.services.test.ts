@@ -0,0 +1,161 @@
+import jwt from "jsonwebtoken";
+import { RideType } from "@prisma/client";
+import { getRidePriceBreakdown } from "../ride.pricing.services";
+import { issueQuote, verifyQuote, resolveRidePricing } from "../ride.quote.services";
+
+// Mock the pricing engine
+jest.mock("../ride.pricing.services", () => ({
+    getRidePriceBreakdown: jest.fn(),
+}));
+
+describe("Ride Quote Services", () => {
+    const trip = {
+        type: RideType.REGULAR,
+        originLat: 36.7538,
+        originLng: 3.0588,
+        destLat: 36.7650,
+        destLng: 3.0700,
+    };
+
+    const breakdown = {
+        totalPrice: 850,
+        tariffId: "tariff-2",
+        zoneId: null,
+        crossZoneSurcharge: 0,
+        surgeMultiplier: 1.2,
+        timeRules: [{ ruleId: "rule-night", name: "Night", multiplier: 1.25, surcharge: 0, amount: 150 }],
+    } as any;
+
+    const quotedPricing = {
+        price: 850,
+        tariffId: "tariff-2",
+        zoneId: null,
+        crossZoneSurcharge: 0,
+        surgeMultiplier: 1.2,
+        timeRuleIds: ["rule-night"],
+        timeRules: [{ id: "rule-night", name: "Night", multiplier: 1.25, surcharge: 0 }],
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        process.env.JWT_ACCESS_SECRET = "testsecret";
+    });
+
+    describe("issueQuote", () => {
+        it("should issue a quote expiring in 5 minutes", () => {
+            const before = Date.now();
+            const quote = issueQuote(trip, breakdown);
+
+            expect(quote?.quoteId).toEqual(expect.any(String));
+            expect(quote!.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 5 * 60 * 1000);
+            expect(quote!.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 5 * 60 * 1000);
+        });
+
+        it("should not issue a quote without coordinates", () => {
+            expect(issueQuote({ type: RideType.REGULAR, distanceKm: 10 }, breakdown)).toBeNull();
+        });
+
+        it("should not be usable as an access token", () => {
+            const quote = issueQuote(trip, breakdown);
+
+            expect(() => jwt.verify(quote!.quoteId, "testsecret")).toThrow();
+        });
+    });
+
+    describe("verifyQuote", () => {
+        it("should return the quoted pricing for the same trip", () => {
+            const quote = issueQuote(trip, breakdown);
+
+            expect(verifyQuote(quote!.quoteId, trip)).toEqual(quotedPricing);
+        });
+
+        it("should tolerate small GPS drift", () => {
+            const quote = issueQuote(trip, breakdown);
+
+            // ~20 m away
+            expect(verifyQuote(quote!.quoteId, { ...trip, originLat: 36.7540 }).price).toBe(850);
+        });
+
+        it("should reject a quote for another trip", () => {
+            const quote = issueQuote(trip, breakdown);
+
+            expect(() => verifyQuote(quote!.quoteId, { ...trip, destLat: 36.80 })).toThrow(
+                "Quote does not match this ride"
+            );
+            expect(() => verifyQuote(quote!.quoteId, { ...trip, type: RideType.DELIVERY })).toThrow(
+                "Quote does not match this ride"
+            );
+            expect(() => verifyQuote(quote!.quoteId, { ...trip, distanceKm: 2 })).toThrow(
+                "Quote does not match this ride"
+            );
+        });
+
+        it("should bind a quote to its pickup time", () => {
+            const pickupAt = new Date("2026-10-20T08:00:00.000Z");
+            const quote = issueQuote({ ...trip, pickupAt }, breakdown);
+
+            expect(verifyQuote(quote!.quoteId, { ...trip, pickupAt: new Date(pickupAt) }).price).toBe(850);
+            expect(() => verifyQuote(quote!.quoteId, trip)).toThrow("Quote does not match this ride");
+            expect(() =>
+                verifyQuote(quote!.quoteId, { ...trip, pickupAt: new Date("2026-10-20T22:00:00.000Z") })
+            ).toThrow("Quote does not match this ride");
+        });
+
+        it("should bind a quote to its stops", () => {
+            const stops = [{ lat: 36.7800, lng: 3.0600 }, { lat: 36.7700, lng: 3.0800 }];
+            const quote = issueQuote({ ...trip, stops }, breakdown);
+
+            expect(verifyQuote(quote!.quoteId, { ...trip, stops }).price).toBe(850);
+            expect(() => verifyQuote(quote!.quoteId, trip)).toThrow("Quote does not match this ride");
+            expect(() => verifyQuote(quote!.quoteId, { ...trip, stops: [...stops].reverse() })).toThrow(
+                "Quote does not match this ride"
+            );
+        });
+
+        it("should reject a tampered quote", () => {
+            const quote = issueQuote(trip, breakdown);
+            const [header, , signature] = quote!.quoteId.split(".");
+            const forgedPayload = Buffer.from(
+                JSON.stringify({ trip, ...quotedPricing, price: 1, aud: "ride-quote" })
+            ).toString("base64url");
+
+            expect(() => verifyQuote(`${header}.${forgedPayload}.${signature}`, trip)).toThrow("Invalid quote");
+            expect(() => verifyQuote("not-a-quote", trip)).toThrow("Invalid quote");
+        });
+
+        it("should reject an expired quote", () => {
+            jest.useFakeTimers();
+            try {
+                const quote = issueQuote(trip, breakdown);
+                jest.advanceTimersByTime(5 * 60 * 1000 + 1000);
+
+                expect(() => verifyQuote(quote!.quoteId, trip)).toThrow("Quote has expired");
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe("resolveRidePricing", () => {
+        it("should honour a valid quote without repricing", async () => {
+            const quote = issueQuote(trip, breakdown);
+
+            const pricing = await resolveRidePricing(trip, quote!.quoteId);
+
+            expect(pricing).toEqual(quotedPricing);
+            expect(getRidePriceBreakdown).not.toHaveBeenCalled();
+        });
+
+        it("should price server-side without a quote", async () => {
+            (getRidePriceBreakdown as jest.Mock).mockResolvedValue({ ...breakdown, totalPrice: 900 });
+
+            const pricing = await resolveRidePricing(trip);
+
+            expect(getRidePriceBreakdown).toHaveBeenCalledWith(trip);
+            expect(pricing.price).toBe(900);
+            expect(pricing.timeRuleIds).toEqual(["rule-night"]);
+            // The rule terms are kept on the ride as priced
+            expect(pricing.timeRules).toEqual(quotedPricing.timeRules);
+        });
+    });
+});
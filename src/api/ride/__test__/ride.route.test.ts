@@ -1,50 +1,155 @@
+import fs from "fs";
+import path from "path";
 import express from "express";
 import request from "supertest";
 import jwt from "jsonwebtoken";
-import { RideStatus, RideType, Role } from "@prisma/client";
+import { CancellationReason, DispatchMode, Prisma, RideActor, RideStatus, RideType, Role, VehicleType } from "@prisma/client";
 
 // Mock the database BEFORE importing the router
 jest.mock("../../../utils/db", () => ({
     db: {
+        $transaction: jest.fn(),
         ride: {
             create: jest.fn(),
             findUnique: jest.fn(),
             findMany: jest.fn(),
             findFirst: jest.fn(),
             update: jest.fn(),
+            updateMany: jest.fn(),
+            count: jest.fn(),
             getCurrentRideForDriver: jest.fn(),
         },
         wallet: {
             update: jest.fn(),
+            updateMany: jest.fn(),
             findUnique: jest.fn(),  // Added for balance check
         },
+        transaction: {
+            create: jest.fn(),
+        },
         driverProfile: {
             findUnique: jest.fn(),
+            findMany: jest.fn(),
         },
         vehicle: {
             findUnique: jest.fn(),
         },
         commission: {
             create: jest.fn(),
+            findMany: jest.fn().mockResolvedValue([]),
+            updateMany: jest.fn(),
+        },
+        tariff: {
+            findFirst: jest.fn(),
+        },
+        tariffZone: {
+            findMany: jest.fn().mockResolvedValue([]),
+        },
+        tariffRule: {
+            findMany: jest.fn().mockResolvedValue([]),
+        },
+        rideOffer: {
+            count: jest.fn().mockResolvedValue(0),
+            findFirst: jest.fn().mockResolvedValue(null),
+            findMany: jest.fn().mockResolvedValue([]),
+            findUnique: jest.fn(),
+            upsert: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        rideStop: {
+            findMany: jest.fn().mockResolvedValue([]),
+            updateMany: jest.fn(),
+        },
+        deliveryCode: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            upsert: jest.fn(),
+        },
+        deliveryPhoto: {
+            create: jest.fn(),
+        },
+        ridePin: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            upsert: jest.fn(),
+        },
+        rideShareToken: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        rideCancellation: {
+            create: jest.fn(),
+            findMany: jest.fn(),
+        },
+        rideStatusEvent: {
+            create: jest.fn(),
+        },
+        rideLocationPoint: {
+            findMany: jest.fn().mockResolvedValue([]),
+        },
+        cancellationFee: {
+            findMany: jest.fn().mockResolvedValue([]),
+            create: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        dispatchOffer: {
+            findMany: jest.fn().mockResolvedValue([]),
+            findFirst: jest.fn(),
+            updateMany: jest.fn(),
         },
     },
 }));
 
 // Mock payment services BEFORE importing the router
 jest.mock("../ride.payment.services", () => ({
+    ...jest.requireActual("../ride.payment.services"),
     processDriverCommission: jest.fn(),
     processDriverCancellationPenalty: jest.fn(),
+    processPromoDiscountRefund: jest.fn(),
+    processPassengerCancellationFee: jest.fn(),
+}));
+
+// Mock promo services BEFORE importing the router
+jest.mock("../../promo/promo.services", () => ({
+    applyPromoCode: jest.fn(),
+    getRideDiscount: jest.fn(),
+    reapplyPromoCode: jest.fn(),
+    redeemPromoCode: jest.fn(),
+    releasePromoRedemption: jest.fn(),
+}));
+
+// Mock surge services BEFORE importing the router
+jest.mock("../ride.surge.services", () => ({
+    getSurgeMultiplier: jest.fn().mockResolvedValue(1.0),
+    getSurgeMap: jest.fn(),
 }));
 
 // Mock geocoding utility BEFORE importing the router
 jest.mock("../../../utils/geocoding", () => ({
     reverseGeocode: jest.fn(),
+    reverseGeocodeRegion: jest.fn().mockResolvedValue(null),
+}));
+
+// Mock the SMS gateway BEFORE importing the router
+jest.mock("../../../utils/sms", () => ({
+    sendSms: jest.fn(),
 }));
 
 import { db } from "../../../utils/db";
 import rideRouter from "../ride.route";
 import * as paymentServices from "../ride.payment.services";
 import * as geocodingServices from "../../../utils/geocoding";
+import { sendSms } from "../../../utils/sms";
+import * as surgeServices from "../ride.surge.services";
+import * as promoServices from "../../promo/promo.services";
+import * as driverLocationHandler from "../../../socket/handlers/driver-location.handler";
+import { BadRequestError } from "../../../utils/errors";
+import { hashToken } from "../../../utils/hashToken";
+import { calculateDistance, estimateTravelTime } from "../../../utils/distance";
+import { TRAIL_CONFIG } from "../ride.trail.services";
 
 // Mock environment
 process.env.JWT_ACCESS_SECRET = "testsecret";
@@ -68,6 +173,8 @@ describe("Ride Routes - Coordinate Based Locations", () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        (db.$transaction as jest.Mock).mockImplementation(async (callback) => callback(db));
+        (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
     });
 
     describe("POST /rides - Create Ride with Coordinates", () => {
@@ -145,6 +252,296 @@ describe("Ride Routes - Coordinate Based Locations", () => {
             expect(res.body.error).toContain("Missing required fields");
         });
 
+        it("should book at the quoted price with a valid quoteId", async () => {
+            const estimate = await request(app)
+                .post("/rides/estimate")
+                .send(validRideData);
+
+            expect(estimate.body.quoteId).toEqual(expect.any(String));
+            expect(estimate.body.quoteExpiresAt).toBeDefined();
+
+            (db.ride.create as jest.Mock).mockResolvedValue({ id: "ride-quoted" });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, quoteId: estimate.body.quoteId });
+
+            expect(res.status).toBe(201);
+            expect(db.ride.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ price: estimate.body.estimatedPrice }),
+                })
+            );
+        });
+
+        it("should book with the zone resolved on the quote", async () => {
+            (db.tariffZone.findMany as jest.Mock).mockResolvedValueOnce([{
+                id: "zone-centre",
+                name: "Alger Centre",
+                polygon: [
+                    { lat: 36.74, lng: 3.03 },
+                    { lat: 36.74, lng: 3.09 },
+                    { lat: 36.79, lng: 3.09 },
+                    { lat: 36.79, lng: 3.03 },
+                ],
+                wilayaCodes: [],
+                communes: [],
+                priority: 0,
+                crossZoneSurcharge: 0,
+                isActive: true,
+                baseFare: 150,
+                perKmRate: 60,
+                perMinuteRate: 10,
+                minimumFare: 300,
+            }]);
+
+            const estimate = await request(app)
+                .post("/rides/estimate")
+                .send(validRideData);
+
+            (db.ride.create as jest.Mock).mockResolvedValue({ id: "ride-quoted" });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, quoteId: estimate.body.quoteId });
+
+            expect(res.status).toBe(201);
+            expect(db.tariffZone.findMany).toHaveBeenCalledTimes(1);
+            expect(db.ride.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ zoneId: "zone-centre" }),
+                })
+            );
+        });
+
+        it("should ignore a client-supplied price and compute it server-side", async () => {
+            const estimate = await request(app)
+                .post("/rides/estimate")
+                .send(validRideData);
+
+            (db.ride.create as jest.Mock).mockResolvedValue({ id: "ride-tampered" });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, price: 1 });
+
+            expect(res.status).toBe(201);
+            const { data } = (db.ride.create as jest.Mock).mock.calls[0][0];
+            expect(data.price).toBe(estimate.body.estimatedPrice);
+        });
+
+        it("should not price a trip below the straight line between its points", async () => {
+            (db.ride.create as jest.Mock).mockResolvedValue({ id: "ride-zero" });
+            const trip = { ...validRideData, destLat: 36.8438, destLng: 3.0588 };
+            const straightLineKm = calculateDistance(trip.originLat, trip.originLng, trip.destLat, trip.destLng);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...trip, distanceKm: 0, durationMin: 0 });
+
+            expect(res.status).toBe(201);
+            const { data } = (db.ride.create as jest.Mock).mock.calls[0][0];
+            // Default rates: 100 DA + 50 DA/km + 10 DA/min, the line driven at 90 km/h at best
+            expect(data.price).toBe(100 + Math.round(straightLineKm * 50) + estimateTravelTime(straightLineKm, 90) * 10);
+            expect(data.price).toBeGreaterThan(600);
+        });
+
+        it("should reject a quote issued for another trip (400 Bad Request)", async () => {
+            const estimate = await request(app)
+                .post("/rides/estimate")
+                .send({ ...validRideData, destLat: 36.9, destLng: 3.2 });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, quoteId: estimate.body.quoteId });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Quote does not match this ride");
+            expect(db.ride.create).not.toHaveBeenCalled();
+        });
+
+        it("should record the promo discount and redemption on the ride", async () => {
+            (promoServices.applyPromoCode as jest.Mock).mockResolvedValue({
+                promoCode: { id: "promo-1", code: "WELCOME" },
+                discountAmount: 150,
+            });
+            (db.ride.create as jest.Mock).mockResolvedValue({ id: "ride-promo" });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, promoCode: "welcome" });
+
+            expect(res.status).toBe(201);
+            expect(promoServices.applyPromoCode).toHaveBeenCalledWith(
+                "welcome",
+                passengerPayload.userId,
+                expect.objectContaining({ type: RideType.REGULAR, originLat: 36.7538 }),
+                expect.any(Number)
+            );
+            expect(db.ride.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        promoCodeId: "promo-1",
+                        discountAmount: 150,
+                    }),
+                })
+            );
+            expect(promoServices.redeemPromoCode).toHaveBeenCalledWith(
+                db,
+                { id: "promo-1", code: "WELCOME" },
+                passengerPayload.userId,
+                "ride-promo"
+            );
+            expect(db.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+                isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+            });
+        });
+
+        it("should only lock the booking in a transaction when a promo code is used", async () => {
+            (db.ride.create as jest.Mock).mockResolvedValueOnce({ id: "ride-plain", status: RideStatus.PENDING });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send(validRideData);
+
+            expect(res.status).toBe(201);
+            expect(db.$transaction).not.toHaveBeenCalled();
+            expect(promoServices.redeemPromoCode).not.toHaveBeenCalled();
+        });
+
+        it("should not book the last use of a promo code twice", async () => {
+            (promoServices.applyPromoCode as jest.Mock).mockResolvedValue({
+                promoCode: { id: "promo-1", code: "WELCOME" },
+                discountAmount: 150,
+            });
+            (db.$transaction as jest.Mock).mockRejectedValueOnce(
+                new Prisma.PrismaClientKnownRequestError("Transaction failed due to a write conflict", {
+                    code: "P2034",
+                    clientVersion: "test",
+                })
+            );
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, promoCode: "welcome" });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Promo code is no longer available");
+        });
+
+        it("should not book with an unusable promo code", async () => {
+            (promoServices.applyPromoCode as jest.Mock).mockRejectedValueOnce(
+                new BadRequestError("Promo code has expired")
+            );
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, promoCode: "OLD" });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Promo code has expired");
+            expect(db.ride.create).not.toHaveBeenCalled();
+        });
+
+        it("should book a scheduled ride without the active ride check", async () => {
+            const scheduledAt = new Date(Date.now() + 3 * 60 * 60 * 1000);
+            (db.ride.count as jest.Mock).mockResolvedValue(0);
+            (db.ride.create as jest.Mock).mockResolvedValue({
+                id: "ride-scheduled",
+                status: RideStatus.SCHEDULED,
+                scheduledAt,
+            });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, scheduledAt: scheduledAt.toISOString() });
+
+            expect(res.status).toBe(201);
+            expect(db.ride.findFirst).not.toHaveBeenCalled();
+            expect(db.ride.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        status: RideStatus.SCHEDULED,
+                        scheduledAt,
+                    }),
+                })
+            );
+        });
+
+        it("should reject a scheduled ride booked too late", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, scheduledAt: new Date(Date.now() + 60 * 1000).toISOString() });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toContain("at least 30 minutes in advance");
+            expect(db.ride.create).not.toHaveBeenCalled();
+        });
+
+        it("should create a multi-stop ride with its stops in order", async () => {
+            (db.ride.create as jest.Mock).mockResolvedValue({ id: "ride-stops", status: RideStatus.PENDING });
+            (geocodingServices.reverseGeocode as jest.Mock).mockResolvedValue("Geocoded Address");
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({
+                    ...validRideData,
+                    stops: [{ lat: 36.7800, lng: 3.0600 }, { lat: 36.7700, lng: 3.0800 }],
+                });
+
+            expect(res.status).toBe(201);
+            expect(geocodingServices.reverseGeocode).toHaveBeenCalledWith(36.7800, 3.0600);
+            expect(geocodingServices.reverseGeocode).toHaveBeenCalledWith(36.7700, 3.0800);
+            expect(db.ride.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        stops: {
+                            create: [
+                                { order: 1, lat: 36.7800, lng: 3.0600, address: "Geocoded Address" },
+                                { order: 2, lat: 36.7700, lng: 3.0800, address: "Geocoded Address" },
+                            ],
+                        },
+                    }),
+                })
+            );
+        });
+
+        it("should reject invalid stops", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ ...validRideData, stops: [{ lat: 120, lng: 3.06 }] });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toContain("Each stop needs a lat");
+            expect(db.ride.create).not.toHaveBeenCalled();
+        });
+
         it("should accept edge case coordinates", async () => {
             const edgeCaseData = {
                 type: RideType.REGULAR,
@@ -184,16 +581,13 @@ describe("Ride Routes - Coordinate Based Locations", () => {
             };
 
             (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
-                ...mockRide,
-                status: RideStatus.COMPLETED,
-            });
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
             (paymentServices.processDriverCommission as jest.Mock).mockResolvedValue({
                 driverBalance: 90000,
                 commissionAmount: 10000,
             });
 
-            const token = generateToken(passengerPayload);
+            const token = generateToken(driverPayload);
             const res = await request(app)
                 .put("/rides/ride-123/status")
                 .set("Authorization", `Bearer ${token}`)
@@ -201,102 +595,341 @@ describe("Ride Routes - Coordinate Based Locations", () => {
 
             expect(res.status).toBe(200);
             expect(paymentServices.processDriverCommission).toHaveBeenCalledWith(
+                db,
                 "ride-123",
                 "driver-123",
                 100000
             );
         });
 
-        it("should charge 5% penalty when driver cancels", async () => {
+        it("should charge commission on the full price and refund the promo discount", async () => {
             const mockRide = {
                 id: "ride-123",
                 userId: "passenger-123",
                 driverId: "driver-123",
-                status: RideStatus.ACCEPTED,
-                price: 100000,
+                status: RideStatus.ONGOING,
+                price: 1000,
+                promoCodeId: "promo-1",
+                discountAmount: 200,
             };
 
             (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
-                ...mockRide,
-                status: RideStatus.CANCELLED,
-            });
-            (paymentServices.processDriverCancellationPenalty as jest.Mock).mockResolvedValue({
-                penaltyCharged: 5000,
-                driverBalance: 95000,
-            });
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
 
             const token = generateToken(driverPayload);
             const res = await request(app)
-                .put("/rides/ride-123/cancel")
-                .set("Authorization", `Bearer ${token}`);
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.COMPLETED });
 
             expect(res.status).toBe(200);
-            expect(paymentServices.processDriverCancellationPenalty).toHaveBeenCalledWith(
-                "ride-123",
-                "driver-123",
-                100000
-            );
+            expect(paymentServices.processDriverCommission).toHaveBeenCalledWith(db, "ride-123", "driver-123", 1000);
+            expect(paymentServices.processPromoDiscountRefund).toHaveBeenCalledWith(db, "ride-123", "driver-123", 200);
         });
 
-        it("should NOT charge when passenger cancels", async () => {
+        it("should give the promo code use back when the passenger cancels", async () => {
             const mockRide = {
                 id: "ride-123",
                 userId: "passenger-123",
-                driverId: "driver-123",
-                status: RideStatus.ACCEPTED,
-                price: 100000,
+                driverId: null,
+                status: RideStatus.PENDING,
+                price: 1000,
+                promoCodeId: "promo-1",
+                discountAmount: 200,
             };
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
-                ...mockRide,
-                status: RideStatus.CANCELLED,
-            });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({ ...mockRide, status: RideStatus.CANCELLED });
 
             const token = generateToken(passengerPayload);
-            await request(app)
+            const res = await request(app)
                 .put("/rides/ride-123/cancel")
-                .set("Authorization", `Bearer ${token}`);
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
 
-            expect(paymentServices.processDriverCancellationPenalty).not.toHaveBeenCalled();
+            expect(res.status).toBe(200);
+            expect(promoServices.releasePromoRedemption).toHaveBeenCalledWith("ride-123");
         });
-    });
 
-    describe("Driver Cancel → PENDING Feature", () => {
-        it("should return ACCEPTED ride to PENDING when driver cancels", async () => {
+        it("should reject the pending offers when the passenger cancels", async () => {
             const mockRide = {
-                id: "ride-cancel-test",
+                id: "ride-123",
                 userId: "passenger-123",
-                driverId: driverPayload.userId,
-                status: RideStatus.ACCEPTED,
-                price: 100000,
+                driverId: null,
+                status: RideStatus.PENDING,
+                price: 1000,
             };
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
-                ...mockRide,
-                status: RideStatus.PENDING,
-                driverId: null,
-            });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({ ...mockRide, status: RideStatus.CANCELLED });
+            (db.rideOffer.findMany as jest.Mock).mockResolvedValueOnce([
+                { id: "offer-1", rideId: "ride-123", driverId: "driver-456", price: 900, status: "PENDING" },
+            ]);
 
-            const token = generateToken(driverPayload);
+            const token = generateToken(passengerPayload);
             const res = await request(app)
-                .put("/rides/ride-cancel-test/cancel")
-                .set("Authorization", `Bearer ${token}`);
-
+                .put("/rides/ride-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
+
+            expect(res.status).toBe(200);
+            expect(db.rideOffer.updateMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", status: "PENDING" },
+                data: { status: "REJECTED" },
+            });
+        });
+
+        it("should keep a scheduled ride open when the driver cancels the reservation", async () => {
+            const mockRide = {
+                id: "ride-123",
+                userId: "passenger-123",
+                driverId: "driver-123",
+                status: RideStatus.SCHEDULED,
+                price: 100000,
+            };
+
+            (db.ride.findUnique as jest.Mock)
+                .mockResolvedValueOnce(mockRide)
+                .mockResolvedValue({ ...mockRide, driverId: null });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
+
+            expect(res.status).toBe(200);
+            expect(res.body.status).toBe(RideStatus.SCHEDULED);
+            expect(paymentServices.processDriverCancellationPenalty).not.toHaveBeenCalled();
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-123", status: RideStatus.SCHEDULED, driverId: "driver-123" },
+                data: { driverId: null, vehicleId: null, reservedAt: null },
+            });
+        });
+
+        it("should charge 5% penalty when driver cancels", async () => {
+            const mockRide = {
+                id: "ride-123",
+                userId: "passenger-123",
+                driverId: "driver-123",
+                status: RideStatus.ACCEPTED,
+                price: 100000,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({
+                ...mockRide,
+                status: RideStatus.CANCELLED,
+            });
+            (paymentServices.processDriverCancellationPenalty as jest.Mock).mockResolvedValue({
+                penaltyAmount: 5000,
+                penaltyCharged: 5000,
+                partial: false,
+            });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
+
+            expect(res.status).toBe(200);
+            expect(paymentServices.processDriverCancellationPenalty).toHaveBeenCalledWith(
+                db,
+                "ride-123",
+                "driver-123",
+                100000
+            );
+        });
+
+        it("should NOT charge when passenger cancels", async () => {
+            const mockRide = {
+                id: "ride-123",
+                userId: "passenger-123",
+                driverId: "driver-123",
+                status: RideStatus.ACCEPTED,
+                price: 100000,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({
+                ...mockRide,
+                status: RideStatus.CANCELLED,
+            });
+
+            const token = generateToken(passengerPayload);
+            await request(app)
+                .put("/rides/ride-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
+
+            expect(paymentServices.processDriverCancellationPenalty).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Passenger cancellation fee", () => {
+        const acceptedRide = {
+            id: "ride-late",
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            status: RideStatus.ACCEPTED,
+            type: RideType.REGULAR,
+            price: 1200,
+            originLat: 36.75,
+            originLng: 3.05,
+            acceptLat: null,
+            acceptLng: null,
+        };
+
+        it("should let the passenger cancel for free right after acceptance", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...acceptedRide, acceptedAt: new Date() });
+            (db.ride.update as jest.Mock).mockResolvedValue({ ...acceptedRide, status: RideStatus.CANCELLED });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-late/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
+
+            expect(res.status).toBe(200);
+            expect(paymentServices.processPassengerCancellationFee).not.toHaveBeenCalled();
+            expect(db.cancellationFee.create).not.toHaveBeenCalled();
+        });
+
+        it("should charge a late cancellation and record the debt", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...acceptedRide,
+                acceptedAt: new Date(Date.now() - 10 * 60 * 1000),
+            });
+            (paymentServices.processPassengerCancellationFee as jest.Mock).mockResolvedValueOnce({
+                chargedAmount: 60,
+                debtAmount: 40,
+                driverCompensation: 80,
+            });
+            (db.ride.update as jest.Mock).mockResolvedValue({ ...acceptedRide, status: RideStatus.CANCELLED });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-late/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
+
+            expect(res.status).toBe(200);
+            expect(paymentServices.processPassengerCancellationFee).toHaveBeenCalledWith(
+                db,
+                "ride-late",
+                passengerPayload.userId,
+                driverPayload.userId,
+                100,
+                80
+            );
+            expect(db.cancellationFee.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    rideId: "ride-late",
+                    amount: 100,
+                    chargedAmount: 60,
+                    debtAmount: 40,
+                    driverCompensation: 80,
+                }),
+            });
+        });
+
+        it("should preview the fee for the passenger only", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...acceptedRide,
+                acceptedAt: new Date(Date.now() - 10 * 60 * 1000),
+            });
+
+            const passengerRes = await request(app)
+                .get("/rides/ride-late/cancellation-fee")
+                .set("Authorization", `Bearer ${generateToken(passengerPayload)}`);
+            const driverRes = await request(app)
+                .get("/rides/ride-late/cancellation-fee")
+                .set("Authorization", `Bearer ${generateToken(driverPayload)}`);
+
+            expect(passengerRes.status).toBe(200);
+            expect(passengerRes.body).toEqual(expect.objectContaining({ rideId: "ride-late", fee: 100 }));
+            expect(driverRes.status).toBe(403);
+        });
+    });
+
+    describe("Driver Cancel → PENDING Feature", () => {
+        it("should return ACCEPTED ride to PENDING when driver cancels", async () => {
+            const mockRide = {
+                id: "ride-cancel-test",
+                userId: "passenger-123",
+                driverId: driverPayload.userId,
+                status: RideStatus.ACCEPTED,
+                price: 100000,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({
+                ...mockRide,
+                status: RideStatus.PENDING,
+                driverId: null,
+            });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-cancel-test/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
+
             expect(res.status).toBe(200);
             expect(res.body.status).toBe(RideStatus.PENDING);
             expect(res.body.driverId).toBeNull();
 
             // Verify penalty was charged
             expect(paymentServices.processDriverCancellationPenalty).toHaveBeenCalledWith(
+                db,
                 "ride-cancel-test",
                 driverPayload.userId,
                 100000
             );
         });
 
+        it("should put a bargained ride back at its listed price when the driver cancels", async () => {
+            const mockRide = {
+                id: "ride-bargained",
+                userId: "passenger-123",
+                driverId: driverPayload.userId,
+                status: RideStatus.ACCEPTED,
+                price: 2500,
+                discountAmount: 375,
+                promoCodeId: "promo-1",
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({ ...mockRide, status: RideStatus.PENDING, driverId: null });
+            (db.rideOffer.findFirst as jest.Mock).mockResolvedValueOnce({
+                id: "offer-1",
+                rideId: "ride-bargained",
+                driverId: driverPayload.userId,
+                price: 2500,
+                listedPrice: 1000,
+                status: "ACCEPTED",
+            });
+            (promoServices.getRideDiscount as jest.Mock).mockResolvedValueOnce(150);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-bargained/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
+
+            expect(res.status).toBe(200);
+            expect(db.rideOffer.update).toHaveBeenCalledWith({
+                where: { id: "offer-1" },
+                data: { status: "VOID" },
+            });
+            expect(promoServices.getRideDiscount).toHaveBeenCalledWith("promo-1", 1000);
+            expect(db.ride.updateMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: "ride-bargained", status: RideStatus.ACCEPTED, driverId: driverPayload.userId },
+                    data: expect.objectContaining({
+                        status: RideStatus.PENDING,
+                        price: 1000,
+                        discountAmount: 150,
+                    }),
+                })
+            );
+        });
+
         it("should keep CANCELLED status when driver cancels ONGOING ride", async () => {
             const mockRide = {
                 id: "ride-ongoing",
@@ -306,8 +939,7 @@ describe("Ride Routes - Coordinate Based Locations", () => {
                 price: 100000,
             };
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({
                 ...mockRide,
                 status: RideStatus.CANCELLED,
             });
@@ -315,7 +947,8 @@ describe("Ride Routes - Coordinate Based Locations", () => {
             const token = generateToken(driverPayload);
             const res = await request(app)
                 .put("/rides/ride-ongoing/cancel")
-                .set("Authorization", `Bearer ${token}`);
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
 
             expect(res.status).toBe(200);
             expect(res.body.status).toBe(RideStatus.CANCELLED);
@@ -330,8 +963,7 @@ describe("Ride Routes - Coordinate Based Locations", () => {
                 price: 100000,
             };
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({
                 ...mockRide,
                 status: RideStatus.CANCELLED,
             });
@@ -339,7 +971,8 @@ describe("Ride Routes - Coordinate Based Locations", () => {
             const token = generateToken(passengerPayload);
             const res = await request(app)
                 .put("/rides/ride-passenger-cancel/cancel")
-                .set("Authorization", `Bearer ${token}`);
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
 
             expect(res.status).toBe(200);
             expect(res.body.status).toBe(RideStatus.CANCELLED);
@@ -357,8 +990,7 @@ describe("Ride Routes - Coordinate Based Locations", () => {
                 price: 100000,
             };
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide).mockResolvedValue({
                 ...mockRide,
                 status: RideStatus.PENDING,
                 driverId: null,
@@ -367,7 +999,8 @@ describe("Ride Routes - Coordinate Based Locations", () => {
             const token = generateToken(driverPayload);
             const res = await request(app)
                 .put("/rides/ride-clear-driver/cancel")
-                .set("Authorization", `Bearer ${token}`);
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
 
             expect(res.status).toBe(200);
             expect(res.body.status).toBe(RideStatus.PENDING);
@@ -380,11 +1013,13 @@ describe("Ride Routes - Coordinate Based Locations", () => {
         const mockVehicle = {
             id: "vehicle-123",
             driverId: "driver-profile-123",
+            type: VehicleType.CAR,
             status: "APPROVED"
         };
         const mockRide = {
             id: "ride-balance-test",
             userId: "passenger-456",
+            type: RideType.REGULAR,
             status: RideStatus.PENDING,
             price: 25000  // 25,000 DA
         };
@@ -413,15 +1048,103 @@ describe("Ride Routes - Coordinate Based Locations", () => {
         });
 
         it("should allow ride acceptance if driver balance >= 10% of price", async () => {
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
+            (db.ride.findUnique as jest.Mock)
+                .mockResolvedValueOnce(mockRide)
+                .mockResolvedValueOnce({
+                    ...mockRide,
+                    status: RideStatus.ACCEPTED,
+                    driverId: driverPayload.userId
+                });
             (db.wallet.findUnique as jest.Mock).mockResolvedValue({
                 userId: driverPayload.userId,
                 balance: 5000  // More than 10% of 25,000
             });
-            (db.ride.update as jest.Mock).mockResolvedValue({
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/accept`)
+                .set("Authorization", `Bearer ${token}`)
+                .send({ vehicleId: mockVehicle.id });
+
+            expect(res.status).toBe(200);
+            expect(res.body.status).toBe(RideStatus.ACCEPTED);
+            expect(db.ride.updateMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: mockRide.id, status: RideStatus.PENDING },
+                })
+            );
+        });
+
+        it("should tell the driver who lost the race that the ride is taken", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide);
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({
+                userId: driverPayload.userId,
+                balance: 5000
+            });
+            // Another driver accepted between the read and the update
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                status: RideStatus.ACCEPTED,
+                driverId: "driver-other"
+            });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/accept`)
+                .set("Authorization", `Bearer ${token}`)
+                .send({ vehicleId: mockVehicle.id });
+
+            expect(res.status).toBe(409);
+            expect(res.body.error).toBe("Ride already taken by another driver");
+            expect(db.rideOffer.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should tell the driver when the ride was cancelled before the accept went through", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(mockRide);
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({
+                userId: driverPayload.userId,
+                balance: 5000
+            });
+            // The passenger cancelled between the read and the update
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                status: RideStatus.CANCELLED,
+                driverId: null
+            });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/accept`)
+                .set("Authorization", `Bearer ${token}`)
+                .send({ vehicleId: mockVehicle.id });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Ride was cancelled");
+        });
+
+        it("should tell the driver when the ride has expired", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...mockRide,
+                status: RideStatus.EXPIRED
+            });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/accept`)
+                .set("Authorization", `Bearer ${token}`)
+                .send({ vehicleId: mockVehicle.id });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Ride has expired");
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should give the same error once the ride is held by another driver", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
                 ...mockRide,
                 status: RideStatus.ACCEPTED,
-                driverId: driverPayload.userId
+                driverId: "driver-other"
             });
 
             const token = generateToken(driverPayload);
@@ -430,8 +1153,9 @@ describe("Ride Routes - Coordinate Based Locations", () => {
                 .set("Authorization", `Bearer ${token}`)
                 .send({ vehicleId: mockVehicle.id });
 
-            expect(res.status).toBe(200);
-            expect(res.body.status).toBe(RideStatus.ACCEPTED);
+            expect(res.status).toBe(409);
+            expect(res.body.error).toBe("Ride already taken by another driver");
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
         });
 
         it("should reject if driver wallet not found", async () => {
@@ -484,6 +1208,36 @@ describe("Ride Routes - Coordinate Based Locations", () => {
             expect(res.body.breakdown).toBeDefined();
         });
 
+        it("should preview a promo code for logged-in passengers", async () => {
+            (promoServices.applyPromoCode as jest.Mock).mockResolvedValue({
+                promoCode: { id: "promo-1", code: "WELCOME" },
+                discountAmount: 100,
+            });
+
+            const estimate = {
+                type: RideType.REGULAR,
+                originLat: 36.7538,
+                originLng: 3.0588,
+                destLat: 36.7650,
+                destLng: 3.0700,
+                promoCode: "welcome",
+            };
+
+            const anonymous = await request(app).post("/rides/estimate").send(estimate);
+            expect(anonymous.status).toBe(401);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides/estimate")
+                .set("Authorization", `Bearer ${token}`)
+                .send(estimate);
+
+            expect(res.status).toBe(200);
+            expect(res.body.promoCode).toBe("WELCOME");
+            expect(res.body.discountAmount).toBe(100);
+            expect(res.body.payablePrice).toBe(res.body.estimatedPrice - 100);
+        });
+
         it("should update ride details with coordinates", async () => {
             const testUserId = passengerPayload.userId; // Define testUserId here
             const token = generateToken(passengerPayload); // Define token here
@@ -502,6 +1256,12 @@ describe("Ride Routes - Coordinate Based Locations", () => {
                 originLat: 36.8,
                 originLng: 3.1, // Added originLng update
             });
+            (geocodingServices.reverseGeocode as jest.Mock).mockResolvedValueOnce("Rue Didouche Mourad, Alger");
+            (geocodingServices.reverseGeocodeRegion as jest.Mock).mockResolvedValueOnce({
+                wilayaCode: "16",
+                wilaya: "Alger",
+                commune: "Alger Centre",
+            });
 
             const res = await request(app)
                 .put(`/rides/ride-update-123`)
@@ -513,28 +1273,130 @@ describe("Ride Routes - Coordinate Based Locations", () => {
 
             expect(res.status).toBe(200);
             expect(res.body.originLat).toBe(36.8);
+            // The moved pickup is geocoded again, in the same update as the new price
+            const { data } = (db.ride.update as jest.Mock).mock.calls[0][0];
+            expect(data).toEqual(expect.objectContaining({
+                originLat: 36.8,
+                originLng: 3.1,
+                originAddress: "Rue Didouche Mourad, Alger",
+                originWilayaCode: "16",
+                price: expect.any(Number),
+            }));
+            expect(data).not.toHaveProperty("destAddress");
         });
-    });
-
-    describe("GET /rides/current - Get Latest Current Ride", () => {
-        it("should return the newest PENDING or ACCEPTED ride", async () => {
-            const testUserId = passengerPayload.userId; // Define testUserId here
-            const token = generateToken(passengerPayload); // Define token here
 
-            const olderRide = {
-                id: "ride-old-123",
-                userId: testUserId,
+        it("should reprice an updated trip instead of trusting the client price", async () => {
+            const token = generateToken(passengerPayload);
+            const mockRide = {
+                id: "ride-update-456",
+                userId: passengerPayload.userId,
+                type: RideType.REGULAR,
                 status: RideStatus.PENDING,
-                createdAt: new Date("2024-01-01T10:00:00Z"),
-                originLat: 36.75,
-                originLng: 3.05,
-                destLat: 36.76,
-                destLng: 3.06,
-                price: 500,
+                originLat: 36.7538,
+                originLng: 3.0588,
+                destLat: 36.7650,
+                destLng: 3.0700,
+                distanceKm: null,
+                durationMin: null,
+                seatCount: null,
+                packageWeight: null,
+                price: 300,
             };
 
-            const newerRide = {
-                id: "ride-new-456",
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
+            (db.ride.update as jest.Mock).mockResolvedValue(mockRide);
+
+            const res = await request(app)
+                .put(`/rides/ride-update-456`)
+                .set("Authorization", `Bearer ${token}`)
+                .send({ distanceKm: 20, price: 1 });
+
+            expect(res.status).toBe(200);
+            const { data } = (db.ride.update as jest.Mock).mock.calls[0][0];
+            expect(data.distanceKm).toBe(20);
+            expect(data.price).toBeGreaterThan(1000); // 100 + 20 km * 50 + 30 min * 10
+        });
+
+        describe("with a promo code", () => {
+            const promoRide = {
+                id: "ride-promo-123",
+                userId: passengerPayload.userId,
+                type: RideType.REGULAR,
+                status: RideStatus.PENDING,
+                originLat: 36.7538,
+                originLng: 3.0588,
+                destLat: 36.7650,
+                destLng: 3.0700,
+                distanceKm: 20,
+                durationMin: 30,
+                seatCount: null,
+                packageWeight: null,
+                price: 1400,
+                promoCodeId: "promo-1",
+                discountAmount: 280,
+            };
+
+            it("should recompute the discount when the edited trip still qualifies", async () => {
+                (db.ride.findUnique as jest.Mock).mockResolvedValue(promoRide);
+                (db.ride.update as jest.Mock).mockResolvedValue(promoRide);
+                (promoServices.reapplyPromoCode as jest.Mock).mockResolvedValueOnce(120);
+
+                const token = generateToken(passengerPayload);
+                const res = await request(app)
+                    .put("/rides/ride-promo-123")
+                    .set("Authorization", `Bearer ${token}`)
+                    .send({ distanceKm: 5, durationMin: 10 });
+
+                expect(res.status).toBe(200);
+                const { data } = (db.ride.update as jest.Mock).mock.calls[0][0];
+                expect(promoServices.reapplyPromoCode).toHaveBeenCalledWith(
+                    "promo-1",
+                    { type: RideType.REGULAR, originLat: 36.7538, originLng: 3.0588 },
+                    data.price
+                );
+                expect(data.discountAmount).toBe(120);
+                expect(data).not.toHaveProperty("promoCodeId");
+                expect(promoServices.releasePromoRedemption).not.toHaveBeenCalled();
+            });
+
+            it("should drop the code when the new fare no longer qualifies for it", async () => {
+                (db.ride.findUnique as jest.Mock).mockResolvedValue(promoRide);
+                (db.ride.update as jest.Mock).mockResolvedValue({ ...promoRide, promoCodeId: null, discountAmount: 0 });
+                (promoServices.reapplyPromoCode as jest.Mock).mockResolvedValueOnce(null);
+
+                const token = generateToken(passengerPayload);
+                const res = await request(app)
+                    .put("/rides/ride-promo-123")
+                    .set("Authorization", `Bearer ${token}`)
+                    .send({ distanceKm: 1, durationMin: 3 });
+
+                expect(res.status).toBe(200);
+                const { data } = (db.ride.update as jest.Mock).mock.calls[0][0];
+                expect(data).toEqual(expect.objectContaining({ promoCodeId: null, discountAmount: 0 }));
+                expect(promoServices.releasePromoRedemption).toHaveBeenCalledWith("ride-promo-123");
+            });
+        });
+    });
+
+    describe("GET /rides/current - Get Latest Current Ride", () => {
+        it("should return the newest PENDING or ACCEPTED ride", async () => {
+            const testUserId = passengerPayload.userId; // Define testUserId here
+            const token = generateToken(passengerPayload); // Define token here
+
+            const olderRide = {
+                id: "ride-old-123",
+                userId: testUserId,
+                status: RideStatus.PENDING,
+                createdAt: new Date("2024-01-01T10:00:00Z"),
+                originLat: 36.75,
+                originLng: 3.05,
+                destLat: 36.76,
+                destLng: 3.06,
+                price: 500,
+            };
+
+            const newerRide = {
+                id: "ride-new-456",
                 userId: testUserId,
                 status: RideStatus.ACCEPTED,
                 createdAt: new Date("2024-01-01T11:00:00Z"), // 1 hour later
@@ -568,7 +1430,7 @@ describe("Ride Routes - Coordinate Based Locations", () => {
                 expect.objectContaining({
                     where: {
                         userId: testUserId,
-                        status: { in: [RideStatus.PENDING, RideStatus.ACCEPTED, RideStatus.ONGOING] }
+                        status: { in: [RideStatus.PENDING, RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING] }
                     },
                     orderBy: { createdAt: "desc" }
                 })
@@ -666,7 +1528,7 @@ describe("Ride Routes - Coordinate Based Locations", () => {
                 expect.objectContaining({
                     where: expect.objectContaining({
                         status: {
-                            in: [RideStatus.ACCEPTED, RideStatus.ONGOING]
+                            in: [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING]
                         }
                     })
                 })
@@ -782,12 +1644,22 @@ describe("Ride Routes - Coordinate Based Locations", () => {
     });
 
     describe("GET /rides/pending - Geo-filter", () => {
+        const driverMatchProfile = {
+            userId: driverPayload.userId,
+            acceptedRideTypes: [],
+            maxPickupDistanceKm: null,
+            minFare: null,
+            vehicles: [{ type: VehicleType.CAR }],
+        };
+        const pendingRide = { type: RideType.REGULAR, status: RideStatus.PENDING, price: 1000 };
+
         beforeEach(() => {
             const pendingRides = [
-                { id: "ride-close", status: RideStatus.PENDING, originLat: 36.75, originLng: 3.05 },
-                { id: "ride-far", status: RideStatus.PENDING, originLat: 36.85, originLng: 3.15 },
+                { ...pendingRide, id: "ride-close", originLat: 36.75, originLng: 3.05 },
+                { ...pendingRide, id: "ride-far", originLat: 36.85, originLng: 3.15 },
             ];
             (db.ride.findMany as jest.Mock).mockResolvedValue(pendingRides);
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValue([driverMatchProfile]);
         });
 
         it("should reject request without lat/lng coordinates (400 Bad Request)", async () => {
@@ -837,6 +1709,63 @@ describe("Ride Routes - Coordinate Based Locations", () => {
             expect(res.body).toHaveLength(2);
         });
 
+        it("should include farther rides whose search was widened", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValueOnce([
+                { ...pendingRide, id: "ride-close", originLat: 36.75, originLng: 3.05 },
+                { ...pendingRide, id: "ride-far", originLat: 36.85, originLng: 3.15, searchRadiusKm: 20 },
+            ]);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .get("/rides/pending?lat=36.7501&lng=3.0501")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.map((ride: any) => ride.id)).toEqual(["ride-close", "ride-far"]);
+        });
+
+        it("should only list the rides the driver's vehicle can take", async () => {
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValueOnce([
+                { ...driverMatchProfile, vehicles: [{ type: VehicleType.BIKE }] },
+            ]);
+            (db.ride.findMany as jest.Mock).mockResolvedValueOnce([
+                { ...pendingRide, id: "ride-regular", originLat: 36.75, originLng: 3.05 },
+                { ...pendingRide, id: "ride-box", type: RideType.DELIVERY, packageSize: "MEDIUM", originLat: 36.75, originLng: 3.05 },
+                { ...pendingRide, id: "ride-trunk", type: RideType.DELIVERY, packageSize: "LARGE", originLat: 36.75, originLng: 3.05 },
+            ]);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .get("/rides/pending?lat=36.7501&lng=3.0501")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.map((ride: any) => ride.id)).toEqual(["ride-box"]);
+        });
+
+        it("should apply the driver's preferences", async () => {
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValueOnce([
+                { ...driverMatchProfile, acceptedRideTypes: [RideType.REGULAR], maxPickupDistanceKm: 2, minFare: 800 },
+            ]);
+            (db.ride.findMany as jest.Mock).mockResolvedValueOnce([
+                { ...pendingRide, id: "ride-ok", originLat: 36.75, originLng: 3.05 },
+                { ...pendingRide, id: "ride-cheap", price: 500, originLat: 36.75, originLng: 3.05 },
+                { ...pendingRide, id: "ride-delivery", type: RideType.DELIVERY, originLat: 36.75, originLng: 3.05 },
+                { ...pendingRide, id: "ride-5km", originLat: 36.795, originLng: 3.05 },
+            ]);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .get("/rides/pending?lat=36.7501&lng=3.0501")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.map((ride: any) => ride.id)).toEqual(["ride-ok"]);
+            expect(db.driverProfile.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { userId: { in: [driverPayload.userId] } } })
+            );
+        });
+
         it("should return empty array if no rides within radius", async () => {
             const token = generateToken(driverPayload);
             // Driver is very far away
@@ -849,146 +1778,1504 @@ describe("Ride Routes - Coordinate Based Locations", () => {
         });
     });
 
-    describe("Authorization - Ride Updates", () => {
-        const otherUserPayload = { userId: "other-user-789", role: Role.USER };
-
-        it("should reject updating someone else's ride (403 Forbidden)", async () => {
-            const someoneElsesRide = {
-                id: "ride-123",
-                userId: "passenger-123",  // Different user
-                status: RideStatus.PENDING,
-            };
+    describe("Scheduled Ride Reservations", () => {
+        it("should require a vehicle to reserve", async () => {
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/reserve")
+                .set("Authorization", `Bearer ${token}`)
+                .send({});
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(someoneElsesRide);
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("vehicleId is required");
+        });
 
-            const token = generateToken(otherUserPayload);
+        it("should not let passengers reserve rides (403 Forbidden)", async () => {
+            const token = generateToken(passengerPayload);
             const res = await request(app)
-                .put("/rides/ride-123")
+                .post("/rides/ride-123/reserve")
                 .set("Authorization", `Bearer ${token}`)
-                .send({
-                    originLat: 36.8,
-                    originLng: 3.1,
-                });
+                .send({ vehicleId: "vehicle-123" });
 
             expect(res.status).toBe(403);
-            expect(res.body.error).toMatch(/not authorized|only the passenger/i);
         });
 
-        it("should reject status update from non-participant (403 Forbidden)", async () => {
-            const ride = {
-                id: "ride-456",
-                userId: "passenger-123",
-                driverId: "driver-456",
-                status: RideStatus.ACCEPTED,
-            };
+        it("should list the driver's reservations", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValueOnce([{ id: "ride-123", status: RideStatus.SCHEDULED }]);
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .get("/rides/reservations")
+                .set("Authorization", `Bearer ${token}`);
 
-            const token = generateToken(otherUserPayload);  // Not passenger or driver
+            expect(res.status).toBe(200);
+            expect(res.body).toHaveLength(1);
+            expect(db.ride.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { driverId: driverPayload.userId, status: RideStatus.SCHEDULED },
+                })
+            );
+        });
+    });
+
+    describe("Ride Stops", () => {
+        const ongoingRide = {
+            id: "ride-123",
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            status: RideStatus.ONGOING,
+            stops: [
+                { id: "stop-1", rideId: "ride-123", order: 1, lat: 36.78, lng: 3.06, reachedAt: null },
+                { id: "stop-2", rideId: "ride-123", order: 2, lat: 36.77, lng: 3.08, reachedAt: null },
+            ],
+        };
+
+        it("should let the driver mark the next stop as reached", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(ongoingRide);
+            (db.rideStop.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+            const token = generateToken(driverPayload);
             const res = await request(app)
-                .put("/rides/ride-456/status")
-                .set("Authorization", `Bearer ${token}`)
-                .send({ status: RideStatus.ONGOING });
+                .put("/rides/ride-123/stops/stop-1/reached")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.reachedStops).toBe(1);
+            expect(res.body.nextStop.id).toBe("stop-2");
+        });
+
+        it("should refuse stops reached out of order", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(ongoingRide);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/stops/stop-2/reached")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Stop 1 must be reached first");
+        });
+
+        it("should not let passengers mark stops (403 Forbidden)", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/stops/stop-1/reached")
+                .set("Authorization", `Bearer ${token}`);
 
             expect(res.status).toBe(403);
-            expect(res.body.error).toMatch(/not authorized/i);
         });
+    });
 
-        it("should allow passenger to update their own PENDING ride", async () => {
-            const passengerRide = {
-                id: "ride-789",
-                userId: passengerPayload.userId,
-                status: RideStatus.PENDING,
-            };
+    describe("Deliveries", () => {
+        const deliveryRide = {
+            id: "ride-123",
+            type: RideType.DELIVERY,
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            status: RideStatus.ONGOING,
+            price: 1000,
+            discountAmount: 0,
+            recipientPhone: "0555123456",
+        };
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(passengerRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
-                ...passengerRide,
-                originLat: 36.8,
-            });
+        it("should require the recipient of a delivery", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides")
+                .set("Authorization", `Bearer ${token}`)
+                .send({
+                    type: RideType.DELIVERY,
+                    originLat: 36.7538,
+                    originLng: 3.0588,
+                    destLat: 36.7650,
+                    destLng: 3.0700,
+                    packageWeight: 2,
+                });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("recipientName and recipientPhone are required for DELIVERY rides");
+            expect(db.ride.create).not.toHaveBeenCalled();
+        });
+
+        it("should store the recipient and package details", async () => {
+            (db.ride.create as jest.Mock).mockResolvedValue({ id: "ride-123", type: RideType.DELIVERY });
 
             const token = generateToken(passengerPayload);
             const res = await request(app)
-                .put("/rides/ride-789")
+                .post("/rides")
                 .set("Authorization", `Bearer ${token}`)
-                .send({ originLat: 36.8 });
+                .send({
+                    type: RideType.DELIVERY,
+                    originLat: 36.7538,
+                    originLng: 3.0588,
+                    destLat: 36.7650,
+                    destLng: 3.0700,
+                    packageWeight: 2,
+                    recipientName: "Amina",
+                    recipientPhone: "0555 12 34 56",
+                    packageDescription: "Documents",
+                    packageSize: "SMALL",
+                    isFragile: true,
+                });
 
-            expect(res.status).toBe(200);
+            expect(res.status).toBe(201);
+            expect(db.ride.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        recipientName: "Amina",
+                        recipientPhone: "0555123456",
+                        packageDescription: "Documents",
+                        packageSize: "SMALL",
+                        isFragile: true,
+                    }),
+                })
+            );
         });
 
-        it("should allow driver to update status of their ride", async () => {
-            const driverRide = {
-                id: "ride-driver-123",
-                userId: "passenger-xyz",
-                driverId: driverPayload.userId,  // Driver's ride
-                status: RideStatus.ACCEPTED,
-            };
+        it("should refuse to complete a delivery without the recipient's code", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(deliveryRide);
+            (db.deliveryCode.findUnique as jest.Mock).mockResolvedValueOnce({
+                rideId: "ride-123",
+                codeHash: hashToken("123456"),
+                expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+                attempts: 0,
+                verifiedAt: null,
+            });
 
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(driverRide);
-            (db.ride.update as jest.Mock).mockResolvedValue({
-                ...driverRide,
-                status: RideStatus.ONGOING,
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.COMPLETED });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("deliveryCode is required to complete a delivery");
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+            expect(paymentServices.processDriverCommission).not.toHaveBeenCalled();
+        });
+
+        it("should complete a delivery with the recipient's code", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(deliveryRide);
+            (db.deliveryCode.findUnique as jest.Mock).mockResolvedValueOnce({
+                rideId: "ride-123",
+                codeHash: hashToken("123456"),
+                expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+                attempts: 0,
+                verifiedAt: null,
             });
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...deliveryRide, status: RideStatus.COMPLETED });
 
             const token = generateToken(driverPayload);
             const res = await request(app)
-                .put("/rides/ride-driver-123/status")
+                .put("/rides/ride-123/status")
                 .set("Authorization", `Bearer ${token}`)
-                .send({ status: RideStatus.ONGOING });
+                .send({ status: RideStatus.COMPLETED, deliveryCode: "123456" });
 
             expect(res.status).toBe(200);
+            expect(db.ride.updateMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: "ride-123", status: RideStatus.ONGOING },
+                    data: expect.objectContaining({ status: RideStatus.COMPLETED, deliveredAt: expect.any(Date) }),
+                })
+            );
+            expect(paymentServices.processDriverCommission).toHaveBeenCalledWith(db, "ride-123", "driver-123", 1000);
         });
 
-        it("should reject cancel from non-participant (403 Forbidden)", async () => {
-            const ride = {
-                id: "ride-cancel-123",
-                userId: "passenger-123",
-                driverId: "driver-456",
-                status: RideStatus.ACCEPTED,
-            };
-
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+        it("should text the recipient a code when the package is picked up", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...deliveryRide, status: RideStatus.ACCEPTED });
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValueOnce({ rideId: "ride-123", pin: "4821", attempts: 0, verifiedAt: null });
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...deliveryRide, status: RideStatus.ONGOING });
 
-            const token = generateToken(otherUserPayload);
+            const token = generateToken(driverPayload);
             const res = await request(app)
-                .put("/rides/ride-cancel-123/cancel")
-                .set("Authorization", `Bearer ${token}`);
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ONGOING, pin: "4821" });
 
-            expect(res.status).toBe(403);
-            expect(res.body.error).toMatch(/not authorized/i);
+            expect(res.status).toBe(200);
+            expect(db.deliveryCode.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { rideId: "ride-123" } })
+            );
+            expect(sendSms).toHaveBeenCalledWith(deliveryRide.recipientPhone, expect.any(String));
         });
 
-        it("should return 404 for non-existent ride", async () => {
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(null);
+        it("should not text the recipient when the ride changed status in the meantime", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...deliveryRide, status: RideStatus.ACCEPTED });
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValueOnce({ rideId: "ride-123", pin: "4821", attempts: 0, verifiedAt: null });
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
 
-            const token = generateToken(passengerPayload);
+            const token = generateToken(driverPayload);
             const res = await request(app)
-                .put("/rides/nonexistent-ride")
+                .put("/rides/ride-123/status")
                 .set("Authorization", `Bearer ${token}`)
-                .send({ originLat: 36.8 });
+                .send({ status: RideStatus.ONGOING, pin: "4821" });
 
-            expect(res.status).toBe(404);
-            expect(res.body.error).toMatch(/not found/i);
+            expect(res.status).toBe(409);
+            expect(db.deliveryCode.upsert).not.toHaveBeenCalled();
+            expect(sendSms).not.toHaveBeenCalled();
         });
 
-        it("should return 400 for invalid status transitions", async () => {
-            const ride = {
-                id: "ride-transition-123",
-                userId: passengerPayload.userId,
-                status: RideStatus.PENDING,
-            };
-
-            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+        it("should still start the delivery when the recipient cannot be texted", async () => {
+            const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...deliveryRide, status: RideStatus.ACCEPTED });
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValueOnce({ rideId: "ride-123", pin: "4821", attempts: 0, verifiedAt: null });
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...deliveryRide, status: RideStatus.ONGOING });
+            (sendSms as jest.Mock).mockRejectedValueOnce(new Error("SMS gateway is not configured (SMS_GATEWAY_URL)"));
 
-            const token = generateToken(passengerPayload);
+            const token = generateToken(driverPayload);
             const res = await request(app)
-                .put("/rides/ride-transition-123/status")
+                .put("/rides/ride-123/status")
                 .set("Authorization", `Bearer ${token}`)
-                .send({ status: RideStatus.ONGOING });  // Can't go PENDING -> ONGOING
+                .send({ status: RideStatus.ONGOING, pin: "4821" });
 
-            expect(res.status).toBe(400);
-            expect(res.body.error).toMatch(/only start an accepted/i);
+            expect(res.status).toBe(200);
+            expect(res.body.status).toBe(RideStatus.ONGOING);
+            expect(db.deliveryCode.upsert).toHaveBeenCalled();
+            consoleError.mockRestore();
         });
     });
-});
 
+    describe("Delivery photos", () => {
+        const pickedUpRide = {
+            id: "ride-123",
+            type: RideType.DELIVERY,
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            status: RideStatus.ONGOING,
+        };
+
+        it("should attach the photo with the driver's position to the delivery", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(pickedUpRide);
+            (db.deliveryPhoto.create as jest.Mock).mockImplementationOnce(async ({ data }) => ({ id: "photo-1", ...data }));
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/delivery-photos")
+                .set("Authorization", `Bearer ${token}`)
+                .field("stage", "DROPOFF")
+                .field("lat", "36.765")
+                .field("lng", "3.07")
+                .attach("photo", Buffer.from("fake image"), "dropoff.jpg");
+
+            expect(res.status).toBe(201);
+            expect(res.body.url).toMatch(/^uploads\/deliveries\/.+\.jpg$/);
+            expect(db.deliveryPhoto.create).toHaveBeenCalledWith({
+                data: {
+                    rideId: "ride-123",
+                    driverId: "driver-123",
+                    stage: "DROPOFF",
+                    url: res.body.url,
+                    lat: 36.765,
+                    lng: 3.07,
+                },
+            });
+
+            fs.rmSync(path.join(process.cwd(), res.body.url), { force: true });
+        });
+
+        it("should delete the file of a refused photo", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...pickedUpRide, driverId: "driver-other" });
+            const uploadDir = path.join(process.cwd(), "uploads", "deliveries");
+            const filesBefore = fs.readdirSync(uploadDir);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/delivery-photos")
+                .set("Authorization", `Bearer ${token}`)
+                .field("stage", "DROPOFF")
+                .field("lat", "36.765")
+                .field("lng", "3.07")
+                .attach("photo", Buffer.from("fake image"), "dropoff.jpg");
+
+            expect(res.status).toBe(403);
+            expect(db.deliveryPhoto.create).not.toHaveBeenCalled();
+            expect(fs.readdirSync(uploadDir)).toEqual(filesBefore);
+        });
+
+        it("should require the photo file", async () => {
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/delivery-photos")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ stage: "PICKUP", lat: 36.7538, lng: 3.0588 });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("photo is required");
+            expect(db.deliveryPhoto.create).not.toHaveBeenCalled();
+        });
+
+        it("should show the photos of a delivery to admins", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...pickedUpRide,
+                deliveryPhotos: [{ id: "photo-1", stage: "PICKUP", url: "uploads/deliveries/pickup.jpg" }],
+            });
+
+            const token = generateToken({ userId: "admin-123", role: Role.ADMIN });
+            const res = await request(app)
+                .get("/rides/ride-123")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.deliveryPhotos).toHaveLength(1);
+            expect(db.ride.findUnique).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    include: expect.objectContaining({
+                        deliveryPhotos: { orderBy: { takenAt: "asc" } },
+                    }),
+                })
+            );
+        });
+    });
+
+    describe("Ride PIN", () => {
+        const acceptedRide = {
+            id: "ride-123",
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            type: RideType.REGULAR,
+            status: RideStatus.ACCEPTED,
+        };
+
+        it("should generate a PIN when a driver accepts the ride", async () => {
+            (db.ride.findUnique as jest.Mock)
+                .mockResolvedValueOnce({ ...acceptedRide, status: RideStatus.PENDING, driverId: null, price: 1000 })
+                .mockResolvedValueOnce(acceptedRide);
+            (db.wallet.findUnique as jest.Mock).mockResolvedValueOnce({ userId: driverPayload.userId, balance: 5000 });
+            (db.driverProfile.findUnique as jest.Mock).mockResolvedValueOnce({ id: "profile-123" });
+            (db.vehicle.findUnique as jest.Mock).mockResolvedValueOnce({
+                id: "vehicle-123",
+                driverId: "profile-123",
+                type: VehicleType.CAR,
+            });
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/accept")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ vehicleId: "vehicle-123" });
+
+            expect(res.status).toBe(200);
+            expect(res.body).not.toHaveProperty("pin");
+            expect(db.ridePin.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { rideId: "ride-123" },
+                    create: { rideId: "ride-123", pin: expect.stringMatching(/^\d{4}$/) },
+                })
+            );
+        });
+
+        it("should show the PIN to the passenger only", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...acceptedRide, pin: { pin: "4821" } });
+
+            const passengerToken = generateToken(passengerPayload);
+            const res = await request(app)
+                .get("/rides/ride-123/pin")
+                .set("Authorization", `Bearer ${passengerToken}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body).toEqual({ rideId: "ride-123", pin: "4821" });
+
+            const driverToken = generateToken(driverPayload);
+            const driverRes = await request(app)
+                .get("/rides/ride-123/pin")
+                .set("Authorization", `Bearer ${driverToken}`);
+
+            expect(driverRes.status).toBe(403);
+        });
+
+        it("should not start the ride without the passenger's PIN", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(acceptedRide);
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValueOnce({ rideId: "ride-123", pin: "4821", attempts: 0, verifiedAt: null });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ONGOING });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toMatch(/pin is required/);
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should not start the ride with a wrong PIN", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(acceptedRide);
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValueOnce({ rideId: "ride-123", pin: "4821", attempts: 0, verifiedAt: null });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ONGOING, pin: "1111" });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Invalid PIN (4 attempts left)");
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should let the passenger get a new PIN once the driver locked it", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...acceptedRide,
+                pin: { pin: "4821", attempts: 5, verifiedAt: null }
+            });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/pin")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.pin).toMatch(/^\d{4}$/);
+            expect(db.ridePin.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { rideId: "ride-123" },
+                    update: { pin: res.body.pin, attempts: 0, verifiedAt: null },
+                })
+            );
+        });
+
+        it("should not let the driver get a new PIN", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...acceptedRide,
+                pin: { pin: "4821", attempts: 5, verifiedAt: null }
+            });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/pin")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(403);
+            expect(db.ridePin.upsert).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Shared ride tracking", () => {
+        it("should let the passenger share the ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                id: "ride-123",
+                userId: passengerPayload.userId,
+                status: RideStatus.ACCEPTED,
+            });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/share")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(201);
+            expect(res.body.token).toEqual(expect.any(String));
+            expect(db.rideShareToken.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ rideId: "ride-123", hashedToken: hashToken(res.body.token) }),
+            });
+        });
+
+        it("should show a shared ride without authentication", async () => {
+            (db.rideShareToken.findUnique as jest.Mock).mockResolvedValueOnce({
+                rideId: "ride-123",
+                expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+                revokedAt: null,
+            });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({
+                id: "ride-123",
+                type: RideType.DELIVERY,
+                status: RideStatus.ONGOING,
+                driverId: "driver-123",
+                originLat: 36.7538,
+                originLng: 3.0588,
+                destLat: 36.7650,
+                destLng: 3.0700,
+                stops: [],
+                driver: { firstName: "Karim", photo: null },
+                vehicle: { type: "CAR", model: "Clio", plate: "12345-116-16" },
+            });
+
+            const res = await request(app).get("/rides/shared/share-token");
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ rideId: "ride-123", status: RideStatus.ONGOING, driverLocation: null });
+            expect(db.rideShareToken.findUnique).toHaveBeenCalledWith({
+                where: { hashedToken: hashToken("share-token") },
+            });
+        });
+
+        it("should return 404 for an expired link", async () => {
+            (db.rideShareToken.findUnique as jest.Mock).mockResolvedValueOnce({
+                rideId: "ride-123",
+                expiresAt: new Date(Date.now() - 1000),
+                revokedAt: null,
+            });
+
+            const res = await request(app).get("/rides/shared/share-token");
+
+            expect(res.status).toBe(404);
+            expect(res.body.error).toBe("Tracking link not found or expired");
+        });
+    });
+
+    describe("Sequential Dispatch", () => {
+        const sequentialRide = {
+            id: "ride-123",
+            userId: passengerPayload.userId,
+            type: RideType.REGULAR,
+            status: RideStatus.PENDING,
+            dispatchMode: DispatchMode.SEQUENTIAL,
+            price: 1000,
+        };
+
+        it("should only let the driver holding the offer accept the ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(sequentialRide);
+            (db.dispatchOffer.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/accept")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ vehicleId: "vehicle-123" });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("This ride is offered to another driver");
+            expect(db.ride.update).not.toHaveBeenCalled();
+        });
+
+        it("should not let the passenger pick a counter-offer from a driver the ride is no longer offered to", async () => {
+            (db.ride.findUnique as jest.Mock)
+                .mockResolvedValueOnce(sequentialRide)
+                .mockResolvedValueOnce(sequentialRide);
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValueOnce({
+                id: "offer-1",
+                rideId: "ride-123",
+                driverId: driverPayload.userId,
+                vehicleId: "vehicle-123",
+                price: 900,
+                status: "PENDING",
+                expiresAt: new Date(Date.now() + 60 * 1000),
+            });
+            (db.dispatchOffer.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/offers/offer-1/accept")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("This ride is offered to another driver");
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should let the driver decline the ride offered to them", async () => {
+            (db.dispatchOffer.findFirst as jest.Mock).mockResolvedValueOnce({
+                id: "dispatch-1",
+                rideId: "ride-123",
+                driverId: driverPayload.userId,
+                status: "OFFERED",
+            });
+            (db.dispatchOffer.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(null);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/dispatch/decline")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.status).toBe("DECLINED");
+            expect(db.dispatchOffer.updateMany).toHaveBeenCalledWith({
+                where: { id: "dispatch-1", status: "OFFERED" },
+                data: { status: "DECLINED", respondedAt: expect.any(Date) },
+            });
+        });
+
+        it("should return 400 when the ride is not offered to the driver", async () => {
+            (db.dispatchOffer.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-123/dispatch/decline")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("This ride is not offered to you");
+        });
+
+        it("should keep sequentially dispatched rides out of the pending list", async () => {
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValueOnce([
+                { userId: driverPayload.userId, acceptedRideTypes: [], maxPickupDistanceKm: null, minFare: null, vehicles: [] },
+            ]);
+            (db.ride.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+            const token = generateToken(driverPayload);
+            await request(app)
+                .get("/rides/pending?lat=36.75&lng=3.05")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(db.ride.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { status: RideStatus.PENDING, dispatchMode: DispatchMode.BROADCAST },
+                })
+            );
+        });
+    });
+
+    describe("Waiting for the passenger", () => {
+        const acceptedRide = {
+            id: "ride-wait",
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            status: RideStatus.ACCEPTED,
+            type: RideType.REGULAR,
+            price: 100000,
+        };
+
+        it("should let the driver report arriving and start the wait timer", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(acceptedRide);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-wait/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ARRIVED });
+
+            expect(res.status).toBe(200);
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-wait", status: RideStatus.ACCEPTED },
+                data: { status: RideStatus.ARRIVED, arrivedAt: expect.any(Date) },
+            });
+        });
+
+        it("should not let the passenger report the driver's arrival", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(acceptedRide);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-wait/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ARRIVED });
+
+            expect(res.status).toBe(403);
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should start a ride once the passenger boards", async () => {
+            const arrivedRide = { ...acceptedRide, status: RideStatus.ARRIVED, arrivedAt: new Date() };
+
+            (db.ride.findUnique as jest.Mock)
+                .mockResolvedValueOnce(arrivedRide)
+                .mockResolvedValueOnce({ ...arrivedRide, status: RideStatus.ONGOING });
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValueOnce({
+                rideId: "ride-wait",
+                pin: "4821",
+                attempts: 0,
+                verifiedAt: null,
+            });
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-wait/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ONGOING, pin: "4821" });
+
+            expect(res.status).toBe(200);
+            expect(res.body.status).toBe(RideStatus.ONGOING);
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-wait", status: RideStatus.ARRIVED },
+                data: { status: RideStatus.ONGOING, startedAt: expect.any(Date) },
+            });
+        });
+
+        it("should still charge the penalty and re-match when a waiting driver cancels", async () => {
+            const arrivedRide = { ...acceptedRide, status: RideStatus.ARRIVED, arrivedAt: new Date() };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(arrivedRide).mockResolvedValue({ ...arrivedRide, status: RideStatus.PENDING, driverId: null });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-wait/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
+
+            expect(res.status).toBe(200);
+            expect(paymentServices.processDriverCancellationPenalty).toHaveBeenCalled();
+            expect(db.ride.updateMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: "ride-wait", status: RideStatus.ARRIVED, driverId: driverPayload.userId },
+                    data: expect.objectContaining({ status: RideStatus.PENDING, arrivedAt: null }),
+                })
+            );
+        });
+
+        it("should not accept a no-show before the grace period is over", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...acceptedRide,
+                status: RideStatus.ARRIVED,
+                arrivedAt: new Date(Date.now() - 60 * 1000),
+            });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/rides/ride-wait/no-show")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toMatch(/more minute/);
+        });
+
+        it("should keep the no-show report for admins", async () => {
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .get("/rides/no-shows")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    describe("GET /rides/surge - Admin Surge Map", () => {
+        const adminPayload = { userId: "admin-123", role: Role.ADMIN };
+
+        it("should return the surge map to admins", async () => {
+            (surgeServices.getSurgeMap as jest.Mock).mockResolvedValue({
+                cellSizeKm: 2,
+                maxMultiplier: 2,
+                areas: [{ areaId: "330:33", pendingRides: 6, availableDrivers: 2, multiplier: 2 }],
+            });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .get("/rides/surge")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.areas[0].multiplier).toBe(2);
+        });
+
+        it("should reject non-admin users (403 Forbidden)", async () => {
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .get("/rides/surge")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(403);
+            expect(surgeServices.getSurgeMap).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Fare Offers", () => {
+        const mockRide = {
+            id: "ride-offer-test",
+            userId: passengerPayload.userId,
+            type: RideType.REGULAR,
+            status: RideStatus.PENDING,
+            price: 1000,
+            originLat: 36.75,
+            originLng: 3.05,
+        };
+        const mockOffer = {
+            id: "offer-123",
+            rideId: mockRide.id,
+            driverId: driverPayload.userId,
+            vehicleId: "vehicle-123",
+            price: 800,
+            status: "PENDING",
+            expiresAt: new Date(Date.now() + 60 * 1000),
+        };
+
+        beforeEach(() => {
+            (db.driverProfile.findUnique as jest.Mock).mockResolvedValue({ id: "driver-profile-123" });
+            (db.vehicle.findUnique as jest.Mock).mockResolvedValue({
+                id: "vehicle-123",
+                driverId: "driver-profile-123",
+                type: VehicleType.CAR,
+            });
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: driverPayload.userId, balance: 5000 });
+        });
+
+        it("should let a driver make an offer (201)", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
+            (db.rideOffer.upsert as jest.Mock).mockResolvedValue(mockOffer);
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValueOnce([{
+                userId: driverPayload.userId,
+                acceptedRideTypes: [],
+                maxPickupDistanceKm: null,
+                minFare: null,
+                vehicles: [{ type: VehicleType.CAR }],
+            }]);
+            jest.spyOn(driverLocationHandler, "getAvailableDriverLocations").mockReturnValueOnce(
+                new Map([[driverPayload.userId, { latitude: 36.76, longitude: 3.05 } as any]])
+            );
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/offers`)
+                .set("Authorization", `Bearer ${token}`)
+                .send({ price: 800, vehicleId: "vehicle-123" });
+
+            expect(res.status).toBe(201);
+            expect(res.body.price).toBe(800);
+        });
+
+        it("should require price and vehicleId", async () => {
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/offers`)
+                .set("Authorization", `Bearer ${token}`)
+                .send({ price: 800 });
+
+            expect(res.status).toBe(400);
+            expect(db.rideOffer.upsert).not.toHaveBeenCalled();
+        });
+
+        it("should not let passengers make offers (403 Forbidden)", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/offers`)
+                .set("Authorization", `Bearer ${token}`)
+                .send({ price: 800, vehicleId: "vehicle-123" });
+
+            expect(res.status).toBe(403);
+        });
+
+        it("should list offers to the passenger", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
+            (db.rideOffer.findMany as jest.Mock).mockResolvedValueOnce([mockOffer]);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .get(`/rides/${mockRide.id}/offers`)
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body).toHaveLength(1);
+        });
+
+        it("should accept an offer at the agreed price", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValue(mockOffer);
+            (db.rideOffer.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.rideOffer.findMany as jest.Mock).mockResolvedValueOnce([]);
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/offers/${mockOffer.id}/accept`)
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(db.ride.updateMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        driverId: driverPayload.userId,
+                        vehicleId: "vehicle-123",
+                        price: 800,
+                    }),
+                })
+            );
+            // Kept to restore the listed price if the driver gives the ride back
+            expect(db.rideOffer.updateMany).toHaveBeenCalledWith({
+                where: { id: mockOffer.id, status: "PENDING", price: 800 },
+                data: { status: "ACCEPTED", listedPrice: 1000 },
+            });
+        });
+
+        it("should not accept an offer the driver revised after the passenger saw it", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(mockRide);
+            (db.rideOffer.findUnique as jest.Mock).mockResolvedValue(mockOffer);
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+            (db.rideOffer.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post(`/rides/${mockRide.id}/offers/${mockOffer.id}/accept`)
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(409);
+            expect(res.body.error).toBe("The driver withdrew or changed this offer");
+            expect(db.ridePin.upsert).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Authorization - Ride Updates", () => {
+        const otherUserPayload = { userId: "other-user-789", role: Role.USER };
+
+        it("should reject updating someone else's ride (403 Forbidden)", async () => {
+            const someoneElsesRide = {
+                id: "ride-123",
+                userId: "passenger-123",  // Different user
+                status: RideStatus.PENDING,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(someoneElsesRide);
+
+            const token = generateToken(otherUserPayload);
+            const res = await request(app)
+                .put("/rides/ride-123")
+                .set("Authorization", `Bearer ${token}`)
+                .send({
+                    originLat: 36.8,
+                    originLng: 3.1,
+                });
+
+            expect(res.status).toBe(403);
+            expect(res.body.error).toMatch(/not authorized|only the passenger/i);
+        });
+
+        it("should reject status update from non-participant (403 Forbidden)", async () => {
+            const ride = {
+                id: "ride-456",
+                userId: "passenger-123",
+                driverId: "driver-456",
+                status: RideStatus.ACCEPTED,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            const token = generateToken(otherUserPayload);  // Not passenger or driver
+            const res = await request(app)
+                .put("/rides/ride-456/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ONGOING });
+
+            expect(res.status).toBe(403);
+            expect(res.body.error).toMatch(/not authorized/i);
+        });
+
+        it("should allow passenger to update their own PENDING ride", async () => {
+            const passengerRide = {
+                id: "ride-789",
+                userId: passengerPayload.userId,
+                status: RideStatus.PENDING,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(passengerRide);
+            (db.ride.update as jest.Mock).mockResolvedValue({
+                ...passengerRide,
+                originLat: 36.8,
+            });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-789")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ originLat: 36.8 });
+
+            expect(res.status).toBe(200);
+        });
+
+        it("should allow driver to update status of their ride", async () => {
+            const driverRide = {
+                id: "ride-driver-123",
+                userId: "passenger-xyz",
+                driverId: driverPayload.userId,  // Driver's ride
+                status: RideStatus.ACCEPTED,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(driverRide);
+            (db.ridePin.findUnique as jest.Mock).mockResolvedValueOnce({
+                rideId: "ride-driver-123",
+                pin: "4821",
+                attempts: 0,
+                verifiedAt: null,
+            });
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-driver-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ONGOING, pin: "4821" });
+
+            expect(res.status).toBe(200);
+        });
+
+        it("should reject cancel from non-participant (403 Forbidden)", async () => {
+            const ride = {
+                id: "ride-cancel-123",
+                userId: "passenger-123",
+                driverId: "driver-456",
+                status: RideStatus.ACCEPTED,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            const token = generateToken(otherUserPayload);
+            const res = await request(app)
+                .put("/rides/ride-cancel-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
+
+            expect(res.status).toBe(403);
+            expect(res.body.error).toMatch(/not authorized/i);
+        });
+
+        it("should return 404 for non-existent ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(null);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/nonexistent-ride")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ originLat: 36.8 });
+
+            expect(res.status).toBe(404);
+            expect(res.body.error).toMatch(/not found/i);
+        });
+
+        it("should return 400 for invalid status transitions", async () => {
+            const ride = {
+                id: "ride-transition-123",
+                userId: passengerPayload.userId,
+                status: RideStatus.PENDING,
+            };
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-transition-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ONGOING });  // Can't go PENDING -> ONGOING
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Cannot move a PENDING ride to ONGOING");
+        });
+
+        it("should not let the passenger complete the ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                id: "ride-123",
+                userId: passengerPayload.userId,
+                driverId: driverPayload.userId,
+                status: RideStatus.ONGOING,
+            });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.COMPLETED });
+
+            expect(res.status).toBe(403);
+            expect(res.body.error).toBe("Only the driver can move a ONGOING ride to COMPLETED");
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should not complete a cancelled ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                id: "ride-123",
+                userId: passengerPayload.userId,
+                driverId: driverPayload.userId,
+                status: RideStatus.CANCELLED,
+            });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.COMPLETED });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Cannot move a CANCELLED ride to COMPLETED");
+            expect(paymentServices.processDriverCommission).not.toHaveBeenCalled();
+        });
+
+        it("should complete a ride only once when two completions race", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                id: "ride-123",
+                userId: passengerPayload.userId,
+                driverId: driverPayload.userId,
+                status: RideStatus.ONGOING,
+                price: 1000,
+            });
+            // The other completion got there first
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.COMPLETED });
+
+            expect(res.status).toBe(409);
+            expect(res.body.error).toBe("Ride is no longer ONGOING");
+            expect(db.ride.updateMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: "ride-123", status: RideStatus.ONGOING } })
+            );
+            expect(db.rideStatusEvent.create).not.toHaveBeenCalled();
+            expect(paymentServices.processDriverCommission).not.toHaveBeenCalled();
+        });
+
+        it("should leave cancelling to the cancel route", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                id: "ride-123",
+                userId: passengerPayload.userId,
+                driverId: null,
+                status: RideStatus.PENDING,
+            });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.CANCELLED });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toMatch(/status must be one of: ARRIVED, ONGOING, COMPLETED/);
+        });
+
+        it("should not cancel a ride twice", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                id: "ride-123",
+                userId: passengerPayload.userId,
+                driverId: null,
+                status: RideStatus.CANCELLED,
+            });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Cannot move a CANCELLED ride to CANCELLED");
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should not cancel a ride that was accepted in the meantime", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                id: "ride-123",
+                userId: passengerPayload.userId,
+                driverId: null,
+                status: RideStatus.PENDING,
+                price: 1000,
+            });
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.CHANGED_PLANS });
+
+            expect(res.status).toBe(409);
+            expect(res.body.error).toBe("Ride is no longer PENDING");
+            expect(db.rideCancellation.create).not.toHaveBeenCalled();
+        });
+
+        it("should not charge the penalty of a driver whose ride was cancelled in the meantime", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                id: "ride-123",
+                userId: passengerPayload.userId,
+                driverId: driverPayload.userId,
+                status: RideStatus.ACCEPTED,
+                price: 100000,
+            });
+            (db.ride.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
+
+            expect(res.status).toBe(409);
+            expect(paymentServices.processDriverCancellationPenalty).not.toHaveBeenCalled();
+            expect(db.rideCancellation.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Ride timeline", () => {
+        const acceptedRide = {
+            id: "ride-123",
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            status: RideStatus.ACCEPTED,
+            type: RideType.REGULAR,
+        };
+
+        it("should record each status change with its actor", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(acceptedRide);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.ARRIVED });
+
+            expect(res.status).toBe(200);
+            expect(db.rideStatusEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    rideId: "ride-123",
+                    fromStatus: RideStatus.ACCEPTED,
+                    toStatus: RideStatus.ARRIVED,
+                    actor: RideActor.DRIVER,
+                    userId: driverPayload.userId,
+                }),
+            });
+        });
+
+        it("should record a driver giving the ride back to the search", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(acceptedRide).mockResolvedValue({ ...acceptedRide, status: RideStatus.PENDING, driverId: null });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/cancel")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ reason: CancellationReason.PICKUP_TOO_FAR });
+
+            expect(res.status).toBe(200);
+            expect(db.rideStatusEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    fromStatus: RideStatus.ACCEPTED,
+                    toStatus: RideStatus.PENDING,
+                    actor: RideActor.DRIVER,
+                }),
+            });
+        });
+
+        it("should show the timeline with the ride", async () => {
+            const statusEvents = [
+                { fromStatus: null, toStatus: RideStatus.PENDING, actor: RideActor.PASSENGER },
+                { fromStatus: RideStatus.PENDING, toStatus: RideStatus.ACCEPTED, actor: RideActor.DRIVER },
+            ];
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...acceptedRide, statusEvents });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .get("/rides/ride-123")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.statusEvents).toEqual(statusEvents);
+            expect(db.ride.findUnique).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    include: expect.objectContaining({
+                        statusEvents: { orderBy: { createdAt: "asc" } },
+                    }),
+                })
+            );
+        });
+    });
+
+    describe("Actual trip", () => {
+        const startedAt = new Date(Date.now() - 12 * 60 * 1000);
+
+        // Booked at 5km / 10min: 450 DA with the default rates
+        const ongoingRide = {
+            id: "ride-123",
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            status: RideStatus.ONGOING,
+            type: RideType.REGULAR,
+            originLat: 36.75,
+            originLng: 3.05,
+            destLat: 36.79,
+            destLng: 3.05,
+            distanceKm: 5,
+            durationMin: 10,
+            price: 450,
+            tariffId: null,
+            surgeMultiplier: 1.0,
+            timeRuleIds: [],
+            promoCodeId: null,
+            discountAmount: 0,
+            startedAt,
+        };
+
+        // One fix a minute, ~1.11km apart
+        const trail = Array.from({ length: 8 }, (_, i) => ({
+            lat: 36.75 + i * 0.01,
+            lng: 3.05,
+            accuracy: 10,
+            recordedAt: new Date(startedAt.getTime() + i * 60 * 1000),
+        }));
+
+        afterEach(() => {
+            TRAIL_CONFIG.REPRICE_ON_ACTUAL = false;
+        });
+
+        it("should record the distance and duration actually driven on completion", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ongoingRide);
+            (db.rideLocationPoint.findMany as jest.Mock).mockResolvedValueOnce(trail);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.COMPLETED });
+
+            expect(res.status).toBe(200);
+            expect(db.ride.updateMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: {
+                        status: RideStatus.COMPLETED,
+                        completedAt: expect.any(Date),
+                        actualDistanceKm: 7.78,
+                        actualDurationMin: expect.closeTo(12, 0),
+                    },
+                })
+            );
+            // Repricing is off by default
+            expect(paymentServices.processDriverCommission).toHaveBeenCalledWith(db, "ride-123", driverPayload.userId, 450);
+        });
+
+        it("should reprice a longer trip when enabled, up to the cap", async () => {
+            TRAIL_CONFIG.REPRICE_ON_ACTUAL = true;
+            const cappedPrice = Math.round(450 * (1 + TRAIL_CONFIG.MAX_INCREASE));
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ongoingRide);
+            (db.rideLocationPoint.findMany as jest.Mock).mockResolvedValueOnce(trail);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.COMPLETED });
+
+            expect(res.status).toBe(200);
+            expect(db.ride.updateMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ price: cappedPrice, bookedPrice: 450 }),
+                })
+            );
+            expect(paymentServices.processDriverCommission).toHaveBeenCalledWith(
+                db,
+                "ride-123",
+                driverPayload.userId,
+                cappedPrice
+            );
+        });
+
+        it("should owe the commission of a repriced fare the driver's wallet cannot cover", async () => {
+            TRAIL_CONFIG.REPRICE_ON_ACTUAL = true;
+            const cappedPrice = Math.round(450 * (1 + TRAIL_CONFIG.MAX_INCREASE));
+            const { processDriverCommission } = jest.requireActual("../ride.payment.services");
+
+            (paymentServices.processDriverCommission as jest.Mock).mockImplementationOnce(processDriverCommission);
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ongoingRide);
+            (db.rideLocationPoint.findMany as jest.Mock).mockResolvedValueOnce(trail);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            // Enough for the commission on the booked 450 DA only
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({
+                id: "wallet-driver",
+                userId: driverPayload.userId,
+                balance: 45,
+            });
+            (db.wallet.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.commission.create as jest.Mock).mockImplementationOnce(({ data }) => data);
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/rides/ride-123/status")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ status: RideStatus.COMPLETED });
+
+            expect(res.status).toBe(200);
+            expect(db.wallet.updateMany).toHaveBeenCalledWith({
+                where: { userId: driverPayload.userId, balance: { gte: 45 } },
+                data: { balance: { decrement: 45 } },
+            });
+            expect(db.commission.create).toHaveBeenCalledWith({
+                data: {
+                    rideId: "ride-123",
+                    percent: 0.10,
+                    amount: Math.floor(cappedPrice * 0.10),
+                    debtAmount: Math.floor(cappedPrice * 0.10) - 45,
+                },
+            });
+        });
+    });
+
+    describe("Ride track", () => {
+        const completedRide = {
+            id: "ride-123",
+            userId: passengerPayload.userId,
+            driverId: driverPayload.userId,
+            status: RideStatus.COMPLETED,
+            startedAt: new Date("2026-10-19T10:00:00.000Z"),
+            completedAt: new Date("2026-10-19T10:02:00.000Z"),
+            actualDistanceKm: 1.11,
+            actualDurationMin: 2,
+        };
+
+        const points = [0, 1].map((i) => ({
+            id: `point-${i}`,
+            rideId: "ride-123",
+            rideStatus: RideStatus.ONGOING,
+            lat: 36.75 + i * 0.01,
+            lng: 3.05,
+            speed: 40,
+            heading: 0,
+            accuracy: 5,
+            recordedAt: new Date(completedRide.startedAt.getTime() + i * 60 * 1000),
+        }));
+
+        it("should return the trail as GeoJSON to the passenger", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(completedRide);
+            (db.rideLocationPoint.findMany as jest.Mock).mockResolvedValueOnce(points);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .get("/rides/ride-123/track")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.headers["content-type"]).toMatch(/application\/geo\+json/);
+            expect(res.body.geometry.coordinates).toEqual([[3.05, 36.75], [3.05, 36.76]]);
+            expect(res.body.properties.coordTimes).toEqual([
+                "2026-10-19T10:00:00.000Z",
+                "2026-10-19T10:01:00.000Z",
+            ]);
+            expect(db.rideLocationPoint.findMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123" },
+                orderBy: { recordedAt: "asc" },
+            });
+        });
+
+        it("should download the trail as GPX", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(completedRide);
+            (db.rideLocationPoint.findMany as jest.Mock).mockResolvedValueOnce(points);
+
+            const token = generateToken({ userId: "admin-123", role: Role.ADMIN });
+            const res = await request(app)
+                .get("/rides/ride-123/track?format=gpx")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.headers["content-type"]).toMatch(/application\/gpx\+xml/);
+            expect(res.headers["content-disposition"]).toBe('attachment; filename="ride-ride-123.gpx"');
+            expect(res.text).toContain('<trkpt lat="36.76" lon="3.05">');
+        });
+
+        it("should not show the trail to someone else", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(completedRide);
+
+            const token = generateToken({ userId: "someone-else", role: Role.DRIVER });
+            const res = await request(app)
+                .get("/rides/ride-123/track")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(403);
+            expect(res.body.error).toBe("Unauthorized: You are not part of this ride");
+            expect(db.rideLocationPoint.findMany).not.toHaveBeenCalled();
+        });
+
+        it("should reject unknown formats", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .get("/rides/ride-123/track?format=kml")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("format must be one of: geojson, gpx");
+        });
+    });
+});
@@ -0,0 +1,407 @@
+import { RideActor, RideStatus, RideType, VehicleType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { getRideEmitter } from "../../../socket";
+import { getAvailableDriverLocations } from "../../../socket/handlers/driver-location.handler";
+import {
+    announceScheduledRide,
+    assertCanSchedule,
+    getOpenScheduledRides,
+    reserveScheduledRide,
+    dispatchScheduledRides,
+} from "../ride.schedule.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            count: jest.fn(),
+            findFirst: jest.fn(),
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        driverProfile: {
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+        },
+        vehicle: {
+            findUnique: jest.fn(),
+        },
+        wallet: {
+            findUnique: jest.fn(),
+        },
+        ridePin: {
+            upsert: jest.fn(),
+        },
+        rideStatusEvent: {
+            create: jest.fn(),
+        },
+    },
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitRideCreated: jest.fn(),
+    emitRideAccepted: jest.fn(),
+    emitRideDispatched: jest.fn(),
+    emitRideReserved: jest.fn(),
+    emitRidePin: jest.fn(),
+    emitScheduledRideCreated: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+jest.mock("../../../socket/handlers/driver-location.handler", () => ({
+    getAvailableDriverLocations: jest.fn(() => new Map()),
+}));
+
+describe("Scheduled Ride Services", () => {
+    const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    const scheduledRide = {
+        id: "ride-123",
+        userId: "passenger-123",
+        driverId: null as string | null,
+        status: RideStatus.SCHEDULED,
+        type: RideType.REGULAR,
+        price: 1000,
+        originLat: 36.75,
+        originLng: 3.05,
+        scheduledAt: inHours(5),
+        tariff: null,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (db.ride.count as jest.Mock).mockResolvedValue(0);
+        (db.ride.findFirst as jest.Mock).mockResolvedValue(null);
+        (db.driverProfile.findUnique as jest.Mock).mockResolvedValue({ id: "profile-123" });
+        (db.driverProfile.findMany as jest.Mock).mockResolvedValue([{
+            userId: "driver-123",
+            acceptedRideTypes: [],
+            maxPickupDistanceKm: null,
+            minFare: null,
+            vehicles: [{ type: VehicleType.CAR }],
+        }]);
+        (db.vehicle.findUnique as jest.Mock).mockResolvedValue({
+            id: "vehicle-123",
+            driverId: "profile-123",
+            type: VehicleType.CAR,
+        });
+        (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: "driver-123", balance: 5000 });
+    });
+
+    describe("assertCanSchedule", () => {
+        it("should accept a pickup within the booking window", async () => {
+            await expect(assertCanSchedule("passenger-123", inHours(5))).resolves.toBeUndefined();
+        });
+
+        it("should reject pickups too soon or too far ahead", async () => {
+            await expect(assertCanSchedule("passenger-123", inHours(0.25))).rejects.toThrow(
+                "at least 30 minutes in advance"
+            );
+            await expect(assertCanSchedule("passenger-123", inHours(8 * 24))).rejects.toThrow(
+                "at most 7 days in advance"
+            );
+        });
+
+        it("should limit the number of scheduled rides per passenger", async () => {
+            (db.ride.count as jest.Mock).mockResolvedValue(5);
+
+            await expect(assertCanSchedule("passenger-123", inHours(5))).rejects.toThrow(
+                "at most 5 scheduled rides"
+            );
+            expect(db.ride.count).toHaveBeenCalledWith({
+                where: { userId: "passenger-123", status: RideStatus.SCHEDULED },
+            });
+        });
+    });
+
+    describe("getOpenScheduledRides", () => {
+        it("should only list unreserved rides within the radius", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue([
+                scheduledRide,
+                { ...scheduledRide, id: "ride-far", originLat: 36.9, originLng: 3.3 },
+            ]);
+
+            const rides = await getOpenScheduledRides("driver-123", 36.7501, 3.0501);
+
+            expect(db.ride.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        status: RideStatus.SCHEDULED,
+                        driverId: null,
+                        scheduledAt: { gt: expect.any(Date) },
+                    },
+                })
+            );
+            expect(rides.map((r) => r.id)).toEqual(["ride-123"]);
+        });
+
+        it("should leave out the rides the driver's vehicle cannot take", async () => {
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValue([{
+                userId: "driver-123",
+                acceptedRideTypes: [],
+                maxPickupDistanceKm: null,
+                minFare: null,
+                vehicles: [{ type: VehicleType.BIKE }],
+            }]);
+            (db.ride.findMany as jest.Mock).mockResolvedValue([
+                scheduledRide,
+                { ...scheduledRide, id: "ride-delivery", type: RideType.DELIVERY },
+            ]);
+
+            const rides = await getOpenScheduledRides("driver-123", 36.7501, 3.0501);
+
+            expect(rides.map((r) => r.id)).toEqual(["ride-delivery"]);
+        });
+    });
+
+    describe("announceScheduledRide", () => {
+        it("should only announce the ride to drivers it suits", async () => {
+            (getAvailableDriverLocations as jest.Mock).mockReturnValueOnce(new Map([
+                ["driver-123", { latitude: 36.751, longitude: 3.051, lastUpdate: new Date() }],
+                ["driver-bike", { latitude: 36.751, longitude: 3.051, lastUpdate: new Date() }],
+            ]));
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValueOnce([
+                { userId: "driver-123", acceptedRideTypes: [], maxPickupDistanceKm: null, minFare: null, vehicles: [{ type: VehicleType.CAR }] },
+                { userId: "driver-bike", acceptedRideTypes: [], maxPickupDistanceKm: null, minFare: null, vehicles: [{ type: VehicleType.BIKE }] },
+            ]);
+
+            await announceScheduledRide(scheduledRide);
+
+            expect(mockEmitter.emitScheduledRideCreated).toHaveBeenCalledWith(scheduledRide, ["driver-123"]);
+        });
+    });
+
+    describe("reserveScheduledRide", () => {
+        it("should assign the driver without dispatching the ride", async () => {
+            (db.ride.findUnique as jest.Mock)
+                .mockResolvedValueOnce(scheduledRide)
+                .mockResolvedValueOnce({ ...scheduledRide, driverId: "driver-123" });
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const ride = await reserveScheduledRide("ride-123", "driver-123", "vehicle-123");
+
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-123", status: RideStatus.SCHEDULED, driverId: null },
+                data: { driverId: "driver-123", vehicleId: "vehicle-123", reservedAt: expect.any(Date) },
+            });
+            expect(ride?.status).toBe(RideStatus.SCHEDULED);
+            expect(mockEmitter.emitRideReserved).toHaveBeenCalled();
+        });
+
+        it("should reject a ride another driver reserved first", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(scheduledRide);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            await expect(reserveScheduledRide("ride-123", "driver-123", "vehicle-123")).rejects.toThrow(
+                "Ride is already reserved by another driver"
+            );
+        });
+
+        it("should only reserve scheduled rides", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce({ ...scheduledRide, status: RideStatus.PENDING });
+
+            await expect(reserveScheduledRide("ride-123", "driver-123", "vehicle-123")).rejects.toThrow(
+                "Only scheduled rides can be reserved"
+            );
+        });
+
+        it("should not let a motorbike reserve a car ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(scheduledRide);
+            (db.vehicle.findUnique as jest.Mock).mockResolvedValue({
+                id: "vehicle-123",
+                driverId: "profile-123",
+                type: VehicleType.BIKE,
+            });
+
+            await expect(reserveScheduledRide("ride-123", "driver-123", "vehicle-123")).rejects.toThrow(
+                "This vehicle cannot take this ride"
+            );
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should not reserve a ride the driver's preferences exclude", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(scheduledRide);
+            (db.driverProfile.findMany as jest.Mock).mockResolvedValue([{
+                userId: "driver-123",
+                acceptedRideTypes: [RideType.DELIVERY],
+                maxPickupDistanceKm: null,
+                minFare: null,
+                vehicles: [{ type: VehicleType.CAR }],
+            }]);
+
+            await expect(reserveScheduledRide("ride-123", "driver-123", "vehicle-123")).rejects.toThrow(
+                "This ride does not match your ride preferences"
+            );
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should require the commission balance", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValueOnce(scheduledRide);
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: "driver-123", balance: 10 });
+
+            await expect(reserveScheduledRide("ride-123", "driver-123", "vehicle-123")).rejects.toThrow(
+                /Insufficient balance/
+            );
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("dispatchScheduledRides", () => {
+        const now = new Date("2026-10-18T10:00:00.000Z");
+
+        it("should only pick rides due within the dispatch lead time", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue([]);
+
+            await dispatchScheduledRides(now);
+
+            expect(db.ride.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        status: RideStatus.SCHEDULED,
+                        scheduledAt: { lte: new Date("2026-10-18T10:15:00.000Z") },
+                    },
+                })
+            );
+        });
+
+        it("should assign reserved rides and broadcast the others", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue([
+                { id: "ride-reserved", userId: "passenger-123", driverId: "driver-123" },
+                { id: "ride-open", userId: "passenger-456", driverId: null },
+            ]);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.ride.findUnique as jest.Mock).mockImplementation(({ where }) =>
+                Promise.resolve({ id: where.id })
+            );
+
+            const result = await dispatchScheduledRides(now);
+
+            expect(result).toEqual({ assigned: 1, broadcast: 1 });
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-reserved", status: RideStatus.SCHEDULED, driverId: "driver-123" },
+                data: {
+                    status: RideStatus.ACCEPTED,
+                    dispatchedAt: now,
+                    acceptedAt: now,
+                    acceptLat: null,
+                    acceptLng: null,
+                },
+            });
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-open", status: RideStatus.SCHEDULED, driverId: null },
+                data: { status: RideStatus.PENDING, dispatchedAt: now, pendingSince: now },
+            });
+            expect(db.rideStatusEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    rideId: "ride-reserved",
+                    fromStatus: RideStatus.SCHEDULED,
+                    toStatus: RideStatus.ACCEPTED,
+                    actor: RideActor.SYSTEM,
+                    userId: null,
+                }),
+            });
+            expect(mockEmitter.emitRideAccepted).toHaveBeenCalledWith({ id: "ride-reserved" });
+            expect(mockEmitter.emitRideDispatched).toHaveBeenCalledWith({ id: "ride-reserved" });
+            expect(mockEmitter.emitRideCreated).toHaveBeenCalledWith({ id: "ride-open" }, []);
+
+            // Only the reserved ride is accepted, so only it gets a PIN
+            expect(db.ridePin.upsert).toHaveBeenCalledTimes(1);
+            expect(mockEmitter.emitRidePin).toHaveBeenCalledWith({ id: "ride-reserved" }, expect.stringMatching(/^\d{4}$/));
+        });
+
+        it("should release the reservation of a driver already on another ride", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue([
+                { id: "ride-reserved", userId: "passenger-123", driverId: "driver-123" },
+            ]);
+            // The passenger is free, the driver is not
+            (db.ride.findFirst as jest.Mock)
+                .mockResolvedValueOnce(null)
+                .mockResolvedValueOnce({ id: "ride-ongoing" });
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ id: "ride-reserved" });
+
+            const result = await dispatchScheduledRides(now);
+
+            expect(result).toEqual({ assigned: 0, broadcast: 1 });
+            expect(db.ride.findFirst).toHaveBeenCalledWith({
+                where: {
+                    driverId: "driver-123",
+                    id: { not: "ride-reserved" },
+                    status: { in: [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING] },
+                },
+                select: { id: true },
+            });
+            expect(db.ride.updateMany).toHaveBeenCalledWith({
+                where: { id: "ride-reserved", status: RideStatus.SCHEDULED, driverId: "driver-123" },
+                data: {
+                    status: RideStatus.PENDING,
+                    dispatchedAt: now,
+                    pendingSince: now,
+                    driverId: null,
+                    vehicleId: null,
+                    reservedAt: null,
+                },
+            });
+            expect(db.rideStatusEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    rideId: "ride-reserved",
+                    fromStatus: RideStatus.SCHEDULED,
+                    toStatus: RideStatus.PENDING,
+                }),
+            });
+            expect(mockEmitter.emitRideAccepted).not.toHaveBeenCalled();
+            expect(mockEmitter.emitRideCreated).toHaveBeenCalledWith({ id: "ride-reserved" }, []);
+            expect(db.ridePin.upsert).not.toHaveBeenCalled();
+        });
+
+        it("should keep the ride scheduled while its passenger is on another ride", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue([
+                { id: "ride-reserved", userId: "passenger-123", driverId: "driver-123" },
+                { id: "ride-open", userId: "passenger-123", driverId: null },
+            ]);
+            (db.ride.findFirst as jest.Mock).mockResolvedValue({ id: "ride-now" });
+
+            const result = await dispatchScheduledRides(now);
+
+            expect(result).toEqual({ assigned: 0, broadcast: 0 });
+            expect(db.ride.findFirst).toHaveBeenCalledWith({
+                where: {
+                    userId: "passenger-123",
+                    id: { not: "ride-reserved" },
+                    status: { in: [RideStatus.PENDING, RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING] },
+                },
+                select: { id: true },
+            });
+            expect(db.ride.updateMany).not.toHaveBeenCalled();
+            expect(mockEmitter.emitRideCreated).not.toHaveBeenCalled();
+        });
+
+        it("should not dispatch a ride deleted after it went live", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue([
+                { id: "ride-open", userId: "passenger-456", driverId: null },
+            ]);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(null);
+
+            const result = await dispatchScheduledRides(now);
+
+            expect(result).toEqual({ assigned: 0, broadcast: 0 });
+            expect(mockEmitter.emitRideCreated).not.toHaveBeenCalled();
+        });
+
+        it("should skip rides changed since they were loaded", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue([{ id: "ride-cancelled", userId: "passenger-123", driverId: null }]);
+            (db.ride.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            const result = await dispatchScheduledRides(now);
+
+            expect(result).toEqual({ assigned: 0, broadcast: 0 });
+            expect(mockEmitter.emitRideCreated).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,180 @@
+import { RideStatus, RideType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { hashToken } from "../../../utils/hashToken";
+import { getDriverLocation } from "../../../socket/handlers/location.handler";
+import {
+    createShareToken,
+    revokeShareTokens,
+    resolveShareToken,
+    getSharedRide,
+} from "../ride.share.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findUnique: jest.fn(),
+        },
+        rideShareToken: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            updateMany: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../../socket/handlers/location.handler", () => ({
+    getDriverLocation: jest.fn(),
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitShareRevoked: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+describe("Ride Share Services", () => {
+    const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    const ride = {
+        id: "ride-123",
+        type: RideType.DELIVERY,
+        status: RideStatus.ONGOING,
+        userId: "passenger-123",
+        driverId: "driver-123",
+        originLat: 36.7538,
+        originLng: 3.0588,
+        originAddress: "Alger Centre",
+        destLat: 36.765,
+        destLng: 3.07,
+        destAddress: "Bab El Oued",
+        deliveredAt: null,
+        stops: [],
+        driver: { firstName: "Karim", photo: null },
+        vehicle: { type: "CAR", model: "Clio", plate: "12345-116-16" },
+    };
+
+    const shareToken = {
+        id: "share-1",
+        rideId: "ride-123",
+        hashedToken: hashToken("share-token"),
+        expiresAt: inHours(2),
+        revokedAt: null as Date | null,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("createShareToken", () => {
+        it("should store only the hash of the token", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+
+            const share = await createShareToken("ride-123", "passenger-123");
+
+            expect(db.rideShareToken.create).toHaveBeenCalledWith({
+                data: {
+                    rideId: "ride-123",
+                    hashedToken: hashToken(share.token),
+                    createdById: "passenger-123",
+                    expiresAt: share.expiresAt,
+                },
+            });
+            expect(share.expiresAt.getTime()).toBeGreaterThan(Date.now());
+        });
+
+        it("should only let the passenger share an unfinished ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+            await expect(createShareToken("ride-123", "driver-123")).rejects.toThrow(
+                "Only the passenger can share this ride"
+            );
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...ride, status: RideStatus.COMPLETED });
+            await expect(createShareToken("ride-123", "passenger-123")).rejects.toThrow(
+                "Cannot share a COMPLETED ride"
+            );
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...ride, status: RideStatus.EXPIRED });
+            await expect(createShareToken("ride-123", "passenger-123")).rejects.toThrow(
+                "Cannot share a EXPIRED ride"
+            );
+            expect(db.rideShareToken.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("resolveShareToken", () => {
+        it("should reject unknown, expired and revoked links", async () => {
+            (db.rideShareToken.findUnique as jest.Mock).mockResolvedValueOnce(null);
+            await expect(resolveShareToken("nope")).rejects.toThrow("Tracking link not found or expired");
+
+            (db.rideShareToken.findUnique as jest.Mock).mockResolvedValueOnce({ ...shareToken, expiresAt: inHours(-1) });
+            await expect(resolveShareToken("share-token")).rejects.toThrow("Tracking link not found or expired");
+
+            (db.rideShareToken.findUnique as jest.Mock).mockResolvedValueOnce({ ...shareToken, revokedAt: new Date() });
+            await expect(resolveShareToken("share-token")).rejects.toThrow("Tracking link not found or expired");
+        });
+    });
+
+    describe("getSharedRide", () => {
+        it("should show the status and live driver position, without personal details", async () => {
+            (db.rideShareToken.findUnique as jest.Mock).mockResolvedValue(shareToken);
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+            (getDriverLocation as jest.Mock).mockReturnValue({
+                rideId: "ride-123",
+                latitude: 36.76,
+                longitude: 3.065,
+                heading: 90,
+                speed: 30,
+                accuracy: 5,
+                timestamp: new Date(),
+            });
+
+            const view = await getSharedRide("share-token");
+
+            expect(view.status).toBe(RideStatus.ONGOING);
+            expect(view.driverLocation).toMatchObject({ latitude: 36.76, longitude: 3.065 });
+            expect(view).not.toHaveProperty("userId");
+            expect(view).not.toHaveProperty("price");
+            expect(view).not.toHaveProperty("recipientPhone");
+        });
+
+        it("should hide the driver position outside of the ride", async () => {
+            (db.rideShareToken.findUnique as jest.Mock).mockResolvedValue(shareToken);
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...ride, status: RideStatus.COMPLETED });
+
+            const view = await getSharedRide("share-token");
+
+            expect(view.driverLocation).toBeNull();
+            expect(getDriverLocation).not.toHaveBeenCalled();
+        });
+
+        it("should ignore a position the driver sent for another ride", async () => {
+            (db.rideShareToken.findUnique as jest.Mock).mockResolvedValue(shareToken);
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+            (getDriverLocation as jest.Mock).mockReturnValue({ rideId: "ride-456", latitude: 36.76, longitude: 3.065 });
+
+            const view = await getSharedRide("share-token");
+
+            expect(view.driverLocation).toBeNull();
+        });
+    });
+
+    describe("revokeShareTokens", () => {
+        it("should revoke the active links and disconnect their followers", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ride);
+            (db.rideShareToken.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+            const result = await revokeShareTokens("ride-123", "passenger-123");
+
+            expect(db.rideShareToken.updateMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+                data: { revokedAt: expect.any(Date) },
+            });
+            expect(result.revoked).toBe(2);
+            expect(mockEmitter.emitShareRevoked).toHaveBeenCalledWith("ride-123");
+        });
+    });
+});
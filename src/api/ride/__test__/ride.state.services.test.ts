@@ -0,0 +1,113 @@
+import { RideActor, RideStatus, Role } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { getDriverLocation } from "../../../socket/handlers/location.handler";
+import { assertRideTransition, getRideActor, recordStatusEvent } from "../ride.state.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        rideStatusEvent: {
+            create: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../../socket/handlers/location.handler", () => ({
+    getDriverLocation: jest.fn(),
+}));
+
+jest.mock("../../../socket/handlers/driver-location.handler", () => ({
+    getAvailableDriverLocations: jest.fn(() => new Map()),
+}));
+
+describe("Ride State Services", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("getRideActor", () => {
+        const ride = { userId: "passenger-123", driverId: "driver-123" };
+
+        it("should tell the passenger, the driver and admins apart", () => {
+            expect(getRideActor(ride, "passenger-123")).toBe(RideActor.PASSENGER);
+            expect(getRideActor(ride, "driver-123")).toBe(RideActor.DRIVER);
+            expect(getRideActor(ride, "admin-1", Role.ADMIN)).toBe(RideActor.ADMIN);
+            expect(() => getRideActor(ride, "someone-else")).toThrow("You are not authorized to update this ride");
+        });
+    });
+
+    describe("assertRideTransition", () => {
+        it("should let the driver run the ride", () => {
+            expect(() => assertRideTransition(RideStatus.ACCEPTED, RideStatus.ARRIVED, RideActor.DRIVER)).not.toThrow();
+            expect(() => assertRideTransition(RideStatus.ACCEPTED, RideStatus.ONGOING, RideActor.DRIVER)).not.toThrow();
+            expect(() => assertRideTransition(RideStatus.ARRIVED, RideStatus.ONGOING, RideActor.DRIVER)).not.toThrow();
+            expect(() => assertRideTransition(RideStatus.ONGOING, RideStatus.COMPLETED, RideActor.DRIVER)).not.toThrow();
+        });
+
+        it("should not let the passenger start or complete the ride", () => {
+            expect(() => assertRideTransition(RideStatus.ACCEPTED, RideStatus.ONGOING, RideActor.PASSENGER))
+                .toThrow("Only the driver can move a ACCEPTED ride to ONGOING");
+            expect(() => assertRideTransition(RideStatus.ONGOING, RideStatus.COMPLETED, RideActor.PASSENGER))
+                .toThrow("Only the driver can move a ONGOING ride to COMPLETED");
+        });
+
+        it("should keep finished rides as they are", () => {
+            [RideStatus.COMPLETED, RideStatus.CANCELLED, RideStatus.EXPIRED].forEach((from) => {
+                Object.values(RideActor).forEach((actor) => {
+                    expect(() => assertRideTransition(from, RideStatus.COMPLETED, actor))
+                        .toThrow(`Cannot move a ${from} ride to COMPLETED`);
+                    expect(() => assertRideTransition(from, RideStatus.CANCELLED, actor))
+                        .toThrow(`Cannot move a ${from} ride to CANCELLED`);
+                });
+            });
+        });
+
+        it("should leave expiry and dispatch to the system", () => {
+            expect(() => assertRideTransition(RideStatus.PENDING, RideStatus.EXPIRED, RideActor.SYSTEM)).not.toThrow();
+            expect(() => assertRideTransition(RideStatus.PENDING, RideStatus.EXPIRED, RideActor.ADMIN)).toThrow();
+            expect(() => assertRideTransition(RideStatus.SCHEDULED, RideStatus.PENDING, RideActor.PASSENGER)).toThrow();
+        });
+    });
+
+    describe("recordStatusEvent", () => {
+        it("should locate the event where the driver of the ride is", async () => {
+            (getDriverLocation as jest.Mock).mockReturnValueOnce({ rideId: "ride-123", latitude: 36.76, longitude: 3.06 });
+
+            await recordStatusEvent({
+                rideId: "ride-123",
+                from: RideStatus.ACCEPTED,
+                to: RideStatus.ARRIVED,
+                actor: RideActor.DRIVER,
+                userId: "driver-123",
+                driverId: "driver-123",
+            });
+
+            expect(db.rideStatusEvent.create).toHaveBeenCalledWith({
+                data: {
+                    rideId: "ride-123",
+                    fromStatus: RideStatus.ACCEPTED,
+                    toStatus: RideStatus.ARRIVED,
+                    actor: RideActor.DRIVER,
+                    userId: "driver-123",
+                    lat: 36.76,
+                    lng: 3.06,
+                },
+            });
+        });
+
+        it("should record the booking without a location", async () => {
+            await recordStatusEvent({
+                rideId: "ride-123",
+                from: null,
+                to: RideStatus.PENDING,
+                actor: RideActor.PASSENGER,
+                userId: "passenger-123",
+            });
+
+            expect(db.rideStatusEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ fromStatus: null, lat: null, lng: null }),
+            });
+            expect(getDriverLocation).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import { RideStatus } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { validateRideStops, markStopReached } from "../ride.stop.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findUnique: jest.fn(),
+        },
+        rideStop: {
+            updateMany: jest.fn(),
+        },
+    },
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitStopReached: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+describe("Ride Stop Services", () => {
+    const stops = [
+        { id: "stop-1", rideId: "ride-123", order: 1, lat: 36.78, lng: 3.06, address: "Stop 1", reachedAt: null as Date | null },
+        { id: "stop-2", rideId: "ride-123", order: 2, lat: 36.77, lng: 3.08, address: "Stop 2", reachedAt: null as Date | null },
+    ];
+
+    const ongoingRide = {
+        id: "ride-123",
+        userId: "passenger-123",
+        driverId: "driver-123",
+        status: RideStatus.ONGOING,
+        stops,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (db.rideStop.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    describe("validateRideStops", () => {
+        it("should keep only the coordinates of each stop, in order", () => {
+            expect(validateRideStops([{ lat: 36.78, lng: 3.06, note: "x" }, { lat: 36.77, lng: 3.08 }])).toEqual([
+                { lat: 36.78, lng: 3.06 },
+                { lat: 36.77, lng: 3.08 },
+            ]);
+        });
+
+        it("should reject too many stops", () => {
+            const tooMany = Array.from({ length: 4 }, () => ({ lat: 36.78, lng: 3.06 }));
+
+            expect(() => validateRideStops(tooMany)).toThrow("A ride can have at most 3 stops");
+        });
+
+        it("should reject invalid coordinates", () => {
+            expect(() => validateRideStops([{ lat: 95, lng: 3.06 }])).toThrow("Each stop needs a lat");
+            expect(() => validateRideStops([{ lat: 36.78 }])).toThrow("Each stop needs a lat");
+            expect(() => validateRideStops("36.78,3.06")).toThrow("stops must be a list");
+        });
+    });
+
+    describe("markStopReached", () => {
+        it("should mark the next stop and report the progress to the ride room", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ongoingRide);
+
+            const progress = await markStopReached("ride-123", "stop-1", "driver-123");
+
+            expect(db.rideStop.updateMany).toHaveBeenCalledWith({
+                where: { id: "stop-1", reachedAt: null },
+                data: { reachedAt: expect.any(Date) },
+            });
+            expect(progress.reachedStops).toBe(1);
+            expect(progress.totalStops).toBe(2);
+            expect(progress.nextStop?.id).toBe("stop-2");
+            expect(mockEmitter.emitStopReached).toHaveBeenCalledWith(ongoingRide, progress);
+        });
+
+        it("should require the stops to be reached in order", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ongoingRide);
+
+            await expect(markStopReached("ride-123", "stop-2", "driver-123")).rejects.toThrow(
+                "Stop 1 must be reached first"
+            );
+            expect(db.rideStop.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should not mark a stop twice", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({
+                ...ongoingRide,
+                stops: [{ ...stops[0], reachedAt: new Date() }, stops[1]],
+            });
+
+            await expect(markStopReached("ride-123", "stop-1", "driver-123")).rejects.toThrow(
+                "Stop already reached"
+            );
+
+            // Lost a race with another request
+            (db.rideStop.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+            await expect(markStopReached("ride-123", "stop-2", "driver-123")).rejects.toThrow(
+                "Stop already reached"
+            );
+            expect(mockEmitter.emitStopReached).not.toHaveBeenCalled();
+        });
+
+        it("should only let the assigned driver mark stops during the ride", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ongoingRide);
+            await expect(markStopReached("ride-123", "stop-1", "driver-456")).rejects.toThrow(
+                "Only the assigned driver can update stops"
+            );
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue({ ...ongoingRide, status: RideStatus.ACCEPTED });
+            await expect(markStopReached("ride-123", "stop-1", "driver-123")).rejects.toThrow(
+                "Stops can only be reached during an ongoing ride"
+            );
+        });
+
+        it("should reject unknown rides and stops", async () => {
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(null);
+            await expect(markStopReached("ride-404", "stop-1", "driver-123")).rejects.toThrow("Ride not found");
+
+            (db.ride.findUnique as jest.Mock).mockResolvedValue(ongoingRide);
+            await expect(markStopReached("ride-123", "stop-404", "driver-123")).rejects.toThrow("Stop not found");
+        });
+    });
+});
@@ -0,0 +1,128 @@
+import { RideStatus } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { getAvailableDriverLocations } from "../../../socket/handlers/driver-location.handler";
+import {
+    calculateSurgeMultiplier,
+    getSurgeMap,
+    getSurgeMultiplier,
+} from "../ride.surge.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findMany: jest.fn(),
+        },
+    },
+}));
+
+// Mock the in-memory driver locations
+jest.mock("../../../socket/handlers/driver-location.handler", () => ({
+    getAvailableDriverLocations: jest.fn(),
+}));
+
+describe("Ride Surge Services", () => {
+    // Two points a few hundred metres apart in central Algiers, and one in Oran
+    const algiers = { lat: 36.7538, lng: 3.0588 };
+    const algiersNearby = { lat: 36.7545, lng: 3.0595 };
+    const oran = { lat: 35.6971, lng: -0.6308 };
+
+    const pendingAt = (point: { lat: number; lng: number }, count: number) =>
+        Array.from({ length: count }, () => ({ originLat: point.lat, originLng: point.lng }));
+
+    const driversAt = (point: { lat: number; lng: number }, count: number) =>
+        new Map(
+            Array.from({ length: count }, (_, i) => [
+                `driver-${point.lat}-${i}`,
+                { latitude: point.lat, longitude: point.lng, lastUpdate: new Date() },
+            ])
+        );
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (db.ride.findMany as jest.Mock).mockResolvedValue([]);
+        (getAvailableDriverLocations as jest.Mock).mockReturnValue(new Map());
+    });
+
+    describe("calculateSurgeMultiplier", () => {
+        it("should not surge when demand is below the threshold", () => {
+            expect(calculateSurgeMultiplier(2, 0)).toBe(1.0);
+        });
+
+        it("should not surge when supply covers demand", () => {
+            expect(calculateSurgeMultiplier(4, 5)).toBe(1.0);
+            expect(calculateSurgeMultiplier(4, 4)).toBe(1.0);
+        });
+
+        it("should grow with the demand/supply ratio", () => {
+            // ratio 1.5 -> 1 + 0.5 * 0.5
+            expect(calculateSurgeMultiplier(6, 4)).toBe(1.2);
+            // ratio 2 -> 1 + 1 * 0.5
+            expect(calculateSurgeMultiplier(6, 3)).toBe(1.5);
+        });
+
+        it("should be capped", () => {
+            expect(calculateSurgeMultiplier(20, 1)).toBe(2.0);
+            expect(calculateSurgeMultiplier(10, 0)).toBe(2.0);
+        });
+    });
+
+    describe("getSurgeMultiplier", () => {
+        it("should return 1.0 without pickup coordinates", async () => {
+            expect(await getSurgeMultiplier()).toBe(1.0);
+            expect(db.ride.findMany).not.toHaveBeenCalled();
+        });
+
+        it("should use the pending rides and drivers of the pickup area", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue(pendingAt(algiers, 6));
+            (getAvailableDriverLocations as jest.Mock).mockReturnValue(driversAt(algiersNearby, 3));
+
+            expect(await getSurgeMultiplier(algiersNearby.lat, algiersNearby.lng)).toBe(1.5);
+            expect(db.ride.findMany).toHaveBeenCalledWith({
+                where: { status: RideStatus.PENDING },
+                select: { originLat: true, originLng: true },
+            });
+        });
+
+        it("should ignore demand in other areas", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue(pendingAt(algiers, 10));
+
+            expect(await getSurgeMultiplier(oran.lat, oran.lng)).toBe(1.0);
+        });
+    });
+
+    describe("getSurgeMap", () => {
+        it("should list each area with its counts, highest surge first", async () => {
+            (db.ride.findMany as jest.Mock).mockResolvedValue([
+                ...pendingAt(oran, 1),
+                ...pendingAt(algiers, 8),
+            ]);
+            (getAvailableDriverLocations as jest.Mock).mockReturnValue(
+                new Map([...driversAt(algiers, 2), ...driversAt(oran, 3)])
+            );
+
+            const surgeMap = await getSurgeMap();
+
+            expect(surgeMap.areas).toHaveLength(2);
+            expect(surgeMap.areas[0]).toMatchObject({
+                pendingRides: 8,
+                availableDrivers: 2,
+                demandSupplyRatio: 4,
+                multiplier: 2.0,
+            });
+            expect(surgeMap.areas[1]).toMatchObject({
+                pendingRides: 1,
+                availableDrivers: 3,
+                multiplier: 1.0,
+            });
+            expect(surgeMap.areas[0]!.center.lat).toBeCloseTo(algiers.lat, 1);
+        });
+
+        it("should return no areas when there is no activity", async () => {
+            const surgeMap = await getSurgeMap();
+
+            expect(surgeMap.areas).toEqual([]);
+            expect(surgeMap.maxMultiplier).toBe(2.0);
+        });
+    });
+});
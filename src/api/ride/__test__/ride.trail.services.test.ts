@@ -0,0 +1,283 @@
+import { RideOfferStatus, RideStatus, RideType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { findTariffZoneById } from "../../tariff/tariff.zone.services";
+import { reverseGeocodeRegion } from "../../../utils/geocoding";
+import { getRideDiscount } from "../../promo/promo.services";
+import {
+    TRAIL_CONFIG,
+    measureRideTrip,
+    measureTrailDistance,
+    repriceFromActualTrip,
+    toTrackGeoJson,
+    toTrackGpx,
+} from "../ride.trail.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        ride: {
+            findUnique: jest.fn(),
+        },
+        rideLocationPoint: {
+            findMany: jest.fn(),
+        },
+        rideOffer: {
+            count: jest.fn(),
+        },
+        rideStop: {
+            findMany: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../tariff/tariff.services", () => ({
+    findTariffById: jest.fn(),
+}));
+
+jest.mock("../../tariff/tariff.zone.services", () => ({
+    findTariffZoneById: jest.fn(),
+}));
+
+jest.mock("../../../utils/geocoding", () => ({
+    reverseGeocodeRegion: jest.fn(),
+}));
+
+jest.mock("../../promo/promo.services", () => ({
+    getRideDiscount: jest.fn(),
+}));
+
+describe("Ride Trail Services", () => {
+    const startedAt = new Date("2026-10-19T10:00:00.000Z");
+    const minutesAfterStart = (minutes: number) => new Date(startedAt.getTime() + minutes * 60 * 1000);
+
+    // One fix a minute, ~1.11km apart, heading north
+    const trail = (count: number) => Array.from({ length: count }, (_, i) => ({
+        lat: 36.75 + i * 0.01,
+        lng: 3.05,
+        accuracy: 10 as number | null,
+        recordedAt: minutesAfterStart(i),
+    }));
+
+    // Booked at 5km / 10min: 100 + 5 * 50 + 10 * 10 = 450 DA with the default rates
+    const completedRide = {
+        id: "ride-123",
+        type: RideType.REGULAR,
+        status: RideStatus.ONGOING,
+        originLat: 36.75,
+        originLng: 3.05,
+        destLat: 36.77,
+        destLng: 3.05,
+        distanceKm: 5,
+        durationMin: 10,
+        price: 450,
+        tariffId: null,
+        zoneId: null,
+        crossZoneSurcharge: 0,
+        surgeMultiplier: 1.0,
+        timeRuleIds: [],
+        timeRules: [],
+        promoCodeId: null as string | null,
+        discountAmount: 0,
+        startedAt,
+    } as any;
+
+    const originalConfig = { ...TRAIL_CONFIG };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        TRAIL_CONFIG.REPRICE_ON_ACTUAL = true;
+        (db.rideOffer.count as jest.Mock).mockResolvedValue(0);
+        (db.rideStop.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    afterAll(() => {
+        TRAIL_CONFIG.REPRICE_ON_ACTUAL = originalConfig.REPRICE_ON_ACTUAL;
+    });
+
+    describe("measureTrailDistance", () => {
+        it("should add up the segments of the trail", () => {
+            expect(measureTrailDistance(trail(6))).toBeCloseTo(5.56, 1);
+        });
+
+        it("should skip imprecise fixes and jumps no car could make", () => {
+            const points = trail(6);
+            points[2] = { ...points[2]!, accuracy: 500, lat: 37.5 };
+            points[4] = { ...points[4]!, lat: 38.0 };
+
+            expect(measureTrailDistance(points)).toBeCloseTo(measureTrailDistance(trail(6)), 1);
+        });
+    });
+
+    describe("measureRideTrip", () => {
+        it("should measure the distance driven and the time since boarding", async () => {
+            (db.rideLocationPoint.findMany as jest.Mock).mockResolvedValueOnce(trail(6));
+
+            const actual = await measureRideTrip(completedRide, minutesAfterStart(12));
+
+            expect(db.rideLocationPoint.findMany).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", rideStatus: RideStatus.ONGOING },
+                orderBy: { recordedAt: "asc" },
+            });
+            expect(actual).toEqual({ actualDistanceKm: 5.56, actualDurationMin: 12 });
+        });
+
+        it("should not give a distance for a trail that is too short", async () => {
+            (db.rideLocationPoint.findMany as jest.Mock).mockResolvedValueOnce(trail(TRAIL_CONFIG.MIN_POINTS - 1));
+
+            const actual = await measureRideTrip({ id: "ride-123", startedAt: null }, minutesAfterStart(12));
+
+            // Timed from the first fix when boarding was not recorded
+            expect(actual).toEqual({ actualDistanceKm: null, actualDurationMin: 12 });
+        });
+    });
+
+    describe("repriceFromActualTrip", () => {
+        it("should keep the booked price when repricing is disabled", async () => {
+            TRAIL_CONFIG.REPRICE_ON_ACTUAL = false;
+
+            expect(await repriceFromActualTrip(completedRide, { actualDistanceKm: 9, actualDurationMin: 20 })).toBeNull();
+            expect(db.rideOffer.count).not.toHaveBeenCalled();
+        });
+
+        it("should keep the booked price within the tolerances", async () => {
+            expect(await repriceFromActualTrip(completedRide, { actualDistanceKm: 5.5, actualDurationMin: 12 })).toBeNull();
+            expect(findTariffZoneById).not.toHaveBeenCalled();
+        });
+
+        it("should reprice a longer trip with the terms of the booking", async () => {
+            // 100 + 6 * 50 + 12 * 10
+            expect(await repriceFromActualTrip(completedRide, { actualDistanceKm: 6, actualDurationMin: 12 }))
+                .toEqual({ price: 520, bookedPrice: 450 });
+        });
+
+        it("should reprice with the zone, surcharge and rules stored at booking", async () => {
+            // The zone's surcharge went up since the booking
+            (findTariffZoneById as jest.Mock).mockResolvedValueOnce({
+                id: "zone-alg",
+                name: "Alger Centre",
+                polygon: null,
+                wilayaCodes: ["16"],
+                communes: [],
+                priority: 0,
+                baseFare: 200,
+                perKmRate: 60,
+                perMinuteRate: 12,
+                minimumFare: 300,
+                crossZoneSurcharge: 500,
+                isActive: true,
+            });
+
+            const fare = await repriceFromActualTrip(
+                {
+                    ...completedRide,
+                    price: 1000,
+                    zoneId: "zone-alg",
+                    crossZoneSurcharge: 100,
+                    timeRuleIds: ["rule-night"],
+                    timeRules: [{ id: "rule-night", name: "Night", multiplier: 1.5, surcharge: 0 }],
+                },
+                { actualDistanceKm: 6, actualDurationMin: 12 }
+            );
+
+            // subtotal 200 + 6 * 60 + 12 * 12 + 100 = 804, night rule + 402
+            expect(findTariffZoneById).toHaveBeenCalledWith("zone-alg");
+            expect(fare).toEqual({ price: 1206, bookedPrice: 1000 });
+            expect(reverseGeocodeRegion).not.toHaveBeenCalled();
+        });
+
+        it("should cap the increase but not the decrease", async () => {
+            expect(await repriceFromActualTrip(completedRide, { actualDistanceKm: 8, actualDurationMin: 16 }))
+                .toEqual({ price: Math.round(450 * (1 + TRAIL_CONFIG.MAX_INCREASE)), bookedPrice: 450 });
+
+            // 100 + 3 * 50 + 6 * 10
+            expect(await repriceFromActualTrip(completedRide, { actualDistanceKm: 3, actualDurationMin: 6 }))
+                .toEqual({ price: 310, bookedPrice: 450 });
+        });
+
+        it("should apply the promo code to the new price", async () => {
+            (getRideDiscount as jest.Mock).mockResolvedValueOnce(52);
+
+            const fare = await repriceFromActualTrip(
+                { ...completedRide, promoCodeId: "promo-1" },
+                { actualDistanceKm: 6, actualDurationMin: 12 }
+            );
+
+            expect(getRideDiscount).toHaveBeenCalledWith("promo-1", 520);
+            expect(fare).toEqual({ price: 520, bookedPrice: 450, discountAmount: 52 });
+        });
+
+        it("should keep a price agreed on an offer", async () => {
+            (db.rideOffer.count as jest.Mock).mockResolvedValueOnce(1);
+
+            expect(await repriceFromActualTrip(completedRide, { actualDistanceKm: 9, actualDurationMin: 20 })).toBeNull();
+            expect(db.rideOffer.count).toHaveBeenCalledWith({
+                where: { rideId: "ride-123", status: RideOfferStatus.ACCEPTED },
+            });
+        });
+
+        it("should keep the booked price without a usable trail", async () => {
+            expect(await repriceFromActualTrip(completedRide, { actualDistanceKm: null, actualDurationMin: 20 })).toBeNull();
+        });
+    });
+
+    describe("Track export", () => {
+        const track = {
+            ride: {
+                id: "ride-123",
+                userId: "passenger-123",
+                driverId: "driver-123",
+                status: RideStatus.COMPLETED,
+                startedAt,
+                completedAt: minutesAfterStart(10),
+                actualDistanceKm: 1.11,
+                actualDurationMin: 10,
+            },
+            points: [
+                { rideStatus: RideStatus.ACCEPTED, speed: 36, heading: 90, accuracy: 8 },
+                { rideStatus: RideStatus.ONGOING, speed: null, heading: null, accuracy: null },
+                { rideStatus: RideStatus.ONGOING, speed: 54, heading: 0, accuracy: 5 },
+            ].map((point, i) => ({
+                id: `point-${i}`,
+                rideId: "ride-123",
+                lat: 36.75 + i * 0.01,
+                lng: 3.05,
+                recordedAt: minutesAfterStart(i),
+                ...point,
+            })),
+        };
+
+        it("should export a LineString with the time, speed and heading of each point", () => {
+            const feature = toTrackGeoJson(track);
+
+            expect(feature.geometry).toEqual({
+                type: "LineString",
+                coordinates: [[3.05, 36.75], [3.05, 36.76], [3.05, 36.77]],
+            });
+            expect(feature.properties).toEqual(expect.objectContaining({
+                rideId: "ride-123",
+                actualDistanceKm: 1.11,
+                coordTimes: [startedAt.toISOString(), minutesAfterStart(1).toISOString(), minutesAfterStart(2).toISOString()],
+                speeds: [36, null, 54],
+                headings: [90, null, 0],
+                rideStatuses: [RideStatus.ACCEPTED, RideStatus.ONGOING, RideStatus.ONGOING],
+            }));
+        });
+
+        it("should not make a LineString out of a single point", () => {
+            expect(toTrackGeoJson({ ...track, points: track.points.slice(0, 1) }).geometry).toBeNull();
+        });
+
+        it("should export a GPX track per ride status", () => {
+            const gpx = toTrackGpx(track);
+
+            expect(gpx).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<gpx version="1.1"/);
+            expect(gpx.match(/<trk>/g)).toHaveLength(2);
+            expect(gpx).toContain("<type>ACCEPTED</type>");
+            expect(gpx).toContain("<type>ONGOING</type>");
+            expect(gpx).toContain(`<trkpt lat="36.75" lon="3.05">\n        <time>${startedAt.toISOString()}</time>`);
+            // km/h to m/s
+            expect(gpx).toContain("<gpxtpx:speed>10</gpxtpx:speed><gpxtpx:course>90</gpxtpx:course>");
+            expect(gpx.match(/<extensions>/g)).toHaveLength(2);
+        });
+    });
+});
@@ -0,0 +1,431 @@
+import { CancellationReason, Prisma, Ride, RideActor, RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from "../../utils/errors";
+import { calculateDistance } from "../../utils/distance";
+import { getLocalTime } from "../../utils/localTime";
+import { getAvailableDriverLocations } from "../../socket/handlers/driver-location.handler";
+import { debitAvailableBalance } from "../wallet/wallet.services";
+import { processPassengerCancellationFee } from "./ride.payment.services";
+import { getDriverPosition } from "./ride.state.services";
+
+/**
+ * Passenger cancellation policy
+ * Cancelling soon after a driver accepted, before they drove toward the
+ * pickup, is free. Afterwards the passenger pays a base fee plus the
+ * kilometres the driver drove toward them, up to a cap.
+ */
+export const CANCELLATION_POLICY = {
+    FREE_WINDOW_MINUTES: Number(process.env.RIDE_CANCELLATION_FREE_MINUTES) || 2,
+    FREE_DISTANCE_KM: Number(process.env.RIDE_CANCELLATION_FREE_DISTANCE_KM) || 0.5,
+    BASE_FEE: Number(process.env.RIDE_CANCELLATION_BASE_FEE) || 100, // DA
+    FEE_PER_KM: Number(process.env.RIDE_CANCELLATION_FEE_PER_KM) || 30, // DA per km driven toward the pickup
+    MAX_FEE: Number(process.env.RIDE_CANCELLATION_MAX_FEE) || 500, // DA, never above the ride price either
+    DRIVER_SHARE: 0.8, // Of the fee, credited to the driver
+};
+
+/**
+ * Reasons each actor can give for cancelling (OTHER needs a note)
+ */
+export const CANCELLATION_REASONS: Record<RideActor, CancellationReason[]> = {
+    [RideActor.PASSENGER]: [
+        CancellationReason.DRIVER_TOO_FAR,
+        CancellationReason.DRIVER_NOT_MOVING,
+        CancellationReason.DRIVER_ASKED_TO_CANCEL,
+        CancellationReason.CHANGED_PLANS,
+        CancellationReason.BOOKED_BY_MISTAKE,
+        CancellationReason.FOUND_OTHER_RIDE,
+        CancellationReason.OTHER,
+    ],
+    [RideActor.DRIVER]: [
+        CancellationReason.PICKUP_TOO_FAR,
+        CancellationReason.PASSENGER_UNREACHABLE,
+        CancellationReason.PASSENGER_ASKED_TO_CANCEL,
+        CancellationReason.VEHICLE_PROBLEM,
+        CancellationReason.UNSAFE_PICKUP,
+        CancellationReason.OTHER,
+    ],
+    [RideActor.SYSTEM]: [CancellationReason.NO_DRIVER_FOUND],
+    [RideActor.ADMIN]: [
+        CancellationReason.FRAUD_SUSPECTED,
+        CancellationReason.SUPPORT_REQUEST,
+        CancellationReason.OTHER,
+    ],
+};
+
+const MAX_NOTE_LENGTH = 500;
+
+export interface CancellationInput {
+    reason: CancellationReason;
+    note?: string;
+}
+
+/**
+ * Check a cancellation reason against the actor's catalogue
+ */
+export function validateCancellationReason(actor: RideActor, input: { reason?: unknown; note?: unknown }): CancellationInput {
+    const reasons = CANCELLATION_REASONS[actor];
+
+    if (typeof input.reason !== "string" || !reasons.includes(input.reason as CancellationReason)) {
+        throw new BadRequestError(`reason must be one of: ${reasons.join(", ")}`);
+    }
+
+    const reason = input.reason as CancellationReason;
+
+    if (input.note !== undefined && (typeof input.note !== "string" || input.note.length > MAX_NOTE_LENGTH)) {
+        throw new BadRequestError(`note must be a text of at most ${MAX_NOTE_LENGTH} characters`);
+    }
+
+    const note = typeof input.note === "string" ? input.note.trim() : "";
+
+    if (reason === CancellationReason.OTHER && !note) {
+        throw new BadRequestError("A note is required when the reason is OTHER");
+    }
+
+    return { reason, ...(note && { note }) };
+}
+
+/**
+ * Record a cancellation, including a driver giving a ride back to the search
+ */
+export async function recordCancellation(
+    ride: { id: string; status: RideStatus; driverId: string | null },
+    actor: RideActor,
+    cancellation: CancellationInput,
+    userId: string | null,
+    client: Prisma.TransactionClient = db
+) {
+    return client.rideCancellation.create({
+        data: {
+            rideId: ride.id,
+            actor,
+            reason: cancellation.reason,
+            note: cancellation.note ?? null,
+            userId,
+            driverId: ride.driverId,
+            rideStatus: ride.status,
+        },
+    });
+}
+
+/**
+ * Statuses in which a driver is on the way or with the passenger
+ */
+const FEE_STATUSES: RideStatus[] = [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING];
+
+type CancellableRide = Pick<
+    Ride,
+    "id" | "status" | "driverId" | "price" | "originLat" | "originLng" | "acceptedAt" | "acceptLat" | "acceptLng"
+>;
+
+/**
+ * Ride fields to set when a driver takes a ride: the acceptance time and
+ * where the driver was, to measure how far they drive toward the pickup
+ */
+export function getAcceptanceData(driverId: string, now: Date = new Date()) {
+    const position = getAvailableDriverLocations().get(driverId);
+
+    return {
+        acceptedAt: now,
+        acceptLat: position?.latitude ?? null,
+        acceptLng: position?.longitude ?? null,
+    };
+}
+
+/**
+ * How far the driver of a ride drove toward the pickup point since accepting it
+ * (0 when either position is unknown)
+ */
+export function getDriverDistanceTravelledKm(ride: CancellableRide) {
+    if (!ride.driverId || ride.acceptLat === null || ride.acceptLng === null) {
+        return 0;
+    }
+
+    const approachKm = calculateDistance(ride.acceptLat, ride.acceptLng, ride.originLat, ride.originLng);
+
+    // At the pickup point, or already on the way with the passenger
+    if (ride.status !== RideStatus.ACCEPTED) {
+        return approachKm;
+    }
+
+    const position = getDriverPosition(ride.driverId, ride.id);
+    if (!position) {
+        return 0;
+    }
+
+    const remainingKm = calculateDistance(position.latitude, position.longitude, ride.originLat, ride.originLng);
+    return Math.max(approachKm - remainingKm, 0);
+}
+
+/**
+ * Fee a passenger would pay to cancel a ride now, under the cancellation policy
+ */
+export function calculatePassengerCancellationFee(ride: CancellableRide, now: Date = new Date()) {
+    // Rides accepted before the policy existed are cancelled free of charge
+    if (!FEE_STATUSES.includes(ride.status) || !ride.driverId || !ride.acceptedAt) {
+        return { amount: 0, driverCompensation: 0, minutesSinceAccept: 0, driverDistanceKm: 0 };
+    }
+
+    const minutesSinceAccept = (now.getTime() - ride.acceptedAt.getTime()) / 60000;
+    const driverDistanceKm = getDriverDistanceTravelledKm(ride);
+
+    const isFree =
+        minutesSinceAccept <= CANCELLATION_POLICY.FREE_WINDOW_MINUTES &&
+        driverDistanceKm < CANCELLATION_POLICY.FREE_DISTANCE_KM;
+
+    const amount = isFree
+        ? 0
+        : Math.min(
+            Math.round(CANCELLATION_POLICY.BASE_FEE + CANCELLATION_POLICY.FEE_PER_KM * driverDistanceKm),
+            CANCELLATION_POLICY.MAX_FEE,
+            ride.price
+        );
+
+    return {
+        amount,
+        driverCompensation: Math.floor(amount * CANCELLATION_POLICY.DRIVER_SHARE),
+        minutesSinceAccept: Math.round(minutesSinceAccept * 10) / 10,
+        driverDistanceKm: Math.round(driverDistanceKm * 100) / 100,
+    };
+}
+
+/**
+ * Charge a passenger who cancels a ride late and compensate the driver,
+ * within the transaction that cancels the ride
+ * @returns The fee record, or null when the cancellation is free
+ */
+export async function chargePassengerCancellationFee(
+    tx: Prisma.TransactionClient,
+    ride: CancellableRide & { userId: string }
+) {
+    const fee = calculatePassengerCancellationFee(ride);
+
+    if (fee.amount === 0 || !ride.driverId) {
+        return null;
+    }
+
+    const { chargedAmount, debtAmount } = await processPassengerCancellationFee(
+        tx,
+        ride.id,
+        ride.userId,
+        ride.driverId,
+        fee.amount,
+        fee.driverCompensation
+    );
+
+    return tx.cancellationFee.create({
+        data: {
+            rideId: ride.id,
+            passengerId: ride.userId,
+            driverId: ride.driverId,
+            amount: fee.amount,
+            chargedAmount,
+            debtAmount,
+            driverCompensation: fee.driverCompensation,
+            minutesSinceAccept: fee.minutesSinceAccept,
+            driverDistanceKm: fee.driverDistanceKm,
+        },
+    });
+}
+
+/**
+ * Preview the fee of cancelling a ride now (passenger only)
+ */
+export async function getCancellationFeePreview(rideId: string, userId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId) {
+        throw new UnauthorizedError("Only the passenger can see the cancellation fee");
+    }
+
+    const { amount, minutesSinceAccept, driverDistanceKm } = calculatePassengerCancellationFee(ride);
+
+    return {
+        rideId,
+        fee: amount,
+        minutesSinceAccept,
+        driverDistanceKm,
+        freeWindowMinutes: CANCELLATION_POLICY.FREE_WINDOW_MINUTES,
+    };
+}
+
+/**
+ * Collect the unpaid cancellation fees of a passenger from their wallet, oldest first
+ * A debt collected by another request in the meantime rolls its debit back.
+ * @returns The debt left
+ */
+export async function collectCancellationDebts(passengerId: string) {
+    const debts = await db.cancellationFee.findMany({
+        where: { passengerId, debtSettledAt: null, debtAmount: { gt: 0 } },
+        orderBy: { createdAt: "asc" },
+    });
+
+    let remaining = 0;
+
+    for (const debt of debts) {
+        const collected = await db.$transaction(async (tx) => {
+            // Passengers who pay cash may not have a wallet: nothing is collected then
+            const debited = await debitAvailableBalance(tx, passengerId, debt.debtAmount, `Cancellation fee debt: ${debt.rideId}`);
+
+            if (debited === 0) {
+                return 0;
+            }
+
+            const debtAmount = debt.debtAmount - debited;
+            const { count } = await tx.cancellationFee.updateMany({
+                where: { id: debt.id, debtAmount: debt.debtAmount, debtSettledAt: null },
+                data: {
+                    chargedAmount: { increment: debited },
+                    debtAmount,
+                    ...(debtAmount === 0 && { debtSettledAt: new Date() }),
+                },
+            });
+
+            if (count === 0) {
+                throw new ConflictError("Cancellation fee debt is already being collected");
+            }
+
+            return debited;
+        });
+
+        remaining += debt.debtAmount - collected;
+    }
+
+    return remaining;
+}
+
+/**
+ * Count items per key
+ */
+function countBy<T, K>(items: T[], key: (item: T) => K) {
+    const counts = new Map<K, number>();
+    for (const item of items) {
+        counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+    }
+    return counts;
+}
+
+const toRate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 1000 : 0);
+
+const GIVE_BACK_STATUSES: RideStatus[] = [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.SCHEDULED];
+
+/**
+ * Whether a cancellation was a driver giving back a ride they held (accepted,
+ * waiting at the pickup or reserved): the ride went on without them
+ */
+function isGiveBack(cancellation: { actor: RideActor; reason: CancellationReason; rideStatus: RideStatus }) {
+    return (
+        cancellation.actor === RideActor.DRIVER &&
+        cancellation.reason !== CancellationReason.PASSENGER_NO_SHOW &&
+        GIVE_BACK_STATUSES.includes(cancellation.rideStatus)
+    );
+}
+
+/**
+ * Cancellation report over a period (admin only)
+ * Rates are the rides booked in the period that were cancelled, by reason,
+ * by pickup wilaya and by local hour of booking; a ride is cancelled once, so
+ * they never go above 1. Drivers giving a ride back are counted apart since
+ * the ride goes on. For drivers, the rate is their cancellations, give-backs
+ * included, over the rides they accepted.
+ */
+export async function getCancellationReport(period: { from: Date; to: Date }) {
+    const inPeriod = { gte: period.from, lt: period.to };
+
+    const [rides, records, heldRides] = await Promise.all([
+        db.ride.findMany({
+            where: { createdAt: inPeriod },
+            select: { createdAt: true, originWilayaCode: true },
+        }),
+        db.rideCancellation.findMany({
+            where: { ride: { createdAt: inPeriod } },
+            select: {
+                actor: true,
+                reason: true,
+                userId: true,
+                rideStatus: true,
+                createdAt: true,
+                ride: { select: { createdAt: true, originWilayaCode: true } },
+            },
+        }),
+        // Rides still with the driver who accepted them in the period
+        db.ride.groupBy({
+            by: ["driverId"],
+            where: { acceptedAt: inPeriod, driverId: { not: null } },
+            _count: { _all: true },
+        }),
+    ]);
+
+    const totalRides = rides.length;
+    const giveBacks = records.filter(isGiveBack);
+    const cancellations = records.filter((c) => !isGiveBack(c));
+
+    const countByReason = (items: typeof records) =>
+        [...countBy(items, (c) => `${c.actor}:${c.reason}`).entries()]
+            .map(([key, count]) => {
+                const [actor, reason] = key.split(":") as [RideActor, CancellationReason];
+                return { actor, reason, count, rate: toRate(count, totalRides) };
+            })
+            .sort((a, b) => b.count - a.count);
+
+    const ridesByWilaya = countBy(rides, (ride) => ride.originWilayaCode);
+    const cancellationsByWilaya = countBy(cancellations, (c) => c.ride.originWilayaCode);
+    const byWilaya = [...new Set([...ridesByWilaya.keys(), ...cancellationsByWilaya.keys()])]
+        .map((wilayaCode) => {
+            const wilayaRides = ridesByWilaya.get(wilayaCode) ?? 0;
+            const count = cancellationsByWilaya.get(wilayaCode) ?? 0;
+            return { wilayaCode, rides: wilayaRides, cancellations: count, rate: toRate(count, wilayaRides) };
+        })
+        .sort((a, b) => b.cancellations - a.cancellations);
+
+    const ridesByHour = countBy(rides, (ride) => getLocalTime(ride.createdAt).hour);
+    const cancellationsByHour = countBy(cancellations, (c) => getLocalTime(c.ride.createdAt).hour);
+    const byHour = Array.from({ length: 24 }, (_, hour) => {
+        const hourRides = ridesByHour.get(hour) ?? 0;
+        const count = cancellationsByHour.get(hour) ?? 0;
+        return { hour, rides: hourRides, cancellations: count, rate: toRate(count, hourRides) };
+    });
+
+    // A driver who gives a ride back no longer holds it
+    const driverCancellations = records.filter((c) => c.actor === RideActor.DRIVER && c.userId);
+    const cancellationsByDriver = countBy(driverCancellations, (c) => c.userId!);
+    const releasesByDriver = countBy(giveBacks.filter((c) => c.userId), (c) => c.userId!);
+    const heldByDriver = new Map(heldRides.map((group) => [group.driverId, group._count._all]));
+
+    const drivers = await db.user.findMany({
+        where: { id: { in: [...cancellationsByDriver.keys()] } },
+        select: { id: true, firstName: true, lastName: true, phoneNumber: true },
+    });
+    const driversById = new Map(drivers.map((driver) => [driver.id, driver]));
+
+    const byDriver = [...cancellationsByDriver.entries()]
+        .map(([driverId, count]) => {
+            const acceptedRides = (heldByDriver.get(driverId) ?? 0) + (releasesByDriver.get(driverId) ?? 0);
+            return {
+                driver: driversById.get(driverId) ?? { id: driverId },
+                acceptedRides,
+                cancellations: count,
+                rate: toRate(count, acceptedRides),
+            };
+        })
+        .sort((a, b) => b.rate - a.rate || b.cancellations - a.cancellations);
+
+    return {
+        from: period.from,
+        to: period.to,
+        totalRides,
+        totalCancellations: cancellations.length,
+        cancellationRate: toRate(cancellations.length, totalRides),
+        totalGiveBacks: giveBacks.length,
+        byReason: countByReason(cancellations),
+        giveBacksByReason: countByReason(giveBacks),
+        byDriver,
+        byWilaya,
+        byHour,
+    };
+}
@@ -0,0 +1,259 @@
+import crypto from "crypto";
+import { DeliveryPhotoStage, PackageSize, Prisma, RideStatus, RideType } from "@prisma/client";
+import { db } from "../../utils/db";
+import { hashToken } from "../../utils/hashToken";
+import { sendSms } from "../../utils/sms";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "../../utils/errors";
+
+/**
+ * Proof of delivery configuration
+ */
+export const DELIVERY_CONFIG = {
+    CODE_LENGTH: 6,
+    CODE_TTL_HOURS: Number(process.env.DELIVERY_CODE_TTL_HOURS) || 24,
+    MAX_ATTEMPTS: 5, // Wrong codes before the sender has to send a new one
+};
+
+/**
+ * Recipient and package of a DELIVERY ride
+ */
+export interface DeliveryDetails {
+    recipientName: string;
+    recipientPhone: string;
+    packageDescription?: string;
+    packageSize?: PackageSize;
+    isFragile?: boolean;
+}
+
+/**
+ * Photo uploaded by the driver as proof of pickup or drop-off
+ */
+export interface DeliveryPhotoInput {
+    stage: DeliveryPhotoStage;
+    url: string;
+    lat: number;
+    lng: number;
+}
+
+const PHONE_PATTERN = /^\+?[0-9]{9,15}$/;
+
+const CODE_LOCKED_ERROR = "Too many wrong codes. Ask the sender to send a new code";
+
+/**
+ * Validate the delivery details of a ride being booked
+ *
+ * @throws BadRequestError if the recipient is missing or a field is invalid
+ */
+export function validateDeliveryDetails(data: Partial<DeliveryDetails>): DeliveryDetails {
+    const recipientName = typeof data.recipientName === "string" ? data.recipientName.trim() : "";
+    const recipientPhone = typeof data.recipientPhone === "string" ? data.recipientPhone.replace(/[\s.-]/g, "") : "";
+
+    if (!recipientName || !recipientPhone) {
+        throw new BadRequestError("recipientName and recipientPhone are required for DELIVERY rides");
+    }
+
+    if (!PHONE_PATTERN.test(recipientPhone)) {
+        throw new BadRequestError("recipientPhone must be a valid phone number");
+    }
+
+    if (data.packageSize !== undefined && !Object.values(PackageSize).includes(data.packageSize)) {
+        throw new BadRequestError(`packageSize must be one of ${Object.values(PackageSize).join(", ")}`);
+    }
+
+    if (data.isFragile !== undefined && typeof data.isFragile !== "boolean") {
+        throw new BadRequestError("isFragile must be true or false");
+    }
+
+    return {
+        recipientName,
+        recipientPhone,
+        ...(data.packageDescription !== undefined && { packageDescription: String(data.packageDescription).trim() }),
+        ...(data.packageSize !== undefined && { packageSize: data.packageSize }),
+        ...(data.isFragile !== undefined && { isFragile: data.isFragile }),
+    };
+}
+
+/**
+ * Generate a new one-time code for a delivery
+ * Any previous code of the ride stops working
+ * @returns The plain code, to text to the recipient once stored
+ */
+export async function createDeliveryCode(
+    ride: { id: string; recipientPhone: string | null },
+    client: Prisma.TransactionClient = db
+) {
+    if (!ride.recipientPhone) {
+        throw new BadRequestError("This delivery has no recipient phone number");
+    }
+
+    const code = crypto.randomInt(0, 10 ** DELIVERY_CONFIG.CODE_LENGTH)
+        .toString()
+        .padStart(DELIVERY_CONFIG.CODE_LENGTH, "0");
+    const expiresAt = new Date(Date.now() + DELIVERY_CONFIG.CODE_TTL_HOURS * 60 * 60 * 1000);
+
+    await client.deliveryCode.upsert({
+        where: { rideId: ride.id },
+        create: { rideId: ride.id, codeHash: hashToken(code), expiresAt },
+        update: { codeHash: hashToken(code), expiresAt, attempts: 0, verifiedAt: null },
+    });
+
+    return { code, expiresAt };
+}
+
+/**
+ * Text the recipient their delivery code
+ */
+export async function sendDeliveryCode(recipientPhone: string, code: string) {
+    await sendSms(
+        recipientPhone,
+        `Your package is on its way. Give the code ${code} to the driver when you receive it.`
+    );
+}
+
+/**
+ * Generate a new one-time code for a delivery and text it to the recipient
+ * Any previous code of the ride stops working
+ */
+export async function issueDeliveryCode(ride: { id: string; recipientPhone: string | null }) {
+    const { code, expiresAt } = await createDeliveryCode(ride);
+
+    await sendDeliveryCode(ride.recipientPhone!, code);
+
+    return { expiresAt };
+}
+
+/**
+ * Check the code the driver entered at handover
+ * Wrong codes are counted; after too many the sender must send a new code
+ *
+ * @throws BadRequestError if the code is missing, wrong, expired or locked
+ */
+export async function verifyDeliveryCode(rideId: string, code?: string) {
+    const deliveryCode = await db.deliveryCode.findUnique({
+        where: { rideId },
+    });
+
+    if (!deliveryCode) {
+        throw new BadRequestError("No delivery code was sent for this ride");
+    }
+
+    if (deliveryCode.verifiedAt) {
+        return deliveryCode;
+    }
+
+    if (!code) {
+        throw new BadRequestError("deliveryCode is required to complete a delivery");
+    }
+
+    if (deliveryCode.attempts >= DELIVERY_CONFIG.MAX_ATTEMPTS) {
+        throw new BadRequestError(CODE_LOCKED_ERROR);
+    }
+
+    if (deliveryCode.expiresAt < new Date()) {
+        throw new BadRequestError("Delivery code has expired. Ask the sender to send a new code");
+    }
+
+    if (hashToken(String(code).trim()) !== deliveryCode.codeHash) {
+        // Only counts while tries are left, so parallel guesses cannot go past the limit
+        const { count } = await db.deliveryCode.updateMany({
+            where: { rideId, attempts: { lt: DELIVERY_CONFIG.MAX_ATTEMPTS } },
+            data: { attempts: { increment: 1 } },
+        });
+
+        if (count === 0) {
+            throw new BadRequestError(CODE_LOCKED_ERROR);
+        }
+
+        const attemptsLeft = Math.max(DELIVERY_CONFIG.MAX_ATTEMPTS - deliveryCode.attempts - 1, 0);
+        throw new BadRequestError(`Invalid delivery code (${attemptsLeft} attempts left)`);
+    }
+
+    return db.deliveryCode.update({
+        where: { rideId },
+        data: { verifiedAt: new Date() },
+    });
+}
+
+/**
+ * Send the recipient a new code (sender only, while the package is on its way)
+ */
+export async function resendDeliveryCode(rideId: string, userId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId) {
+        throw new UnauthorizedError("Only the sender can send a new delivery code");
+    }
+
+    if (ride.type !== RideType.DELIVERY) {
+        throw new BadRequestError("Only deliveries have a delivery code");
+    }
+
+    if (ride.status !== RideStatus.ONGOING) {
+        throw new BadRequestError("A delivery code is sent once the package is picked up");
+    }
+
+    return issueDeliveryCode(ride);
+}
+
+/**
+ * Ride statuses in which each photo can be taken: the package is photographed
+ * when the driver collects it, and again when it is handed over
+ */
+const PHOTO_STAGE_STATUSES: Record<DeliveryPhotoStage, RideStatus[]> = {
+    [DeliveryPhotoStage.PICKUP]: [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING],
+    [DeliveryPhotoStage.DROPOFF]: [RideStatus.ONGOING],
+};
+
+/**
+ * Attach a pickup or drop-off photo to a delivery (assigned driver only)
+ * The photo is stamped with the upload time and the driver's position
+ */
+export async function addDeliveryPhoto(rideId: string, driverId: string, photo: DeliveryPhotoInput) {
+    if (!Object.values(DeliveryPhotoStage).includes(photo.stage)) {
+        throw new BadRequestError(`stage must be one of ${Object.values(DeliveryPhotoStage).join(", ")}`);
+    }
+
+    if (
+        !Number.isFinite(photo.lat) || photo.lat < -90 || photo.lat > 90 ||
+        !Number.isFinite(photo.lng) || photo.lng < -180 || photo.lng > 180
+    ) {
+        throw new BadRequestError("lat and lng of the driver are required");
+    }
+
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.driverId !== driverId) {
+        throw new UnauthorizedError("Only the assigned driver can upload delivery photos");
+    }
+
+    if (ride.type !== RideType.DELIVERY) {
+        throw new BadRequestError("Only deliveries have delivery photos");
+    }
+
+    if (!PHOTO_STAGE_STATUSES[photo.stage].includes(ride.status)) {
+        throw new BadRequestError(`Cannot upload a ${photo.stage} photo for a ${ride.status} delivery`);
+    }
+
+    return db.deliveryPhoto.create({
+        data: {
+            rideId,
+            driverId,
+            stage: photo.stage,
+            url: photo.url,
+            lat: photo.lat,
+            lng: photo.lng,
+        },
+    });
+}
@@ -0,0 +1,425 @@
+import { DispatchMode, DispatchOfferStatus, PackageSize, RideStatus, RideType } from "@prisma/client";
+import { db } from "../../utils/db";
+import { getRideEmitter } from "../../socket";
+import { getAvailableDriverLocations } from "../../socket/handlers/driver-location.handler";
+import { calculateDistance, estimateTravelTime } from "../../utils/distance";
+import { BadRequestError } from "../../utils/errors";
+import { findMatchingDriverIds, getDriverMatchProfiles, isRideMatch } from "./ride.matching.services";
+
+/**
+ * Parse the ride types dispatched one driver at a time, e.g. "REGULAR,DELIVERY"
+ */
+function parseRideTypes(value?: string): RideType[] {
+    return (value ?? "")
+        .split(",")
+        .map((type) => type.trim())
+        .filter((type): type is RideType => Object.values(RideType).includes(type as RideType));
+}
+
+/**
+ * Sequential dispatch configuration
+ */
+export const DISPATCH_CONFIG = {
+    // Ride types offered to one ranked driver at a time; the others are broadcast to every nearby driver
+    SEQUENTIAL_TYPES: parseRideTypes(process.env.RIDE_SEQUENTIAL_DISPATCH_TYPES),
+    ACCEPT_WINDOW_SECONDS: Number(process.env.RIDE_DISPATCH_ACCEPT_WINDOW_SECONDS) || 20,
+    MAX_OFFERS: Number(process.env.RIDE_DISPATCH_MAX_OFFERS) || 5, // Then the ride is broadcast
+    BROADCAST_RADIUS_KM: Number(process.env.MAX_RIDE_BROADCAST_DISTANCE_KM) || 10,
+    ACCEPTANCE_WINDOW_DAYS: 30, // Offers counted in a driver's acceptance rate
+
+    // Ranking
+    ETA_WEIGHT: 0.5,
+    RATING_WEIGHT: 0.25,
+    ACCEPTANCE_WEIGHT: 0.25,
+    MAX_ETA_MINUTES: 20, // Drivers this far away get no ETA points
+    DEFAULT_RATING: 4.5, // Drivers without ratings yet
+};
+
+const userSelect = {
+    select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        phoneNumber: true,
+        photo: true,
+    },
+};
+
+export interface DispatchCandidate {
+    driverId: string;
+    distance: number;
+    etaMinutes: number;
+    rating: number | null;
+    acceptanceRate: number | null;
+    score: number;
+}
+
+/**
+ * Timers of the open offers, cleared when the driver answers
+ */
+const offerTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Dispatch mode of a new ride, from its type
+ */
+export function getDispatchMode(type: RideType): DispatchMode {
+    return DISPATCH_CONFIG.SEQUENTIAL_TYPES.includes(type) ? DispatchMode.SEQUENTIAL : DispatchMode.BROADCAST;
+}
+
+/**
+ * Ranking score of a driver for a ride, between 0 and 1
+ * Closer drivers first, then better rated drivers who accept the rides they are offered
+ */
+export function scoreDispatchCandidate(candidate: {
+    etaMinutes: number;
+    rating: number | null;
+    acceptanceRate: number | null;
+}) {
+    const etaScore = Math.max(0, 1 - candidate.etaMinutes / DISPATCH_CONFIG.MAX_ETA_MINUTES);
+    const ratingScore = (candidate.rating ?? DISPATCH_CONFIG.DEFAULT_RATING) / 5;
+    const acceptanceScore = candidate.acceptanceRate ?? 1;
+
+    return (
+        DISPATCH_CONFIG.ETA_WEIGHT * etaScore +
+        DISPATCH_CONFIG.RATING_WEIGHT * ratingScore +
+        DISPATCH_CONFIG.ACCEPTANCE_WEIGHT * acceptanceScore
+    );
+}
+
+/**
+ * Rank the available drivers near a ride's pickup point whose vehicle and preferences
+ * suit the ride, best first
+ */
+export async function rankDispatchCandidates(
+    ride: {
+        type: RideType;
+        price: number;
+        packageSize?: PackageSize | null;
+        originLat: number;
+        originLng: number;
+        searchRadiusKm?: number | null;
+    },
+    excludeDriverIds: string[] = []
+): Promise<DispatchCandidate[]> {
+    const radiusKm = getBroadcastRadiusKm(ride);
+
+    const inRange: Array<{ driverId: string; distance: number; etaMinutes: number }> = [];
+    for (const [driverId, location] of getAvailableDriverLocations().entries()) {
+        if (excludeDriverIds.includes(driverId)) {
+            continue;
+        }
+
+        const distance = calculateDistance(location.latitude, location.longitude, ride.originLat, ride.originLng);
+        if (distance <= radiusKm) {
+            inRange.push({ driverId, distance, etaMinutes: estimateTravelTime(distance) });
+        }
+    }
+
+    if (inRange.length === 0) {
+        return [];
+    }
+
+    const profiles = await getDriverMatchProfiles(inRange.map(({ driverId }) => driverId));
+    const nearby = inRange.filter(({ driverId, distance }) => {
+        const profile = profiles.get(driverId);
+        return profile !== undefined && isRideMatch(profile, ride, distance);
+    });
+
+    if (nearby.length === 0) {
+        return [];
+    }
+
+    const driverIds = nearby.map(({ driverId }) => driverId);
+    const since = new Date(Date.now() - DISPATCH_CONFIG.ACCEPTANCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const [ratings, answeredOffers] = await Promise.all([
+        db.rating.groupBy({
+            by: ["toId"],
+            where: { toId: { in: driverIds } },
+            _avg: { score: true },
+        }),
+        db.dispatchOffer.groupBy({
+            by: ["driverId", "status"],
+            where: {
+                driverId: { in: driverIds },
+                status: { in: [DispatchOfferStatus.ACCEPTED, DispatchOfferStatus.DECLINED, DispatchOfferStatus.EXPIRED] },
+                offeredAt: { gte: since },
+            },
+            _count: { _all: true },
+        }),
+    ]);
+
+    return nearby
+        .map((driver) => {
+            const rating = ratings.find((r) => r.toId === driver.driverId)?._avg.score ?? null;
+
+            const answered = answeredOffers.filter((o) => o.driverId === driver.driverId);
+            const total = answered.reduce((sum, o) => sum + o._count._all, 0);
+            const accepted = answered.find((o) => o.status === DispatchOfferStatus.ACCEPTED)?._count._all ?? 0;
+            const acceptanceRate = total > 0 ? accepted / total : null;
+
+            return {
+                ...driver,
+                rating,
+                acceptanceRate,
+                score: scoreDispatchCandidate({ etaMinutes: driver.etaMinutes, rating, acceptanceRate }),
+            };
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Find drivers for a PENDING ride: broadcast it, or offer it to the best driver
+ */
+export async function dispatchRide(ride: any) {
+    try {
+        if (ride.dispatchMode === DispatchMode.SEQUENTIAL) {
+            await offerRideToNextDriver(ride.id);
+            return;
+        }
+
+        const matchingDriverIds = await findMatchingDriverIds(ride, getBroadcastRadiusKm(ride));
+
+        const emitter = getRideEmitter();
+        emitter.emitRideCreated(ride, matchingDriverIds);
+    } catch (error) {
+        // Socket.IO not initialized yet (e.g., in tests) - silent in test mode
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('Ride dispatch failed:', error);
+        }
+    }
+}
+
+/**
+ * Offer a sequentially dispatched ride to the best driver not offered it yet
+ * Once MAX_OFFERS drivers passed, or nobody is left, the ride is broadcast instead
+ */
+export async function offerRideToNextDriver(rideId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+        include: {
+            user: userSelect,
+            stops: { orderBy: { order: "asc" } },
+            dispatchOffers: { select: { driverId: true, status: true } },
+        },
+    });
+
+    if (!ride || ride.status !== RideStatus.PENDING || ride.dispatchMode !== DispatchMode.SEQUENTIAL) {
+        return null;
+    }
+
+    // A driver is already deciding
+    if (ride.dispatchOffers.some((offer) => offer.status === DispatchOfferStatus.OFFERED)) {
+        return null;
+    }
+
+    const { dispatchOffers, ...rideDetails } = ride;
+
+    const [best] = dispatchOffers.length < DISPATCH_CONFIG.MAX_OFFERS
+        ? await rankDispatchCandidates(ride, dispatchOffers.map((offer) => offer.driverId))
+        : [];
+
+    if (!best) {
+        await broadcastRide(rideDetails);
+        return null;
+    }
+
+    const offer = await db.dispatchOffer.create({
+        data: {
+            rideId,
+            driverId: best.driverId,
+            score: best.score,
+            etaMinutes: best.etaMinutes,
+            expiresAt: new Date(Date.now() + DISPATCH_CONFIG.ACCEPT_WINDOW_SECONDS * 1000),
+        },
+    });
+
+    const timer = setTimeout(() => {
+        expireDispatchOffer(offer.id).catch((error) => console.error('❌ Dispatch offer expiry failed:', error));
+    }, DISPATCH_CONFIG.ACCEPT_WINDOW_SECONDS * 1000);
+    timer.unref();
+    offerTimers.set(offer.id, timer);
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitDispatchOffer(rideDetails, offer, best.distance);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+
+    return offer;
+}
+
+/**
+ * Stop offering a ride one driver at a time and send it to every nearby driver
+ */
+async function broadcastRide(ride: any) {
+    const { count } = await db.ride.updateMany({
+        where: { id: ride.id, status: RideStatus.PENDING, dispatchMode: DispatchMode.SEQUENTIAL },
+        data: { dispatchMode: DispatchMode.BROADCAST },
+    });
+
+    if (count === 0) {
+        return;
+    }
+
+    const matchingDriverIds = await findMatchingDriverIds(ride, getBroadcastRadiusKm(ride));
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitRideCreated({ ...ride, dispatchMode: DispatchMode.BROADCAST }, matchingDriverIds);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+}
+
+/**
+ * Close an offer the driver let run out, and move on to the next driver
+ */
+export async function expireDispatchOffer(offerId: string) {
+    offerTimers.delete(offerId);
+
+    const offer = await db.dispatchOffer.findUnique({
+        where: { id: offerId },
+    });
+
+    if (!offer) {
+        return;
+    }
+
+    const { count } = await db.dispatchOffer.updateMany({
+        where: { id: offerId, status: DispatchOfferStatus.OFFERED },
+        data: { status: DispatchOfferStatus.EXPIRED, respondedAt: new Date() },
+    });
+
+    // Answered in the meantime
+    if (count === 0) {
+        return;
+    }
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitDispatchOfferExpired(offer);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+
+    await offerRideToNextDriver(offer.rideId);
+}
+
+/**
+ * Decline the ride offered to the driver; it goes to the next driver right away
+ */
+export async function declineDispatchOffer(rideId: string, driverId: string) {
+    const offer = await db.dispatchOffer.findFirst({
+        where: { rideId, driverId, status: DispatchOfferStatus.OFFERED },
+    });
+
+    if (!offer) {
+        throw new BadRequestError("This ride is not offered to you");
+    }
+
+    const { count } = await db.dispatchOffer.updateMany({
+        where: { id: offer.id, status: DispatchOfferStatus.OFFERED },
+        data: { status: DispatchOfferStatus.DECLINED, respondedAt: new Date() },
+    });
+
+    if (count === 0) {
+        throw new BadRequestError("This ride is not offered to you");
+    }
+
+    clearOfferTimer(offer.id);
+    await offerRideToNextDriver(rideId);
+
+    return { ...offer, status: DispatchOfferStatus.DECLINED };
+}
+
+/**
+ * Check the driver holds the open offer of a sequentially dispatched ride
+ *
+ * @throws BadRequestError if the ride is offered to someone else, or the offer ran out
+ */
+export async function assertHoldsDispatchOffer(rideId: string, driverId: string) {
+    const offer = await db.dispatchOffer.findFirst({
+        where: {
+            rideId,
+            driverId,
+            status: DispatchOfferStatus.OFFERED,
+            expiresAt: { gt: new Date() },
+        },
+    });
+
+    if (!offer) {
+        throw new BadRequestError("This ride is offered to another driver");
+    }
+
+    return offer;
+}
+
+/**
+ * Close the open offers of a ride that was accepted, cancelled or expired
+ * The accepting driver's offer (if any) counts as accepted, any other is cancelled
+ */
+export async function closeDispatchOffers(rideId: string, acceptedByDriverId?: string) {
+    const openOffers = await db.dispatchOffer.findMany({
+        where: { rideId, status: DispatchOfferStatus.OFFERED },
+        select: { id: true },
+    });
+
+    if (openOffers.length === 0) {
+        return;
+    }
+
+    openOffers.forEach((offer) => clearOfferTimer(offer.id));
+
+    const respondedAt = new Date();
+    if (acceptedByDriverId) {
+        await db.dispatchOffer.updateMany({
+            where: { rideId, driverId: acceptedByDriverId, status: DispatchOfferStatus.OFFERED },
+            data: { status: DispatchOfferStatus.ACCEPTED, respondedAt },
+        });
+    }
+    await db.dispatchOffer.updateMany({
+        where: { rideId, status: DispatchOfferStatus.OFFERED },
+        data: { status: DispatchOfferStatus.CANCELLED, respondedAt },
+    });
+}
+
+/**
+ * Expire the offers whose accept window ran out without their timer firing
+ * (e.g. after a server restart)
+ */
+export async function expireStaleDispatchOffers(now: Date = new Date()) {
+    const staleOffers = await db.dispatchOffer.findMany({
+        where: { status: DispatchOfferStatus.OFFERED, expiresAt: { lte: now } },
+        select: { id: true },
+    });
+
+    for (const offer of staleOffers) {
+        clearOfferTimer(offer.id);
+        await expireDispatchOffer(offer.id);
+    }
+
+    return staleOffers.length;
+}
+
+/**
+ * Radius a ride is broadcast in, wider once its search was widened
+ */
+export function getBroadcastRadiusKm(ride: { searchRadiusKm?: number | null }) {
+    return Math.max(DISPATCH_CONFIG.BROADCAST_RADIUS_KM, ride.searchRadiusKm ?? 0);
+}
+
+function clearOfferTimer(offerId: string) {
+    const timer = offerTimers.get(offerId);
+    if (timer) {
+        clearTimeout(timer);
+        offerTimers.delete(offerId);
+    }
+}
@@ -0,0 +1,148 @@
+import { CancellationReason, DispatchMode, RideActor, RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { getRideEmitter } from "../../socket";
+import { releasePromoRedemption } from "../promo/promo.services";
+import { closeDispatchOffers } from "./ride.dispatch.services";
+import { rejectRideOffers } from "./ride.offer.services";
+import { findMatchingDriverIds } from "./ride.matching.services";
+import { recordCancellation } from "./ride.cancellation.services";
+import { recordStatusEvent } from "./ride.state.services";
+
+/**
+ * Parse the widened broadcast radiuses, e.g. "15,25" (km, in increasing order)
+ */
+function parseRadiusStages(value?: string): number[] {
+    return (value ?? "")
+        .split(",")
+        .map((km) => Number(km.trim()))
+        .filter((km) => Number.isFinite(km) && km > 0)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Pending ride expiry configuration
+ */
+export const EXPIRY_CONFIG = {
+    PENDING_TIMEOUT_MINUTES: Number(process.env.RIDE_PENDING_TIMEOUT_MINUTES) || 10,
+    // Optional: the search radius is widened to each of these before giving up,
+    // at even intervals of the timeout. Empty keeps the default broadcast radius.
+    SEARCH_RADIUS_STAGES_KM: parseRadiusStages(process.env.RIDE_SEARCH_RADIUS_STAGES_KM),
+};
+
+/**
+ * Widen the search of PENDING rides nobody accepted, and expire the ones
+ * still unmatched after the timeout so the passenger can book again
+ *
+ * Each ride is updated only if it is still in the same search (same status
+ * and pendingSince): a ride accepted, cancelled or put back to PENDING in
+ * the meantime is left alone.
+ */
+export async function expirePendingRides(now: Date = new Date()) {
+    const stages = EXPIRY_CONFIG.SEARCH_RADIUS_STAGES_KM;
+    const timeoutMs = EXPIRY_CONFIG.PENDING_TIMEOUT_MINUTES * 60 * 1000;
+    const stageMs = timeoutMs / (stages.length + 1);
+
+    const staleRides = await db.ride.findMany({
+        where: {
+            status: RideStatus.PENDING,
+            pendingSince: { lte: new Date(now.getTime() - stageMs) },
+        },
+        orderBy: { pendingSince: "asc" },
+    });
+
+    let widened = 0;
+    let expired = 0;
+
+    for (const ride of staleRides) {
+        const elapsedMs = now.getTime() - ride.pendingSince.getTime();
+        const sameSearch = { id: ride.id, status: RideStatus.PENDING, pendingSince: ride.pendingSince };
+
+        if (elapsedMs >= timeoutMs) {
+            const expiry = {
+                status: RideStatus.EXPIRED,
+                expiredAt: now,
+                cancelledAt: now,
+                cancelledBy: RideActor.SYSTEM,
+                cancellationReason: CancellationReason.NO_DRIVER_FOUND,
+            };
+            const { count } = await db.ride.updateMany({
+                where: sameSearch,
+                data: expiry,
+            });
+
+            if (count === 0) {
+                continue;
+            }
+
+            await recordCancellation(ride, RideActor.SYSTEM, { reason: CancellationReason.NO_DRIVER_FOUND }, null);
+            await recordStatusEvent({
+                rideId: ride.id,
+                from: RideStatus.PENDING,
+                to: RideStatus.EXPIRED,
+                actor: RideActor.SYSTEM,
+                userId: null,
+            });
+
+            if (ride.promoCodeId) {
+                await releasePromoRedemption(ride.id);
+            }
+
+            if (ride.dispatchMode === DispatchMode.SEQUENTIAL) {
+                await closeDispatchOffers(ride.id);
+            }
+
+            await rejectRideOffers(ride.id, "The ride expired before the passenger chose a driver");
+
+            try {
+                const emitter = getRideEmitter();
+                emitter.emitRideExpired({ ...ride, ...expiry });
+            } catch (error) {
+                if (process.env.NODE_ENV !== 'test') {
+                    console.log('WebSocket not available:', error);
+                }
+            }
+
+            expired++;
+            continue;
+        }
+
+        const radiusKm = stages[Math.floor(elapsedMs / stageMs) - 1];
+        if (radiusKm === undefined || (ride.searchRadiusKm ?? 0) >= radiusKm) {
+            continue;
+        }
+
+        const { count } = await db.ride.updateMany({
+            where: sameSearch,
+            data: { searchRadiusKm: radiusKm },
+        });
+
+        if (count === 0) {
+            continue;
+        }
+
+        // A sequentially dispatched ride reaches the farther drivers through its next offers
+        if (ride.dispatchMode === DispatchMode.SEQUENTIAL) {
+            widened++;
+            continue;
+        }
+
+        const matchingDriverIds = await findMatchingDriverIds(ride, radiusKm);
+
+        try {
+            const emitter = getRideEmitter();
+            emitter.emitRideSearchWidened(
+                { ...ride, searchRadiusKm: radiusKm },
+                ride.searchRadiusKm ?? undefined,
+                matchingDriverIds
+            );
+        } catch (error) {
+            if (process.env.NODE_ENV !== 'test') {
+                console.log('WebSocket not available:', error);
+            }
+        }
+
+        widened++;
+    }
+
+    return { widened, expired };
+}
@@ -0,0 +1,178 @@
+import { PackageSize, RideType, VehicleType } from "@prisma/client";
+import { db } from "../../utils/db";
+import { getAvailableDriverLocations } from "../../socket/handlers/driver-location.handler";
+import { calculateDistance } from "../../utils/distance";
+import { BadRequestError } from "../../utils/errors";
+import { getPaymentConfig } from "./ride.payment.services";
+
+/**
+ * Ride types each vehicle type can take
+ * Motorbikes only do box deliveries
+ */
+export const VEHICLE_RIDE_TYPES: Record<VehicleType, RideType[]> = {
+    [VehicleType.CAR]: [RideType.REGULAR, RideType.SEAT_RESERVE, RideType.DELIVERY],
+    [VehicleType.BIKE]: [RideType.DELIVERY],
+};
+
+export interface DriverMatchProfile {
+    vehicleTypes: VehicleType[]; // Of the driver's active vehicles
+    acceptedRideTypes: RideType[];
+    maxPickupDistanceKm: number | null;
+    minFare: number | null;
+}
+
+interface MatchableRide {
+    type: RideType;
+    price: number;
+    packageSize?: PackageSize | null;
+}
+
+/**
+ * Whether a vehicle can carry a ride (a motorbike cannot take a package that needs the trunk)
+ */
+export function canVehicleTakeRide(vehicleType: VehicleType, ride: { type: RideType; packageSize?: PackageSize | null }) {
+    if (!VEHICLE_RIDE_TYPES[vehicleType].includes(ride.type)) {
+        return false;
+    }
+
+    return !(vehicleType === VehicleType.BIKE && ride.packageSize === PackageSize.LARGE);
+}
+
+/**
+ * Check a driver can take a ride at a price with one of their vehicles: the
+ * vehicle is theirs and can carry the ride, and their wallet covers the
+ * commission on that price
+ * Accepting, bargaining and reserving a ride share these checks, so an offer
+ * or a reservation does not fail once the ride is handed over
+ *
+ * @throws BadRequestError if any check fails
+ */
+export async function assertDriverCanTakeRide(
+    driverId: string,
+    vehicleId: string,
+    ride: { type: RideType; packageSize?: PackageSize | null; tariff: { commissionPercent: number } | null },
+    price: number
+) {
+    const driverProfile = await db.driverProfile.findUnique({
+        where: { userId: driverId },
+    });
+
+    const vehicle = await db.vehicle.findUnique({
+        where: { id: vehicleId },
+    });
+
+    if (!driverProfile || !vehicle || vehicle.driverId !== driverProfile.id) {
+        throw new BadRequestError("Vehicle not found or does not belong to driver");
+    }
+
+    // Motorbikes only do box deliveries
+    if (!canVehicleTakeRide(vehicle.type, ride)) {
+        throw new BadRequestError("This vehicle cannot take this ride");
+    }
+
+    const driverWallet = await db.wallet.findUnique({
+        where: { userId: driverId },
+    });
+
+    if (!driverWallet) {
+        throw new BadRequestError("Driver wallet not found. Please contact support.");
+    }
+
+    // Commission rate of the tariff that priced the ride (10% by default)
+    const commissionPercent = ride.tariff?.commissionPercent ?? getPaymentConfig().commissionPercent;
+    const minimumBalance = price * commissionPercent;
+
+    if (driverWallet.balance < minimumBalance) {
+        throw new BadRequestError(
+            `Insufficient balance. Minimum ${minimumBalance.toLocaleString()} DA required to take this ride at ${price.toLocaleString()} DA. Current balance: ${driverWallet.balance.toLocaleString()} DA.`
+        );
+    }
+}
+
+/**
+ * Whether a ride suits a driver's active vehicles and preferences
+ */
+export function isRideMatch(profile: DriverMatchProfile, ride: MatchableRide, pickupDistanceKm: number) {
+    if (!profile.vehicleTypes.some((vehicleType) => canVehicleTakeRide(vehicleType, ride))) {
+        return false;
+    }
+
+    if (profile.acceptedRideTypes.length > 0 && !profile.acceptedRideTypes.includes(ride.type)) {
+        return false;
+    }
+
+    if (profile.maxPickupDistanceKm !== null && pickupDistanceKm > profile.maxPickupDistanceKm) {
+        return false;
+    }
+
+    return profile.minFare === null || ride.price >= profile.minFare;
+}
+
+/**
+ * Load the matching profiles of drivers, by user ID
+ * Drivers without a driver profile are left out
+ */
+export async function getDriverMatchProfiles(driverIds: string[]) {
+    const profiles = new Map<string, DriverMatchProfile>();
+
+    if (driverIds.length === 0) {
+        return profiles;
+    }
+
+    const driverProfiles = await db.driverProfile.findMany({
+        where: { userId: { in: driverIds } },
+        select: {
+            userId: true,
+            acceptedRideTypes: true,
+            maxPickupDistanceKm: true,
+            minFare: true,
+            vehicles: {
+                where: { isActive: true },
+                select: { type: true },
+            },
+        },
+    });
+
+    for (const { userId, vehicles, ...preferences } of driverProfiles) {
+        profiles.set(userId, {
+            ...preferences,
+            vehicleTypes: vehicles.map((vehicle) => vehicle.type),
+        });
+    }
+
+    return profiles;
+}
+
+/**
+ * Get the match profile of one driver
+ */
+export async function getDriverMatchProfile(driverId: string) {
+    const profiles = await getDriverMatchProfiles([driverId]);
+    return profiles.get(driverId) ?? null;
+}
+
+/**
+ * Get the available drivers within a radius of a ride's pickup point whose vehicle
+ * and preferences suit the ride
+ */
+export async function findMatchingDriverIds(
+    ride: MatchableRide & { originLat: number; originLng: number },
+    radiusKm: number
+) {
+    const nearby = new Map<string, number>();
+    for (const [driverId, location] of getAvailableDriverLocations().entries()) {
+        const distance = calculateDistance(location.latitude, location.longitude, ride.originLat, ride.originLng);
+        if (distance <= radiusKm) {
+            nearby.set(driverId, distance);
+        }
+    }
+
+    const profiles = await getDriverMatchProfiles([...nearby.keys()]);
+
+    return [...nearby.entries()]
+        .filter(([driverId, distance]) => {
+            const profile = profiles.get(driverId);
+            return profile !== undefined && isRideMatch(profile, ride, distance);
+        })
+        .map(([driverId]) => driverId);
+}
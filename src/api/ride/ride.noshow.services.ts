@@ -0,0 +1,199 @@
+import { CancellationReason, RideActor, RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "../../utils/errors";
+import { getRideEmitter } from "../../socket";
+import { releasePromoRedemption } from "../promo/promo.services";
+import { processPassengerNoShowFee } from "./ride.payment.services";
+import { getDriverDistanceTravelledKm, recordCancellation } from "./ride.cancellation.services";
+import { recordStatusEvent } from "./ride.state.services";
+
+/**
+ * Passenger no-show configuration
+ */
+export const NO_SHOW_CONFIG = {
+    GRACE_MINUTES: Number(process.env.RIDE_NO_SHOW_GRACE_MINUTES) || 5, // Wait after arriving before a no-show
+    REPEAT_THRESHOLD: 2, // No-shows in the report window that flag a passenger
+    REPORT_WINDOW_DAYS: 90,
+};
+
+/**
+ * When the driver of an ARRIVED ride may report a no-show
+ */
+export function getNoShowAvailableAt(arrivedAt: Date) {
+    return new Date(arrivedAt.getTime() + NO_SHOW_CONFIG.GRACE_MINUTES * 60 * 1000);
+}
+
+/**
+ * Cancel a ride whose passenger never came to the pickup point (assigned driver only)
+ * Only once the driver waited the grace period after arriving. The driver pays
+ * no cancellation penalty; the passenger pays the no-show fee to the driver,
+ * owing what their wallet cannot cover, and the no-show is recorded against them.
+ */
+export async function markPassengerNoShow(rideId: string, driverId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.driverId !== driverId) {
+        throw new UnauthorizedError("Only the assigned driver can report a no-show");
+    }
+
+    if (ride.status !== RideStatus.ARRIVED || !ride.arrivedAt) {
+        throw new BadRequestError("Can only report a no-show once arrived at the pickup point");
+    }
+
+    const now = new Date();
+    const availableAt = getNoShowAvailableAt(ride.arrivedAt);
+    if (now < availableAt) {
+        const minutesLeft = Math.ceil((availableAt.getTime() - now.getTime()) / 60000);
+        throw new BadRequestError(`Wait ${minutesLeft} more minute(s) for the passenger before reporting a no-show`);
+    }
+
+    const cancellation = {
+        cancelledAt: now,
+        cancelledBy: RideActor.DRIVER,
+        cancellationReason: CancellationReason.PASSENGER_NO_SHOW,
+    };
+
+    const arrivedAt = ride.arrivedAt;
+
+    // The cancellation, the fee and the no-show are recorded together or not at all.
+    // What the wallet cannot cover is recorded as a fee debt, collected at the passenger's next booking
+    const noShow = await db.$transaction(async (tx) => {
+        // Only if the passenger did not board in the meantime
+        const { count } = await tx.ride.updateMany({
+            where: { id: rideId, status: RideStatus.ARRIVED, driverId },
+            data: { status: RideStatus.CANCELLED, ...cancellation },
+        });
+
+        if (count === 0) {
+            throw new BadRequestError("This ride is no longer waiting for the passenger");
+        }
+
+        const { feeAmount, feeCharged, debtAmount } = await processPassengerNoShowFee(tx, rideId, ride.userId, driverId);
+
+        await tx.cancellationFee.create({
+            data: {
+                rideId,
+                passengerId: ride.userId,
+                driverId,
+                amount: feeAmount,
+                chargedAmount: feeCharged,
+                debtAmount,
+                driverCompensation: feeAmount,
+                minutesSinceAccept: ride.acceptedAt
+                    ? Math.round((now.getTime() - ride.acceptedAt.getTime()) / 6000) / 10
+                    : 0,
+                driverDistanceKm: Math.round(getDriverDistanceTravelledKm(ride) * 100) / 100,
+            },
+        });
+
+        await recordCancellation(ride, RideActor.DRIVER, { reason: CancellationReason.PASSENGER_NO_SHOW }, driverId, tx);
+        await recordStatusEvent({
+            rideId,
+            from: RideStatus.ARRIVED,
+            to: RideStatus.CANCELLED,
+            actor: RideActor.DRIVER,
+            userId: driverId,
+            driverId,
+        }, tx);
+
+        return tx.passengerNoShow.create({
+            data: {
+                rideId,
+                passengerId: ride.userId,
+                driverId,
+                arrivedAt,
+                feeCharged,
+            },
+        });
+    });
+
+    if (ride.promoCodeId) {
+        await releasePromoRedemption(rideId);
+    }
+
+    const updatedRide = { ...ride, status: RideStatus.CANCELLED, ...cancellation };
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitRideCancelled(updatedRide, CancellationReason.PASSENGER_NO_SHOW);
+    } catch (error) {
+        if (process.env.NODE_ENV !== "test") {
+            console.log("WebSocket not available:", error);
+        }
+    }
+
+    return { ride: updatedRide, noShow };
+}
+
+/**
+ * Get the no-shows recorded against a passenger (admin only), most recent first
+ */
+export async function getPassengerNoShows(passengerId: string) {
+    return db.passengerNoShow.findMany({
+        where: { passengerId },
+        orderBy: { createdAt: "desc" },
+        include: {
+            ride: {
+                select: {
+                    id: true,
+                    type: true,
+                    originAddress: true,
+                    price: true,
+                    driverId: true,
+                    createdAt: true,
+                },
+            },
+        },
+    });
+}
+
+/**
+ * Get the passengers with repeat no-shows (admin only), most no-shows first
+ */
+export async function getRepeatNoShowPassengers(
+    options: { minCount?: number; sinceDays?: number } = {}
+) {
+    const minCount = options.minCount ?? NO_SHOW_CONFIG.REPEAT_THRESHOLD;
+    const sinceDays = options.sinceDays ?? NO_SHOW_CONFIG.REPORT_WINDOW_DAYS;
+    const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+
+    const groups = await db.passengerNoShow.groupBy({
+        by: ["passengerId"],
+        where: { createdAt: { gte: since } },
+        _count: { _all: true },
+        _sum: { feeCharged: true },
+        _max: { createdAt: true },
+    });
+
+    const repeated = groups
+        .filter((group) => group._count._all >= minCount)
+        .sort((a, b) => b._count._all - a._count._all);
+
+    const passengers = await db.user.findMany({
+        where: { id: { in: repeated.map((group) => group.passengerId) } },
+        select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            phoneNumber: true,
+        },
+    });
+    const passengersById = new Map(passengers.map((passenger) => [passenger.id, passenger]));
+
+    return {
+        minCount,
+        since,
+        passengers: repeated.map((group) => ({
+            passenger: passengersById.get(group.passengerId) ?? null,
+            noShowCount: group._count._all,
+            feesCharged: group._sum.feeCharged ?? 0,
+            lastNoShowAt: group._max.createdAt,
+        })),
+    };
+}
@@ -0,0 +1,285 @@
+import { DispatchMode, Prisma, RideOfferStatus, RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { getRideEmitter } from "../../socket";
+import { getAvailableDriverLocations } from "../../socket/handlers/driver-location.handler";
+import { calculateDistance } from "../../utils/distance";
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from "../../utils/errors";
+import { acceptRide } from "./ride.services";
+import { assertDriverCanTakeRide, getDriverMatchProfile, isRideMatch } from "./ride.matching.services";
+import { assertHoldsDispatchOffer, getBroadcastRadiusKm } from "./ride.dispatch.services";
+
+/**
+ * Fare negotiation configuration
+ */
+const OFFER_CONFIG = {
+    TTL_SECONDS: Number(process.env.RIDE_OFFER_TTL_SECONDS) || 2 * 60, // Pending offers lapse after this
+    MIN_PRICE_RATIO: 0.5, // Offers must stay within these bounds of the listed price
+    MAX_PRICE_RATIO: 3,
+};
+
+const offerInclude = {
+    driver: {
+        select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            phoneNumber: true,
+            photo: true,
+        },
+    },
+    vehicle: true,
+};
+
+/**
+ * Make (or revise) a driver's offer on a pending ride
+ * A driver has at most one offer per ride; sending a new price replaces it
+ */
+export async function createRideOffer(
+    rideId: string,
+    driverId: string,
+    data: { price: number; vehicleId: string }
+) {
+    if (typeof data.price !== "number" || !Number.isInteger(data.price) || data.price <= 0) {
+        throw new BadRequestError("price must be a positive whole number of DA");
+    }
+
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+        include: { tariff: true },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.status !== RideStatus.PENDING) {
+        throw new BadRequestError("Can only make offers on pending rides");
+    }
+
+    // A ride dispatched one driver at a time can only be bargained by the driver it is offered to
+    if (ride.dispatchMode === DispatchMode.SEQUENTIAL) {
+        await assertHoldsDispatchOffer(rideId, driverId);
+    }
+
+    const minPrice = Math.ceil(ride.price * OFFER_CONFIG.MIN_PRICE_RATIO);
+    const maxPrice = Math.floor(ride.price * OFFER_CONFIG.MAX_PRICE_RATIO);
+    if (data.price < minPrice || data.price > maxPrice) {
+        throw new BadRequestError(`Offer must be between ${minPrice} and ${maxPrice} DA`);
+    }
+
+    // Same checks as acceptRide, so an accepted offer does not fail later
+    await assertDriverCanTakeRide(driverId, data.vehicleId, ride, data.price);
+
+    // Drivers can only bargain on the rides they are shown (see getPendingRides)
+    const location = getAvailableDriverLocations().get(driverId);
+    if (!location) {
+        throw new BadRequestError("Share your location to make offers");
+    }
+
+    const distance = calculateDistance(location.latitude, location.longitude, ride.originLat, ride.originLng);
+    if (distance > getBroadcastRadiusKm(ride)) {
+        throw new BadRequestError("This ride is too far from you");
+    }
+
+    const matchProfile = await getDriverMatchProfile(driverId);
+    if (!matchProfile || !isRideMatch(matchProfile, ride, distance)) {
+        throw new BadRequestError("This ride does not match your ride preferences");
+    }
+
+    const expiresAt = new Date(Date.now() + OFFER_CONFIG.TTL_SECONDS * 1000);
+
+    const offer = await db.rideOffer.upsert({
+        where: { rideId_driverId: { rideId, driverId } },
+        create: {
+            rideId,
+            driverId,
+            vehicleId: data.vehicleId,
+            price: data.price,
+            expiresAt,
+        },
+        update: {
+            vehicleId: data.vehicleId,
+            price: data.price,
+            status: RideOfferStatus.PENDING,
+            expiresAt,
+        },
+        include: offerInclude,
+    });
+
+    // Show the offer to the passenger live
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitOfferReceived(offer, ride.userId);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+
+    return offer;
+}
+
+/**
+ * Withdraw a driver's pending offer
+ */
+export async function withdrawRideOffer(rideId: string, driverId: string) {
+    const offer = await db.rideOffer.findUnique({
+        where: { rideId_driverId: { rideId, driverId } },
+        include: { ride: { select: { userId: true } } },
+    });
+
+    if (!offer) {
+        throw new NotFoundError("Offer not found");
+    }
+
+    if (offer.status !== RideOfferStatus.PENDING) {
+        throw new BadRequestError("Offer is no longer pending");
+    }
+
+    const withdrawnOffer = await db.rideOffer.update({
+        where: { id: offer.id },
+        data: { status: RideOfferStatus.WITHDRAWN },
+    });
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitOfferWithdrawn(withdrawnOffer, offer.ride.userId);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+
+    return withdrawnOffer;
+}
+
+/**
+ * Get the live offers on a ride (passenger only), cheapest first
+ */
+export async function getRideOffers(rideId: string, userId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId) {
+        throw new UnauthorizedError("Only the passenger can view offers on this ride");
+    }
+
+    if (ride.status !== RideStatus.PENDING) {
+        return [];
+    }
+
+    return db.rideOffer.findMany({
+        where: {
+            rideId,
+            status: RideOfferStatus.PENDING,
+            expiresAt: { gt: new Date() },
+        },
+        include: offerInclude,
+        orderBy: [{ price: "asc" }, { createdAt: "asc" }],
+    });
+}
+
+/**
+ * Accept a driver's offer (passenger only)
+ * The ride goes through acceptRide at the agreed price, as long as the driver
+ * has not withdrawn or revised the offer by then
+ */
+export async function acceptRideOffer(rideId: string, offerId: string, userId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId) {
+        throw new UnauthorizedError("Only the passenger can accept offers on this ride");
+    }
+
+    const offer = await db.rideOffer.findUnique({
+        where: { id: offerId },
+    });
+
+    if (!offer || offer.rideId !== rideId) {
+        throw new NotFoundError("Offer not found");
+    }
+
+    if (offer.status !== RideOfferStatus.PENDING) {
+        throw new BadRequestError("Offer is no longer pending");
+    }
+
+    if (offer.expiresAt <= new Date()) {
+        throw new BadRequestError("Offer has expired");
+    }
+
+    return acceptRide(rideId, offer.driverId, offer.vehicleId, {
+        id: offer.id,
+        price: offer.price,
+    });
+}
+
+/**
+ * Close the bargaining on a ride once it is accepted, cancelled or expired
+ * The accepted offer (if any) is marked ACCEPTED with the price it replaced,
+ * every other pending offer REJECTED
+ *
+ * @throws ConflictError if the accepted offer was withdrawn or revised in the meantime
+ */
+export async function closeRideOffers(
+    rideId: string,
+    accepted?: { offerId: string; price: number; listedPrice: number },
+    client: Prisma.TransactionClient = db
+) {
+    const acceptedOfferId = accepted?.offerId;
+
+    // Only the offer the passenger saw: still pending and at the same price
+    if (accepted) {
+        const { count } = await client.rideOffer.updateMany({
+            where: { id: accepted.offerId, status: RideOfferStatus.PENDING, price: accepted.price },
+            data: { status: RideOfferStatus.ACCEPTED, listedPrice: accepted.listedPrice },
+        });
+
+        if (count === 0) {
+            throw new ConflictError("The driver withdrew or changed this offer");
+        }
+    }
+
+    const pendingOffers = await client.rideOffer.findMany({
+        where: { rideId, status: RideOfferStatus.PENDING },
+    });
+
+    if (pendingOffers.length > 0) {
+        await client.rideOffer.updateMany({
+            where: { rideId, status: RideOfferStatus.PENDING },
+            data: { status: RideOfferStatus.REJECTED },
+        });
+    }
+
+    const acceptedOffer = acceptedOfferId
+        ? await client.rideOffer.findUnique({ where: { id: acceptedOfferId } })
+        : null;
+
+    return { acceptedOffer, rejectedOffers: pendingOffers };
+}
+
+/**
+ * Reject the pending offers on a ride that was cancelled or expired, and tell the offering drivers
+ */
+export async function rejectRideOffers(rideId: string, message: string) {
+    const { rejectedOffers } = await closeRideOffers(rideId);
+
+    try {
+        const emitter = getRideEmitter();
+        rejectedOffers.forEach((rejected) => emitter.emitOfferRejected(rejected, message));
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+}
@@ -1,113 +1,236 @@
+import { Prisma } from "@prisma/client";
 import { db } from "../../utils/db";
-import { creditWallet, debitWallet, getWalletBalance } from "../wallet/wallet.services";
+import { ConflictError } from "../../utils/errors";
+import {
+    creditWalletInTransaction,
+    debitAvailableBalance,
+    getWalletBalance,
+} from "../wallet/wallet.services";
 
 /**
- * Configuration for ride payments
+ * Default configuration for ride payments
+ * Used for rides priced before any tariff was published
  * Note: Cash-only model - driver pays commission/penalty to platform
  */
 const PAYMENT_CONFIG = {
     COMMISSION_PERCENT: 0.10, // 10% platform commission from driver on completion
     CANCELLATION_PENALTY_PERCENT: 0.05, // 5% penalty when driver cancels
+    NO_SHOW_FEE: Number(process.env.RIDE_NO_SHOW_FEE) || 200, // DA, paid to the driver who waited
 };
 
 /**
- * Process driver commission for a completed ride (cash payment model)
- * Driver pays 2% commission to the platform
+ * Get the payment rates of the tariff that priced a ride
+ * Falls back to the default configuration when the ride has no tariff
+ */
+async function getRidePaymentRates(rideId: string, client: Prisma.TransactionClient = db) {
+    const ride = await client.ride.findUnique({
+        where: { id: rideId },
+        select: {
+            tariff: {
+                select: {
+                    commissionPercent: true,
+                    cancellationPenaltyPercent: true,
+                },
+            },
+        },
+    });
+
+    return {
+        commissionPercent: ride?.tariff?.commissionPercent ?? PAYMENT_CONFIG.COMMISSION_PERCENT,
+        cancellationPenaltyPercent:
+            ride?.tariff?.cancellationPenaltyPercent ?? PAYMENT_CONFIG.CANCELLATION_PENALTY_PERCENT,
+    };
+}
+
+/**
+ * Process driver commission for a completed ride (cash payment model),
+ * within the transaction that completes the ride
+ * Driver pays the tariff commission (10% by default) to the platform.
+ * The final price can be above the one the driver's balance was checked
+ * against on acceptance: what the wallet cannot cover is owed as debt,
+ * collected when they accept their next ride.
  */
 export async function processDriverCommission(
+    tx: Prisma.TransactionClient,
     rideId: string,
     driverId: string,
     ridePrice: number
 ) {
-    // Calculate commission (2% of ride price)
-    const commissionAmount = Math.floor(ridePrice * PAYMENT_CONFIG.COMMISSION_PERCENT);
-
-    // Process commission in a transaction
-    const result = await db.$transaction(async (tx) => {
-        // 1. Debit driver's wallet for commission
-        const driverDebit = await debitWallet(
-            driverId,
-            commissionAmount,
-            `Platform commission: ${rideId}`
-        );
-
-        // 2. Create commission record
-        const commission = await tx.commission.create({
-            data: {
-                rideId,
-                percent: PAYMENT_CONFIG.COMMISSION_PERCENT,
-                amount: commissionAmount,
-            },
-        });
+    const { commissionPercent } = await getRidePaymentRates(rideId, tx);
 
-        return {
-            driverTransaction: driverDebit.transaction,
-            commission,
-            driverBalance: driverDebit.wallet.balance,
-            commissionAmount,
-        };
+    // Calculate commission (percentage of ride price)
+    const commissionAmount = Math.floor(ridePrice * commissionPercent);
+
+    const chargedAmount = commissionAmount > 0
+        ? await debitAvailableBalance(tx, driverId, commissionAmount, `Platform commission: ${rideId}`)
+        : 0;
+
+    const commission = await tx.commission.create({
+        data: {
+            rideId,
+            percent: commissionPercent,
+            amount: commissionAmount,
+            debtAmount: commissionAmount - chargedAmount,
+        },
+    });
+
+    return {
+        commission,
+        commissionAmount,
+        chargedAmount,
+        debtAmount: commission.debtAmount,
+    };
+}
+
+/**
+ * Collect the unpaid ride commissions of a driver from their wallet, oldest ride first
+ * A debt collected by another request in the meantime rolls its debit back.
+ * @returns The debt left
+ */
+export async function collectCommissionDebts(driverId: string) {
+    const debts = await db.commission.findMany({
+        where: { debtSettledAt: null, debtAmount: { gt: 0 }, ride: { driverId } },
+        orderBy: { ride: { completedAt: "asc" } },
     });
 
-    return result;
+    let remaining = 0;
+
+    for (const debt of debts) {
+        const collected = await db.$transaction(async (tx) => {
+            const debited = await debitAvailableBalance(tx, driverId, debt.debtAmount, `Commission debt: ${debt.rideId}`);
+
+            if (debited === 0) {
+                return 0;
+            }
+
+            const debtAmount = debt.debtAmount - debited;
+            const { count } = await tx.commission.updateMany({
+                where: { id: debt.id, debtAmount: debt.debtAmount, debtSettledAt: null },
+                data: {
+                    debtAmount,
+                    ...(debtAmount === 0 && { debtSettledAt: new Date() }),
+                },
+            });
+
+            if (count === 0) {
+                throw new ConflictError("Commission debt is already being collected");
+            }
+
+            return debited;
+        });
+
+        remaining += debt.debtAmount - collected;
+    }
+
+    return remaining;
 }
 
 /**
- * Process cancellation penalty for driver-initiated cancellations
- * Driver pays 5% penalty when they cancel
+ * Process cancellation penalty for driver-initiated cancellations,
+ * within the transaction that cancels the ride
+ * Driver pays the tariff penalty (5% by default) when they cancel, up to
+ * their wallet balance.
  */
 export async function processDriverCancellationPenalty(
+    tx: Prisma.TransactionClient,
     rideId: string,
     driverId: string,
     ridePrice: number
 ) {
-    // Use cancellation penalty rate (5%)
-    const penaltyAmount = Math.floor(ridePrice * PAYMENT_CONFIG.CANCELLATION_PENALTY_PERCENT);
+    const { cancellationPenaltyPercent } = await getRidePaymentRates(rideId, tx);
 
-    try {
-        // Try to debit full penalty
-        const result = await debitWallet(
-            driverId,
-            penaltyAmount,
-            `Cancellation penalty: ${rideId}`
-        );
+    // Use cancellation penalty rate
+    const penaltyAmount = Math.floor(ridePrice * cancellationPenaltyPercent);
 
-        return {
-            penaltyCharged: penaltyAmount,
-            driverBalance: result.wallet.balance,
-            transaction: result.transaction,
-        };
-    } catch (error: any) {
-        // If insufficient balance, debit what's available
-        if (error.message === "Insufficient balance") {
-            const driverBalance = await getWalletBalance(driverId);
-
-            if (driverBalance > 0) {
-                const result = await debitWallet(
-                    driverId,
-                    driverBalance,
-                    `Partial cancellation penalty: ${rideId}`
-                );
-
-                return {
-                    penaltyCharged: driverBalance,
-                    driverBalance: 0,
-                    transaction: result.transaction,
-                    partial: true,
-                };
-            }
+    const penaltyCharged = penaltyAmount > 0
+        ? await debitAvailableBalance(tx, driverId, penaltyAmount, `Cancellation penalty: ${rideId}`)
+        : 0;
+
+    return {
+        penaltyAmount,
+        penaltyCharged,
+        partial: penaltyCharged < penaltyAmount,
+    };
+}
+
+/**
+ * Process the no-show fee of a passenger who never came to the pickup point,
+ * within the transaction that records the fee
+ * The fee is taken from the passenger's wallet, up to its balance; the rest
+ * is owed as debt. The driver who waited is paid the fee in full, the
+ * platform advancing any debt.
+ */
+export async function processPassengerNoShowFee(
+    tx: Prisma.TransactionClient,
+    rideId: string,
+    passengerId: string,
+    driverId: string
+) {
+    const feeAmount = PAYMENT_CONFIG.NO_SHOW_FEE;
+    const feeCharged = await debitAvailableBalance(tx, passengerId, feeAmount, `No-show fee: ${rideId}`);
+
+    await creditWalletInTransaction(tx, driverId, feeAmount, `No-show compensation: ${rideId}`);
 
-            // Driver has no balance
-            return {
-                penaltyCharged: 0,
-                driverBalance: 0,
-                transaction: null,
-                partial: true,
-            };
-        }
-
-        // Re-throw other errors
-        throw error;
+    return {
+        feeAmount,
+        feeCharged,
+        debtAmount: feeAmount - feeCharged,
+    };
+}
+
+/**
+ * Process the late-cancellation fee of a passenger, within the transaction
+ * that records the fee
+ * The fee is taken from the passenger's wallet, up to its balance; the rest
+ * is owed as debt. The driver is credited their compensation in full, the
+ * platform advancing the share of any debt.
+ */
+export async function processPassengerCancellationFee(
+    tx: Prisma.TransactionClient,
+    rideId: string,
+    passengerId: string,
+    driverId: string,
+    feeAmount: number,
+    driverCompensation: number
+) {
+    const chargedAmount = await debitAvailableBalance(tx, passengerId, feeAmount, `Cancellation fee: ${rideId}`);
+
+    if (driverCompensation > 0) {
+        await creditWalletInTransaction(tx, driverId, driverCompensation, `Cancellation compensation: ${rideId}`);
     }
+
+    return {
+        chargedAmount,
+        debtAmount: feeAmount - chargedAmount,
+        driverCompensation,
+    };
+}
+
+/**
+ * Refund the driver the promo discount of a completed ride (cash payment model),
+ * within the transaction that completes the ride
+ * The passenger paid the driver the discounted fare in cash and the platform
+ * absorbs the discount, so the driver is credited the difference.
+ * Commission is still charged on the full ride price.
+ */
+export async function processPromoDiscountRefund(
+    tx: Prisma.TransactionClient,
+    rideId: string,
+    driverId: string,
+    discountAmount: number
+) {
+    const result = await creditWalletInTransaction(
+        tx,
+        driverId,
+        discountAmount,
+        `Promo discount refund: ${rideId}`
+    );
+
+    return {
+        refundAmount: discountAmount,
+        driverBalance: result.wallet.balance,
+        transaction: result.transaction,
+    };
 }
 
 /**
@@ -115,10 +238,11 @@ export async function processDriverCancellationPenalty(
  */
 export async function validateDriverBalance(
     driverId: string,
-    ridePrice: number
+    ridePrice: number,
+    commissionPercent: number = PAYMENT_CONFIG.COMMISSION_PERCENT
 ): Promise<{ valid: boolean; balance: number; commissionRequired: number; message?: string }> {
     const balance = await getWalletBalance(driverId);
-    const commissionRequired = Math.floor(ridePrice * PAYMENT_CONFIG.COMMISSION_PERCENT);
+    const commissionRequired = Math.floor(ridePrice * commissionPercent);
 
     if (balance < commissionRequired) {
         return {
@@ -137,11 +261,12 @@ export async function validateDriverBalance(
 }
 
 /**
- * Get payment configuration (useful for displaying to users)
+ * Get the default payment configuration (useful for displaying to users)
  */
 export function getPaymentConfig() {
     return {
         commissionPercent: PAYMENT_CONFIG.COMMISSION_PERCENT,
         cancellationPenaltyPercent: PAYMENT_CONFIG.CANCELLATION_PENALTY_PERCENT,
+        noShowFee: PAYMENT_CONFIG.NO_SHOW_FEE,
     };
 }
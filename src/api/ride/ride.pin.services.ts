@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import { RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "../../utils/errors";
+import { getRideEmitter } from "../../socket";
+
+/**
+ * Ride PIN configuration
+ */
+export const PIN_CONFIG = {
+    LENGTH: 4,
+    MAX_ATTEMPTS: 5, // Wrong PINs before the ride can no longer be started
+};
+
+const PIN_LOCKED_ERROR = "Too many wrong PINs. Ask the passenger to get a new PIN";
+
+/**
+ * Generate the PIN of an accepted ride and send it to the passenger only
+ * Re-accepting a ride (after a driver cancelled) replaces the previous PIN
+ */
+export async function issueRidePin(ride: { id: string; userId: string }) {
+    const pin = crypto.randomInt(0, 10 ** PIN_CONFIG.LENGTH)
+        .toString()
+        .padStart(PIN_CONFIG.LENGTH, "0");
+
+    await db.ridePin.upsert({
+        where: { rideId: ride.id },
+        create: { rideId: ride.id, pin },
+        update: { pin, attempts: 0, verifiedAt: null },
+    });
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitRidePin(ride, pin);
+    } catch (error) {
+        if (process.env.NODE_ENV !== "test") {
+            console.log("WebSocket not available:", error);
+        }
+    }
+
+    return pin;
+}
+
+/**
+ * Get the PIN of an accepted ride (passenger only)
+ */
+export async function getRidePin(rideId: string, userId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+        include: { pin: true },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId) {
+        throw new UnauthorizedError("Only the passenger can see the ride PIN");
+    }
+
+    if ((ride.status !== RideStatus.ACCEPTED && ride.status !== RideStatus.ARRIVED) || !ride.pin) {
+        throw new BadRequestError("The PIN is only available once a driver accepted the ride");
+    }
+
+    return { rideId, pin: ride.pin.pin };
+}
+
+/**
+ * Send the passenger a new PIN, e.g. once the driver locked the old one with wrong tries (passenger only)
+ * The new PIN comes with a fresh set of attempts
+ */
+export async function reissueRidePin(rideId: string, userId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+        include: { pin: true },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId) {
+        throw new UnauthorizedError("Only the passenger can get a new ride PIN");
+    }
+
+    if ((ride.status !== RideStatus.ACCEPTED && ride.status !== RideStatus.ARRIVED) || !ride.pin) {
+        throw new BadRequestError("The PIN is only available once a driver accepted the ride");
+    }
+
+    if (ride.pin.verifiedAt) {
+        throw new BadRequestError("The PIN was already confirmed");
+    }
+
+    const pin = await issueRidePin(ride);
+    return { rideId, pin };
+}
+
+/**
+ * Check the PIN the driver entered before starting the ride
+ * Wrong PINs are counted; after too many the ride cannot be started
+ * until the passenger asks for a new PIN
+ *
+ * @throws BadRequestError if the PIN is missing, wrong or locked
+ */
+export async function verifyRidePin(rideId: string, pin?: string) {
+    const ridePin = await db.ridePin.findUnique({
+        where: { rideId },
+    });
+
+    if (!ridePin) {
+        throw new BadRequestError("No PIN was generated for this ride");
+    }
+
+    if (ridePin.verifiedAt) {
+        return ridePin;
+    }
+
+    if (!pin) {
+        throw new BadRequestError("pin is required to start the ride. Ask the passenger for their PIN");
+    }
+
+    if (ridePin.attempts >= PIN_CONFIG.MAX_ATTEMPTS) {
+        throw new BadRequestError(PIN_LOCKED_ERROR);
+    }
+
+    if (String(pin).trim() !== ridePin.pin) {
+        // Only counts while tries are left, so parallel guesses cannot go past the limit
+        const { count } = await db.ridePin.updateMany({
+            where: { rideId, attempts: { lt: PIN_CONFIG.MAX_ATTEMPTS } },
+            data: { attempts: { increment: 1 } },
+        });
+
+        if (count === 0) {
+            throw new BadRequestError(PIN_LOCKED_ERROR);
+        }
+
+        const attemptsLeft = Math.max(PIN_CONFIG.MAX_ATTEMPTS - ridePin.attempts - 1, 0);
+        throw new BadRequestError(`Invalid PIN (${attemptsLeft} attempts left)`);
+    }
+
+    return db.ridePin.update({
+        where: { rideId },
+        data: { verifiedAt: new Date() },
+    });
+}
@@ -1,43 +1,40 @@
-import { RideType } from "@prisma/client";
+import { RideType, Tariff, TariffRule, TariffZone } from "@prisma/client";
+import { calculateDistance, estimateTravelTime } from "../../utils/distance";
+import { getActiveTariff } from "../tariff/tariff.services";
+import { resolveTripZones } from "../tariff/tariff.zone.services";
+import { getApplicableTariffRules } from "../tariff/tariff.rule.services";
+import { getSurgeMultiplier } from "./ride.surge.services";
 
 /**
- * Configuration for pricing calculations
- * This can be moved to a database or config file in the future
+ * Default pricing configuration
+ * Used when no tariff has been published by an admin yet
  */
 const PRICING_CONFIG = {
-    BASE_FARE: 500, // Base fare in DA
-    // Future pricing factors (currently not used):
-    // PER_KM_RATE: 50,
-    // PER_MINUTE_RATE: 10,
-    // MINIMUM_FARE: 200,
-    // SURGE_MULTIPLIER: 1.0,
-    // TYPE_MULTIPLIERS: {
-    //     STANDARD: 1.0,
-    //     SEAT_RESERVE: 1.2,
-    //     DELIVERY: 0.8,
-    // },
+    BASE_FARE: 100, // Flag-fall charged on every ride, in DA
+    PER_KM_RATE: 50, // DA per kilometre
+    PER_MINUTE_RATE: 10, // DA per minute
+    MINIMUM_FARE: 200, // Final price never goes below this, in DA
+    STOP_FEE: 50, // Per intermediate stop, in DA
+    MAX_AVERAGE_SPEED_KMH: 90, // A trip duration faster than this over the straight line is not believed
+    TYPE_MULTIPLIERS: {
+        [RideType.REGULAR]: 1.0,
+        [RideType.SEAT_RESERVE]: 1.2,
+        [RideType.DELIVERY]: 0.8,
+    } as Record<RideType, number>,
 };
 
 /**
- * Estimate the price for a ride
- * 
- * Currently uses a simple flat rate of 500 DA for all rides.
- * 
- * Future enhancements can include:
- * - Distance-based pricing (price per km)
- * - Time-based pricing (price per minute)
- * - Dynamic surge pricing based on demand
- * - Different rates for different ride types (STANDARD, SEAT_RESERVE, DELIVERY)
- * - Time-of-day pricing (rush hour, night time)
- * - Weather-based pricing
- * - Minimum fare requirements
- * - Package weight pricing for deliveries
- * - Seat count pricing for group rides
- * 
- * @param params - Ride parameters for estimation
- * @returns Estimated price in DA
+ * Intermediate stop of a trip, between origin and destination
+ */
+export interface TripStop {
+    lat: number;
+    lng: number;
+}
+
+/**
+ * Parameters accepted by the pricing functions
  */
-export function estimateRidePrice(params: {
+export interface RidePriceParams {
     type: RideType;
     distanceKm?: number;
     durationMin?: number;
@@ -49,66 +46,221 @@ export function estimateRidePrice(params: {
     originLng?: number;
     destLat?: number;
     destLng?: number;
-}): number {
-    // For now, return a flat rate
-    // In the future, this will contain complex logic based on the parameters
-
-    const basePrice = PRICING_CONFIG.BASE_FARE;
-
-    // Placeholder for future complex logic:
-    // let price = PRICING_CONFIG.MINIMUM_FARE;
-    // 
-    // if (params.distanceKm) {
-    //     price += params.distanceKm * PRICING_CONFIG.PER_KM_RATE;
-    // }
-    // 
-    // if (params.durationMin) {
-    //     price += params.durationMin * PRICING_CONFIG.PER_MINUTE_RATE;
-    // }
-    // 
-    // // Apply type-specific multiplier
-    // const typeMultiplier = PRICING_CONFIG.TYPE_MULTIPLIERS[params.type] || 1.0;
-    // price *= typeMultiplier;
-    // 
-    // // Apply surge pricing if applicable
-    // price *= PRICING_CONFIG.SURGE_MULTIPLIER;
-    // 
-    // return Math.round(price);
-
-    return basePrice;
+    pickupAt?: Date; // time the time-of-day rules are evaluated at, defaults to now
+    stops?: TripStop[]; // ordered waypoints between origin and destination
 }
 
 /**
- * Get a detailed price breakdown
- * This provides transparency to users about how the price is calculated
- * 
+ * Resolve the trip distance and duration used for pricing
+ * The client's routed distance and duration are never trusted below what the
+ * coordinates show: the distance is at least the straight line between them
+ * (through each stop, in order), and the duration at least that line driven
+ * at MAX_AVERAGE_SPEED_KMH. Without a routed distance the straight line is used.
+ */
+export function resolveTripMetrics(params: RidePriceParams) {
+    let straightLineKm = 0;
+
+    if (
+        params.originLat !== undefined &&
+        params.originLng !== undefined &&
+        params.destLat !== undefined &&
+        params.destLng !== undefined
+    ) {
+        const points = [
+            { lat: params.originLat, lng: params.originLng },
+            ...(params.stops ?? []),
+            { lat: params.destLat, lng: params.destLng },
+        ];
+
+        for (let i = 1; i < points.length; i++) {
+            straightLineKm += calculateDistance(points[i - 1]!.lat, points[i - 1]!.lng, points[i]!.lat, points[i]!.lng);
+        }
+    }
+
+    const distanceKm = Math.max(params.distanceKm ?? 0, straightLineKm);
+
+    const durationMin = Math.max(
+        params.durationMin ?? estimateTravelTime(distanceKm),
+        estimateTravelTime(straightLineKm, PRICING_CONFIG.MAX_AVERAGE_SPEED_KMH)
+    );
+
+    return { distanceKm, durationMin };
+}
+
+/**
+ * Zone resolution of a trip (see resolveTripZones)
+ */
+export interface TripZoning {
+    zone: TariffZone | null;
+    crossesZone: boolean;
+}
+
+const NO_ZONE: TripZoning = { zone: null, crossesZone: false };
+
+/**
+ * Terms of a time-of-day / holiday rule a ride is priced with
+ * Kept on the ride as they were at booking, since admins can edit rules later
+ */
+export type PricedTimeRule = Pick<TariffRule, "id" | "name" | "multiplier" | "surcharge">;
+
+/**
+ * Resolve the rates to price with from a tariff version (or the defaults)
+ * A pickup zone replaces the base rates; type multipliers stay the tariff's
+ */
+function resolvePricingRates(tariff: Tariff | null, zone: TariffZone | null) {
+    const rates = tariff
+        ? {
+            baseFare: tariff.baseFare,
+            perKmRate: tariff.perKmRate,
+            perMinuteRate: tariff.perMinuteRate,
+            minimumFare: tariff.minimumFare,
+            stopFee: tariff.stopFee,
+            typeMultipliers: {
+                [RideType.REGULAR]: tariff.regularMultiplier,
+                [RideType.SEAT_RESERVE]: tariff.seatReserveMultiplier,
+                [RideType.DELIVERY]: tariff.deliveryMultiplier,
+            } as Record<RideType, number>,
+        }
+        : {
+            baseFare: PRICING_CONFIG.BASE_FARE,
+            perKmRate: PRICING_CONFIG.PER_KM_RATE,
+            perMinuteRate: PRICING_CONFIG.PER_MINUTE_RATE,
+            minimumFare: PRICING_CONFIG.MINIMUM_FARE,
+            stopFee: PRICING_CONFIG.STOP_FEE,
+            typeMultipliers: PRICING_CONFIG.TYPE_MULTIPLIERS,
+        };
+
+    if (!zone) {
+        return rates;
+    }
+
+    return {
+        ...rates,
+        baseFare: zone.baseFare,
+        perKmRate: zone.perKmRate,
+        perMinuteRate: zone.perMinuteRate,
+        minimumFare: zone.minimumFare,
+    };
+}
+
+/**
+ * Calculate a detailed price breakdown with a given tariff and zone
+ * Pass null to price with the built-in defaults
+ *
+ * Formula:
+ *   subtotal = baseFare + distanceKm * perKmRate + durationMin * perMinuteRate
+ *              + crossZoneSurcharge (drop-off outside the pickup zone)
+ *              + stopCount * stopFee
+ *   rule     = subtotal * (rule.multiplier - 1) + rule.surcharge, for each time rule
+ *   total    = max((subtotal + rules) * typeMultiplier * surgeMultiplier, minimumFare)
+ *
  * @param params - Ride parameters for estimation
+ * @param tariff - Tariff version to price with
+ * @param zoning - Pickup zone of the trip, if any
+ * @param surgeMultiplier - Demand-based multiplier of the pickup area
+ * @param rules - Time-of-day / holiday rules applying at pickup time
  * @returns Detailed price breakdown
  */
-export function getRidePriceBreakdown(params: {
-    type: RideType;
-    distanceKm?: number;
-    durationMin?: number;
-    seatCount?: number;
-    packageWeight?: number;
-    origin?: string;
-    destination?: string;
-    originLat?: number;
-    originLng?: number;
-    destLat?: number;
-    destLng?: number;
-}) {
-    const totalPrice = estimateRidePrice(params);
+export function calculatePriceBreakdown(
+    params: RidePriceParams,
+    tariff: Tariff | null,
+    zoning: TripZoning = NO_ZONE,
+    surgeMultiplier: number = 1.0,
+    rules: PricedTimeRule[] = []
+) {
+    const { zone, crossesZone } = zoning;
+    const rates = resolvePricingRates(tariff, zone);
+    const { distanceKm, durationMin } = resolveTripMetrics(params);
+
+    const baseFare = rates.baseFare;
+    const distanceCharge = Math.round(distanceKm * rates.perKmRate);
+    const timeCharge = Math.round(durationMin * rates.perMinuteRate);
+    const crossZoneSurcharge = zone && crossesZone ? zone.crossZoneSurcharge : 0;
+    const stopCount = params.stops?.length ?? 0;
+    const stopCharge = stopCount * rates.stopFee;
+    const subtotal = baseFare + distanceCharge + timeCharge + crossZoneSurcharge + stopCharge;
+
+    // Each rule is its own line, computed on the same subtotal so order does not matter
+    const timeRules = rules.map((rule) => ({
+        ruleId: rule.id,
+        name: rule.name,
+        multiplier: rule.multiplier,
+        surcharge: rule.surcharge,
+        amount: Math.round(subtotal * (rule.multiplier - 1)) + rule.surcharge,
+    }));
+    const timeRulesTotal = timeRules.reduce((sum, line) => sum + line.amount, 0);
+
+    const typeMultiplier = rates.typeMultipliers[params.type] ?? 1.0;
+    const multipliedPrice = Math.max(
+        Math.round((subtotal + timeRulesTotal) * typeMultiplier * surgeMultiplier),
+        0
+    );
+
+    // Top up short rides to the minimum fare
+    const minimumFareAdjustment = Math.max(rates.minimumFare - multipliedPrice, 0);
+    const totalPrice = multipliedPrice + minimumFareAdjustment;
 
-    // For now, just return the base fare
-    // In the future, this will show itemized breakdown
     return {
-        baseFare: PRICING_CONFIG.BASE_FARE,
-        distanceCharge: 0,
-        timeCharge: 0,
-        typeMultiplier: 1.0,
-        surgeMultiplier: 1.0,
+        tariffId: tariff?.id ?? null,
+        tariffVersion: tariff?.version ?? null,
+        zoneId: zone?.id ?? null,
+        zoneName: zone?.name ?? null,
+        distanceKm: Number(distanceKm.toFixed(2)),
+        durationMin: Math.round(durationMin),
+        baseFare,
+        distanceCharge,
+        timeCharge,
+        crossZoneSurcharge,
+        stopCount,
+        stopCharge,
+        subtotal,
+        timeRules,
+        timeRulesTotal,
+        typeMultiplier,
+        surgeMultiplier,
+        minimumFare: rates.minimumFare,
+        minimumFareAdjustment,
         totalPrice,
         currency: "DA",
     };
 }
+
+/**
+ * Get a detailed price breakdown using the tariff currently in effect,
+ * the tariff zone and the current surge of the pickup point, and the
+ * time-of-day / holiday rules applying at pickup time
+ * Rides booked for a later pickup are not surged: current demand says
+ * nothing about demand at pickup time
+ * This provides transparency to users about how the price is calculated
+ *
+ * @param params - Ride parameters for estimation
+ * @returns Detailed price breakdown
+ */
+export async function getRidePriceBreakdown(params: RidePriceParams) {
+    const isScheduled = params.pickupAt !== undefined && params.pickupAt.getTime() > Date.now();
+
+    const [tariff, zoning, surgeMultiplier, rules] = await Promise.all([
+        getActiveTariff(),
+        resolveTripZones(params),
+        isScheduled ? 1.0 : getSurgeMultiplier(params.originLat, params.originLng),
+        getApplicableTariffRules(params.pickupAt),
+    ]);
+    return calculatePriceBreakdown(params, tariff, zoning, surgeMultiplier, rules);
+}
+
+/**
+ * Estimate the price for a ride
+ *
+ * The price is made of a base fare plus a per-km and a per-minute charge,
+ * plus a fee per intermediate stop and any night / weekend / holiday rule lines, scaled by the ride type
+ * and surge multipliers and never below the minimum fare.
+ * Rates come from the tariff currently in effect, or from the pickup zone.
+ * See getRidePriceBreakdown for the itemised version.
+ *
+ * @param params - Ride parameters for estimation
+ * @returns Estimated price in DA
+ */
+export async function estimateRidePrice(params: RidePriceParams): Promise<number> {
+    const breakdown = await getRidePriceBreakdown(params);
+    return breakdown.totalPrice;
+}
@@ -0,0 +1,202 @@
+import jwt from "jsonwebtoken";
+import { RideType } from "@prisma/client";
+import { calculateDistance } from "../../utils/distance";
+import { BadRequestError } from "../../utils/errors";
+import { getRidePriceBreakdown, PricedTimeRule, RidePriceParams, TripStop } from "./ride.pricing.services";
+
+/**
+ * Quote configuration
+ */
+const QUOTE_CONFIG = {
+    TTL_SECONDS: Number(process.env.QUOTE_TTL_SECONDS) || 5 * 60, // How long an estimate can be booked at
+    LOCATION_TOLERANCE_KM: 0.1, // Max drift between quoted and booked coordinates
+    AUDIENCE: "ride-quote",
+};
+
+/**
+ * Trip a quote is bound to
+ */
+export interface QuotedTrip {
+    type: RideType;
+    originLat: number;
+    originLng: number;
+    destLat: number;
+    destLng: number;
+    distanceKm?: number;
+    durationMin?: number;
+    seatCount?: number;
+    packageWeight?: number;
+    pickupAt?: Date;
+    stops?: TripStop[];
+}
+
+/**
+ * Pricing fields stored on a ride
+ */
+export interface RidePricing {
+    price: number;
+    tariffId: string | null;
+    zoneId: string | null;
+    crossZoneSurcharge: number;
+    surgeMultiplier: number;
+    timeRuleIds: string[];
+    timeRules: PricedTimeRule[];
+}
+
+interface QuotePayload extends RidePricing {
+    trip: QuotedTrip;
+}
+
+/**
+ * Quotes are signed with their own secret so they can never be
+ * used as access tokens (and the other way around)
+ */
+function getQuoteSecret() {
+    return process.env.QUOTE_SECRET || `${process.env.JWT_ACCESS_SECRET || "VTC_SECRET"}:ride-quote`;
+}
+
+function toPricing(breakdown: Awaited<ReturnType<typeof getRidePriceBreakdown>>): RidePricing {
+    return {
+        price: breakdown.totalPrice,
+        tariffId: breakdown.tariffId,
+        zoneId: breakdown.zoneId,
+        crossZoneSurcharge: breakdown.crossZoneSurcharge,
+        surgeMultiplier: breakdown.surgeMultiplier,
+        timeRuleIds: breakdown.timeRules.map((line) => line.ruleId),
+        timeRules: breakdown.timeRules.map(({ ruleId, name, multiplier, surcharge }) => ({
+            id: ruleId,
+            name,
+            multiplier,
+            surcharge,
+        })),
+    };
+}
+
+/**
+ * Issue a signed, expiring quote for an estimated trip
+ * Returns null when the trip has no coordinates (it cannot be booked as is)
+ *
+ * @param params - Ride parameters the estimate was computed with
+ * @param breakdown - Price breakdown returned by the estimate
+ */
+export function issueQuote(
+    params: RidePriceParams,
+    breakdown: Awaited<ReturnType<typeof getRidePriceBreakdown>>
+) {
+    if (
+        params.originLat === undefined ||
+        params.originLng === undefined ||
+        params.destLat === undefined ||
+        params.destLng === undefined
+    ) {
+        return null;
+    }
+
+    const payload: QuotePayload = {
+        trip: {
+            type: params.type,
+            originLat: params.originLat,
+            originLng: params.originLng,
+            destLat: params.destLat,
+            destLng: params.destLng,
+            ...(params.distanceKm !== undefined && { distanceKm: params.distanceKm }),
+            ...(params.durationMin !== undefined && { durationMin: params.durationMin }),
+            ...(params.seatCount !== undefined && { seatCount: params.seatCount }),
+            ...(params.packageWeight !== undefined && { packageWeight: params.packageWeight }),
+            ...(params.pickupAt !== undefined && { pickupAt: params.pickupAt }),
+            ...(params.stops?.length && { stops: params.stops.map(({ lat, lng }) => ({ lat, lng })) }),
+        },
+        ...toPricing(breakdown),
+    };
+
+    const quoteId = jwt.sign(payload, getQuoteSecret(), {
+        expiresIn: QUOTE_CONFIG.TTL_SECONDS,
+        audience: QUOTE_CONFIG.AUDIENCE,
+    });
+
+    return {
+        quoteId,
+        expiresAt: new Date(Date.now() + QUOTE_CONFIG.TTL_SECONDS * 1000),
+    };
+}
+
+/**
+ * Check that a ride is the trip that was quoted
+ */
+function matchesQuotedTrip(quoted: QuotedTrip, trip: QuotedTrip) {
+    const sameOptional = (a?: number | null, b?: number | null) => (a ?? null) === (b ?? null);
+    // Dates come back from the token as ISO strings
+    const timeOf = (date?: Date) => (date !== undefined ? new Date(date).getTime() : null);
+    const quotedStops = quoted.stops ?? [];
+    const tripStops = trip.stops ?? [];
+    const sameStops =
+        quotedStops.length === tripStops.length &&
+        quotedStops.every((stop, i) =>
+            calculateDistance(stop.lat, stop.lng, tripStops[i]!.lat, tripStops[i]!.lng) <= QUOTE_CONFIG.LOCATION_TOLERANCE_KM
+        );
+
+    return (
+        quoted.type === trip.type &&
+        calculateDistance(quoted.originLat, quoted.originLng, trip.originLat, trip.originLng) <= QUOTE_CONFIG.LOCATION_TOLERANCE_KM &&
+        calculateDistance(quoted.destLat, quoted.destLng, trip.destLat, trip.destLng) <= QUOTE_CONFIG.LOCATION_TOLERANCE_KM &&
+        sameOptional(quoted.distanceKm, trip.distanceKm) &&
+        sameOptional(quoted.durationMin, trip.durationMin) &&
+        sameOptional(quoted.seatCount, trip.seatCount) &&
+        sameOptional(quoted.packageWeight, trip.packageWeight) &&
+        sameOptional(timeOf(quoted.pickupAt), timeOf(trip.pickupAt)) &&
+        sameStops
+    );
+}
+
+/**
+ * Verify a quote and return the pricing it guarantees
+ *
+ * @param quoteId - Quote returned by POST /rides/estimate
+ * @param trip - Trip being booked
+ * @throws BadRequestError if the quote is expired, forged or for another trip
+ */
+export function verifyQuote(quoteId: string, trip: QuotedTrip): RidePricing {
+    let payload: QuotePayload;
+
+    try {
+        payload = jwt.verify(quoteId, getQuoteSecret(), {
+            audience: QUOTE_CONFIG.AUDIENCE,
+        }) as unknown as QuotePayload;
+    } catch (error) {
+        if (error instanceof jwt.TokenExpiredError) {
+            throw new BadRequestError("Quote has expired. Please request a new estimate");
+        }
+        throw new BadRequestError("Invalid quote");
+    }
+
+    if (!matchesQuotedTrip(payload.trip, trip)) {
+        throw new BadRequestError("Quote does not match this ride");
+    }
+
+    return {
+        price: payload.price,
+        tariffId: payload.tariffId,
+        zoneId: payload.zoneId,
+        crossZoneSurcharge: payload.crossZoneSurcharge,
+        surgeMultiplier: payload.surgeMultiplier,
+        timeRuleIds: payload.timeRuleIds,
+        timeRules: payload.timeRules,
+    };
+}
+
+/**
+ * Price a ride being booked
+ * The quoted price is honoured when a valid quote is given,
+ * otherwise the price is recomputed server-side
+ *
+ * @param trip - Trip being booked
+ * @param quoteId - Optional quote returned by POST /rides/estimate
+ */
+export async function resolveRidePricing(trip: QuotedTrip, quoteId?: string): Promise<RidePricing> {
+    if (quoteId) {
+        return verifyQuote(quoteId, trip);
+    }
+
+    const breakdown = await getRidePriceBreakdown(trip);
+    return toPricing(breakdown);
+}
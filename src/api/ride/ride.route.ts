@@ -1,6 +1,6 @@
 import express, { Request, Response } from "express";
 import { JwtPayload } from "jsonwebtoken";
-import { isAuthenticated, requireRole } from "../../middlewares/middlewares";
+import { createUploader, isAuthenticated, optionalAuthentication, removeUploadedFile, requireRole } from "../../middlewares/middlewares";
 import {
     createRide,
     findRideById,
@@ -15,11 +15,39 @@ import {
     cancelRide,
     updateRide,
 } from "./ride.services";
-import { estimateRidePrice, getRidePriceBreakdown } from "./ride.pricing.services";
-import { Role, RideStatus, RideType } from "@prisma/client";
+import { getRidePriceBreakdown } from "./ride.pricing.services";
+import { issueQuote } from "./ride.quote.services";
+import {
+    createRideOffer,
+    withdrawRideOffer,
+    getRideOffers,
+    acceptRideOffer,
+} from "./ride.offer.services";
+import { getSurgeMap } from "./ride.surge.services";
+import { declineDispatchOffer } from "./ride.dispatch.services";
+import { applyPromoCode } from "../promo/promo.services";
+import {
+    getOpenScheduledRides,
+    getDriverReservations,
+    reserveScheduledRide,
+} from "./ride.schedule.services";
+import { markStopReached, validateRideStops } from "./ride.stop.services";
+import { addDeliveryPhoto, resendDeliveryCode, validateDeliveryDetails } from "./ride.delivery.services";
+import { createShareToken, getSharedRide, revokeShareTokens } from "./ride.share.services";
+import { getRidePin, reissueRidePin } from "./ride.pin.services";
+import { TRACK_FORMATS, TrackFormat, getRideTrack, toTrackGeoJson, toTrackGpx } from "./ride.trail.services";
+import { getPassengerNoShows, getRepeatNoShowPassengers, markPassengerNoShow } from "./ride.noshow.services";
+import {
+    CANCELLATION_REASONS,
+    getCancellationFeePreview,
+    getCancellationReport,
+} from "./ride.cancellation.services";
+import { DeliveryPhotoStage, PackageSize, Role, RideStatus, RideType } from "@prisma/client";
 
 const router = express.Router();
 
+const deliveryPhotoUpload = createUploader("deliveries");
+
 interface AuthenticatedRequest extends Request {
     payload?: JwtPayload & { userId: string; role: Role };
 }
@@ -30,10 +58,16 @@ interface CustomError extends Error {
 
 /**
  * POST /rides/estimate - Estimate price for a ride (anyone can call this)
+ * With full coordinates, also returns a signed quoteId that books the ride
+ * at this price until it expires.
+ * A promoCode can be previewed by logged-in passengers (limits are per user).
+ * Pass scheduledAt to price a ride booked for later, and stops
+ * ([{ lat, lng }], in order) for a multi-stop ride.
  */
 router.post(
     "/estimate",
-    async (req: Request, res: Response, next: any) => {
+    optionalAuthentication,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
         try {
             const {
                 type,
@@ -47,12 +81,18 @@ router.post(
                 originLng,
                 destLat,
                 destLng,
+                promoCode,
+                scheduledAt,
+                stops,
             }: {
                 type: RideType;
                 distanceKm?: number;
                 durationMin?: number;
                 seatCount?: number;
                 packageWeight?: number;
+                promoCode?: string;
+                scheduledAt?: string;
+                stops?: Array<{ lat: number; lng: number }>;
                 origin?: string;
                 destination?: string;
                 originLat?: number;
@@ -68,24 +108,19 @@ router.post(
                 });
             }
 
-            // Get price estimation
-            const estimatedPrice = estimateRidePrice({
-                type,
-                ...(distanceKm !== undefined && { distanceKm }),
-                ...(durationMin !== undefined && { durationMin }),
-                ...(seatCount !== undefined && { seatCount }),
-                ...(packageWeight !== undefined && { packageWeight }),
-                ...(origin !== undefined && { origin }),
-                ...(destination !== undefined && { destination }),
-                ...(originLat !== undefined && { originLat }),
-                ...(originLng !== undefined && { originLng }),
-                ...(destLat !== undefined && { destLat }),
-                ...(destLng !== undefined && { destLng }),
-            });
+            const pickupAt = scheduledAt !== undefined ? new Date(scheduledAt) : undefined;
+            if (pickupAt && isNaN(pickupAt.getTime())) {
+                return res.status(400).json({
+                    error: "scheduledAt must be a valid date",
+                });
+            }
+
+            const tripStops = stops !== undefined ? validateRideStops(stops) : [];
 
-            // Get detailed breakdown
-            const breakdown = getRidePriceBreakdown({
+            const params = {
                 type,
+                ...(pickupAt !== undefined && { pickupAt }),
+                ...(tripStops.length > 0 && { stops: tripStops }),
                 ...(distanceKm !== undefined && { distanceKm }),
                 ...(durationMin !== undefined && { durationMin }),
                 ...(seatCount !== undefined && { seatCount }),
@@ -96,11 +131,32 @@ router.post(
                 ...(originLng !== undefined && { originLng }),
                 ...(destLat !== undefined && { destLat }),
                 ...(destLng !== undefined && { destLng }),
-            });
+            };
+
+            if (promoCode && !req.payload) {
+                return res.status(401).json({
+                    error: "Log in to apply a promo code",
+                });
+            }
+
+            // Get detailed breakdown (the total is the estimated price)
+            const breakdown = await getRidePriceBreakdown(params);
+            const quote = issueQuote(params, breakdown);
+
+            // The quote keeps the full fare; the promo code is applied again at booking
+            const promo = promoCode
+                ? await applyPromoCode(promoCode, req.payload!.userId, params, breakdown.totalPrice)
+                : null;
+            const discountAmount = promo?.discountAmount ?? 0;
 
             res.json({
-                estimatedPrice,
+                estimatedPrice: breakdown.totalPrice,
                 breakdown,
+                promoCode: promo?.promoCode.code ?? null,
+                discountAmount,
+                payablePrice: breakdown.totalPrice - discountAmount,
+                quoteId: quote?.quoteId ?? null,
+                quoteExpiresAt: quote?.expiresAt ?? null,
             });
         } catch (error: any) {
             const statusCode = (error as CustomError).statusCode || 500;
@@ -111,6 +167,13 @@ router.post(
 
 /**
  * POST /rides - Create a new ride (passengers only)
+ * Pass the quoteId from /rides/estimate to book at the quoted price,
+ * otherwise the price is computed server-side. An optional promoCode
+ * discounts what the passenger pays. With scheduledAt the ride is booked
+ * for later and dispatched shortly before pickup. Optional stops
+ * ([{ lat, lng }], in order) are visited between origin and destination.
+ * Deliveries need the recipient's name and phone, who receives the code
+ * that completes the delivery.
  */
 router.post(
     "/",
@@ -127,9 +190,17 @@ router.post(
                 destLng,
                 distanceKm,
                 durationMin,
-                price,
+                quoteId,
+                promoCode,
+                scheduledAt,
+                stops,
                 seatCount,
                 packageWeight,
+                recipientName,
+                recipientPhone,
+                packageDescription,
+                packageSize,
+                isFragile,
             }: {
                 type: RideType;
                 originLat: number;
@@ -138,12 +209,20 @@ router.post(
                 destLng: number;
                 distanceKm?: number;
                 durationMin?: number;
-                price?: number;
+                quoteId?: string;
+                promoCode?: string;
+                scheduledAt?: string;
+                stops?: Array<{ lat: number; lng: number }>;
                 seatCount?: number;
                 packageWeight?: number;
+                recipientName?: string;
+                recipientPhone?: string;
+                packageDescription?: string;
+                packageSize?: PackageSize;
+                isFragile?: boolean;
             } = req.body;
 
-            // Validation - required fields (price is now optional, calculated in backend)
+            // Validation - required fields (price comes from the quote or the backend)
             if (!type || originLat === undefined || originLng === undefined ||
                 destLat === undefined || destLng === undefined) {
                 return res.status(400).json({
@@ -176,6 +255,25 @@ router.post(
                 });
             }
 
+            const pickupAt = scheduledAt !== undefined ? new Date(scheduledAt) : undefined;
+            if (pickupAt && isNaN(pickupAt.getTime())) {
+                return res.status(400).json({
+                    error: "scheduledAt must be a valid date",
+                });
+            }
+
+            const tripStops = stops !== undefined ? validateRideStops(stops) : [];
+
+            const delivery = type === RideType.DELIVERY
+                ? validateDeliveryDetails({
+                    ...(recipientName !== undefined && { recipientName }),
+                    ...(recipientPhone !== undefined && { recipientPhone }),
+                    ...(packageDescription !== undefined && { packageDescription }),
+                    ...(packageSize !== undefined && { packageSize }),
+                    ...(isFragile !== undefined && { isFragile }),
+                })
+                : undefined;
+
             const ride = await createRide({
                 userId,
                 type,
@@ -183,11 +281,15 @@ router.post(
                 originLng,
                 destLat,
                 destLng,
-                ...(price !== undefined && { price }),
+                ...(quoteId !== undefined && { quoteId }),
+                ...(promoCode !== undefined && { promoCode }),
+                ...(pickupAt !== undefined && { scheduledAt: pickupAt }),
+                ...(tripStops.length > 0 && { stops: tripStops }),
                 ...(distanceKm !== undefined && { distanceKm }),
                 ...(durationMin !== undefined && { durationMin }),
                 ...(seatCount !== undefined && { seatCount }),
                 ...(packageWeight !== undefined && { packageWeight }),
+                ...(delivery !== undefined && { delivery }),
             });
 
             res.status(201).json(ride);
@@ -199,7 +301,7 @@ router.post(
 );
 
 /**
- * GET /rides/pending - Get nearby pending rides (drivers only)
+ * GET /rides/pending - Get nearby pending rides the driver's vehicle and preferences suit (drivers only)
  * Requires ?lat=XX&lng=YY
  */
 router.get(
@@ -226,7 +328,65 @@ router.get(
                 return res.status(400).json({ error: "radiusKm must be a valid number" });
             }
 
-            const rides = await getPendingRides(driverLat, driverLng, radius);
+            const { userId } = req.payload!;
+            const rides = await getPendingRides(userId, driverLat, driverLng, radius);
+            res.json(rides);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/scheduled - Get nearby scheduled rides open for reservation (drivers only)
+ * Requires ?lat=XX&lng=YY
+ */
+router.get(
+    "/scheduled",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { lat, lng, radiusKm } = req.query;
+
+            if (!lat || !lng) {
+                return res.status(400).json({ error: "lat and lng query parameters are required" });
+            }
+
+            const driverLat = parseFloat(lat as string);
+            const driverLng = parseFloat(lng as string);
+
+            if (isNaN(driverLat) || isNaN(driverLng)) {
+                return res.status(400).json({ error: "lat and lng must be valid numbers" });
+            }
+
+            const radius = radiusKm ? parseFloat(radiusKm as string) : undefined;
+            if (radiusKm && isNaN(radius!)) {
+                return res.status(400).json({ error: "radiusKm must be a valid number" });
+            }
+
+            const { userId } = req.payload!;
+            const rides = await getOpenScheduledRides(userId, driverLat, driverLng, radius);
+            res.json(rides);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/reservations - Get the scheduled rides reserved by the driver
+ */
+router.get(
+    "/reservations",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { userId } = req.payload!;
+            const rides = await getDriverReservations(userId);
             res.json(rides);
         } catch (error: any) {
             const statusCode = (error as CustomError).statusCode || 500;
@@ -235,6 +395,144 @@ router.get(
     }
 );
 
+/**
+ * GET /rides/surge - Get the current surge map (admin only)
+ * Pending rides vs available drivers per area, with the multiplier applied to new rides
+ */
+router.get(
+    "/surge",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const surgeMap = await getSurgeMap();
+            res.json(surgeMap);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/cancellation-reasons - Reasons each actor can give when cancelling
+ */
+router.get(
+    "/cancellation-reasons",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        res.json(CANCELLATION_REASONS);
+    }
+);
+
+/**
+ * GET /rides/cancellations/report - Cancellation rates by reason, driver, wilaya and hour (admin only)
+ * Query: from, to (ISO dates, default the last 30 days)
+ */
+router.get(
+    "/cancellations/report",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const to = req.query.to ? new Date(req.query.to as string) : new Date();
+            const from = req.query.from
+                ? new Date(req.query.from as string)
+                : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+            if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+                return res.status(400).json({ error: "from and to must be valid dates, from before to" });
+            }
+
+            const report = await getCancellationReport({ from, to });
+            res.json(report);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/no-shows - Get the passengers with repeat no-shows (admin only)
+ * Query: minCount (no-shows, default 2), sinceDays (default 90)
+ */
+router.get(
+    "/no-shows",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const minCount = req.query.minCount !== undefined ? Number(req.query.minCount) : undefined;
+            const sinceDays = req.query.sinceDays !== undefined ? Number(req.query.sinceDays) : undefined;
+
+            if (minCount !== undefined && (!Number.isInteger(minCount) || minCount < 1)) {
+                return res.status(400).json({ error: "minCount must be a positive integer" });
+            }
+
+            if (sinceDays !== undefined && (!Number.isInteger(sinceDays) || sinceDays < 1)) {
+                return res.status(400).json({ error: "sinceDays must be a positive integer" });
+            }
+
+            const report = await getRepeatNoShowPassengers({
+                ...(minCount !== undefined && { minCount }),
+                ...(sinceDays !== undefined && { sinceDays }),
+            });
+            res.json(report);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/no-shows/:passengerId - Get the no-shows of a passenger (admin only)
+ */
+router.get(
+    "/no-shows/:passengerId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { passengerId } = req.params;
+
+            if (!passengerId) {
+                return res.status(400).json({ error: "passengerId is required" });
+            }
+
+            const noShows = await getPassengerNoShows(passengerId);
+            res.json(noShows);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/shared/:token - Follow a shared ride (no account needed)
+ * Read-only status and live driver position, while the tracking link is valid
+ */
+router.get(
+    "/shared/:token",
+    async (req: Request, res: Response, next: any) => {
+        try {
+            const { token } = req.params;
+
+            if (!token) {
+                return res.status(400).json({ error: "token is required" });
+            }
+
+            const ride = await getSharedRide(token);
+            res.json(ride);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
 /**
  * GET /rides/user - Get all rides for the authenticated user (passenger) with optional status filter
  */
@@ -260,8 +558,8 @@ router.get(
 
 /**
  * GET /rides/current - Get current ride for the authenticated user (role-aware)
- * - Passengers: Returns latest PENDING, ACCEPTED, or ONGOING ride (filtered by userId)
- * - Drivers: Returns latest ACCEPTED or ONGOING ride (filtered by driverId)
+ * - Passengers: Returns latest PENDING, ACCEPTED, ARRIVED or ONGOING ride (filtered by userId)
+ * - Drivers: Returns latest ACCEPTED, ARRIVED or ONGOING ride (filtered by driverId)
  */
 router.get(
     "/current",
@@ -308,7 +606,8 @@ router.get(
 );
 
 /**
- * GET /rides/:rideId - Get ride details by ID
+ * GET /rides/:rideId - Get ride details by ID (passenger, driver or admin)
+ * Deliveries include the pickup and drop-off photos
  */
 router.get(
     "/:rideId",
@@ -316,7 +615,7 @@ router.get(
     async (req: AuthenticatedRequest, res: Response, next: any) => {
         try {
             const { rideId } = req.params;
-            const { userId } = req.payload!;
+            const { userId, role } = req.payload!;
 
             if (!rideId) {
                 return res.status(400).json({ error: "rideId is required" });
@@ -329,7 +628,7 @@ router.get(
             }
 
             // Verify the user is part of this ride
-            if (ride.userId !== userId && ride.driverId !== userId) {
+            if (ride.userId !== userId && ride.driverId !== userId && role !== Role.ADMIN) {
                 return res
                     .status(403)
                     .json({ error: "Unauthorized: You are not part of this ride" });
@@ -374,40 +673,85 @@ router.post(
 );
 
 /**
- * PUT /rides/:rideId/status - Update ride status
+ * POST /rides/:rideId/reserve - Reserve a scheduled ride in advance (drivers only)
+ * Cancel the reservation with PUT /rides/:rideId/cancel
  */
-router.put(
-    "/:rideId/status",
+router.post(
+    "/:rideId/reserve",
     isAuthenticated,
+    requireRole(Role.DRIVER),
     async (req: AuthenticatedRequest, res: Response, next: any) => {
         try {
             const { rideId } = req.params;
             const { userId } = req.payload!;
-            const { status } = req.body;
+            const { vehicleId } = req.body;
 
             if (!rideId) {
                 return res.status(400).json({ error: "rideId is required" });
             }
 
-            if (!status) {
-                return res.status(400).json({ error: "status is required" });
+            if (!vehicleId) {
+                return res.status(400).json({ error: "vehicleId is required" });
             }
 
-            // Validate status
-            if (!Object.values(RideStatus).includes(status)) {
-                return res.status(400).json({ error: "Invalid status value" });
+            const ride = await reserveScheduledRide(rideId, userId, vehicleId);
+            res.json(ride);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /rides/:rideId/offers - Make or revise a counter-offer on a pending ride (drivers only)
+ */
+router.post(
+    "/:rideId/offers",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+            const { price, vehicleId } = req.body;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
             }
 
-            const ride = await updateRideStatus(rideId, status, userId);
-            res.json(ride);
+            if (price === undefined || !vehicleId) {
+                return res.status(400).json({ error: "Missing required fields: price, vehicleId" });
+            }
+
+            const offer = await createRideOffer(rideId, userId, { price, vehicleId });
+            res.status(201).json(offer);
         } catch (error: any) {
-            // Handle insufficient balance error
-            if (error.message === "Insufficient balance to complete ride") {
-                return res.status(402).json({
-                    error: error.message,
-                    code: "INSUFFICIENT_BALANCE"
-                });
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * DELETE /rides/:rideId/offers - Withdraw own offer (drivers only)
+ */
+router.delete(
+    "/:rideId/offers",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
             }
+
+            const offer = await withdrawRideOffer(rideId, userId);
+            res.json(offer);
+        } catch (error: any) {
             const statusCode = (error as CustomError).statusCode || 500;
             res.status(statusCode).json({ error: error.message });
         }
@@ -415,11 +759,13 @@ router.put(
 );
 
 /**
- * PUT /rides/:rideId/cancel - Cancel a ride
+ * POST /rides/:rideId/dispatch/decline - Decline a ride offered to you alone (drivers only)
+ * The ride is offered to the next driver right away
  */
-router.put(
-    "/:rideId/cancel",
+router.post(
+    "/:rideId/dispatch/decline",
     isAuthenticated,
+    requireRole(Role.DRIVER),
     async (req: AuthenticatedRequest, res: Response, next: any) => {
         try {
             const { rideId } = req.params;
@@ -429,7 +775,419 @@ router.put(
                 return res.status(400).json({ error: "rideId is required" });
             }
 
-            const ride = await cancelRide(rideId, userId);
+            const offer = await declineDispatchOffer(rideId, userId);
+            res.json(offer);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/:rideId/offers - Get live driver offers on own ride (passenger)
+ */
+router.get(
+    "/:rideId/offers",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            const offers = await getRideOffers(rideId, userId);
+            res.json(offers);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /rides/:rideId/offers/:offerId/accept - Accept a driver's offer (passenger)
+ * The ride is accepted by that driver at the offered price
+ */
+router.post(
+    "/:rideId/offers/:offerId/accept",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId, offerId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId || !offerId) {
+                return res.status(400).json({ error: "rideId and offerId are required" });
+            }
+
+            const ride = await acceptRideOffer(rideId, offerId, userId);
+            res.json(ride);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /rides/:rideId/status - Update ride status
+ * Starting a ride needs the passenger's pin; completing a delivery needs the recipient's deliveryCode
+ */
+router.put(
+    "/:rideId/status",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+            const { status, pin, deliveryCode } = req.body;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            if (!status) {
+                return res.status(400).json({ error: "status is required" });
+            }
+
+            // Validate status
+            if (!Object.values(RideStatus).includes(status)) {
+                return res.status(400).json({ error: "Invalid status value" });
+            }
+
+            const ride = await updateRideStatus(rideId, status, userId, {
+                ...(pin !== undefined && { pin: String(pin) }),
+                ...(deliveryCode !== undefined && { deliveryCode: String(deliveryCode) }),
+            });
+            res.json(ride);
+        } catch (error: any) {
+            // Handle insufficient balance error
+            if (error.message === "Insufficient balance to complete ride") {
+                return res.status(402).json({
+                    error: error.message,
+                    code: "INSUFFICIENT_BALANCE"
+                });
+            }
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /rides/:rideId/stops/:stopId/reached - Mark an intermediate stop as reached (driver only)
+ * Stops are reached in order during the ride; the passenger is notified live
+ */
+router.put(
+    "/:rideId/stops/:stopId/reached",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId, stopId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId || !stopId) {
+                return res.status(400).json({ error: "rideId and stopId are required" });
+            }
+
+            const progress = await markStopReached(rideId, stopId, userId);
+            res.json(progress);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /rides/:rideId/no-show - Report that the passenger never came (driver only)
+ * Only for an ARRIVED ride, once the wait grace period is over. Cancels the ride
+ * without a driver penalty and charges the passenger the no-show fee
+ */
+router.post(
+    "/:rideId/no-show",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            const result = await markPassengerNoShow(rideId, userId);
+            res.json(result);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /rides/:rideId/delivery-code - Text the recipient a new delivery code (sender only)
+ * For lost or expired codes, and after too many wrong attempts
+ */
+router.post(
+    "/:rideId/delivery-code",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            const result = await resendDeliveryCode(rideId, userId);
+            res.json(result);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /rides/:rideId/delivery-photos - Upload a pickup or drop-off photo of a delivery (driver only)
+ * Multipart body: photo (file), stage (PICKUP | DROPOFF), lat, lng (driver's current position)
+ * The file is deleted again when the photo is refused
+ */
+router.post(
+    "/:rideId/delivery-photos",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    deliveryPhotoUpload.single("photo"),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        let saved = false;
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+            const { stage, lat, lng } = req.body ?? {};
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            if (!req.file) {
+                return res.status(400).json({ error: "photo is required" });
+            }
+
+            if (lat === undefined || lng === undefined) {
+                return res.status(400).json({ error: "lat and lng of the driver are required" });
+            }
+
+            const photo = await addDeliveryPhoto(rideId, userId, {
+                stage: stage as DeliveryPhotoStage,
+                url: `uploads/deliveries/${req.file.filename}`,
+                lat: Number(lat),
+                lng: Number(lng),
+            });
+            saved = true;
+
+            res.status(201).json(photo);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        } finally {
+            if (!saved) {
+                await removeUploadedFile(req.file);
+            }
+        }
+    }
+);
+
+/**
+ * GET /rides/:rideId/pin - Get the PIN to give the driver at pickup (passenger only)
+ */
+router.get(
+    "/:rideId/pin",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            const result = await getRidePin(rideId, userId);
+            res.json(result);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /rides/:rideId/pin - Get a new PIN, e.g. after the driver entered too many wrong ones (passenger only)
+ */
+router.post(
+    "/:rideId/pin",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            const result = await reissueRidePin(rideId, userId);
+            res.json(result);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/:rideId/track - GPS trail of the ride, for route replay (passenger, driver or admin)
+ * Query: format = geojson (default, a Feature with a LineString) or gpx (a download)
+ * Every point comes with its timestamp, speed, heading and the ride status it was sent in
+ */
+router.get(
+    "/:rideId/track",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId, role } = req.payload!;
+            const format = (req.query.format ?? "geojson") as TrackFormat;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            if (!TRACK_FORMATS.includes(format)) {
+                return res.status(400).json({ error: `format must be one of: ${TRACK_FORMATS.join(", ")}` });
+            }
+
+            const track = await getRideTrack(rideId, userId, role);
+
+            if (format === "gpx") {
+                return res
+                    .type("application/gpx+xml")
+                    .attachment(`ride-${rideId}.gpx`)
+                    .send(toTrackGpx(track));
+            }
+
+            res.type("application/geo+json").json(toTrackGeoJson(track));
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /rides/:rideId/share - Create a tracking link for the ride (passenger only)
+ * Returns { token, expiresAt }; anyone with the token can follow the ride
+ */
+router.post(
+    "/:rideId/share",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            const share = await createShareToken(rideId, userId);
+            res.status(201).json(share);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * DELETE /rides/:rideId/share - Revoke every tracking link of the ride (passenger only)
+ */
+router.delete(
+    "/:rideId/share",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            const result = await revokeShareTokens(rideId, userId);
+            res.json(result);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /rides/:rideId/cancellation-fee - Fee the passenger would pay to cancel now (passenger only)
+ */
+router.get(
+    "/:rideId/cancellation-fee",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            const preview = await getCancellationFeePreview(rideId, userId);
+            res.json(preview);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /rides/:rideId/cancel - Cancel a ride (passenger, driver or admin)
+ * Body: reason (from the actor's catalogue, see GET /rides/cancellation-reasons), note (required for OTHER)
+ * A passenger cancelling late pays the fee of the cancellation policy (see cancellationFee)
+ */
+router.put(
+    "/:rideId/cancel",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { rideId } = req.params;
+            const { userId, role } = req.payload!;
+            const { reason, note } = req.body ?? {};
+
+            if (!rideId) {
+                return res.status(400).json({ error: "rideId is required" });
+            }
+
+            if (!reason) {
+                return res.status(400).json({ error: "reason is required" });
+            }
+
+            const ride = await cancelRide(rideId, userId, { reason, note }, role);
             res.json(ride);
         } catch (error: any) {
             const statusCode = (error as CustomError).statusCode || 500;
@@ -460,7 +1218,7 @@ router.put(
                 destLng,
                 distanceKm,
                 durationMin,
-                price,
+                quoteId,
                 seatCount,
                 packageWeight,
             } = req.body;
@@ -472,7 +1230,7 @@ router.put(
                 destLng,
                 distanceKm,
                 durationMin,
-                price,
+                quoteId,
                 seatCount,
                 packageWeight,
             });
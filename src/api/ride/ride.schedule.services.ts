@@ -0,0 +1,394 @@
+import { RideActor, RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { getRideEmitter } from "../../socket";
+import { calculateDistance } from "../../utils/distance";
+import { BadRequestError, NotFoundError } from "../../utils/errors";
+import { issueRidePin } from "./ride.pin.services";
+import { expirePendingRides } from "./ride.expiry.services";
+import { dispatchRide, expireStaleDispatchOffers } from "./ride.dispatch.services";
+import { getAcceptanceData } from "./ride.cancellation.services";
+import { recordStatusEvent } from "./ride.state.services";
+import {
+    assertDriverCanTakeRide,
+    findMatchingDriverIds,
+    getDriverMatchProfile,
+    isRideMatch,
+} from "./ride.matching.services";
+
+/**
+ * Scheduled ride configuration
+ */
+export const SCHEDULE_CONFIG = {
+    MIN_LEAD_MINUTES: Number(process.env.SCHEDULED_RIDE_MIN_LEAD_MINUTES) || 30, // Earliest pickup bookable in advance
+    MAX_DAYS_AHEAD: Number(process.env.SCHEDULED_RIDE_MAX_DAYS_AHEAD) || 7,
+    DISPATCH_LEAD_MINUTES: Number(process.env.SCHEDULED_RIDE_DISPATCH_LEAD_MINUTES) || 15, // Goes live this long before pickup
+    MAX_SCHEDULED_PER_USER: 5,
+    POLL_INTERVAL_SECONDS: Number(process.env.RIDE_SCHEDULER_INTERVAL_SECONDS) || 30,
+};
+
+const userSelect = {
+    select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        phoneNumber: true,
+        photo: true,
+    },
+};
+
+/**
+ * Check a passenger can book a ride for a given pickup time
+ *
+ * @throws BadRequestError if the time is too soon, too far ahead,
+ * or the passenger already has too many scheduled rides
+ */
+export async function assertCanSchedule(userId: string, scheduledAt: Date) {
+    if (isNaN(scheduledAt.getTime())) {
+        throw new BadRequestError("scheduledAt must be a valid date");
+    }
+
+    const now = Date.now();
+    if (scheduledAt.getTime() < now + SCHEDULE_CONFIG.MIN_LEAD_MINUTES * 60 * 1000) {
+        throw new BadRequestError(
+            `Scheduled rides must be booked at least ${SCHEDULE_CONFIG.MIN_LEAD_MINUTES} minutes in advance`
+        );
+    }
+
+    if (scheduledAt.getTime() > now + SCHEDULE_CONFIG.MAX_DAYS_AHEAD * 24 * 60 * 60 * 1000) {
+        throw new BadRequestError(
+            `Scheduled rides can be booked at most ${SCHEDULE_CONFIG.MAX_DAYS_AHEAD} days in advance`
+        );
+    }
+
+    const scheduledCount = await db.ride.count({
+        where: { userId, status: RideStatus.SCHEDULED },
+    });
+
+    if (scheduledCount >= SCHEDULE_CONFIG.MAX_SCHEDULED_PER_USER) {
+        throw new BadRequestError(
+            `You can have at most ${SCHEDULE_CONFIG.MAX_SCHEDULED_PER_USER} scheduled rides`
+        );
+    }
+}
+
+/**
+ * Announce a scheduled ride to the nearby drivers whose vehicle and preferences suit it
+ */
+export async function announceScheduledRide(
+    ride: any,
+    radiusKm: number = Number(process.env.MAX_RIDE_BROADCAST_DISTANCE_KM) || 10
+) {
+    try {
+        const matchingDriverIds = await findMatchingDriverIds(ride, radiusKm);
+
+        const emitter = getRideEmitter();
+        emitter.emitScheduledRideCreated(ride, matchingDriverIds);
+    } catch (error) {
+        // Socket.IO not initialized yet (e.g., in tests) - silent in test mode
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+}
+
+/**
+ * Get scheduled rides near a driver that no one reserved yet, soonest first
+ * Only the rides the driver's vehicle and preferences suit
+ */
+export async function getOpenScheduledRides(
+    driverId: string,
+    driverLat: number,
+    driverLng: number,
+    radiusKm: number = Number(process.env.MAX_RIDE_BROADCAST_DISTANCE_KM) || 10
+) {
+    const driverProfile = await getDriverMatchProfile(driverId);
+    if (!driverProfile) {
+        return [];
+    }
+
+    const rides = await db.ride.findMany({
+        where: {
+            status: RideStatus.SCHEDULED,
+            driverId: null,
+            scheduledAt: { gt: new Date() },
+        },
+        include: {
+            user: userSelect,
+            stops: { orderBy: { order: "asc" } },
+        },
+        orderBy: {
+            scheduledAt: "asc",
+        },
+    });
+
+    return rides
+        .map((ride) => ({
+            ...ride,
+            distance: Number(calculateDistance(driverLat, driverLng, ride.originLat, ride.originLng).toFixed(2)),
+        }))
+        .filter((ride) => ride.distance <= radiusKm && isRideMatch(driverProfile, ride, ride.distance));
+}
+
+/**
+ * Get the scheduled rides a driver reserved, soonest first
+ */
+export async function getDriverReservations(driverId: string) {
+    return db.ride.findMany({
+        where: {
+            driverId,
+            status: RideStatus.SCHEDULED,
+        },
+        include: {
+            user: userSelect,
+            vehicle: true,
+            stops: { orderBy: { order: "asc" } },
+        },
+        orderBy: {
+            scheduledAt: "asc",
+        },
+    });
+}
+
+/**
+ * Reserve a scheduled ride in advance (drivers only)
+ * The ride is assigned to the driver when it is dispatched
+ */
+export async function reserveScheduledRide(rideId: string, driverId: string, vehicleId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+        include: { tariff: true },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.status !== RideStatus.SCHEDULED) {
+        throw new BadRequestError("Only scheduled rides can be reserved");
+    }
+
+    if (ride.driverId) {
+        throw new BadRequestError("Ride is already reserved by another driver");
+    }
+
+    // Same checks as acceptRide, so the reservation does not fail at dispatch
+    await assertDriverCanTakeRide(driverId, vehicleId, ride, ride.price);
+
+    // Where the driver will be at pickup time is unknown: the pickup distance preference does not apply
+    const matchProfile = await getDriverMatchProfile(driverId);
+    if (!matchProfile || !isRideMatch(matchProfile, ride, 0)) {
+        throw new BadRequestError("This ride does not match your ride preferences");
+    }
+
+    // Only one driver can win the reservation
+    const { count } = await db.ride.updateMany({
+        where: { id: rideId, status: RideStatus.SCHEDULED, driverId: null },
+        data: { driverId, vehicleId, reservedAt: new Date() },
+    });
+
+    if (count === 0) {
+        throw new BadRequestError("Ride is already reserved by another driver");
+    }
+
+    const reservedRide = await db.ride.findUnique({
+        where: { id: rideId },
+        include: {
+            user: userSelect,
+            driver: userSelect,
+            vehicle: true,
+        },
+    });
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitRideReserved(reservedRide);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+
+    return reservedRide;
+}
+
+/**
+ * Whether a passenger, or a driver, is on a ride other than the given one
+ */
+async function isOnAnotherRide(rideId: string, person: { userId: string } | { driverId: string }) {
+    const otherRide = await db.ride.findFirst({
+        where: {
+            ...person,
+            id: { not: rideId },
+            // A driver is not on a ride they have not accepted yet
+            status: {
+                in: "userId" in person
+                    ? [RideStatus.PENDING, RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING]
+                    : [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING],
+            },
+        },
+        select: { id: true },
+    });
+
+    return otherRide !== null;
+}
+
+/**
+ * Dispatch the scheduled rides whose pickup is within the dispatch lead time
+ *
+ * Reserved rides become ACCEPTED for their driver; the others become
+ * PENDING and are dispatched to nearby drivers like immediate rides.
+ * From then on they count as the passenger's active ride, so a ride whose
+ * passenger is still on another ride waits for the next run. A reservation
+ * whose driver is on another ride by then is released and the ride is
+ * dispatched as PENDING instead.
+ */
+export async function dispatchScheduledRides(now: Date = new Date()) {
+    const dueBefore = new Date(now.getTime() + SCHEDULE_CONFIG.DISPATCH_LEAD_MINUTES * 60 * 1000);
+
+    const dueRides = await db.ride.findMany({
+        where: {
+            status: RideStatus.SCHEDULED,
+            scheduledAt: { lte: dueBefore },
+        },
+        select: { id: true, userId: true, driverId: true },
+        orderBy: { scheduledAt: "asc" },
+    });
+
+    let assigned = 0;
+    let broadcast = 0;
+
+    for (const due of dueRides) {
+        if (await isOnAnotherRide(due.id, { userId: due.userId })) {
+            continue;
+        }
+
+        // A reservation is only kept when the driver is free
+        const driverId = due.driverId && !(await isOnAnotherRide(due.id, { driverId: due.driverId }))
+            ? due.driverId
+            : null;
+        const status = driverId ? RideStatus.ACCEPTED : RideStatus.PENDING;
+
+        // Skip rides cancelled, reserved or dispatched in the meantime
+        const { count } = await db.ride.updateMany({
+            where: { id: due.id, status: RideStatus.SCHEDULED, driverId: due.driverId },
+            data: {
+                status,
+                dispatchedAt: now,
+                ...(driverId ? getAcceptanceData(driverId, now) : { pendingSince: now }),
+                ...(due.driverId && !driverId ? { driverId: null, vehicleId: null, reservedAt: null } : {}),
+            },
+        });
+
+        if (count === 0) {
+            continue;
+        }
+
+        await recordStatusEvent({
+            rideId: due.id,
+            from: RideStatus.SCHEDULED,
+            to: status,
+            actor: RideActor.SYSTEM,
+            userId: null,
+            driverId,
+        });
+
+        const ride = await db.ride.findUnique({
+            where: { id: due.id },
+            include: {
+                user: userSelect,
+                driver: userSelect,
+                vehicle: true,
+            },
+        });
+
+        if (!ride) {
+            continue;
+        }
+
+        if (status === RideStatus.ACCEPTED) {
+            await issueRidePin(ride);
+        }
+
+        if (status === RideStatus.PENDING) {
+            await dispatchRide(ride);
+            broadcast++;
+            continue;
+        }
+
+        try {
+            const emitter = getRideEmitter();
+            emitter.emitRideAccepted(ride);
+            emitter.emitRideDispatched(ride);
+        } catch (error) {
+            if (process.env.NODE_ENV !== 'test') {
+                console.log('WebSocket not available:', error);
+            }
+        }
+
+        assigned++;
+    }
+
+    return { assigned, broadcast };
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let isDispatching = false;
+
+/**
+ * Start dispatching scheduled rides, and expiring unanswered dispatch offers and unmatched pending rides, periodically
+ */
+export function startRideScheduler() {
+    if (schedulerTimer) {
+        return;
+    }
+
+    schedulerTimer = setInterval(async () => {
+        // A slow run must not overlap with the next one
+        if (isDispatching) {
+            return;
+        }
+
+        isDispatching = true;
+        try {
+            const { assigned, broadcast } = await dispatchScheduledRides();
+            if (assigned + broadcast > 0) {
+                console.log(`🗓️ Dispatched scheduled rides: ${assigned} to reserved drivers, ${broadcast} broadcast`);
+            }
+        } catch (error) {
+            console.error('❌ Scheduled ride dispatch failed:', error);
+        }
+
+        try {
+            const stale = await expireStaleDispatchOffers();
+            if (stale > 0) {
+                console.log(`⏱️ Expired ${stale} unanswered dispatch offers`);
+            }
+        } catch (error) {
+            console.error('❌ Dispatch offer expiry failed:', error);
+        }
+
+        try {
+            const { widened, expired } = await expirePendingRides();
+            if (widened + expired > 0) {
+                console.log(`⏳ Pending rides: ${widened} searches widened, ${expired} expired`);
+            }
+        } catch (error) {
+            console.error('❌ Pending ride expiry failed:', error);
+        } finally {
+            isDispatching = false;
+        }
+    }, SCHEDULE_CONFIG.POLL_INTERVAL_SECONDS * 1000);
+
+    // Do not keep the process alive just for the scheduler
+    schedulerTimer.unref();
+}
+
+/**
+ * Stop the scheduled ride dispatcher
+ */
+export function stopRideScheduler() {
+    if (schedulerTimer) {
+        clearInterval(schedulerTimer);
+        schedulerTimer = null;
+    }
+}
@@ -1,15 +1,64 @@
-import { RideStatus, RideType } from "@prisma/client";
+import { DispatchMode, Prisma, RideActor, RideOfferStatus, RideStatus, RideType, Role } from "@prisma/client";
 import { db } from "../../utils/db";
-import { processDriverCommission, processDriverCancellationPenalty } from "./ride.payment.services";
-import { estimateRidePrice } from "./ride.pricing.services";
+import {
+    collectCommissionDebts,
+    processDriverCommission,
+    processDriverCancellationPenalty,
+    processPromoDiscountRefund,
+} from "./ride.payment.services";
+import { resolveRidePricing } from "./ride.quote.services";
+import { TripStop } from "./ride.pricing.services";
+import {
+    applyPromoCode,
+    getRideDiscount,
+    reapplyPromoCode,
+    redeemPromoCode,
+    releasePromoRedemption,
+} from "../promo/promo.services";
+import { announceScheduledRide, assertCanSchedule } from "./ride.schedule.services";
+import {
+    DeliveryDetails,
+    createDeliveryCode,
+    sendDeliveryCode,
+    verifyDeliveryCode,
+} from "./ride.delivery.services";
+import { issueRidePin, verifyRidePin } from "./ride.pin.services";
+import {
+    assertHoldsDispatchOffer,
+    closeDispatchOffers,
+    dispatchRide,
+    getDispatchMode,
+} from "./ride.dispatch.services";
+import { assertDriverCanTakeRide, getDriverMatchProfile, isRideMatch } from "./ride.matching.services";
+import {
+    chargePassengerCancellationFee,
+    collectCancellationDebts,
+    getAcceptanceData,
+    recordCancellation,
+    validateCancellationReason,
+} from "./ride.cancellation.services";
+import { assertRideTransition, getRideActor, recordStatusEvent } from "./ride.state.services";
+import { finaliseRideTrip } from "./ride.trail.services";
+import { closeRideOffers, rejectRideOffers } from "./ride.offer.services";
 import { getRideEmitter } from "../../socket";
-import { reverseGeocode } from "../../utils/geocoding";
-import { UnauthorizedError, NotFoundError, BadRequestError } from "../../utils/errors";
+import { reverseGeocode, reverseGeocodeRegion } from "../../utils/geocoding";
+import { UnauthorizedError, NotFoundError, BadRequestError, ConflictError } from "../../utils/errors";
+
+/**
+ * Error of the drivers who lose the race for a ride
+ */
+export const RIDE_TAKEN_ERROR = "Ride already taken by another driver";
 
 /**
  * Create a new ride for a passenger
  * Note: Passengers pay with cash directly to driver - no wallet check needed
- * Price is automatically calculated if not provided
+ * The price comes from a valid quote, or is calculated server-side.
+ * A promo code discount is recorded on the ride; the price stays the full fare.
+ * With scheduledAt the ride is booked for later (SCHEDULED) and only becomes
+ * the passenger's active ride when the scheduler dispatches it.
+ * Intermediate stops are priced in and stored in order, with their address.
+ * Deliveries carry their recipient and package details.
+ * Cancellation fees the passenger still owes are collected from their wallet.
  */
 export async function createRide(data: {
     userId: string;
@@ -20,16 +69,24 @@ export async function createRide(data: {
     destLng: number;
     distanceKm?: number;
     durationMin?: number;
-    price?: number;
+    quoteId?: string;
+    promoCode?: string;
+    scheduledAt?: Date;
+    stops?: TripStop[];
     seatCount?: number;
     packageWeight?: number;
+    delivery?: DeliveryDetails;
 }) {
-    // Check if user already has an active ride
-    const existingActiveRide = await db.ride.findFirst({
+    if (data.scheduledAt) {
+        await assertCanSchedule(data.userId, data.scheduledAt);
+    }
+
+    // Check if user already has an active ride (scheduled rides don't count until dispatched)
+    const existingActiveRide = data.scheduledAt ? null : await db.ride.findFirst({
         where: {
             userId: data.userId,
             status: {
-                in: [RideStatus.PENDING, RideStatus.ACCEPTED, RideStatus.ONGOING]
+                in: [RideStatus.PENDING, RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING]
             }
         },
         select: {
@@ -42,41 +99,71 @@ export async function createRide(data: {
         throw new Error(`You already have an active ride (${existingActiveRide.status}). Please complete or cancel it before creating a new one.`);
     }
 
-    // Calculate price if not provided
-    const finalPrice = data.price ?? estimateRidePrice({
+    // Unpaid late-cancellation fees are taken from the wallet when it allows
+    await collectCancellationDebts(data.userId);
+
+    // Quoted price, or the tariff in effect, the pickup zone, its surge and the time rules
+    const pricing = await resolveRidePricing({
         type: data.type,
         ...(data.distanceKm !== undefined && { distanceKm: data.distanceKm }),
         ...(data.durationMin !== undefined && { durationMin: data.durationMin }),
         ...(data.seatCount !== undefined && { seatCount: data.seatCount }),
         ...(data.packageWeight !== undefined && { packageWeight: data.packageWeight }),
+        ...(data.scheduledAt !== undefined && { pickupAt: data.scheduledAt }),
+        ...(data.stops?.length && { stops: data.stops }),
         originLat: data.originLat,
         originLng: data.originLng,
         destLat: data.destLat,
         destLng: data.destLng,
-    });
+    }, data.quoteId);
+
+    const promo = data.promoCode
+        ? await applyPromoCode(data.promoCode, data.userId, data, pricing.price)
+        : null;
 
     // Attempt to reverse geocode addresses (done in parallel for speed)
-    const [originAddress, destAddress] = await Promise.all([
+    const stops = data.stops ?? [];
+    const [originRegion, originAddress, destAddress, ...stopAddresses] = await Promise.all([
+        reverseGeocodeRegion(data.originLat, data.originLng),
         reverseGeocode(data.originLat, data.originLng),
-        reverseGeocode(data.destLat, data.destLng)
+        reverseGeocode(data.destLat, data.destLng),
+        ...stops.map((stop) => reverseGeocode(stop.lat, stop.lng)),
     ]);
 
-    const ride = await db.ride.create({
+    const createRideRecord = (client: Prisma.TransactionClient) => client.ride.create({
         data: {
             userId: data.userId,
             type: data.type,
             originLat: data.originLat,
             originLng: data.originLng,
             originAddress: originAddress,
+            originWilayaCode: originRegion?.wilayaCode ?? null,
             destLat: data.destLat,
             destLng: data.destLng,
             destAddress: destAddress,
             distanceKm: data.distanceKm ?? null,
             durationMin: data.durationMin ?? null,
-            price: finalPrice,
+            ...pricing,
+            ...(promo && {
+                promoCodeId: promo.promoCode.id,
+                discountAmount: promo.discountAmount,
+            }),
             seatCount: data.seatCount ?? null,
             packageWeight: data.packageWeight ?? null,
-            status: RideStatus.PENDING,
+            ...data.delivery,
+            ...(data.scheduledAt && { scheduledAt: data.scheduledAt }),
+            status: data.scheduledAt ? RideStatus.SCHEDULED : RideStatus.PENDING,
+            dispatchMode: getDispatchMode(data.type),
+            ...(stops.length > 0 && {
+                stops: {
+                    create: stops.map((stop, index) => ({
+                        order: index + 1,
+                        lat: stop.lat,
+                        lng: stop.lng,
+                        address: stopAddresses[index] ?? null,
+                    })),
+                },
+            }),
         },
         include: {
             user: {
@@ -88,25 +175,49 @@ export async function createRide(data: {
                     photo: true,
                 },
             },
+            stops: { orderBy: { order: "asc" } },
         },
     });
 
-    // Emit ride:created event to all drivers
-    try {
-        const emitter = getRideEmitter();
-        emitter.emitRideCreated(ride);
-    } catch (error) {
-        // Socket.IO not initialized yet (e.g., in tests) - silent in test mode
-        if (process.env.NODE_ENV !== 'test') {
-            console.log('WebSocket not available:', error);
+    let ride: Awaited<ReturnType<typeof createRideRecord>>;
+    if (!promo) {
+        ride = await createRideRecord(db);
+    } else {
+        // Of two bookings racing for the last use of a promo code only one commits
+        try {
+            ride = await db.$transaction(async (tx) => {
+                const created = await createRideRecord(tx);
+                await redeemPromoCode(tx, promo.promoCode, data.userId, created.id);
+                return created;
+            }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034") {
+                throw new BadRequestError("Promo code is no longer available");
+            }
+            throw error;
         }
     }
 
+    await recordStatusEvent({
+        rideId: ride.id,
+        from: null,
+        to: ride.status,
+        actor: RideActor.PASSENGER,
+        userId: data.userId,
+    });
+
+    // Scheduled rides are offered for reservation, the others dispatched to drivers right away
+    if (ride.status === RideStatus.SCHEDULED) {
+        await announceScheduledRide(ride);
+    } else {
+        await dispatchRide(ride);
+    }
+
     return ride;
 }
 
 /**
- * Find a ride by ID with all related data
+ * Find a ride by ID with all related data, and its timeline of status changes
  */
 export async function findRideById(rideId: string) {
     return db.ride.findUnique({
@@ -133,6 +244,9 @@ export async function findRideById(rideId: string) {
             vehicle: true,
             commission: true,
             ratings: true,
+            stops: { orderBy: { order: "asc" } },
+            deliveryPhotos: { orderBy: { takenAt: "asc" } },
+            statusEvents: { orderBy: { createdAt: "asc" } },
         },
     });
 }
@@ -166,14 +280,14 @@ export async function getRidesForUser(userId: string, status?: RideStatus) {
 }
 
 /**
- * Get all current rides for a specific user (rides with ACCEPTED, PENDING, or ONGOING status)
+ * Get all current rides for a specific user (rides with ACCEPTED, ARRIVED, PENDING, or ONGOING status)
  */
 export async function getCurrentRidesForUser(userId: string) {
     return db.ride.findMany({
         where: {
             userId: userId,
             status: {
-                in: [RideStatus.ACCEPTED, RideStatus.ONGOING, RideStatus.PENDING],
+                in: [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING, RideStatus.PENDING],
             },
         },
         include: {
@@ -188,6 +302,7 @@ export async function getCurrentRidesForUser(userId: string) {
             },
             vehicle: true,
             ratings: true,
+            stops: { orderBy: { order: "asc" } },
         },
         orderBy: {
             createdAt: "desc",
@@ -197,14 +312,14 @@ export async function getCurrentRidesForUser(userId: string) {
 
 /**
  * Get the current (active) ride for a user
- * Returns the latest PENDING, ACCEPTED, or ONGOING ride
+ * Returns the latest PENDING, ACCEPTED, ARRIVED or ONGOING ride
  */
 export async function getCurrentRide(userId: string) {
     return db.ride.findFirst({
         where: {
             userId: userId,
             status: {
-                in: [RideStatus.PENDING, RideStatus.ACCEPTED, RideStatus.ONGOING]
+                in: [RideStatus.PENDING, RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING]
             }
         },
         include: {
@@ -219,6 +334,7 @@ export async function getCurrentRide(userId: string) {
             },
             vehicle: true,
             ratings: true,
+            stops: { orderBy: { order: "asc" } },
         },
         orderBy: {
             createdAt: "desc",
@@ -228,7 +344,7 @@ export async function getCurrentRide(userId: string) {
 
 /**
  * Get the current (active) ride for a driver
- * Returns the latest ACCEPTED or ONGOING ride
+ * Returns the latest ACCEPTED, ARRIVED or ONGOING ride
  * Note: PENDING rides are not included as driver hasn't accepted them yet
  */
 export async function getCurrentRideForDriver(driverId: string) {
@@ -236,7 +352,7 @@ export async function getCurrentRideForDriver(driverId: string) {
         where: {
             driverId: driverId,
             status: {
-                in: [RideStatus.ACCEPTED, RideStatus.ONGOING]
+                in: [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING]
             }
         },
         include: {
@@ -251,6 +367,7 @@ export async function getCurrentRideForDriver(driverId: string) {
             },
             vehicle: true,
             ratings: true,
+            stops: { orderBy: { order: "asc" } },
         },
         orderBy: {
             createdAt: "desc",
@@ -284,16 +401,24 @@ export async function getRidesForDriver(driverId: string, status?: RideStatus) {
 
 /**
  * Get all pending rides (for drivers to accept)
- * Filtered by distance (MAX_RIDE_BROADCAST_DISTANCE_KM)
+ * Filtered by distance (MAX_RIDE_BROADCAST_DISTANCE_KM), the driver's vehicle and their preferences
  */
 export async function getPendingRides(
+    driverId: string,
     driverLat: number,
     driverLng: number,
     radiusKm: number = Number(process.env.MAX_RIDE_BROADCAST_DISTANCE_KM) || 10
 ) {
+    const driverProfile = await getDriverMatchProfile(driverId);
+    if (!driverProfile) {
+        return [];
+    }
+
+    // Sequentially dispatched rides are only shown to the driver they are offered to
     const rides = await db.ride.findMany({
         where: {
             status: RideStatus.PENDING,
+            dispatchMode: DispatchMode.BROADCAST,
         },
         include: {
             user: {
@@ -305,6 +430,7 @@ export async function getPendingRides(
                     photo: true,
                 },
             },
+            stops: { orderBy: { order: "asc" } },
         },
         orderBy: {
             createdAt: "desc",
@@ -324,7 +450,8 @@ export async function getPendingRides(
             ride.originLng
         );
 
-        if (distance <= radiusKm) {
+        // Rides nobody accepted reach farther as their search widens
+        if (distance <= Math.max(radiusKm, ride.searchRadiusKm ?? 0) && isRideMatch(driverProfile, ride, distance)) {
             nearbyRides.push({
                 ...ride,
                 distance: Number(distance.toFixed(2)),
@@ -336,17 +463,74 @@ export async function getPendingRides(
     return nearbyRides;
 }
 
+/**
+ * Void the offer a ride was accepted on when its driver gives the ride back
+ * Returns the listed price and its discount, for the next driver to take the ride at
+ */
+async function voidAcceptedOffer(
+    ride: { id: string; driverId: string | null; promoCodeId: string | null },
+    client: Prisma.TransactionClient = db
+) {
+    if (!ride.driverId) {
+        return {};
+    }
+
+    const acceptedOffer = await client.rideOffer.findFirst({
+        where: { rideId: ride.id, driverId: ride.driverId, status: RideOfferStatus.ACCEPTED },
+    });
+
+    if (!acceptedOffer) {
+        return {};
+    }
+
+    await client.rideOffer.update({
+        where: { id: acceptedOffer.id },
+        data: { status: RideOfferStatus.VOID },
+    });
+
+    if (acceptedOffer.listedPrice === null) {
+        return {};
+    }
+
+    return {
+        price: acceptedOffer.listedPrice,
+        discountAmount: ride.promoCodeId ? await getRideDiscount(ride.promoCodeId, acceptedOffer.listedPrice) : 0,
+    };
+}
+
+/**
+ * Why a driver can no longer accept a ride: it was cancelled, it expired,
+ * or another driver got it first
+ */
+function getRideUnavailableError(ride: { status: RideStatus; driverId: string | null }, driverId: string) {
+    if (ride.status === RideStatus.CANCELLED) {
+        return new BadRequestError("Ride was cancelled");
+    }
+    if (ride.status === RideStatus.EXPIRED) {
+        return new BadRequestError("Ride has expired");
+    }
+    if (ride.driverId && ride.driverId !== driverId) {
+        return new ConflictError(RIDE_TAKEN_ERROR);
+    }
+    return new BadRequestError("Ride is no longer available");
+}
+
 /**
  * Accept a ride (driver accepts a pending ride)
+ * When the passenger accepts a driver's offer, the ride is taken at the offered price
+ * When several drivers accept at once only the first wins; the others get RIDE_TAKEN_ERROR (409)
+ * and the drivers the ride was shown to are told with ride:taken
  */
 export async function acceptRide(
     rideId: string,
     driverId: string,
-    vehicleId: string
+    vehicleId: string,
+    offer?: { id: string; price: number }
 ) {
     // First check if the ride is still pending
     const ride = await db.ride.findUnique({
         where: { id: rideId },
+        include: { tariff: true },
     });
 
     if (!ride) {
@@ -354,51 +538,63 @@ export async function acceptRide(
     }
 
     if (ride.status !== RideStatus.PENDING) {
-        throw new Error("Ride is no longer available");
+        throw getRideUnavailableError(ride, driverId);
     }
 
-    // NEW: Check if driver has sufficient balance (10% of ride price for commission)
-    const driverWallet = await db.wallet.findUnique({
-        where: { userId: driverId }
-    });
-
-    if (!driverWallet) {
-        throw new BadRequestError("Driver wallet not found. Please contact support.");
+    // A ride dispatched one driver at a time can only be taken by the driver it is offered to,
+    // also through a counter-offer the passenger picks
+    if (ride.dispatchMode === DispatchMode.SEQUENTIAL) {
+        await assertHoldsDispatchOffer(rideId, driverId);
     }
 
-    const minimumBalance = ride.price * 0.10; // 10% for potential commission
+    // Commission left unpaid on earlier rides comes first
+    await collectCommissionDebts(driverId);
 
-    if (driverWallet.balance < minimumBalance) {
-        throw new BadRequestError(
-            `Insufficient balance. Minimum ${minimumBalance.toLocaleString()} DA required to accept this ride. Current balance: ${driverWallet.balance.toLocaleString()} DA.`
-        );
-    }
+    // The agreed price when the ride was bargained
+    const agreedPrice = offer?.price ?? ride.price;
+    await assertDriverCanTakeRide(driverId, vehicleId, ride, agreedPrice);
 
-    // Verify the vehicle belongs to the driver
-    const driverProfile = await db.driverProfile.findUnique({
-        where: { userId: driverId },
-    });
+    // A promo code applies to the agreed price
+    const discountAmount =
+        offer && ride.promoCodeId ? await getRideDiscount(ride.promoCodeId, agreedPrice) : undefined;
 
-    if (!driverProfile) {
-        throw new Error("Driver profile not found");
-    }
+    // The ride is taken and its bargaining closed together or not at all
+    const { acceptedOffer, rejectedOffers } = await db.$transaction(async (tx) => {
+        // Only one driver can win the ride: the update only applies while it is still PENDING
+        const { count } = await tx.ride.updateMany({
+            where: { id: rideId, status: RideStatus.PENDING },
+            data: {
+                driverId: driverId,
+                vehicleId: vehicleId,
+                status: RideStatus.ACCEPTED,
+                ...getAcceptanceData(driverId),
+                price: agreedPrice,
+                ...(discountAmount !== undefined && { discountAmount }),
+            },
+        });
 
-    const vehicle = await db.vehicle.findUnique({
-        where: { id: vehicleId },
-    });
+        if (count === 0) {
+            // The ride changed since it was read: tell the driver what happened to it
+            const current = await tx.ride.findUnique({
+                where: { id: rideId },
+                select: { status: true, driverId: true },
+            });
+            if (!current) {
+                throw new NotFoundError("Ride not found");
+            }
+            throw getRideUnavailableError(current, driverId);
+        }
 
-    if (!vehicle || vehicle.driverId !== driverProfile.id) {
-        throw new Error("Vehicle not found or does not belong to driver");
-    }
+        // A bargained ride is only taken at the price of the offer the passenger picked
+        return closeRideOffers(
+            rideId,
+            offer && { offerId: offer.id, price: offer.price, listedPrice: ride.price },
+            tx
+        );
+    });
 
-    // Update the ride
-    const updatedRide = await db.ride.update({
+    const updatedRide = await db.ride.findUnique({
         where: { id: rideId },
-        data: {
-            driverId: driverId,
-            vehicleId: vehicleId,
-            status: RideStatus.ACCEPTED,
-        },
         include: {
             user: {
                 select: {
@@ -420,13 +616,39 @@ export async function acceptRide(
             },
             vehicle: true,
             ratings: true,
+            stops: { orderBy: { order: "asc" } },
         },
     });
 
-    // Emit ride:accepted event
+    if (!updatedRide) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    // Taking a driver's offer is the passenger's decision
+    await recordStatusEvent({
+        rideId,
+        from: RideStatus.PENDING,
+        to: RideStatus.ACCEPTED,
+        actor: offer ? RideActor.PASSENGER : RideActor.DRIVER,
+        userId: offer ? ride.userId : driverId,
+        driverId,
+    });
+
+    await closeDispatchOffers(rideId, driverId);
+
+    // The passenger gives this PIN to the driver at pickup
+    await issueRidePin(updatedRide);
+
+    // Emit ride:accepted event, and close the bargaining for the offering drivers
     try {
         const emitter = getRideEmitter();
         emitter.emitRideAccepted(updatedRide);
+        emitter.emitRideTaken(updatedRide);
+
+        if (acceptedOffer) {
+            emitter.emitOfferAccepted(acceptedOffer, updatedRide);
+        }
+        rejectedOffers.forEach((rejected) => emitter.emitOfferRejected(rejected));
     } catch (error) {
         if (process.env.NODE_ENV !== 'test') {
             console.log('WebSocket not available:', error);
@@ -437,12 +659,27 @@ export async function acceptRide(
 }
 
 /**
- * Update ride status
+ * Statuses a ride is moved to with updateRideStatus
+ * (cancelling goes through cancelRide, with a reason)
+ */
+const STATUS_UPDATES: RideStatus[] = [RideStatus.ARRIVED, RideStatus.ONGOING, RideStatus.COMPLETED];
+
+/**
+ * Update ride status, under the transitions of ride.state.services
+ * Starting a ride needs the passenger's PIN. Deliveries are only completed
+ * with the one-time code of the recipient, which is texted once the package is
+ * picked up; a text that fails leaves the sender to send a new code.
+ * On completion the trip is measured from the GPS trail (see ride.trail.services)
+ * and the driver is charged the commission on the final price, the part their
+ * wallet cannot cover being owed as debt
+ * When the ride changes status at the same time (another update, a cancellation,
+ * a no-show) only the first change applies; the others get a ConflictError (409)
  */
 export async function updateRideStatus(
     rideId: string,
     status: RideStatus,
-    userId: string
+    userId: string,
+    proof: { pin?: string; deliveryCode?: string } = {}
 ) {
     // Get the ride first to verify ownership
     const ride = await db.ride.findUnique({
@@ -453,55 +690,125 @@ export async function updateRideStatus(
         throw new NotFoundError("Ride not found");
     }
 
-    // Verify the user is either the passenger or the driver
-    if (ride.userId !== userId && ride.driverId !== userId) {
-        throw new UnauthorizedError("You are not authorized to update this ride");
+    // The passenger or the driver
+    const actor = getRideActor(ride, userId);
+
+    if (!STATUS_UPDATES.includes(status)) {
+        throw new BadRequestError(`status must be one of: ${STATUS_UPDATES.join(", ")}`);
     }
 
-    // Business logic for status transitions
-    if (status === RideStatus.ONGOING && ride.status !== RideStatus.ACCEPTED) {
-        throw new BadRequestError("Can only start an accepted ride");
+    assertRideTransition(ride.status, status, actor);
+
+    // Right passenger on board: the PIN they were given on acceptance
+    if (status === RideStatus.ONGOING) {
+        await verifyRidePin(rideId, proof.pin);
     }
 
-    if (status === RideStatus.COMPLETED && ride.status !== RideStatus.ONGOING) {
-        throw new BadRequestError("Can only complete an ongoing ride");
+    // Proof of delivery: the recipient's code
+    const isHandover = status === RideStatus.COMPLETED && ride.type === RideType.DELIVERY;
+    if (isHandover) {
+        await verifyDeliveryCode(rideId, proof.deliveryCode);
     }
 
-    // Update the ride
-    const updatedRide = await db.ride.update({
-        where: { id: rideId },
-        data: { status },
-        include: {
-            user: {
-                select: {
-                    id: true,
-                    firstName: true,
-                    lastName: true,
-                    phoneNumber: true,
-                    photo: true,
-                },
+    const isPickup = status === RideStatus.ONGOING && ride.type === RideType.DELIVERY;
+    let deliveryCode: string | null = null;
+
+    const now = new Date();
+
+    // Distance and duration actually driven, and the fare they come to
+    const completion = status === RideStatus.COMPLETED ? await finaliseRideTrip(ride, now) : null;
+
+    // The status change and, on completion, the commission on the final price
+    // are recorded together or not at all
+    const updatedRide = await db.$transaction(async (tx) => {
+        // Only one status change goes through: the update only applies while the ride
+        // is still in the status the transition was checked from
+        const { count } = await tx.ride.updateMany({
+            where: { id: rideId, status: ride.status },
+            data: {
+                status,
+                // Starts the wait before the driver can report a no-show
+                ...(status === RideStatus.ARRIVED && { arrivedAt: now }),
+                ...(status === RideStatus.ONGOING && { startedAt: now }),
+                ...(isHandover && { deliveredAt: now }),
+                ...completion,
             },
-            driver: {
-                select: {
-                    id: true,
-                    firstName: true,
-                    lastName: true,
-                    phoneNumber: true,
-                    photo: true,
+        });
+
+        if (count === 0) {
+            throw new ConflictError(`Ride is no longer ${ride.status}`);
+        }
+
+        // Package picked up → the recipient's code; the delivery does not start without one
+        if (isPickup) {
+            ({ code: deliveryCode } = await createDeliveryCode(ride, tx));
+        }
+
+        // If ride is completed, charge driver 10% commission on the final price
+        if (status === RideStatus.COMPLETED && ride.driverId) {
+            const discountAmount = completion?.discountAmount ?? ride.discountAmount;
+
+            await processDriverCommission(
+                tx,
+                rideId,
+                ride.driverId,
+                completion?.price ?? ride.price
+            );
+
+            // The platform pays the promo discount, not the driver
+            if (discountAmount > 0) {
+                await processPromoDiscountRefund(tx, rideId, ride.driverId, discountAmount);
+            }
+        }
+
+        return tx.ride.findUnique({
+            where: { id: rideId },
+            include: {
+                user: {
+                    select: {
+                        id: true,
+                        firstName: true,
+                        lastName: true,
+                        phoneNumber: true,
+                        photo: true,
+                    },
                 },
+                driver: {
+                    select: {
+                        id: true,
+                        firstName: true,
+                        lastName: true,
+                        phoneNumber: true,
+                        photo: true,
+                    },
+                },
+                vehicle: true,
+                ratings: true,
+                stops: { orderBy: { order: "asc" } },
             },
-            vehicle: true,
-            ratings: true,
-        },
+        });
     });
 
-    // If ride is completed, charge driver 10% commission
-    if (status === RideStatus.COMPLETED && ride.status === RideStatus.ONGOING && ride.driverId) {
-        await processDriverCommission(
-            rideId,
-            ride.driverId,
-            ride.price
-        );
+    if (!updatedRide) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    await recordStatusEvent({
+        rideId,
+        from: ride.status,
+        to: status,
+        actor,
+        userId,
+        driverId: ride.driverId,
+    });
+
+    // Texted only once the ride is picked up for good
+    if (deliveryCode && ride.recipientPhone) {
+        try {
+            await sendDeliveryCode(ride.recipientPhone, deliveryCode);
+        } catch (error) {
+            console.error(`Delivery code of ride ${rideId} could not be texted:`, error);
+        }
     }
 
     // Emit ride:statusUpdated event
@@ -518,9 +825,18 @@ export async function updateRideStatus(
 }
 
 /**
- * Cancel a ride
+ * Cancel a ride, with a reason from the catalogue of the passenger, the driver or an admin
+ * Drivers pay a penalty for cancelling a ride they took; passengers pay a
+ * fee when they cancel late under the cancellation policy
+ * A ride that changed status in the meantime (completed, accepted, given back,
+ * no-show) is not cancelled: the cancellation gets a ConflictError (409)
  */
-export async function cancelRide(rideId: string, userId: string) {
+export async function cancelRide(
+    rideId: string,
+    userId: string,
+    input: { reason?: unknown; note?: unknown },
+    role?: Role
+) {
     const ride = await db.ride.findUnique({
         where: { id: rideId },
     });
@@ -529,85 +845,174 @@ export async function cancelRide(rideId: string, userId: string) {
         throw new NotFoundError("Ride not found");
     }
 
-    // Verify the user is either the passenger or the driver
-    if (ride.userId !== userId && ride.driverId !== userId) {
-        throw new UnauthorizedError("You are not authorized to update this ride");
-    }
+    // Passenger, driver or admin
+    const actor = getRideActor(ride, userId, role);
 
-    // Can't cancel completed rides
-    if (ride.status === RideStatus.COMPLETED) {
-        throw new Error("Cannot cancel a completed ride");
+    // A driver cancelling a ride they hold gives it back: an accepted ride goes back to
+    // the search (a driver who does not want to wait reports a no-show instead, without
+    // a penalty), a reserved ride stays scheduled for other drivers
+    let newStatus: RideStatus = RideStatus.CANCELLED;
+    if (actor === RideActor.DRIVER) {
+        if (ride.status === RideStatus.ACCEPTED || ride.status === RideStatus.ARRIVED) {
+            newStatus = RideStatus.PENDING;
+        } else if (ride.status === RideStatus.SCHEDULED) {
+            newStatus = RideStatus.SCHEDULED;
+        }
     }
 
-    // Apply cancellation penalty if driver cancels accepted/ongoing ride
-    if (
-        ride.driverId === userId &&
-        (ride.status === RideStatus.ACCEPTED || ride.status === RideStatus.ONGOING)
-    ) {
-        await processDriverCancellationPenalty(rideId, ride.driverId, ride.price);
+    // Giving up a reservation does not change the status
+    if (newStatus !== RideStatus.SCHEDULED) {
+        assertRideTransition(ride.status, newStatus, actor);
     }
 
-    // Determine new status and data based on who cancelled and current status
-    let newStatus: RideStatus = RideStatus.CANCELLED;
-    let updateData: any = { status: newStatus };
+    const cancellation = validateCancellationReason(actor, input);
 
-    // ✅ SPECIAL CASE: Driver cancels ACCEPTED ride → Return to PENDING for auto-match
-    if (ride.driverId === userId && ride.status === RideStatus.ACCEPTED) {
-        newStatus = RideStatus.PENDING;
+    // Determine the data based on who cancelled and current status
+    let updateData: any = {
+        status: newStatus,
+        cancelledAt: new Date(),
+        cancelledBy: actor,
+        cancellationReason: cancellation.reason,
+        cancellationNote: cancellation.note ?? null,
+    };
+
+    // Driver gives up a reservation → the ride stays SCHEDULED for other drivers
+    if (newStatus === RideStatus.SCHEDULED) {
         updateData = {
-            status: newStatus,
-            driverId: null,      // Clear driver so other drivers can accept
-            vehicleId: null,     // Clear vehicle assignment
+            driverId: null,
+            vehicleId: null,
+            reservedAt: null,
         };
     }
 
-    const updatedRide = await db.ride.update({
-        where: { id: rideId },
-        data: updateData,
-        include: {
-            user: {
-                select: {
-                    id: true,
-                    firstName: true,
-                    lastName: true,
-                    phoneNumber: true,
-                    photo: true,
+    // The status change, the penalty or fee and the cancellation are recorded together or not at all
+    const updatedRide = await db.$transaction(async (tx) => {
+        // ✅ SPECIAL CASE: Driver cancels ACCEPTED ride → Return to PENDING for auto-match
+        if (newStatus === RideStatus.PENDING) {
+            updateData = {
+                status: newStatus,
+                driverId: null,      // Clear driver so other drivers can accept
+                vehicleId: null,     // Clear vehicle assignment
+                acceptedAt: null,
+                acceptLat: null,
+                acceptLng: null,
+                arrivedAt: null,
+                pendingSince: new Date(), // Search for a driver from scratch
+                searchRadiusKm: null,
+                dispatchMode: getDispatchMode(ride.type),
+                ...(await voidAcceptedOffer(ride, tx)), // Back to the listed price when the ride was bargained
+            };
+        }
+
+        // Only one status change goes through: the cancellation only applies while the ride
+        // is still in the status (and with the driver) it was checked with
+        const { count } = await tx.ride.updateMany({
+            where: { id: rideId, status: ride.status, driverId: ride.driverId },
+            data: updateData,
+        });
+
+        if (count === 0) {
+            throw new ConflictError(`Ride is no longer ${ride.status}`);
+        }
+
+        // Apply cancellation penalty if driver cancels accepted/ongoing ride
+        if (
+            actor === RideActor.DRIVER &&
+            ride.driverId &&
+            (ride.status === RideStatus.ACCEPTED ||
+                ride.status === RideStatus.ARRIVED ||
+                ride.status === RideStatus.ONGOING)
+        ) {
+            await processDriverCancellationPenalty(tx, rideId, ride.driverId, ride.price);
+        }
+
+        // Late cancellation by the passenger: fee under the cancellation policy, partly paid to the driver
+        if (actor === RideActor.PASSENGER) {
+            await chargePassengerCancellationFee(tx, ride);
+        }
+
+        // Kept for the cancellation report, also when the ride goes back to the search
+        await recordCancellation(ride, actor, cancellation, userId, tx);
+
+        if (newStatus !== ride.status) {
+            await recordStatusEvent({
+                rideId,
+                from: ride.status,
+                to: newStatus,
+                actor,
+                userId,
+                driverId: ride.driverId,
+            }, tx);
+        }
+
+        return tx.ride.findUnique({
+            where: { id: rideId },
+            include: {
+                user: {
+                    select: {
+                        id: true,
+                        firstName: true,
+                        lastName: true,
+                        phoneNumber: true,
+                        photo: true,
+                    },
                 },
-            },
-            driver: {
-                select: {
-                    id: true,
-                    firstName: true,
-                    lastName: true,
-                    phoneNumber: true,
-                    photo: true,
+                driver: {
+                    select: {
+                        id: true,
+                        firstName: true,
+                        lastName: true,
+                        phoneNumber: true,
+                        photo: true,
+                    },
                 },
+                vehicle: true,
+                ratings: true,
+                cancellationFee: true,
             },
-            vehicle: true,
-            ratings: true,
-        },
+        });
     });
 
+    if (!updatedRide) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (newStatus === RideStatus.CANCELLED && ride.promoCodeId) {
+        await releasePromoRedemption(rideId);
+    }
+
+    // Withdraw the offer of a ride cancelled while it was offered to a driver
+    if (ride.status === RideStatus.PENDING && ride.dispatchMode === DispatchMode.SEQUENTIAL) {
+        await closeDispatchOffers(rideId);
+    }
+
+    // Close the bargaining of a ride cancelled while drivers were making offers
+    if (ride.status === RideStatus.PENDING) {
+        await rejectRideOffers(rideId, "The ride was cancelled");
+    }
+
     // Emit appropriate WebSocket events
     try {
         const emitter = getRideEmitter();
 
-        if (newStatus === RideStatus.PENDING) {
+        if (newStatus === RideStatus.SCHEDULED) {
+            // Driver released a reservation → tell the passenger and offer it again
+            emitter.emitReservationCancelled(updatedRide);
+            await announceScheduledRide(updatedRide);
+
+        } else if (newStatus === RideStatus.PENDING) {
             // ✅ Driver cancelled ACCEPTED ride → Special events
             console.log(`📡 Broadcasting driver cancel (ACCEPTED → PENDING): ${updatedRide.id}`);
 
             // 1. Notify passenger that driver cancelled (but ride is being re-matched)
-            emitter.emitDriverCancelled(updatedRide);
-
-            // 2. Re-broadcast to all available drivers for re-matching
-            emitter.emitRideCreated(updatedRide);
+            emitter.emitDriverCancelled(updatedRide, cancellation.reason);
 
         } else {
             // ✅ Regular cancellation (ONGOING → CANCELLED or passenger cancel)
             console.log(`📡 Broadcasting ride cancel (${ride.status} → CANCELLED): ${updatedRide.id}`);
             console.log(`   - Passenger: ${updatedRide.userId}`);
             console.log(`   - Driver: ${updatedRide.driverId}`);
-            emitter.emitRideCancelled(updatedRide);
+            emitter.emitRideCancelled(updatedRide, cancellation.reason);
         }
     } catch (error) {
         console.error('❌ WebSocket broadcast failed:', error);
@@ -616,12 +1021,21 @@ export async function cancelRide(rideId: string, userId: string) {
         }
     }
 
+    // Driver cancelled ACCEPTED ride → dispatch it again for re-matching
+    if (newStatus === RideStatus.PENDING) {
+        await dispatchRide(updatedRide);
+    }
+
     return updatedRide;
 }
 
 
 /**
  * Update ride details (before it's accepted)
+ * Changing the trip reprices it: with a valid quote for the new trip,
+ * or server-side otherwise. Moved points get their address (and the pickup
+ * its wilaya) again. A promo code the new trip no longer qualifies for is
+ * dropped from the ride.
  */
 export async function updateRide(
     rideId: string,
@@ -633,13 +1047,14 @@ export async function updateRide(
         destLng: number;
         distanceKm: number;
         durationMin: number;
-        price: number;
+        quoteId: string;
         seatCount: number;
         packageWeight: number;
     }>
 ) {
     const ride = await db.ride.findUnique({
         where: { id: rideId },
+        include: { stops: { orderBy: { order: "asc" } } },
     });
 
     if (!ride) {
@@ -656,9 +1071,69 @@ export async function updateRide(
         throw new BadRequestError("Can only update pending rides");
     }
 
-    return db.ride.update({
+    const { quoteId, ...changes } = data;
+    const tripChanged = Object.values(changes).some((value) => value !== undefined);
+
+    const originLat = changes.originLat ?? ride.originLat;
+    const originLng = changes.originLng ?? ride.originLng;
+    const destLat = changes.destLat ?? ride.destLat;
+    const destLng = changes.destLng ?? ride.destLng;
+
+    // The addresses and the pickup wilaya follow the points that moved
+    const originMoved = originLat !== ride.originLat || originLng !== ride.originLng;
+    const destMoved = destLat !== ride.destLat || destLng !== ride.destLng;
+    const [originRegion, originAddress, destAddress] = await Promise.all([
+        originMoved ? reverseGeocodeRegion(originLat, originLng) : null,
+        originMoved ? reverseGeocode(originLat, originLng) : null,
+        destMoved ? reverseGeocode(destLat, destLng) : null,
+    ]);
+
+    const places = {
+        ...(originMoved && { originAddress, originWilayaCode: originRegion?.wilayaCode ?? null }),
+        ...(destMoved && { destAddress }),
+    };
+
+    let pricing = {};
+    let promoDropped = false;
+    if (tripChanged || quoteId) {
+        const distanceKm = changes.distanceKm ?? ride.distanceKm;
+        const durationMin = changes.durationMin ?? ride.durationMin;
+        const seatCount = changes.seatCount ?? ride.seatCount;
+        const packageWeight = changes.packageWeight ?? ride.packageWeight;
+
+        const repriced = await resolveRidePricing({
+            type: ride.type,
+            originLat,
+            originLng,
+            destLat,
+            destLng,
+            ...(distanceKm != null && { distanceKm }),
+            ...(durationMin != null && { durationMin }),
+            ...(seatCount != null && { seatCount }),
+            ...(packageWeight != null && { packageWeight }),
+            ...(ride.stops?.length && { stops: ride.stops.map(({ lat, lng }) => ({ lat, lng })) }),
+        }, quoteId);
+
+        // A promo code applies to the new price, if the edited trip still meets its restrictions
+        const discountAmount = ride.promoCodeId
+            ? await reapplyPromoCode(ride.promoCodeId, { type: ride.type, originLat, originLng }, repriced.price)
+            : undefined;
+        promoDropped = discountAmount === null;
+
+        pricing = {
+            ...repriced,
+            ...(discountAmount != null && { discountAmount }),
+            ...(promoDropped && { promoCodeId: null, discountAmount: 0 }),
+        };
+    }
+
+    const updatedRide = await db.ride.update({
         where: { id: rideId },
-        data,
+        data: {
+            ...changes,
+            ...places,
+            ...pricing,
+        },
         include: {
             user: {
                 select: {
@@ -670,6 +1145,14 @@ export async function updateRide(
                 },
             },
             ratings: true,
+            stops: { orderBy: { order: "asc" } },
         },
     });
+
+    // The passenger gets their code use back
+    if (promoDropped) {
+        await releasePromoRedemption(rideId);
+    }
+
+    return updatedRide;
 }
@@ -0,0 +1,173 @@
+import crypto from "crypto";
+import { RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { hashToken } from "../../utils/hashToken";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "../../utils/errors";
+import { getRideEmitter } from "../../socket";
+import { getDriverLocation } from "../../socket/handlers/location.handler";
+
+/**
+ * Public tracking link configuration
+ */
+export const SHARE_CONFIG = {
+    TTL_HOURS: Number(process.env.RIDE_SHARE_TTL_HOURS) || 12,
+};
+
+const FINISHED_STATUSES: RideStatus[] = [RideStatus.COMPLETED, RideStatus.CANCELLED, RideStatus.EXPIRED];
+const TRACKED_STATUSES: RideStatus[] = [RideStatus.ACCEPTED, RideStatus.ARRIVED, RideStatus.ONGOING];
+
+/**
+ * Only what a person following the ride needs: no phone numbers, price or passenger identity
+ */
+const sharedRideInclude = {
+    driver: {
+        select: {
+            firstName: true,
+            photo: true,
+        },
+    },
+    vehicle: {
+        select: {
+            type: true,
+            model: true,
+            plate: true,
+        },
+    },
+    stops: {
+        orderBy: { order: "asc" as const },
+        select: {
+            order: true,
+            address: true,
+            reachedAt: true,
+        },
+    },
+};
+
+/**
+ * Create a public tracking link for a ride (passenger only)
+ * The plain token is only returned here; the database keeps its hash
+ */
+export async function createShareToken(rideId: string, userId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId) {
+        throw new UnauthorizedError("Only the passenger can share this ride");
+    }
+
+    if (FINISHED_STATUSES.includes(ride.status)) {
+        throw new BadRequestError(`Cannot share a ${ride.status} ride`);
+    }
+
+    const token = crypto.randomBytes(24).toString("base64url");
+    const expiresAt = new Date(Date.now() + SHARE_CONFIG.TTL_HOURS * 60 * 60 * 1000);
+
+    await db.rideShareToken.create({
+        data: {
+            rideId,
+            hashedToken: hashToken(token),
+            createdById: userId,
+            expiresAt,
+        },
+    });
+
+    return { token, expiresAt };
+}
+
+/**
+ * Revoke every tracking link of a ride (passenger only)
+ * Followers still connected are disconnected
+ */
+export async function revokeShareTokens(rideId: string, userId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId) {
+        throw new UnauthorizedError("Only the passenger can stop sharing this ride");
+    }
+
+    const { count } = await db.rideShareToken.updateMany({
+        where: { rideId, revokedAt: null, expiresAt: { gt: new Date() } },
+        data: { revokedAt: new Date() },
+    });
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitShareRevoked(rideId);
+    } catch (error) {
+        if (process.env.NODE_ENV !== "test") {
+            console.log("WebSocket not available:", error);
+        }
+    }
+
+    return { revoked: count };
+}
+
+/**
+ * Find the ride a tracking link points to
+ *
+ * @throws NotFoundError if the link is unknown, expired or revoked
+ */
+export async function resolveShareToken(token: string) {
+    const shareToken = await db.rideShareToken.findUnique({
+        where: { hashedToken: hashToken(token) },
+    });
+
+    if (!shareToken || shareToken.revokedAt || shareToken.expiresAt < new Date()) {
+        throw new NotFoundError("Tracking link not found or expired");
+    }
+
+    return shareToken;
+}
+
+/**
+ * Read-only view of a shared ride, with the live driver position while the driver is on the way
+ */
+export async function getSharedRide(token: string) {
+    const shareToken = await resolveShareToken(token);
+
+    const ride = await db.ride.findUnique({
+        where: { id: shareToken.rideId },
+        include: sharedRideInclude,
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Tracking link not found or expired");
+    }
+
+    const location = ride.driverId && TRACKED_STATUSES.includes(ride.status)
+        ? getDriverLocation(ride.driverId)
+        : undefined;
+
+    return {
+        rideId: ride.id,
+        type: ride.type,
+        status: ride.status,
+        origin: { lat: ride.originLat, lng: ride.originLng, address: ride.originAddress },
+        destination: { lat: ride.destLat, lng: ride.destLng, address: ride.destAddress },
+        stops: ride.stops,
+        driver: ride.driver,
+        vehicle: ride.vehicle,
+        driverLocation: location && location.rideId === ride.id
+            ? {
+                latitude: location.latitude,
+                longitude: location.longitude,
+                heading: location.heading,
+                speed: location.speed,
+                timestamp: location.timestamp,
+            }
+            : null,
+        deliveredAt: ride.deliveredAt,
+        expiresAt: shareToken.expiresAt,
+    };
+}
@@ -0,0 +1,121 @@
+import { Prisma, RideActor, RideStatus, Role } from "@prisma/client";
+import { db } from "../../utils/db";
+import { BadRequestError, UnauthorizedError } from "../../utils/errors";
+import { getDriverLocation } from "../../socket/handlers/location.handler";
+import { getAvailableDriverLocations } from "../../socket/handlers/driver-location.handler";
+
+/**
+ * Legal status changes of a ride, and who may make each of them
+ * Terminal statuses (COMPLETED, CANCELLED, EXPIRED) have no way out.
+ */
+export const RIDE_TRANSITIONS: Record<RideStatus, Partial<Record<RideStatus, RideActor[]>>> = {
+    [RideStatus.SCHEDULED]: {
+        // Dispatched shortly before pickup, to the reserved driver if any
+        [RideStatus.PENDING]: [RideActor.SYSTEM],
+        [RideStatus.ACCEPTED]: [RideActor.SYSTEM],
+        [RideStatus.CANCELLED]: [RideActor.PASSENGER, RideActor.ADMIN],
+    },
+    [RideStatus.PENDING]: {
+        // The passenger accepts a driver's offer
+        [RideStatus.ACCEPTED]: [RideActor.DRIVER, RideActor.PASSENGER],
+        [RideStatus.CANCELLED]: [RideActor.PASSENGER, RideActor.ADMIN],
+        [RideStatus.EXPIRED]: [RideActor.SYSTEM],
+    },
+    [RideStatus.ACCEPTED]: {
+        [RideStatus.ARRIVED]: [RideActor.DRIVER],
+        // The driver may start without reporting their arrival first
+        [RideStatus.ONGOING]: [RideActor.DRIVER],
+        // The driver gives the ride back to the search
+        [RideStatus.PENDING]: [RideActor.DRIVER],
+        [RideStatus.CANCELLED]: [RideActor.PASSENGER, RideActor.ADMIN],
+    },
+    [RideStatus.ARRIVED]: {
+        [RideStatus.ONGOING]: [RideActor.DRIVER],
+        [RideStatus.PENDING]: [RideActor.DRIVER],
+        // The driver cancels when the passenger does not show up
+        [RideStatus.CANCELLED]: [RideActor.PASSENGER, RideActor.DRIVER, RideActor.ADMIN],
+    },
+    [RideStatus.ONGOING]: {
+        [RideStatus.COMPLETED]: [RideActor.DRIVER],
+        [RideStatus.CANCELLED]: [RideActor.PASSENGER, RideActor.DRIVER, RideActor.ADMIN],
+    },
+    [RideStatus.COMPLETED]: {},
+    [RideStatus.CANCELLED]: {},
+    [RideStatus.EXPIRED]: {},
+};
+
+/**
+ * Who is acting on a ride: an admin, its passenger or its driver
+ */
+export function getRideActor(ride: { userId: string; driverId: string | null }, userId: string, role?: Role) {
+    if (role === Role.ADMIN) {
+        return RideActor.ADMIN;
+    }
+
+    if (ride.userId === userId) {
+        return RideActor.PASSENGER;
+    }
+
+    if (ride.driverId === userId) {
+        return RideActor.DRIVER;
+    }
+
+    throw new UnauthorizedError("You are not authorized to update this ride");
+}
+
+/**
+ * Check that the actor may move a ride from one status to another
+ */
+export function assertRideTransition(from: RideStatus, to: RideStatus, actor: RideActor) {
+    const allowedActors = RIDE_TRANSITIONS[from][to];
+
+    if (!allowedActors) {
+        throw new BadRequestError(`Cannot move a ${from} ride to ${to}`);
+    }
+
+    if (!allowedActors.includes(actor)) {
+        const allowed = allowedActors.map((allowedActor) => allowedActor.toLowerCase()).join(" or ");
+        throw new UnauthorizedError(`Only the ${allowed} can move a ${from} ride to ${to}`);
+    }
+}
+
+/**
+ * Last known position of a driver: the live position of their ride, or the
+ * one they share while available
+ */
+export function getDriverPosition(driverId: string, rideId: string): { latitude: number; longitude: number } | null {
+    const tracked = getDriverLocation(driverId);
+    if (tracked && tracked.rideId === rideId) {
+        return { latitude: tracked.latitude, longitude: tracked.longitude };
+    }
+
+    return getAvailableDriverLocations().get(driverId) ?? null;
+}
+
+/**
+ * Add a status change to the timeline of a ride
+ * The event is located where the driver of the ride was, when there is one.
+ * Pass the transaction client to record it with the status change.
+ */
+export async function recordStatusEvent(event: {
+    rideId: string;
+    from: RideStatus | null;
+    to: RideStatus;
+    actor: RideActor;
+    userId: string | null;
+    driverId?: string | null;
+}, client: Prisma.TransactionClient = db) {
+    const position = event.driverId ? getDriverPosition(event.driverId, event.rideId) : null;
+
+    return client.rideStatusEvent.create({
+        data: {
+            rideId: event.rideId,
+            fromStatus: event.from,
+            toStatus: event.to,
+            actor: event.actor,
+            userId: event.userId,
+            lat: position?.latitude ?? null,
+            lng: position?.longitude ?? null,
+        },
+    });
+}
@@ -0,0 +1,115 @@
+import { RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { getRideEmitter } from "../../socket";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "../../utils/errors";
+import { TripStop } from "./ride.pricing.services";
+
+/**
+ * Multi-stop ride configuration
+ */
+export const STOP_CONFIG = {
+    MAX_STOPS: Number(process.env.RIDE_MAX_STOPS) || 3, // Intermediate stops per ride
+};
+
+const isInRange = (value: unknown, limit: number) =>
+    typeof value === "number" && !isNaN(value) && value >= -limit && value <= limit;
+
+/**
+ * Validate the intermediate stops of a ride being booked
+ *
+ * @param stops - Ordered waypoints between origin and destination
+ * @throws BadRequestError if there are too many stops or a coordinate is invalid
+ */
+export function validateRideStops(stops: unknown): TripStop[] {
+    if (!Array.isArray(stops)) {
+        throw new BadRequestError("stops must be a list of { lat, lng }");
+    }
+
+    if (stops.length > STOP_CONFIG.MAX_STOPS) {
+        throw new BadRequestError(`A ride can have at most ${STOP_CONFIG.MAX_STOPS} stops`);
+    }
+
+    return stops.map((stop) => {
+        if (!isInRange(stop?.lat, 90) || !isInRange(stop?.lng, 180)) {
+            throw new BadRequestError("Each stop needs a lat between -90 and 90 and a lng between -180 and 180");
+        }
+
+        return { lat: stop.lat, lng: stop.lng };
+    });
+}
+
+/**
+ * Mark an intermediate stop as reached (assigned driver only)
+ * Stops are reached in order while the ride is ONGOING; the passenger
+ * follows the progress live in the ride room
+ *
+ * @returns The reached stop and the progress of the ride
+ */
+export async function markStopReached(rideId: string, stopId: string, driverId: string) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+        include: { stops: { orderBy: { order: "asc" } } },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.driverId !== driverId) {
+        throw new UnauthorizedError("Only the assigned driver can update stops");
+    }
+
+    if (ride.status !== RideStatus.ONGOING) {
+        throw new BadRequestError("Stops can only be reached during an ongoing ride");
+    }
+
+    const stop = ride.stops.find((candidate) => candidate.id === stopId);
+
+    if (!stop) {
+        throw new NotFoundError("Stop not found");
+    }
+
+    if (stop.reachedAt) {
+        throw new BadRequestError("Stop already reached");
+    }
+
+    const skipped = ride.stops.find((candidate) => candidate.order < stop.order && !candidate.reachedAt);
+    if (skipped) {
+        throw new BadRequestError(`Stop ${skipped.order} must be reached first`);
+    }
+
+    // A repeated tap (REST and socket at once) must not move the time
+    const reachedAt = new Date();
+    const { count } = await db.rideStop.updateMany({
+        where: { id: stopId, reachedAt: null },
+        data: { reachedAt },
+    });
+
+    if (count === 0) {
+        throw new BadRequestError("Stop already reached");
+    }
+
+    const stops = ride.stops.map((candidate) =>
+        candidate.id === stopId ? { ...candidate, reachedAt } : candidate
+    );
+
+    const progress = {
+        rideId,
+        stop: { ...stop, reachedAt },
+        reachedStops: stops.filter((candidate) => candidate.reachedAt).length,
+        totalStops: stops.length,
+        nextStop: stops.find((candidate) => !candidate.reachedAt) ?? null,
+        stops,
+    };
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitStopReached(ride, progress);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+
+    return progress;
+}
@@ -0,0 +1,157 @@
+import { RideStatus } from "@prisma/client";
+import { db } from "../../utils/db";
+import { getAvailableDriverLocations } from "../../socket/handlers/driver-location.handler";
+
+/**
+ * Surge configuration
+ * Demand is the number of PENDING rides in an area, supply the number of
+ * available drivers currently reporting their location in it
+ */
+const SURGE_CONFIG = {
+    CELL_SIZE_KM: Number(process.env.SURGE_CELL_SIZE_KM) || 2, // Side of a surge area
+    MIN_PENDING_RIDES: Number(process.env.SURGE_MIN_PENDING_RIDES) || 3, // No surge below this demand
+    SENSITIVITY: 0.5, // Multiplier added per unit of demand/supply ratio above 1
+    MAX_MULTIPLIER: Number(process.env.SURGE_MAX_MULTIPLIER) || 2.0, // Hard cap
+    STEP: 0.1, // Multipliers are rounded down to this step
+};
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+/**
+ * Surge state of one area
+ */
+export interface SurgeArea {
+    areaId: string;
+    center: { lat: number; lng: number };
+    pendingRides: number;
+    availableDrivers: number;
+    demandSupplyRatio: number;
+    multiplier: number;
+}
+
+/**
+ * Get the grid cell of a point
+ * Cells are CELL_SIZE_KM high; their width in degrees grows with latitude
+ * so they stay roughly square
+ */
+function getAreaCell(lat: number, lng: number) {
+    const latStep = SURGE_CONFIG.CELL_SIZE_KM / KM_PER_DEGREE_LAT;
+    const row = Math.floor(lat / latStep);
+
+    const rowCenterLat = (row + 0.5) * latStep;
+    const lngStep = latStep / Math.max(Math.cos((rowCenterLat * Math.PI) / 180), 0.01);
+    const col = Math.floor(lng / lngStep);
+
+    return {
+        areaId: `${row}:${col}`,
+        center: {
+            lat: Number(rowCenterLat.toFixed(5)),
+            lng: Number(((col + 0.5) * lngStep).toFixed(5)),
+        },
+    };
+}
+
+/**
+ * Derive the surge multiplier of an area from its demand and supply
+ *
+ * ratio      = pendingRides / max(availableDrivers, 1)
+ * multiplier = 1 + (ratio - 1) * SENSITIVITY, between 1 and MAX_MULTIPLIER
+ *
+ * @param pendingRides - PENDING rides picked up in the area
+ * @param availableDrivers - Available drivers in the area
+ * @returns Surge multiplier (1.0 = no surge)
+ */
+export function calculateSurgeMultiplier(pendingRides: number, availableDrivers: number): number {
+    if (pendingRides < SURGE_CONFIG.MIN_PENDING_RIDES) {
+        return 1.0;
+    }
+
+    const ratio = pendingRides / Math.max(availableDrivers, 1);
+    const raw = 1 + (ratio - 1) * SURGE_CONFIG.SENSITIVITY;
+    const capped = Math.min(Math.max(raw, 1), SURGE_CONFIG.MAX_MULTIPLIER);
+
+    // Round down to the step, with a small epsilon for float noise
+    const steps = Math.floor(capped / SURGE_CONFIG.STEP + 1e-9);
+    return Number((steps * SURGE_CONFIG.STEP).toFixed(2));
+}
+
+/**
+ * Count live demand and supply per area
+ */
+async function collectAreaCounts() {
+    const pendingRides = await db.ride.findMany({
+        where: { status: RideStatus.PENDING },
+        select: { originLat: true, originLng: true },
+    });
+
+    const areas = new Map<string, { center: { lat: number; lng: number }; pendingRides: number; availableDrivers: number }>();
+
+    const getArea = (lat: number, lng: number) => {
+        const { areaId, center } = getAreaCell(lat, lng);
+        let area = areas.get(areaId);
+        if (!area) {
+            area = { center, pendingRides: 0, availableDrivers: 0 };
+            areas.set(areaId, area);
+        }
+        return area;
+    };
+
+    for (const ride of pendingRides) {
+        getArea(ride.originLat, ride.originLng).pendingRides++;
+    }
+
+    for (const location of getAvailableDriverLocations().values()) {
+        getArea(location.latitude, location.longitude).availableDrivers++;
+    }
+
+    return areas;
+}
+
+/**
+ * Get the current surge map (admin)
+ * Only areas with pending rides or available drivers are listed,
+ * highest multiplier first
+ */
+export async function getSurgeMap() {
+    const counts = await collectAreaCounts();
+
+    const areas: SurgeArea[] = [...counts.entries()].map(([areaId, area]) => ({
+        areaId,
+        center: area.center,
+        pendingRides: area.pendingRides,
+        availableDrivers: area.availableDrivers,
+        demandSupplyRatio: Number((area.pendingRides / Math.max(area.availableDrivers, 1)).toFixed(2)),
+        multiplier: calculateSurgeMultiplier(area.pendingRides, area.availableDrivers),
+    }));
+
+    areas.sort((a, b) => b.multiplier - a.multiplier || b.pendingRides - a.pendingRides);
+
+    return {
+        generatedAt: new Date(),
+        cellSizeKm: SURGE_CONFIG.CELL_SIZE_KM,
+        maxMultiplier: SURGE_CONFIG.MAX_MULTIPLIER,
+        areas,
+    };
+}
+
+/**
+ * Get the surge multiplier for a pickup point
+ *
+ * @param lat - Pickup latitude
+ * @param lng - Pickup longitude
+ * @returns Surge multiplier of the pickup area (1.0 without coordinates)
+ */
+export async function getSurgeMultiplier(lat?: number, lng?: number): Promise<number> {
+    if (lat === undefined || lng === undefined) {
+        return 1.0;
+    }
+
+    const counts = await collectAreaCounts();
+    const area = counts.get(getAreaCell(lat, lng).areaId);
+
+    if (!area) {
+        return 1.0;
+    }
+
+    return calculateSurgeMultiplier(area.pendingRides, area.availableDrivers);
+}
@@ -0,0 +1,333 @@
+import { Ride, RideLocationPoint, RideOfferStatus, RideStatus, Role } from "@prisma/client";
+import { db } from "../../utils/db";
+import { NotFoundError, UnauthorizedError } from "../../utils/errors";
+import { calculateDistance } from "../../utils/distance";
+import { calculatePriceBreakdown, PricedTimeRule, resolveTripMetrics } from "./ride.pricing.services";
+import { findTariffById } from "../tariff/tariff.services";
+import { findTariffZoneById } from "../tariff/tariff.zone.services";
+import { getRideDiscount } from "../promo/promo.services";
+
+/**
+ * GPS trail configuration
+ * The trail is recorded by the location handler while the ride is ACCEPTED,
+ * ARRIVED or ONGOING; the ONGOING part is the trip actually driven
+ */
+export const TRAIL_CONFIG = {
+    MAX_ACCURACY_M: 50, // Less precise fixes are left out of the distance
+    MAX_SPEED_KMH: 200, // A jump faster than this between two fixes is a bad fix
+    MIN_POINTS: Number(process.env.RIDE_TRAIL_MIN_POINTS) || 5, // Shorter trails do not give a distance
+    REPRICE_ON_ACTUAL: process.env.RIDE_REPRICE_ON_ACTUAL === "true", // Off: the booked price stands
+    DISTANCE_TOLERANCE: Number(process.env.RIDE_REPRICE_DISTANCE_TOLERANCE) || 0.15, // Gap to the booked distance before repricing
+    DURATION_TOLERANCE: Number(process.env.RIDE_REPRICE_DURATION_TOLERANCE) || 0.3, // Gap to the booked duration before repricing
+    MAX_INCREASE: Number(process.env.RIDE_REPRICE_MAX_INCREASE) || 0.25, // Share of the booked price a ride can go up by
+};
+
+/**
+ * Distance and duration of the trip actually driven
+ */
+export interface ActualTrip {
+    actualDistanceKm: number | null;
+    actualDurationMin: number | null;
+}
+
+/**
+ * Price of a ride repriced from the actual trip
+ */
+export interface RepricedFare {
+    price: number;
+    bookedPrice: number;
+    discountAmount?: number;
+}
+
+/**
+ * Distance along a GPS trail, in km
+ * Imprecise fixes and jumps no car could make are skipped
+ */
+export function measureTrailDistance(points: Pick<RideLocationPoint, "lat" | "lng" | "accuracy" | "recordedAt">[]) {
+    let distanceKm = 0;
+    let previous: (typeof points)[number] | null = null;
+
+    for (const point of points) {
+        if (point.accuracy !== null && point.accuracy > TRAIL_CONFIG.MAX_ACCURACY_M) {
+            continue;
+        }
+
+        if (previous) {
+            const segmentKm = calculateDistance(previous.lat, previous.lng, point.lat, point.lng);
+            const hours = (point.recordedAt.getTime() - previous.recordedAt.getTime()) / (60 * 60 * 1000);
+
+            if (segmentKm > hours * TRAIL_CONFIG.MAX_SPEED_KMH) {
+                continue;
+            }
+
+            distanceKm += segmentKm;
+        }
+
+        previous = point;
+    }
+
+    return distanceKm;
+}
+
+/**
+ * Measure the trip of a ride from its trail, once it is completed
+ * The duration runs from boarding (or the first ONGOING fix, for rides
+ * started before it was recorded) to completion
+ */
+export async function measureRideTrip(
+    ride: Pick<Ride, "id" | "startedAt">,
+    completedAt: Date
+): Promise<ActualTrip> {
+    const points = await db.rideLocationPoint.findMany({
+        where: { rideId: ride.id, rideStatus: RideStatus.ONGOING },
+        orderBy: { recordedAt: "asc" },
+    });
+
+    const startedAt = ride.startedAt ?? points[0]?.recordedAt ?? null;
+
+    return {
+        actualDistanceKm: points.length >= TRAIL_CONFIG.MIN_POINTS
+            ? Number(measureTrailDistance(points).toFixed(2))
+            : null,
+        actualDurationMin: startedAt
+            ? Number(((completedAt.getTime() - startedAt.getTime()) / 60000).toFixed(1))
+            : null,
+    };
+}
+
+/**
+ * Whether an actual value is further from the booked one than the tolerance
+ */
+function exceedsTolerance(actual: number, booked: number, tolerance: number) {
+    if (booked <= 0) {
+        return actual > 0;
+    }
+
+    return Math.abs(actual - booked) / booked > tolerance;
+}
+
+/**
+ * Reprice a ride from the trip actually driven, when enabled
+ *
+ * Tolerance rules: the booked price stands unless the actual distance or
+ * duration is off the booked one by more than its tolerance. The new price
+ * uses the terms stored on the ride at booking: tariff version, pickup zone
+ * and cross-zone surcharge, surge, and the time rules as they were then.
+ * It goes up by MAX_INCREASE of the booked price at most and can go down freely.
+ * Prices agreed on an offer and trips without a usable trail are not repriced.
+ *
+ * @returns The new fare, or null when the booked price stands
+ */
+export async function repriceFromActualTrip(ride: Ride, actual: ActualTrip): Promise<RepricedFare | null> {
+    if (
+        !TRAIL_CONFIG.REPRICE_ON_ACTUAL ||
+        actual.actualDistanceKm === null ||
+        actual.actualDurationMin === null
+    ) {
+        return null;
+    }
+
+    const acceptedOffers = await db.rideOffer.count({
+        where: { rideId: ride.id, status: RideOfferStatus.ACCEPTED },
+    });
+
+    if (acceptedOffers > 0) {
+        return null;
+    }
+
+    const stops = await db.rideStop.findMany({
+        where: { rideId: ride.id },
+        orderBy: { order: "asc" },
+        select: { lat: true, lng: true },
+    });
+
+    const trip = {
+        type: ride.type,
+        originLat: ride.originLat,
+        originLng: ride.originLng,
+        destLat: ride.destLat,
+        destLng: ride.destLng,
+        ...(stops.length > 0 && { stops }),
+    };
+
+    // What the passenger booked (straight line when the client sent no distance)
+    const booked = resolveTripMetrics({
+        ...trip,
+        ...(ride.distanceKm != null && { distanceKm: ride.distanceKm }),
+        ...(ride.durationMin != null && { durationMin: ride.durationMin }),
+    });
+
+    if (
+        !exceedsTolerance(actual.actualDistanceKm, booked.distanceKm, TRAIL_CONFIG.DISTANCE_TOLERANCE) &&
+        !exceedsTolerance(actual.actualDurationMin, booked.durationMin, TRAIL_CONFIG.DURATION_TOLERANCE)
+    ) {
+        return null;
+    }
+
+    const [tariff, zone] = await Promise.all([
+        ride.tariffId ? findTariffById(ride.tariffId) : null,
+        ride.zoneId ? findTariffZoneById(ride.zoneId) : null,
+    ]);
+
+    // The cross-zone surcharge is the one charged at booking, not the zone's current one
+    const zoning = {
+        zone: zone && { ...zone, crossZoneSurcharge: ride.crossZoneSurcharge },
+        crossesZone: ride.crossZoneSurcharge > 0,
+    };
+
+    const breakdown = calculatePriceBreakdown(
+        { ...trip, distanceKm: actual.actualDistanceKm, durationMin: actual.actualDurationMin },
+        tariff,
+        zoning,
+        ride.surgeMultiplier,
+        ride.timeRules as PricedTimeRule[]
+    );
+
+    const price = Math.min(breakdown.totalPrice, Math.round(ride.price * (1 + TRAIL_CONFIG.MAX_INCREASE)));
+
+    if (price === ride.price) {
+        return null;
+    }
+
+    return {
+        price,
+        bookedPrice: ride.price,
+        // A promo code applies to the new price
+        ...(ride.promoCodeId && { discountAmount: await getRideDiscount(ride.promoCodeId, price) }),
+    };
+}
+
+/**
+ * Completion data of a ride: the trip actually driven and, when repricing
+ * is enabled and the trip is off the booking, the new fare
+ */
+export async function finaliseRideTrip(ride: Ride, completedAt: Date) {
+    const actual = await measureRideTrip(ride, completedAt);
+    const fare = await repriceFromActualTrip(ride, actual);
+
+    return { completedAt, ...actual, ...fare };
+}
+
+/**
+ * Formats a ride's trail is exported in
+ */
+export const TRACK_FORMATS = ["geojson", "gpx"] as const;
+export type TrackFormat = (typeof TRACK_FORMATS)[number];
+
+/**
+ * Trail of a ride, for route replay (passenger, driver or admin)
+ */
+export async function getRideTrack(rideId: string, userId: string, role?: Role) {
+    const ride = await db.ride.findUnique({
+        where: { id: rideId },
+        select: {
+            id: true,
+            userId: true,
+            driverId: true,
+            status: true,
+            startedAt: true,
+            completedAt: true,
+            actualDistanceKm: true,
+            actualDurationMin: true,
+        },
+    });
+
+    if (!ride) {
+        throw new NotFoundError("Ride not found");
+    }
+
+    if (ride.userId !== userId && ride.driverId !== userId && role !== Role.ADMIN) {
+        throw new UnauthorizedError("Unauthorized: You are not part of this ride");
+    }
+
+    const points = await db.rideLocationPoint.findMany({
+        where: { rideId },
+        orderBy: { recordedAt: "asc" },
+    });
+
+    return { ride, points };
+}
+
+export type RideTrack = Awaited<ReturnType<typeof getRideTrack>>;
+
+/**
+ * Trail as a GeoJSON Feature
+ * A LineString has no room for anything but positions: the timestamp, speed
+ * (km/h), heading (degrees) and ride status of each point are arrays of the
+ * properties, in the order of the coordinates. The geometry is null below two points.
+ */
+export function toTrackGeoJson({ ride, points }: RideTrack) {
+    return {
+        type: "Feature" as const,
+        geometry: points.length >= 2
+            ? { type: "LineString" as const, coordinates: points.map((point) => [point.lng, point.lat]) }
+            : null,
+        properties: {
+            rideId: ride.id,
+            status: ride.status,
+            startedAt: ride.startedAt,
+            completedAt: ride.completedAt,
+            actualDistanceKm: ride.actualDistanceKm,
+            actualDurationMin: ride.actualDurationMin,
+            coordTimes: points.map((point) => point.recordedAt.toISOString()),
+            speeds: points.map((point) => point.speed),
+            headings: points.map((point) => point.heading),
+            accuracies: points.map((point) => point.accuracy),
+            rideStatuses: points.map((point) => point.rideStatus),
+        },
+    };
+}
+
+/**
+ * Trail as a GPX 1.1 document
+ * One track per ride status (the way to the pickup, then the trip); speed (m/s)
+ * and heading go in the Garmin TrackPointExtension most GPX tools read
+ */
+export function toTrackGpx({ ride, points }: RideTrack) {
+    const tracks: { status: RideStatus; points: RideLocationPoint[] }[] = [];
+    for (const point of points) {
+        const current = tracks[tracks.length - 1];
+        if (current && current.status === point.rideStatus) {
+            current.points.push(point);
+        } else {
+            tracks.push({ status: point.rideStatus, points: [point] });
+        }
+    }
+
+    const trackPoint = (point: RideLocationPoint) => {
+        const extensions = [
+            point.speed !== null && `<gpxtpx:speed>${Number((point.speed / 3.6).toFixed(2))}</gpxtpx:speed>`,
+            point.heading !== null && `<gpxtpx:course>${point.heading}</gpxtpx:course>`,
+        ].filter(Boolean).join("");
+
+        return [
+            `      <trkpt lat="${point.lat}" lon="${point.lng}">`,
+            `        <time>${point.recordedAt.toISOString()}</time>`,
+            ...(extensions
+                ? [`        <extensions><gpxtpx:TrackPointExtension>${extensions}</gpxtpx:TrackPointExtension></extensions>`]
+                : []),
+            "      </trkpt>",
+        ].join("\n");
+    };
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gpx version="1.1" creator="vtc" xmlns="http://www.topografix.com/GPX/1/1" '
+            + 'xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">',
+        "  <metadata>",
+        `    <name>Ride ${ride.id}</name>`,
+        ...(points[0] ? [`    <time>${points[0].recordedAt.toISOString()}</time>`] : []),
+        "  </metadata>",
+        ...tracks.map((track) => [
+            "  <trk>",
+            `    <name>Ride ${ride.id} (${track.status})</name>`,
+            `    <type>${track.status}</type>`,
+            "    <trkseg>",
+            ...track.points.map(trackPoint),
+            "    </trkseg>",
+            "  </trk>",
+        ].join("\n")),
+        "</gpx>",
+        "",
+    ].join("\n");
+}
@@ -0,0 +1,316 @@
+import express from "express";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+import { Role } from "@prisma/client";
+import tariffRouter from "../tariff.route";
+import { BadRequestError } from "../../../utils/errors";
+
+// Mock the tariff services
+jest.mock("../tariff.services", () => ({
+    createTariff: jest.fn(),
+    getAllTariffs: jest.fn(),
+    findTariffById: jest.fn(),
+    getActiveTariff: jest.fn(),
+    updateTariff: jest.fn(),
+    deleteTariff: jest.fn(),
+}));
+
+// Mock the tariff zone services
+jest.mock("../tariff.zone.services", () => ({
+    createTariffZone: jest.fn(),
+    getAllTariffZones: jest.fn(),
+    findTariffZoneById: jest.fn(),
+    updateTariffZone: jest.fn(),
+    deactivateTariffZone: jest.fn(),
+}));
+
+// Mock the tariff rule services
+jest.mock("../tariff.rule.services", () => ({
+    createTariffRule: jest.fn(),
+    getAllTariffRules: jest.fn(),
+    findTariffRuleById: jest.fn(),
+    updateTariffRule: jest.fn(),
+    deactivateTariffRule: jest.fn(),
+}));
+
+import * as tariffServices from "../tariff.services";
+import * as zoneServices from "../tariff.zone.services";
+import * as ruleServices from "../tariff.rule.services";
+
+// Mock environment
+process.env.JWT_ACCESS_SECRET = "testsecret";
+
+const app = express();
+app.use(express.json());
+app.use("/tariffs", tariffRouter);
+
+describe("Tariff Routes", () => {
+    const userPayload = { userId: "user-123", role: Role.USER };
+    const adminPayload = { userId: "admin-123", role: Role.ADMIN };
+
+    const generateToken = (payload: any) => {
+        return jwt.sign(payload, process.env.JWT_ACCESS_SECRET!, {
+            expiresIn: "1h",
+        });
+    };
+
+    const validBody = {
+        baseFare: 120,
+        perKmRate: 55,
+        perMinuteRate: 12,
+        minimumFare: 250,
+        commissionPercent: 0.12,
+        cancellationPenaltyPercent: 0.05,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("POST /tariffs", () => {
+        it("should allow admin to publish a tariff", async () => {
+            (tariffServices.createTariff as jest.Mock).mockResolvedValue({
+                id: "tariff-1",
+                version: 1,
+                ...validBody,
+            });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/tariffs")
+                .set("Authorization", `Bearer ${token}`)
+                .send(validBody);
+
+            expect(res.status).toBe(201);
+            expect(res.body.version).toBe(1);
+            expect(tariffServices.createTariff).toHaveBeenCalledWith(validBody, "admin-123");
+        });
+
+        it("should reject non-admin users", async () => {
+            const token = generateToken(userPayload);
+            const res = await request(app)
+                .post("/tariffs")
+                .set("Authorization", `Bearer ${token}`)
+                .send(validBody);
+
+            expect(res.status).toBe(403);
+            expect(tariffServices.createTariff).not.toHaveBeenCalled();
+        });
+
+        it("should reject missing rate fields", async () => {
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/tariffs")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ baseFare: 120 });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toContain("perKmRate");
+        });
+    });
+
+    describe("GET /tariffs/active", () => {
+        it("should return the active tariff to any authenticated user", async () => {
+            (tariffServices.getActiveTariff as jest.Mock).mockResolvedValue({ id: "tariff-1" });
+
+            const token = generateToken(userPayload);
+            const res = await request(app)
+                .get("/tariffs/active")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.id).toBe("tariff-1");
+        });
+    });
+
+    describe("GET /tariffs/:tariffId", () => {
+        it("should return 404 for unknown tariff", async () => {
+            (tariffServices.findTariffById as jest.Mock).mockResolvedValue(null);
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .get("/tariffs/missing")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    describe("PUT /tariffs/:tariffId", () => {
+        it("should surface the error when the tariff is already in effect", async () => {
+            (tariffServices.updateTariff as jest.Mock).mockRejectedValue(
+                new BadRequestError("Tariff is already in effect. Create a new version instead")
+            );
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .put("/tariffs/tariff-1")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ baseFare: 150 });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toMatch(/already in effect/);
+        });
+    });
+
+    describe("DELETE /tariffs/:tariffId", () => {
+        it("should delete a scheduled tariff", async () => {
+            (tariffServices.deleteTariff as jest.Mock).mockResolvedValue({ id: "tariff-2" });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .delete("/tariffs/tariff-2")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(204);
+            expect(tariffServices.deleteTariff).toHaveBeenCalledWith("tariff-2");
+        });
+    });
+
+    describe("POST /tariffs/zones", () => {
+        const zoneBody = {
+            name: "Grand Sud",
+            wilayaCodes: ["01", "11", "33"],
+            baseFare: 200,
+            perKmRate: 30,
+            perMinuteRate: 5,
+            minimumFare: 400,
+            crossZoneSurcharge: 150,
+        };
+
+        it("should allow admin to create a zone", async () => {
+            (zoneServices.createTariffZone as jest.Mock).mockResolvedValue({ id: "zone-1", ...zoneBody });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/tariffs/zones")
+                .set("Authorization", `Bearer ${token}`)
+                .send(zoneBody);
+
+            expect(res.status).toBe(201);
+            expect(res.body.id).toBe("zone-1");
+            expect(zoneServices.createTariffZone).toHaveBeenCalledWith(zoneBody);
+        });
+
+        it("should reject missing fields", async () => {
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/tariffs/zones")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ wilayaCodes: ["16"] });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toContain("name");
+        });
+
+        it("should reject non-admin users", async () => {
+            const token = generateToken(userPayload);
+            const res = await request(app)
+                .post("/tariffs/zones")
+                .set("Authorization", `Bearer ${token}`)
+                .send(zoneBody);
+
+            expect(res.status).toBe(403);
+            expect(zoneServices.createTariffZone).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("GET /tariffs/zones/:zoneId", () => {
+        it("should not be shadowed by the tariff routes", async () => {
+            (zoneServices.findTariffZoneById as jest.Mock).mockResolvedValue({ id: "zone-1" });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .get("/tariffs/zones/zone-1")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.id).toBe("zone-1");
+            expect(tariffServices.findTariffById).not.toHaveBeenCalled();
+        });
+
+        it("should return 404 for unknown zone", async () => {
+            (zoneServices.findTariffZoneById as jest.Mock).mockResolvedValue(null);
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .get("/tariffs/zones/missing")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    describe("DELETE /tariffs/zones/:zoneId", () => {
+        it("should deactivate the zone", async () => {
+            (zoneServices.deactivateTariffZone as jest.Mock).mockResolvedValue({ id: "zone-1", isActive: false });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .delete("/tariffs/zones/zone-1")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.isActive).toBe(false);
+            expect(zoneServices.deactivateTariffZone).toHaveBeenCalledWith("zone-1");
+        });
+    });
+
+    describe("POST /tariffs/rules", () => {
+        const nightRule = { name: "Night", startTime: "22:00", endTime: "06:00", multiplier: 1.25 };
+
+        it("should allow admin to create a rule", async () => {
+            (ruleServices.createTariffRule as jest.Mock).mockResolvedValue({ id: "rule-1", ...nightRule });
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/tariffs/rules")
+                .set("Authorization", `Bearer ${token}`)
+                .send(nightRule);
+
+            expect(res.status).toBe(201);
+            expect(res.body.id).toBe("rule-1");
+            expect(ruleServices.createTariffRule).toHaveBeenCalledWith(nightRule, "admin-123");
+        });
+
+        it("should reject a rule without name", async () => {
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/tariffs/rules")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ startTime: "22:00", endTime: "06:00" });
+
+            expect(res.status).toBe(400);
+            expect(ruleServices.createTariffRule).not.toHaveBeenCalled();
+        });
+
+        it("should surface validation errors", async () => {
+            (ruleServices.createTariffRule as jest.Mock).mockRejectedValue(
+                new BadRequestError("startTime must be a time in HH:mm format")
+            );
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .post("/tariffs/rules")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ name: "Night", startTime: "25:00", endTime: "06:00" });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toMatch(/HH:mm/);
+        });
+    });
+
+    describe("GET /tariffs/rules/:ruleId", () => {
+        it("should return 404 for unknown rule", async () => {
+            (ruleServices.findTariffRuleById as jest.Mock).mockResolvedValue(null);
+
+            const token = generateToken(adminPayload);
+            const res = await request(app)
+                .get("/tariffs/rules/missing")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(404);
+            expect(tariffServices.findTariffById).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,190 @@
+import { db } from "../../../utils/db";
+import {
+    createTariffRule,
+    updateTariffRule,
+    deactivateTariffRule,
+    getApplicableTariffRules,
+} from "../tariff.rule.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        tariffRule: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+        },
+    },
+}));
+
+describe("Tariff Rule Services", () => {
+    const ruleDefaults = {
+        daysOfWeek: [] as number[],
+        startTime: null as string | null,
+        endTime: null as string | null,
+        startDate: null as Date | null,
+        endDate: null as Date | null,
+        multiplier: 1.0,
+        surcharge: 0,
+        exclusive: false,
+        priority: 0,
+        isActive: true,
+        createdBy: "admin-123",
+        createdAt: new Date("2026-01-01"),
+        updatedAt: new Date("2026-01-01"),
+    };
+
+    const nightRule = {
+        ...ruleDefaults,
+        id: "rule-night",
+        name: "Night",
+        startTime: "22:00",
+        endTime: "06:00",
+        multiplier: 1.25,
+    };
+
+    // Algerian weekend
+    const weekendRule = {
+        ...ruleDefaults,
+        id: "rule-weekend",
+        name: "Weekend",
+        daysOfWeek: [5, 6],
+        surcharge: 50,
+    };
+
+    const fridayNightRule = {
+        ...ruleDefaults,
+        id: "rule-friday-night",
+        name: "Friday night",
+        daysOfWeek: [5],
+        startTime: "22:00",
+        endTime: "04:00",
+        surcharge: 100,
+    };
+
+    const eidRule = {
+        ...ruleDefaults,
+        id: "rule-eid",
+        name: "Eid",
+        startDate: new Date("2026-10-16T00:00:00.000Z"),
+        endDate: new Date("2026-10-18T00:00:00.000Z"),
+        multiplier: 1.5,
+        exclusive: true,
+        priority: 10,
+    };
+
+    // Local (Africa/Algiers, UTC+1) times
+    const fridayEvening = new Date("2026-10-16T21:30:00.000Z"); // Fri 22:30
+    const saturdayNight = new Date("2026-10-17T01:00:00.000Z"); // Sat 02:00
+    const sundayMorning = new Date("2026-10-18T10:00:00.000Z"); // Sun 11:00
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("createTariffRule", () => {
+        it("should create a rule with sorted, de-duplicated days", async () => {
+            (db.tariffRule.create as jest.Mock).mockImplementation(({ data }) =>
+                Promise.resolve({ id: "rule-1", ...data })
+            );
+
+            const rule = await createTariffRule({ name: "Weekend", daysOfWeek: [6, 5, 6], surcharge: 50 }, "admin-123");
+
+            expect(rule.daysOfWeek).toEqual([5, 6]);
+            expect(rule.multiplier).toBe(1.0);
+            expect(rule.createdBy).toBe("admin-123");
+        });
+
+        it("should reject a rule without any condition", async () => {
+            await expect(createTariffRule({ name: "Always", surcharge: 50 }, "admin-123")).rejects.toThrow(
+                "A rule needs at least a day, time or date condition"
+            );
+            expect(db.tariffRule.create).not.toHaveBeenCalled();
+        });
+
+        it("should reject invalid times and half-open windows", async () => {
+            await expect(
+                createTariffRule({ name: "Night", startTime: "24:00", endTime: "06:00" }, "admin-123")
+            ).rejects.toThrow("startTime must be a time in HH:mm format");
+
+            await expect(
+                createTariffRule({ name: "Night", startTime: "22:00" }, "admin-123")
+            ).rejects.toThrow("startTime and endTime must be set together");
+        });
+
+        it("should reject invalid days and date ranges", async () => {
+            await expect(
+                createTariffRule({ name: "Bad", daysOfWeek: [7] }, "admin-123")
+            ).rejects.toThrow("daysOfWeek");
+
+            await expect(
+                createTariffRule({
+                    name: "Bad",
+                    startDate: new Date("2026-04-02"),
+                    endDate: new Date("2026-03-01"),
+                }, "admin-123")
+            ).rejects.toThrow("startDate must be before endDate");
+        });
+    });
+
+    describe("updateTariffRule / deactivateTariffRule", () => {
+        it("should validate the merged conditions", async () => {
+            (db.tariffRule.findUnique as jest.Mock).mockResolvedValue(nightRule);
+
+            await expect(updateTariffRule("rule-night", { endTime: null })).rejects.toThrow(
+                "startTime and endTime must be set together"
+            );
+            expect(db.tariffRule.update).not.toHaveBeenCalled();
+        });
+
+        it("should throw when the rule does not exist", async () => {
+            (db.tariffRule.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(deactivateTariffRule("missing")).rejects.toThrow("Tariff rule not found");
+        });
+    });
+
+    describe("getApplicableTariffRules", () => {
+        it("should only load active rules whose date range covers the time", async () => {
+            (db.tariffRule.findMany as jest.Mock).mockResolvedValue([]);
+
+            await getApplicableTariffRules(sundayMorning);
+
+            expect(db.tariffRule.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        isActive: true,
+                        AND: [
+                            { OR: [{ startDate: null }, { startDate: { lte: sundayMorning } }] },
+                            { OR: [{ endDate: null }, { endDate: { gte: sundayMorning } }] },
+                        ],
+                    },
+                })
+            );
+        });
+
+        it("should match time windows and days in local time", async () => {
+            (db.tariffRule.findMany as jest.Mock).mockResolvedValue([nightRule, weekendRule]);
+
+            expect((await getApplicableTariffRules(fridayEvening)).map((r) => r.id)).toEqual([
+                "rule-night",
+                "rule-weekend",
+            ]);
+            expect(await getApplicableTariffRules(sundayMorning)).toEqual([]);
+        });
+
+        it("should keep applying a window wrapping past midnight to the day it started", async () => {
+            (db.tariffRule.findMany as jest.Mock).mockResolvedValue([fridayNightRule]);
+
+            // Saturday 02:00 is still Friday night
+            expect(await getApplicableTariffRules(saturdayNight)).toEqual([fridayNightRule]);
+        });
+
+        it("should let an exclusive rule override the others", async () => {
+            (db.tariffRule.findMany as jest.Mock).mockResolvedValue([eidRule, nightRule, weekendRule]);
+
+            expect(await getApplicableTariffRules(fridayEvening)).toEqual([eidRule]);
+        });
+    });
+});
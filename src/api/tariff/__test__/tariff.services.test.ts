@@ -0,0 +1,146 @@
+import { db } from "../../../utils/db";
+import {
+    createTariff,
+    getActiveTariff,
+    updateTariff,
+    deleteTariff,
+} from "../tariff.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        tariff: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            findFirst: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+        },
+    },
+}));
+
+describe("Tariff Services", () => {
+    const validInput = {
+        name: "Summer 2026",
+        baseFare: 120,
+        perKmRate: 55,
+        perMinuteRate: 12,
+        minimumFare: 250,
+        commissionPercent: 0.12,
+        cancellationPenaltyPercent: 0.05,
+    };
+
+    const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("createTariff", () => {
+        it("should create a tariff effective immediately by default", async () => {
+            (db.tariff.create as jest.Mock).mockImplementation(({ data }) =>
+                Promise.resolve({ id: "tariff-1", version: 1, ...data })
+            );
+
+            const result = await createTariff(validInput, "admin-123");
+
+            expect(result.version).toBe(1);
+            expect(result.createdBy).toBe("admin-123");
+            expect(result.effectiveFrom).toBeInstanceOf(Date);
+            expect(db.tariff.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    baseFare: 120,
+                    commissionPercent: 0.12,
+                }),
+            });
+        });
+
+        it("should reject a percentage outside 0..1", async () => {
+            await expect(
+                createTariff({ ...validInput, commissionPercent: 10 }, "admin-123")
+            ).rejects.toThrow("commissionPercent must be a fraction between 0 and 1");
+            expect(db.tariff.create).not.toHaveBeenCalled();
+        });
+
+        it("should reject negative rates", async () => {
+            await expect(
+                createTariff({ ...validInput, perKmRate: -5 }, "admin-123")
+            ).rejects.toThrow("perKmRate must be a non-negative number");
+        });
+
+        it("should reject an effectiveFrom date in the past", async () => {
+            await expect(
+                createTariff({ ...validInput, effectiveFrom: new Date("2020-01-01") }, "admin-123")
+            ).rejects.toThrow("effectiveFrom cannot be in the past");
+        });
+    });
+
+    describe("getActiveTariff", () => {
+        it("should return the latest tariff already in effect", async () => {
+            const tariff = { id: "tariff-2", version: 2 };
+            (db.tariff.findFirst as jest.Mock).mockResolvedValue(tariff);
+
+            const at = new Date("2026-10-18T10:00:00Z");
+            const result = await getActiveTariff(at);
+
+            expect(result).toEqual(tariff);
+            expect(db.tariff.findFirst).toHaveBeenCalledWith({
+                where: { effectiveFrom: { lte: at } },
+                orderBy: { effectiveFrom: "desc" },
+            });
+        });
+
+        it("should return null when no tariff has been published", async () => {
+            (db.tariff.findFirst as jest.Mock).mockResolvedValue(null);
+
+            expect(await getActiveTariff()).toBeNull();
+        });
+    });
+
+    describe("updateTariff / deleteTariff", () => {
+        it("should update a scheduled tariff", async () => {
+            (db.tariff.findUnique as jest.Mock).mockResolvedValue({
+                id: "tariff-3",
+                effectiveFrom: inOneDay(),
+            });
+            (db.tariff.update as jest.Mock).mockResolvedValue({ id: "tariff-3", baseFare: 150 });
+
+            const result = await updateTariff("tariff-3", { baseFare: 150 });
+
+            expect(result.baseFare).toBe(150);
+            expect(db.tariff.update).toHaveBeenCalledWith({
+                where: { id: "tariff-3" },
+                data: { baseFare: 150 },
+            });
+        });
+
+        it("should refuse to update a tariff already in effect", async () => {
+            (db.tariff.findUnique as jest.Mock).mockResolvedValue({
+                id: "tariff-1",
+                effectiveFrom: new Date("2026-01-01"),
+            });
+
+            await expect(updateTariff("tariff-1", { baseFare: 150 })).rejects.toThrow(
+                "Tariff is already in effect"
+            );
+            expect(db.tariff.update).not.toHaveBeenCalled();
+        });
+
+        it("should refuse to delete a tariff already in effect", async () => {
+            (db.tariff.findUnique as jest.Mock).mockResolvedValue({
+                id: "tariff-1",
+                effectiveFrom: new Date("2026-01-01"),
+            });
+
+            await expect(deleteTariff("tariff-1")).rejects.toThrow("Tariff is already in effect");
+            expect(db.tariff.delete).not.toHaveBeenCalled();
+        });
+
+        it("should throw NotFound for unknown tariffs", async () => {
+            (db.tariff.findUnique as jest.Mock).mockResolvedValue(null);
+
+            await expect(deleteTariff("missing")).rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+});
@@ -0,0 +1,245 @@
+import { db } from "../../../utils/db";
+import { reverseGeocodeRegion } from "../../../utils/geocoding";
+import {
+    createTariffZone,
+    updateTariffZone,
+    deactivateTariffZone,
+    resolveTripZones,
+} from "../tariff.zone.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        tariffZone: {
+            create: jest.fn(),
+            findUnique: jest.fn(),
+            findMany: jest.fn(),
+            update: jest.fn(),
+        },
+    },
+}));
+
+// Mock the region lookup, keep the pure helpers
+jest.mock("../../../utils/geocoding", () => ({
+    ...jest.requireActual("../../../utils/geocoding"),
+    reverseGeocodeRegion: jest.fn(),
+}));
+
+describe("Tariff Zone Services", () => {
+    const rates = {
+        baseFare: 150,
+        perKmRate: 60,
+        perMinuteRate: 10,
+        minimumFare: 300,
+    };
+
+    const zoneDefaults = {
+        polygon: null,
+        wilayaCodes: [] as string[],
+        communes: [] as string[],
+        priority: 0,
+        crossZoneSurcharge: 0,
+        isActive: true,
+        ...rates,
+    };
+
+    // Polygon around central Algiers
+    const algiersCentre = {
+        ...zoneDefaults,
+        id: "zone-centre",
+        name: "Alger Centre",
+        polygon: [
+            { lat: 36.74, lng: 3.03 },
+            { lat: 36.74, lng: 3.09 },
+            { lat: 36.79, lng: 3.09 },
+            { lat: 36.79, lng: 3.03 },
+        ],
+    };
+
+    const algiersWilaya = {
+        ...zoneDefaults,
+        id: "zone-16",
+        name: "Wilaya d'Alger",
+        wilayaCodes: ["16"],
+    };
+
+    const babElOued = {
+        ...zoneDefaults,
+        id: "zone-beo",
+        name: "Bab El Oued",
+        wilayaCodes: ["16"],
+        communes: ["Bab El Oued"],
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("createTariffZone", () => {
+        it("should normalize wilaya codes", async () => {
+            (db.tariffZone.create as jest.Mock).mockImplementation(({ data }) =>
+                Promise.resolve({ id: "zone-1", ...data })
+            );
+
+            const zone = await createTariffZone({
+                name: "Grand Sud",
+                wilayaCodes: ["DZ-1", 11, "33", "01"],
+                ...rates,
+            });
+
+            expect(zone.wilayaCodes).toEqual(["01", "11", "33"]);
+        });
+
+        it("should require a polygon or wilaya codes", async () => {
+            await expect(createTariffZone({ name: "Empty", ...rates })).rejects.toThrow(
+                "A zone needs either a polygon or at least one wilaya code"
+            );
+            expect(db.tariffZone.create).not.toHaveBeenCalled();
+        });
+
+        it("should reject polygons with fewer than 3 points", async () => {
+            await expect(
+                createTariffZone({
+                    name: "Line",
+                    polygon: [{ lat: 36.7, lng: 3.0 }, { lat: 36.8, lng: 3.1 }],
+                    ...rates,
+                })
+            ).rejects.toThrow("polygon must be a list of at least 3");
+        });
+    });
+
+    describe("updateTariffZone / deactivateTariffZone", () => {
+        it("should refuse to remove the last area definition", async () => {
+            (db.tariffZone.findUnique as jest.Mock).mockResolvedValue(algiersWilaya);
+
+            await expect(updateTariffZone("zone-16", { wilayaCodes: [] })).rejects.toThrow(
+                "A zone needs either a polygon or at least one wilaya code"
+            );
+        });
+
+        it("should deactivate instead of deleting", async () => {
+            (db.tariffZone.findUnique as jest.Mock).mockResolvedValue(algiersWilaya);
+            (db.tariffZone.update as jest.Mock).mockResolvedValue({ ...algiersWilaya, isActive: false });
+
+            const zone = await deactivateTariffZone("zone-16");
+
+            expect(zone.isActive).toBe(false);
+            expect(db.tariffZone.update).toHaveBeenCalledWith({
+                where: { id: "zone-16" },
+                data: { isActive: false },
+            });
+        });
+    });
+
+    describe("resolveTripZones", () => {
+        it("should return no zone when none is configured", async () => {
+            (db.tariffZone.findMany as jest.Mock).mockResolvedValue([]);
+
+            const result = await resolveTripZones({ originLat: 36.76, originLng: 3.06 });
+
+            expect(result).toEqual({ zone: null, crossesZone: false });
+            expect(reverseGeocodeRegion).not.toHaveBeenCalled();
+        });
+
+        it("should prefer a polygon zone without calling the geocoder", async () => {
+            (db.tariffZone.findMany as jest.Mock).mockResolvedValue([algiersWilaya, algiersCentre]);
+
+            const result = await resolveTripZones({
+                originLat: 36.76,
+                originLng: 3.06,
+                destLat: 36.77,
+                destLng: 3.05,
+            });
+
+            expect(result.zone?.id).toBe("zone-centre");
+            expect(result.crossesZone).toBe(false);
+            expect(reverseGeocodeRegion).not.toHaveBeenCalled();
+        });
+
+        it("should not geocode the drop-off of a trip leaving a polygon zone", async () => {
+            (db.tariffZone.findMany as jest.Mock).mockResolvedValue([algiersWilaya, algiersCentre]);
+
+            // Drop-off in Blida, outside the Algiers polygon
+            const result = await resolveTripZones({
+                originLat: 36.76,
+                originLng: 3.06,
+                destLat: 36.47,
+                destLng: 2.83,
+            });
+
+            expect(result.zone?.id).toBe("zone-centre");
+            expect(result.crossesZone).toBe(true);
+            expect(reverseGeocodeRegion).not.toHaveBeenCalled();
+        });
+
+        it("should match wilaya zones from the geocoded region, communes first", async () => {
+            (db.tariffZone.findMany as jest.Mock).mockResolvedValue([algiersWilaya, babElOued]);
+            (reverseGeocodeRegion as jest.Mock).mockResolvedValue({
+                wilayaCode: "16",
+                wilaya: "Alger",
+                commune: "Bab El Oued",
+            });
+
+            const result = await resolveTripZones({ originLat: 36.79, originLng: 3.05 });
+
+            expect(result.zone?.id).toBe("zone-beo");
+        });
+
+        it("should flag trips whose drop-off is in another zone", async () => {
+            (db.tariffZone.findMany as jest.Mock).mockResolvedValue([algiersWilaya]);
+            (reverseGeocodeRegion as jest.Mock)
+                .mockResolvedValueOnce({ wilayaCode: "16", wilaya: "Alger", commune: null })
+                .mockResolvedValueOnce({ wilayaCode: "09", wilaya: "Blida", commune: null });
+
+            const result = await resolveTripZones({
+                originLat: 36.75,
+                originLng: 3.05,
+                destLat: 36.47,
+                destLng: 2.83,
+            });
+
+            expect(result.zone?.id).toBe("zone-16");
+            expect(result.crossesZone).toBe(true);
+        });
+
+        it("should not flag a drop-off the geocoder could not place", async () => {
+            (db.tariffZone.findMany as jest.Mock).mockResolvedValue([algiersWilaya]);
+            (reverseGeocodeRegion as jest.Mock)
+                .mockResolvedValueOnce({ wilayaCode: "16", wilaya: "Alger", commune: null })
+                .mockResolvedValueOnce(null);
+
+            const result = await resolveTripZones({
+                originLat: 36.75,
+                originLng: 3.05,
+                destLat: 36.47,
+                destLng: 2.83,
+            });
+
+            expect(result.zone?.id).toBe("zone-16");
+            expect(result.crossesZone).toBe(false);
+        });
+
+        it("should not flag a drop-off in a smaller zone inside the pickup zone", async () => {
+            (db.tariffZone.findMany as jest.Mock).mockResolvedValue([algiersWilaya, algiersCentre]);
+            (reverseGeocodeRegion as jest.Mock).mockResolvedValue({ wilayaCode: "16", wilaya: "Alger", commune: null });
+
+            // Picked up in Zeralda, outside the centre polygon; dropped off in the centre
+            const result = await resolveTripZones({
+                originLat: 36.71,
+                originLng: 2.84,
+                destLat: 36.77,
+                destLng: 3.05,
+            });
+
+            expect(result.zone?.id).toBe("zone-16");
+            expect(result.crossesZone).toBe(false);
+        });
+
+        it("should skip zone lookup without origin coordinates", async () => {
+            const result = await resolveTripZones({});
+
+            expect(result).toEqual({ zone: null, crossesZone: false });
+            expect(db.tariffZone.findMany).not.toHaveBeenCalled();
+        });
+    });
+});
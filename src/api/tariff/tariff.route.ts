@@ -0,0 +1,433 @@
+import express, { Request, Response } from "express";
+import { JwtPayload } from "jsonwebtoken";
+import { isAuthenticated, requireRole } from "../../middlewares/middlewares";
+import {
+    createTariff,
+    getAllTariffs,
+    findTariffById,
+    getActiveTariff,
+    updateTariff,
+    deleteTariff,
+} from "./tariff.services";
+import {
+    createTariffZone,
+    getAllTariffZones,
+    findTariffZoneById,
+    updateTariffZone,
+    deactivateTariffZone,
+} from "./tariff.zone.services";
+import {
+    createTariffRule,
+    getAllTariffRules,
+    findTariffRuleById,
+    updateTariffRule,
+    deactivateTariffRule,
+} from "./tariff.rule.services";
+import { Role } from "@prisma/client";
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+    payload?: JwtPayload & { userId: string; role: Role };
+}
+
+interface CustomError extends Error {
+    statusCode?: number;
+}
+
+const REQUIRED_FIELDS = [
+    "baseFare",
+    "perKmRate",
+    "perMinuteRate",
+    "minimumFare",
+    "commissionPercent",
+    "cancellationPenaltyPercent",
+] as const;
+
+const ZONE_REQUIRED_FIELDS = ["baseFare", "perKmRate", "perMinuteRate", "minimumFare"] as const;
+
+/**
+ * POST /tariffs - Publish a new tariff version (admin only)
+ */
+router.post(
+    "/",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { userId } = req.payload!;
+
+            const missing = REQUIRED_FIELDS.filter((field) => req.body[field] === undefined);
+            if (missing.length > 0) {
+                return res.status(400).json({
+                    error: `Missing required fields: ${missing.join(", ")}`,
+                });
+            }
+
+            const tariff = await createTariff(req.body, userId);
+
+            res.status(201).json(tariff);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /tariffs - List all tariff versions (admin only)
+ */
+router.get(
+    "/",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const tariffs = await getAllTariffs();
+            res.json(tariffs);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /tariffs/active - Get the tariff currently in effect (any authenticated user)
+ * Returns null when the built-in defaults apply
+ */
+router.get(
+    "/active",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const tariff = await getActiveTariff();
+            res.json(tariff);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /tariffs/zones - Create a tariff zone (admin only)
+ */
+router.post(
+    "/zones",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const missing = ["name", ...ZONE_REQUIRED_FIELDS].filter((field) => req.body[field] === undefined);
+            if (missing.length > 0) {
+                return res.status(400).json({
+                    error: `Missing required fields: ${missing.join(", ")}`,
+                });
+            }
+
+            const zone = await createTariffZone(req.body);
+
+            res.status(201).json(zone);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /tariffs/zones - List all tariff zones (admin only)
+ */
+router.get(
+    "/zones",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const zones = await getAllTariffZones();
+            res.json(zones);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /tariffs/zones/:zoneId - Get a tariff zone by ID (admin only)
+ */
+router.get(
+    "/zones/:zoneId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { zoneId } = req.params;
+
+            if (!zoneId) {
+                return res.status(400).json({ error: "zoneId is required" });
+            }
+
+            const zone = await findTariffZoneById(zoneId);
+
+            if (!zone) {
+                return res.status(404).json({ error: "Tariff zone not found" });
+            }
+
+            res.json(zone);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /tariffs/zones/:zoneId - Update a tariff zone (admin only)
+ */
+router.put(
+    "/zones/:zoneId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { zoneId } = req.params;
+
+            if (!zoneId) {
+                return res.status(400).json({ error: "zoneId is required" });
+            }
+
+            const zone = await updateTariffZone(zoneId, req.body);
+            res.json(zone);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * DELETE /tariffs/zones/:zoneId - Deactivate a tariff zone (admin only)
+ */
+router.delete(
+    "/zones/:zoneId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { zoneId } = req.params;
+
+            if (!zoneId) {
+                return res.status(400).json({ error: "zoneId is required" });
+            }
+
+            const zone = await deactivateTariffZone(zoneId);
+            res.json(zone);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /tariffs/rules - Create a time-of-day / holiday rule (admin only)
+ */
+router.post(
+    "/rules",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { userId } = req.payload!;
+
+            if (!req.body.name) {
+                return res.status(400).json({ error: "Missing required fields: name" });
+            }
+
+            const rule = await createTariffRule(req.body, userId);
+
+            res.status(201).json(rule);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /tariffs/rules - List all tariff rules (admin only)
+ */
+router.get(
+    "/rules",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const rules = await getAllTariffRules();
+            res.json(rules);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /tariffs/rules/:ruleId - Get a tariff rule by ID (admin only)
+ */
+router.get(
+    "/rules/:ruleId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { ruleId } = req.params;
+
+            if (!ruleId) {
+                return res.status(400).json({ error: "ruleId is required" });
+            }
+
+            const rule = await findTariffRuleById(ruleId);
+
+            if (!rule) {
+                return res.status(404).json({ error: "Tariff rule not found" });
+            }
+
+            res.json(rule);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /tariffs/rules/:ruleId - Update a tariff rule (admin only)
+ */
+router.put(
+    "/rules/:ruleId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { ruleId } = req.params;
+
+            if (!ruleId) {
+                return res.status(400).json({ error: "ruleId is required" });
+            }
+
+            const rule = await updateTariffRule(ruleId, req.body);
+            res.json(rule);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * DELETE /tariffs/rules/:ruleId - Deactivate a tariff rule (admin only)
+ */
+router.delete(
+    "/rules/:ruleId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { ruleId } = req.params;
+
+            if (!ruleId) {
+                return res.status(400).json({ error: "ruleId is required" });
+            }
+
+            const rule = await deactivateTariffRule(ruleId);
+            res.json(rule);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /tariffs/:tariffId - Get a tariff version by ID (admin only)
+ */
+router.get(
+    "/:tariffId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { tariffId } = req.params;
+
+            if (!tariffId) {
+                return res.status(400).json({ error: "tariffId is required" });
+            }
+
+            const tariff = await findTariffById(tariffId);
+
+            if (!tariff) {
+                return res.status(404).json({ error: "Tariff not found" });
+            }
+
+            res.json(tariff);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /tariffs/:tariffId - Update a scheduled tariff version (admin only)
+ * Tariffs already in effect cannot be changed
+ */
+router.put(
+    "/:tariffId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { tariffId } = req.params;
+
+            if (!tariffId) {
+                return res.status(400).json({ error: "tariffId is required" });
+            }
+
+            const tariff = await updateTariff(tariffId, req.body);
+            res.json(tariff);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * DELETE /tariffs/:tariffId - Delete a scheduled tariff version (admin only)
+ * Tariffs already in effect cannot be deleted
+ */
+router.delete(
+    "/:tariffId",
+    isAuthenticated,
+    requireRole(Role.ADMIN),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { tariffId } = req.params;
+
+            if (!tariffId) {
+                return res.status(400).json({ error: "tariffId is required" });
+            }
+
+            await deleteTariff(tariffId);
+            res.status(204).send();
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+export = router;
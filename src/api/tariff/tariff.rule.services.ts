@@ -0,0 +1,247 @@
+import { TariffRule } from "@prisma/client";
+import { db } from "../../utils/db";
+import { BadRequestError, NotFoundError } from "../../utils/errors";
+import { getLocalTime } from "../../utils/localTime";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Fields an admin can set on a tariff rule
+ */
+export interface TariffRuleInput {
+    name: string;
+    daysOfWeek?: number[];
+    startTime?: string | null;
+    endTime?: string | null;
+    startDate?: Date | null;
+    endDate?: Date | null;
+    multiplier?: number;
+    surcharge?: number;
+    exclusive?: boolean;
+    priority?: number;
+    isActive?: boolean;
+}
+
+/**
+ * Validate rule values (only the fields that are present)
+ */
+function validateRuleInput(data: Partial<TariffRuleInput>) {
+    if (data.daysOfWeek !== undefined) {
+        const isValidDays =
+            Array.isArray(data.daysOfWeek) &&
+            data.daysOfWeek.every((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+
+        if (!isValidDays) {
+            throw new BadRequestError("daysOfWeek must be a list of days from 0 (Sunday) to 6 (Saturday)");
+        }
+    }
+
+    for (const field of ["startTime", "endTime"] as const) {
+        const value = data[field];
+        if (value !== undefined && value !== null && (typeof value !== "string" || !TIME_PATTERN.test(value))) {
+            throw new BadRequestError(`${field} must be a time in HH:mm format`);
+        }
+    }
+
+    for (const field of ["startDate", "endDate"] as const) {
+        const value = data[field];
+        if (value !== undefined && value !== null && isNaN(new Date(value).getTime())) {
+            throw new BadRequestError(`${field} must be a valid date`);
+        }
+    }
+
+    if (data.multiplier !== undefined && (typeof data.multiplier !== "number" || isNaN(data.multiplier) || data.multiplier <= 0)) {
+        throw new BadRequestError("multiplier must be a positive number");
+    }
+
+    if (data.surcharge !== undefined && (typeof data.surcharge !== "number" || isNaN(data.surcharge) || data.surcharge < 0)) {
+        throw new BadRequestError("surcharge must be a non-negative number");
+    }
+}
+
+/**
+ * Check the rule as a whole once the new values are merged with the stored ones
+ */
+function validateRuleConditions(rule: {
+    daysOfWeek: number[];
+    startTime: string | null;
+    endTime: string | null;
+    startDate: Date | null;
+    endDate: Date | null;
+}) {
+    if ((rule.startTime === null) !== (rule.endTime === null)) {
+        throw new BadRequestError("startTime and endTime must be set together");
+    }
+
+    if (rule.startTime !== null && rule.startTime === rule.endTime) {
+        throw new BadRequestError("startTime and endTime must be different");
+    }
+
+    if (rule.startDate && rule.endDate && rule.startDate > rule.endDate) {
+        throw new BadRequestError("startDate must be before endDate");
+    }
+
+    if (rule.daysOfWeek.length === 0 && rule.startTime === null && !rule.startDate && !rule.endDate) {
+        throw new BadRequestError("A rule needs at least a day, time or date condition");
+    }
+}
+
+const toDateOrNull = (value: Date | null | undefined) => (value ? new Date(value) : null);
+
+/**
+ * Create a tariff rule (admin only)
+ */
+export async function createTariffRule(data: TariffRuleInput, adminId: string) {
+    validateRuleInput(data);
+
+    const conditions = {
+        daysOfWeek: [...new Set(data.daysOfWeek ?? [])].sort((a, b) => a - b),
+        startTime: data.startTime ?? null,
+        endTime: data.endTime ?? null,
+        startDate: toDateOrNull(data.startDate),
+        endDate: toDateOrNull(data.endDate),
+    };
+    validateRuleConditions(conditions);
+
+    return db.tariffRule.create({
+        data: {
+            name: data.name,
+            ...conditions,
+            multiplier: data.multiplier ?? 1.0,
+            surcharge: Math.round(data.surcharge ?? 0),
+            exclusive: data.exclusive ?? false,
+            priority: data.priority ?? 0,
+            isActive: data.isActive ?? true,
+            createdBy: adminId,
+        },
+    });
+}
+
+/**
+ * Get all tariff rules
+ */
+export async function getAllTariffRules() {
+    return db.tariffRule.findMany({
+        orderBy: [{ isActive: "desc" }, { priority: "desc" }, { name: "asc" }],
+    });
+}
+
+/**
+ * Find a tariff rule by ID
+ */
+export async function findTariffRuleById(ruleId: string) {
+    return db.tariffRule.findUnique({
+        where: { id: ruleId },
+    });
+}
+
+/**
+ * Update a tariff rule (admin only)
+ */
+export async function updateTariffRule(ruleId: string, data: Partial<TariffRuleInput>) {
+    validateRuleInput(data);
+
+    const rule = await db.tariffRule.findUnique({
+        where: { id: ruleId },
+    });
+
+    if (!rule) {
+        throw new NotFoundError("Tariff rule not found");
+    }
+
+    const conditions = {
+        daysOfWeek: data.daysOfWeek !== undefined ? [...new Set(data.daysOfWeek)].sort((a, b) => a - b) : rule.daysOfWeek,
+        startTime: data.startTime !== undefined ? data.startTime : rule.startTime,
+        endTime: data.endTime !== undefined ? data.endTime : rule.endTime,
+        startDate: data.startDate !== undefined ? toDateOrNull(data.startDate) : rule.startDate,
+        endDate: data.endDate !== undefined ? toDateOrNull(data.endDate) : rule.endDate,
+    };
+    validateRuleConditions(conditions);
+
+    return db.tariffRule.update({
+        where: { id: ruleId },
+        data: {
+            ...(data.name !== undefined && { name: data.name }),
+            ...conditions,
+            ...(data.multiplier !== undefined && { multiplier: data.multiplier }),
+            ...(data.surcharge !== undefined && { surcharge: Math.round(data.surcharge) }),
+            ...(data.exclusive !== undefined && { exclusive: data.exclusive }),
+            ...(data.priority !== undefined && { priority: data.priority }),
+            ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+    });
+}
+
+/**
+ * Deactivate a tariff rule (admin only)
+ */
+export async function deactivateTariffRule(ruleId: string) {
+    const rule = await db.tariffRule.findUnique({
+        where: { id: ruleId },
+    });
+
+    if (!rule) {
+        throw new NotFoundError("Tariff rule not found");
+    }
+
+    return db.tariffRule.update({
+        where: { id: ruleId },
+        data: { isActive: false },
+    });
+}
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+/**
+ * Check if a rule's day and time-of-day conditions hold at a local time
+ * For windows wrapping past midnight, the hours after midnight belong to
+ * the previous day (Friday 22:00 -> 06:00 still applies early Saturday)
+ */
+function matchesDayAndTime(rule: TariffRule, day: number, minutes: number) {
+    const matchesDay = (d: number) => rule.daysOfWeek.length === 0 || rule.daysOfWeek.includes(d);
+
+    if (rule.startTime === null || rule.endTime === null) {
+        return matchesDay(day);
+    }
+
+    const start = toMinutes(rule.startTime);
+    const end = toMinutes(rule.endTime);
+
+    if (start < end) {
+        return minutes >= start && minutes < end && matchesDay(day);
+    }
+
+    if (minutes >= start) {
+        return matchesDay(day);
+    }
+
+    return minutes < end && matchesDay((day + 6) % 7);
+}
+
+/**
+ * Get the tariff rules applying at a given time
+ *
+ * All matching rules apply, except when an exclusive rule matches: then
+ * only the highest-priority exclusive rule applies (e.g. an Eid override
+ * replaces the usual night and weekend rules)
+ */
+export async function getApplicableTariffRules(at: Date = new Date()): Promise<TariffRule[]> {
+    const rules = await db.tariffRule.findMany({
+        where: {
+            isActive: true,
+            AND: [
+                { OR: [{ startDate: null }, { startDate: { lte: at } }] },
+                { OR: [{ endDate: null }, { endDate: { gte: at } }] },
+            ],
+        },
+        orderBy: [{ priority: "desc" }, { name: "asc" }],
+    });
+
+    // Rules are evaluated in the local time of the service area
+    const { weekday, hour, minute } = getLocalTime(at);
+    const matching = rules.filter((rule) => matchesDayAndTime(rule, weekday, hour * 60 + minute));
+
+    const exclusive = matching.find((rule) => rule.exclusive);
+
+    return exclusive ? [exclusive] : matching;
+}
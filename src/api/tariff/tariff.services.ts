@@ -0,0 +1,190 @@
+import { db } from "../../utils/db";
+import { BadRequestError, NotFoundError } from "../../utils/errors";
+
+/**
+ * Fields an admin can set on a tariff version
+ */
+export interface TariffInput {
+    name?: string;
+    effectiveFrom?: Date;
+    baseFare: number;
+    perKmRate: number;
+    perMinuteRate: number;
+    minimumFare: number;
+    regularMultiplier?: number;
+    seatReserveMultiplier?: number;
+    deliveryMultiplier?: number;
+    stopFee?: number;
+    commissionPercent: number;
+    cancellationPenaltyPercent: number;
+}
+
+const NON_NEGATIVE_FIELDS = [
+    "baseFare",
+    "perKmRate",
+    "perMinuteRate",
+    "minimumFare",
+    "regularMultiplier",
+    "seatReserveMultiplier",
+    "deliveryMultiplier",
+    "stopFee",
+] as const;
+
+const PERCENT_FIELDS = ["commissionPercent", "cancellationPenaltyPercent"] as const;
+
+/**
+ * Validate tariff values (only the fields that are present)
+ */
+function validateTariffInput(data: Partial<TariffInput>) {
+    for (const field of NON_NEGATIVE_FIELDS) {
+        const value = data[field];
+        if (value !== undefined && (typeof value !== "number" || isNaN(value) || value < 0)) {
+            throw new BadRequestError(`${field} must be a non-negative number`);
+        }
+    }
+
+    for (const field of PERCENT_FIELDS) {
+        const value = data[field];
+        if (value !== undefined && (typeof value !== "number" || isNaN(value) || value < 0 || value > 1)) {
+            throw new BadRequestError(`${field} must be a fraction between 0 and 1`);
+        }
+    }
+
+    if (data.effectiveFrom !== undefined && isNaN(new Date(data.effectiveFrom).getTime())) {
+        throw new BadRequestError("effectiveFrom must be a valid date");
+    }
+}
+
+/**
+ * Load a tariff that is still editable (not in effect yet)
+ * Tariffs already in effect are immutable so historical fares stay explainable
+ */
+async function findEditableTariff(tariffId: string) {
+    const tariff = await db.tariff.findUnique({
+        where: { id: tariffId },
+    });
+
+    if (!tariff) {
+        throw new NotFoundError("Tariff not found");
+    }
+
+    if (tariff.effectiveFrom <= new Date()) {
+        throw new BadRequestError("Tariff is already in effect. Create a new version instead");
+    }
+
+    return tariff;
+}
+
+/**
+ * Create a new tariff version (admin only)
+ */
+export async function createTariff(data: TariffInput, adminId: string) {
+    validateTariffInput(data);
+
+    // Defaults to taking effect immediately
+    const now = new Date();
+    const effectiveFrom = data.effectiveFrom !== undefined ? new Date(data.effectiveFrom) : now;
+
+    if (effectiveFrom < now) {
+        throw new BadRequestError("effectiveFrom cannot be in the past");
+    }
+
+    return db.tariff.create({
+        data: {
+            name: data.name ?? null,
+            effectiveFrom,
+            baseFare: Math.round(data.baseFare),
+            perKmRate: data.perKmRate,
+            perMinuteRate: data.perMinuteRate,
+            minimumFare: Math.round(data.minimumFare),
+            ...(data.regularMultiplier !== undefined && { regularMultiplier: data.regularMultiplier }),
+            ...(data.seatReserveMultiplier !== undefined && { seatReserveMultiplier: data.seatReserveMultiplier }),
+            ...(data.deliveryMultiplier !== undefined && { deliveryMultiplier: data.deliveryMultiplier }),
+            ...(data.stopFee !== undefined && { stopFee: Math.round(data.stopFee) }),
+            commissionPercent: data.commissionPercent,
+            cancellationPenaltyPercent: data.cancellationPenaltyPercent,
+            createdBy: adminId,
+        },
+    });
+}
+
+/**
+ * Get all tariff versions, newest first
+ */
+export async function getAllTariffs() {
+    return db.tariff.findMany({
+        orderBy: {
+            effectiveFrom: "desc",
+        },
+    });
+}
+
+/**
+ * Find a tariff version by ID
+ */
+export async function findTariffById(tariffId: string) {
+    return db.tariff.findUnique({
+        where: { id: tariffId },
+    });
+}
+
+/**
+ * Get the tariff in effect at a given time
+ * Returns null when no tariff has been published yet (built-in defaults apply)
+ */
+export async function getActiveTariff(at: Date = new Date()) {
+    const tariff = await db.tariff.findFirst({
+        where: {
+            effectiveFrom: { lte: at },
+        },
+        orderBy: {
+            effectiveFrom: "desc",
+        },
+    });
+
+    return tariff ?? null;
+}
+
+/**
+ * Update a scheduled tariff version (only before it takes effect)
+ */
+export async function updateTariff(tariffId: string, data: Partial<TariffInput>) {
+    validateTariffInput(data);
+
+    await findEditableTariff(tariffId);
+
+    if (data.effectiveFrom !== undefined && new Date(data.effectiveFrom) <= new Date()) {
+        throw new BadRequestError("effectiveFrom must be in the future");
+    }
+
+    return db.tariff.update({
+        where: { id: tariffId },
+        data: {
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.effectiveFrom !== undefined && { effectiveFrom: new Date(data.effectiveFrom) }),
+            ...(data.baseFare !== undefined && { baseFare: Math.round(data.baseFare) }),
+            ...(data.perKmRate !== undefined && { perKmRate: data.perKmRate }),
+            ...(data.perMinuteRate !== undefined && { perMinuteRate: data.perMinuteRate }),
+            ...(data.minimumFare !== undefined && { minimumFare: Math.round(data.minimumFare) }),
+            ...(data.regularMultiplier !== undefined && { regularMultiplier: data.regularMultiplier }),
+            ...(data.seatReserveMultiplier !== undefined && { seatReserveMultiplier: data.seatReserveMultiplier }),
+            ...(data.deliveryMultiplier !== undefined && { deliveryMultiplier: data.deliveryMultiplier }),
+            ...(data.stopFee !== undefined && { stopFee: Math.round(data.stopFee) }),
+            ...(data.commissionPercent !== undefined && { commissionPercent: data.commissionPercent }),
+            ...(data.cancellationPenaltyPercent !== undefined && {
+                cancellationPenaltyPercent: data.cancellationPenaltyPercent,
+            }),
+        },
+    });
+}
+
+/**
+ * Delete a scheduled tariff version (only before it takes effect)
+ */
+export async function deleteTariff(tariffId: string) {
+    await findEditableTariff(tariffId);
+
+    return db.tariff.delete({
+        where: { id: tariffId },
+    });
+}
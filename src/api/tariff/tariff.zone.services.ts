@@ -0,0 +1,280 @@
+import { Prisma, TariffZone } from "@prisma/client";
+import { db } from "../../utils/db";
+import { BadRequestError, NotFoundError } from "../../utils/errors";
+import { isPointInPolygon } from "../../utils/distance";
+import { GeoRegion, normalizeWilayaCode, reverseGeocodeRegion } from "../../utils/geocoding";
+
+type PolygonPoint = { lat: number; lng: number };
+
+/**
+ * Fields an admin can set on a tariff zone
+ */
+export interface TariffZoneInput {
+    name: string;
+    polygon?: PolygonPoint[] | null;
+    wilayaCodes?: Array<string | number>;
+    communes?: string[];
+    priority?: number;
+    baseFare: number;
+    perKmRate: number;
+    perMinuteRate: number;
+    minimumFare: number;
+    crossZoneSurcharge?: number;
+    isActive?: boolean;
+}
+
+const RATE_FIELDS = ["baseFare", "perKmRate", "perMinuteRate", "minimumFare", "crossZoneSurcharge"] as const;
+
+/**
+ * Validate zone values (only the fields that are present)
+ */
+function validateZoneInput(data: Partial<TariffZoneInput>) {
+    for (const field of RATE_FIELDS) {
+        const value = data[field];
+        if (value !== undefined && (typeof value !== "number" || isNaN(value) || value < 0)) {
+            throw new BadRequestError(`${field} must be a non-negative number`);
+        }
+    }
+
+    if (data.polygon) {
+        const isValidPolygon =
+            Array.isArray(data.polygon) &&
+            data.polygon.length >= 3 &&
+            data.polygon.every(
+                (p) =>
+                    typeof p?.lat === "number" && p.lat >= -90 && p.lat <= 90 &&
+                    typeof p?.lng === "number" && p.lng >= -180 && p.lng <= 180
+            );
+
+        if (!isValidPolygon) {
+            throw new BadRequestError("polygon must be a list of at least 3 { lat, lng } points");
+        }
+    }
+
+    if (data.wilayaCodes !== undefined) {
+        if (!Array.isArray(data.wilayaCodes) || data.wilayaCodes.some((c) => normalizeWilayaCode(c) === null)) {
+            throw new BadRequestError("wilayaCodes must be a list of wilaya codes (e.g. \"16\")");
+        }
+    }
+}
+
+/**
+ * Normalize wilaya codes to two digits and drop duplicates
+ */
+function normalizeWilayaCodes(codes: Array<string | number>) {
+    return [...new Set(codes.map((c) => normalizeWilayaCode(c)!))];
+}
+
+/**
+ * Create a tariff zone (admin only)
+ * A zone is defined either by a polygon or by wilaya codes
+ */
+export async function createTariffZone(data: TariffZoneInput) {
+    validateZoneInput(data);
+
+    if (!data.polygon && (!data.wilayaCodes || data.wilayaCodes.length === 0)) {
+        throw new BadRequestError("A zone needs either a polygon or at least one wilaya code");
+    }
+
+    return db.tariffZone.create({
+        data: {
+            name: data.name,
+            polygon: data.polygon ?? Prisma.JsonNull,
+            wilayaCodes: normalizeWilayaCodes(data.wilayaCodes ?? []),
+            communes: data.communes ?? [],
+            priority: data.priority ?? 0,
+            baseFare: Math.round(data.baseFare),
+            perKmRate: data.perKmRate,
+            perMinuteRate: data.perMinuteRate,
+            minimumFare: Math.round(data.minimumFare),
+            crossZoneSurcharge: Math.round(data.crossZoneSurcharge ?? 0),
+            isActive: data.isActive ?? true,
+        },
+    });
+}
+
+/**
+ * Get all tariff zones
+ */
+export async function getAllTariffZones() {
+    return db.tariffZone.findMany({
+        orderBy: [{ isActive: "desc" }, { priority: "desc" }, { name: "asc" }],
+    });
+}
+
+/**
+ * Find a tariff zone by ID
+ */
+export async function findTariffZoneById(zoneId: string) {
+    return db.tariffZone.findUnique({
+        where: { id: zoneId },
+    });
+}
+
+/**
+ * Update a tariff zone (admin only)
+ */
+export async function updateTariffZone(zoneId: string, data: Partial<TariffZoneInput>) {
+    validateZoneInput(data);
+
+    const zone = await db.tariffZone.findUnique({
+        where: { id: zoneId },
+    });
+
+    if (!zone) {
+        throw new NotFoundError("Tariff zone not found");
+    }
+
+    const hasPolygon = data.polygon !== undefined ? !!data.polygon : zone.polygon !== null;
+    const wilayaCodes = data.wilayaCodes !== undefined ? data.wilayaCodes : zone.wilayaCodes;
+    if (!hasPolygon && wilayaCodes.length === 0) {
+        throw new BadRequestError("A zone needs either a polygon or at least one wilaya code");
+    }
+
+    return db.tariffZone.update({
+        where: { id: zoneId },
+        data: {
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.polygon !== undefined && { polygon: data.polygon ?? Prisma.JsonNull }),
+            ...(data.wilayaCodes !== undefined && { wilayaCodes: normalizeWilayaCodes(data.wilayaCodes) }),
+            ...(data.communes !== undefined && { communes: data.communes }),
+            ...(data.priority !== undefined && { priority: data.priority }),
+            ...(data.baseFare !== undefined && { baseFare: Math.round(data.baseFare) }),
+            ...(data.perKmRate !== undefined && { perKmRate: data.perKmRate }),
+            ...(data.perMinuteRate !== undefined && { perMinuteRate: data.perMinuteRate }),
+            ...(data.minimumFare !== undefined && { minimumFare: Math.round(data.minimumFare) }),
+            ...(data.crossZoneSurcharge !== undefined && { crossZoneSurcharge: Math.round(data.crossZoneSurcharge) }),
+            ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+    });
+}
+
+/**
+ * Deactivate a tariff zone (admin only)
+ */
+export async function deactivateTariffZone(zoneId: string) {
+    const zone = await db.tariffZone.findUnique({
+        where: { id: zoneId },
+    });
+
+    if (!zone) {
+        throw new NotFoundError("Tariff zone not found");
+    }
+
+    return db.tariffZone.update({
+        where: { id: zoneId },
+        data: { isActive: false },
+    });
+}
+
+/**
+ * Specificity of a zone definition: polygon > commune list > whole wilaya
+ */
+function zoneSpecificity(zone: TariffZone) {
+    if (zone.polygon) return 3;
+    if (zone.communes.length > 0) return 2;
+    return 1;
+}
+
+/**
+ * Check if a zone contains a point
+ * Polygon zones are matched geometrically, the others by wilaya/commune
+ */
+function zoneContains(zone: TariffZone, lat: number, lng: number, region: GeoRegion | null) {
+    if (zone.polygon) {
+        return isPointInPolygon(lat, lng, zone.polygon as unknown as PolygonPoint[]);
+    }
+
+    if (!region?.wilayaCode || !zone.wilayaCodes.includes(region.wilayaCode)) {
+        return false;
+    }
+
+    if (zone.communes.length === 0) {
+        return true;
+    }
+
+    const commune = region.commune?.toLowerCase();
+    return !!commune && zone.communes.some((c) => c.toLowerCase() === commune);
+}
+
+/**
+ * Find the zone containing a point among the given zones
+ * Most specific definition wins, then the highest priority
+ */
+async function matchZone(zones: TariffZone[], lat: number, lng: number) {
+    const byPrecedence = (a: TariffZone, b: TariffZone) =>
+        zoneSpecificity(b) - zoneSpecificity(a) || b.priority - a.priority;
+
+    // Polygon zones are the most specific, so try them before hitting the geocoder
+    const polygonMatches = zones
+        .filter((zone) => zone.polygon && zoneContains(zone, lat, lng, null))
+        .sort(byPrecedence);
+
+    if (polygonMatches.length > 0) {
+        return polygonMatches[0]!;
+    }
+
+    const regionZones = zones.filter((zone) => !zone.polygon);
+    if (regionZones.length === 0) {
+        return null;
+    }
+
+    const region = await reverseGeocodeRegion(lat, lng);
+    const regionMatches = regionZones
+        .filter((zone) => zoneContains(zone, lat, lng, region))
+        .sort(byPrecedence);
+
+    return regionMatches[0] ?? null;
+}
+
+/**
+ * Resolve the zones of a trip
+ *
+ * Cross-zone rule: a ride is always priced with the rates of the zone that
+ * contains its pickup point. When the drop-off point is outside that zone,
+ * the pickup zone's crossZoneSurcharge is added.
+ *
+ * Crossing is decided by whether the pickup zone contains the drop-off point,
+ * not by the zone the drop-off would be priced in on its own.
+ *
+ * Polygon zones are matched geometrically first; the geocoder is only called
+ * for points outside them, and not at all for the drop-off of a trip picked up
+ * in a polygon zone (it either is in that polygon or crosses out of it).
+ */
+export async function resolveTripZones(params: {
+    originLat?: number;
+    originLng?: number;
+    destLat?: number;
+    destLng?: number;
+}): Promise<{ zone: TariffZone | null; crossesZone: boolean }> {
+    if (params.originLat === undefined || params.originLng === undefined) {
+        return { zone: null, crossesZone: false };
+    }
+
+    const zones = await db.tariffZone.findMany({
+        where: { isActive: true },
+    });
+
+    if (zones.length === 0) {
+        return { zone: null, crossesZone: false };
+    }
+
+    const zone = await matchZone(zones, params.originLat, params.originLng);
+
+    if (!zone || params.destLat === undefined || params.destLng === undefined) {
+        return { zone, crossesZone: false };
+    }
+
+    // The drop-off may also be in a more specific zone inside the pickup zone: that is not a crossing
+    if (zone.polygon) {
+        return { zone, crossesZone: !zoneContains(zone, params.destLat, params.destLng, null) };
+    }
+
+    // A drop-off that cannot be placed is not taken for a crossing
+    const destRegion = await reverseGeocodeRegion(params.destLat, params.destLng);
+    if (!destRegion) {
+        return { zone, crossesZone: false };
+    }
+
+    return { zone, crossesZone: !zoneContains(zone, params.destLat, params.destLng, destRegion) };
+}
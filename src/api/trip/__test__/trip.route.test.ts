@@ -0,0 +1,186 @@
+import express from "express";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+import { Role } from "@prisma/client";
+import tripRouter from "../trip.route";
+import { BadRequestError } from "../../../utils/errors";
+
+// Mock the trip services
+jest.mock("../trip.services", () => ({
+    createTrip: jest.fn(),
+    searchTrips: jest.fn(),
+    findTripById: jest.fn(),
+    getDriverTrips: jest.fn(),
+    getPassengerBookings: jest.fn(),
+    bookTrip: jest.fn(),
+    cancelTripBooking: jest.fn(),
+    startTrip: jest.fn(),
+    cancelTrip: jest.fn(),
+    completeTrip: jest.fn(),
+}));
+
+import * as tripServices from "../trip.services";
+
+// Mock environment
+process.env.JWT_ACCESS_SECRET = "testsecret";
+
+const app = express();
+app.use(express.json());
+app.use("/trips", tripRouter);
+
+describe("Trip Routes", () => {
+    const passengerPayload = { userId: "passenger-123", role: Role.USER };
+    const driverPayload = { userId: "driver-123", role: Role.DRIVER };
+
+    const generateToken = (payload: any) => {
+        return jwt.sign(payload, process.env.JWT_ACCESS_SECRET!, {
+            expiresIn: "1h",
+        });
+    };
+
+    const validBody = {
+        vehicleId: "vehicle-123",
+        originWilaya: "16",
+        destWilaya: "31",
+        departureAt: "2026-10-25T07:00:00.000Z",
+        seatCapacity: 4,
+        pricePerSeat: 1500,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("POST /trips", () => {
+        it("should let a driver publish a trip", async () => {
+            (tripServices.createTrip as jest.Mock).mockResolvedValue({ id: "trip-123", ...validBody });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/trips")
+                .set("Authorization", `Bearer ${token}`)
+                .send(validBody);
+
+            expect(res.status).toBe(201);
+            expect(tripServices.createTrip).toHaveBeenCalledWith("driver-123", validBody);
+        });
+
+        it("should reject missing required fields", async () => {
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .post("/trips")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ originWilaya: "16" });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toContain("vehicleId");
+            expect(tripServices.createTrip).not.toHaveBeenCalled();
+        });
+
+        it("should not let passengers publish trips (403 Forbidden)", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/trips")
+                .set("Authorization", `Bearer ${token}`)
+                .send(validBody);
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    describe("GET /trips/search", () => {
+        it("should search by wilayas, day and seats", async () => {
+            (tripServices.searchTrips as jest.Mock).mockResolvedValue([{ id: "trip-123" }]);
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .get("/trips/search?originWilaya=16&destWilaya=31&date=2026-10-25&seats=2")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(tripServices.searchTrips).toHaveBeenCalledWith({
+                originWilaya: "16",
+                destWilaya: "31",
+                date: new Date("2026-10-25"),
+                seats: 2,
+            });
+        });
+
+        it("should reject an invalid seat count", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .get("/trips/search?seats=0")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(400);
+            expect(tripServices.searchTrips).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Bookings", () => {
+        it("should book one seat by default", async () => {
+            (tripServices.bookTrip as jest.Mock).mockResolvedValue({ id: "booking-1", seats: 1 });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/trips/trip-123/bookings")
+                .set("Authorization", `Bearer ${token}`)
+                .send({});
+
+            expect(res.status).toBe(201);
+            expect(tripServices.bookTrip).toHaveBeenCalledWith("trip-123", "passenger-123", 1);
+        });
+
+        it("should return 400 when the trip is full", async () => {
+            (tripServices.bookTrip as jest.Mock).mockRejectedValueOnce(
+                new BadRequestError("Not enough seats left on this trip")
+            );
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .post("/trips/trip-123/bookings")
+                .set("Authorization", `Bearer ${token}`)
+                .send({ seats: 3 });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe("Not enough seats left on this trip");
+        });
+
+        it("should cancel a booking", async () => {
+            (tripServices.cancelTripBooking as jest.Mock).mockResolvedValue({ id: "booking-1", status: "CANCELLED" });
+
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/trips/bookings/booking-1/cancel")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(tripServices.cancelTripBooking).toHaveBeenCalledWith("booking-1", "passenger-123");
+        });
+    });
+
+    describe("Trip lifecycle", () => {
+        it("should let the driver complete a trip", async () => {
+            (tripServices.completeTrip as jest.Mock).mockResolvedValue({ id: "trip-123", commissionAmount: 450 });
+
+            const token = generateToken(driverPayload);
+            const res = await request(app)
+                .put("/trips/trip-123/complete")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(200);
+            expect(res.body.commissionAmount).toBe(450);
+            expect(tripServices.completeTrip).toHaveBeenCalledWith("trip-123", "driver-123");
+        });
+
+        it("should not let passengers cancel a trip (403 Forbidden)", async () => {
+            const token = generateToken(passengerPayload);
+            const res = await request(app)
+                .put("/trips/trip-123/cancel")
+                .set("Authorization", `Bearer ${token}`);
+
+            expect(res.status).toBe(403);
+            expect(tripServices.cancelTrip).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,474 @@
+import { TripBookingStatus, TripStatus, VehicleType } from "@prisma/client";
+import { db } from "../../../utils/db";
+import { debitAvailableBalance } from "../../wallet/wallet.services";
+import { getActiveTariff } from "../../tariff/tariff.services";
+import {
+    createTrip,
+    searchTrips,
+    bookTrip,
+    cancelTripBooking,
+    cancelTrip,
+    completeTrip,
+    collectTripCommissionDebts,
+    calculateBookingCommission,
+} from "../trip.services";
+
+// Mock the database
+jest.mock("../../../utils/db", () => ({
+    db: {
+        trip: {
+            create: jest.fn(),
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        tripBooking: {
+            findFirst: jest.fn(),
+            findUnique: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        driverProfile: {
+            findUnique: jest.fn(),
+        },
+        vehicle: {
+            findUnique: jest.fn(),
+        },
+        wallet: {
+            findUnique: jest.fn(),
+        },
+        $transaction: jest.fn(),
+    },
+}));
+
+jest.mock("../../wallet/wallet.services", () => ({
+    debitAvailableBalance: jest.fn(),
+}));
+
+jest.mock("../../tariff/tariff.services", () => ({
+    getActiveTariff: jest.fn(),
+}));
+
+// Mock the socket emitter
+const mockEmitter = {
+    emitTripBooked: jest.fn(),
+    emitTripBookingCancelled: jest.fn(),
+    emitTripStatusUpdated: jest.fn(),
+};
+
+jest.mock("../../../socket", () => ({
+    getRideEmitter: jest.fn(() => mockEmitter),
+}));
+
+describe("Trip Services", () => {
+    const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    const tripInput = {
+        vehicleId: "vehicle-123",
+        originWilaya: "16",
+        destWilaya: 31,
+        meetingPoint: "Kharouba bus station",
+        departureAt: inHours(24),
+        seatCapacity: 4,
+        pricePerSeat: 1500,
+    };
+
+    const trip = {
+        id: "trip-123",
+        driverId: "driver-123",
+        vehicleId: "vehicle-123",
+        originWilaya: "16",
+        destWilaya: "31",
+        departureAt: inHours(24),
+        seatCapacity: 4,
+        seatsAvailable: 4,
+        pricePerSeat: 1500,
+        commissionPercent: 0.1,
+        status: TripStatus.SCHEDULED,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (db.$transaction as jest.Mock).mockImplementation(async (callback) => callback(db));
+        (db.driverProfile.findUnique as jest.Mock).mockResolvedValue({ id: "profile-123", userId: "driver-123" });
+        (db.vehicle.findUnique as jest.Mock).mockResolvedValue({
+            id: "vehicle-123",
+            driverId: "profile-123",
+            type: VehicleType.CAR,
+        });
+        (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: "driver-123", balance: 5000 });
+        (getActiveTariff as jest.Mock).mockResolvedValue(null);
+        (db.trip.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    describe("calculateBookingCommission", () => {
+        it("should charge a whole number of DA per seat", () => {
+            expect(calculateBookingCommission(1555, 3, 0.1)).toBe(465); // 155 * 3
+        });
+    });
+
+    describe("createTrip", () => {
+        it("should publish a trip with all seats free and the tariff commission rate", async () => {
+            (getActiveTariff as jest.Mock).mockResolvedValue({ commissionPercent: 0.12 });
+            (db.trip.create as jest.Mock).mockResolvedValue(trip);
+
+            await createTrip("driver-123", tripInput);
+
+            expect(db.trip.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        driverId: "driver-123",
+                        originWilaya: "16",
+                        destWilaya: "31",
+                        seatCapacity: 4,
+                        seatsAvailable: 4,
+                        pricePerSeat: 1500,
+                        commissionPercent: 0.12,
+                    }),
+                })
+            );
+        });
+
+        it("should only publish trips between two wilayas", async () => {
+            await expect(createTrip("driver-123", { ...tripInput, destWilaya: "16" })).rejects.toThrow(
+                "Trips must go from one wilaya to another"
+            );
+        });
+
+        it("should reject motorbikes", async () => {
+            (db.vehicle.findUnique as jest.Mock).mockResolvedValue({
+                id: "vehicle-123",
+                driverId: "profile-123",
+                type: VehicleType.BIKE,
+            });
+
+            await expect(createTrip("driver-123", tripInput)).rejects.toThrow(
+                "Only cars can be used for seat-sharing trips"
+            );
+        });
+
+        it("should require the commission of a full trip in the wallet", async () => {
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({ userId: "driver-123", balance: 500 });
+
+            // 150 DA per seat * 4 seats
+            await expect(createTrip("driver-123", tripInput)).rejects.toThrow(
+                "Minimum 600 DA required to publish this trip"
+            );
+            expect(db.trip.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("searchTrips", () => {
+        it("should search the local day in Algiers, whatever the server timezone", async () => {
+            (db.trip.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+            await searchTrips({ date: new Date("2030-06-15"), originWilaya: "16" });
+
+            // Algiers is UTC+1: the day runs from 23:00 UTC the day before
+            expect(db.trip.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({
+                    departureAt: {
+                        gt: new Date("2030-06-14T23:00:00.000Z"),
+                        lt: new Date("2030-06-15T23:00:00.000Z"),
+                    },
+                    originWilaya: "16",
+                }),
+            }));
+        });
+
+        it("should only return trips that have not left yet", async () => {
+            (db.trip.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+            await searchTrips({});
+
+            const { where } = (db.trip.findMany as jest.Mock).mock.calls[0][0];
+            expect(where.departureAt.gt.getTime()).toBeLessThanOrEqual(Date.now());
+            expect(where.departureAt.lt).toBeUndefined();
+        });
+    });
+
+    describe("bookTrip", () => {
+        it("should take the seats atomically and price the booking", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue(trip);
+            (db.tripBooking.findFirst as jest.Mock).mockResolvedValue(null);
+            (db.trip.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.tripBooking.create as jest.Mock).mockResolvedValue({ id: "booking-1", seats: 2, price: 3000 });
+
+            const booking = await bookTrip("trip-123", "passenger-123", 2);
+
+            expect(db.trip.updateMany).toHaveBeenCalledWith({
+                where: { id: "trip-123", status: TripStatus.SCHEDULED, seatsAvailable: { gte: 2 } },
+                data: { seatsAvailable: { decrement: 2 } },
+            });
+            expect(db.tripBooking.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: { tripId: "trip-123", passengerId: "passenger-123", seats: 2, price: 3000 },
+                })
+            );
+            expect(booking.price).toBe(3000);
+            expect(mockEmitter.emitTripBooked).toHaveBeenCalledWith(trip, booking);
+        });
+
+        it("should refuse to overbook a trip", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue({ ...trip, seatsAvailable: 1 });
+            (db.tripBooking.findFirst as jest.Mock).mockResolvedValue(null);
+            (db.trip.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            await expect(bookTrip("trip-123", "passenger-123", 2)).rejects.toThrow(
+                "Not enough seats left on this trip"
+            );
+            expect(db.tripBooking.create).not.toHaveBeenCalled();
+        });
+
+        it("should not let drivers book their own trip or passengers book twice", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue(trip);
+
+            await expect(bookTrip("trip-123", "driver-123")).rejects.toThrow("You cannot book your own trip");
+
+            (db.tripBooking.findFirst as jest.Mock).mockResolvedValue({ id: "booking-1" });
+            await expect(bookTrip("trip-123", "passenger-123")).rejects.toThrow("You already booked this trip");
+        });
+
+        it("should not book trips that left or were cancelled", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue({ ...trip, status: TripStatus.CANCELLED });
+
+            await expect(bookTrip("trip-123", "passenger-123")).rejects.toThrow(
+                "Trip is no longer open for booking"
+            );
+        });
+    });
+
+    describe("cancelTripBooking", () => {
+        const booking = {
+            id: "booking-1",
+            tripId: "trip-123",
+            passengerId: "passenger-123",
+            seats: 2,
+            status: TripBookingStatus.CONFIRMED,
+            trip,
+        };
+
+        it("should give the seats back to the trip", async () => {
+            (db.tripBooking.findUnique as jest.Mock)
+                .mockResolvedValueOnce(booking)
+                .mockResolvedValueOnce({ ...booking, status: TripBookingStatus.CANCELLED });
+            (db.tripBooking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.trip.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const cancelled = await cancelTripBooking("booking-1", "passenger-123");
+
+            expect(db.trip.updateMany).toHaveBeenCalledWith({
+                where: { id: "trip-123", status: TripStatus.SCHEDULED },
+                data: { seatsAvailable: { increment: 2 } },
+            });
+            expect(cancelled?.status).toBe(TripBookingStatus.CANCELLED);
+            expect(mockEmitter.emitTripBookingCancelled).toHaveBeenCalled();
+        });
+
+        it("should only let the passenger cancel before departure", async () => {
+            (db.tripBooking.findUnique as jest.Mock).mockResolvedValueOnce(booking);
+            await expect(cancelTripBooking("booking-1", "passenger-456")).rejects.toThrow(
+                "You are not authorized to cancel this booking"
+            );
+
+            (db.tripBooking.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...booking,
+                trip: { ...trip, status: TripStatus.ONGOING },
+            });
+            await expect(cancelTripBooking("booking-1", "passenger-123")).rejects.toThrow(
+                "Cannot cancel a booking once the trip has started"
+            );
+
+            (db.tripBooking.findUnique as jest.Mock).mockResolvedValueOnce({
+                ...booking,
+                trip: { ...trip, departureAt: inHours(-1) },
+            });
+            await expect(cancelTripBooking("booking-1", "passenger-123")).rejects.toThrow(
+                "Cannot cancel a booking once the trip has started"
+            );
+            expect(db.tripBooking.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should not give seats back to a trip that started in the meantime", async () => {
+            (db.tripBooking.findUnique as jest.Mock).mockResolvedValueOnce(booking);
+            (db.tripBooking.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.trip.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(cancelTripBooking("booking-1", "passenger-123")).rejects.toThrow(
+                "Cannot cancel a booking once the trip has started"
+            );
+            expect(mockEmitter.emitTripBookingCancelled).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("completeTrip", () => {
+        const ongoingTrip = {
+            ...trip,
+            status: TripStatus.ONGOING,
+            bookings: [
+                { id: "booking-1", passengerId: "passenger-1", seats: 1 },
+                { id: "booking-2", passengerId: "passenger-2", seats: 2 },
+            ],
+        };
+
+        beforeEach(() => {
+            (db.trip.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+            (db.trip.update as jest.Mock).mockImplementation(async ({ data }) => ({
+                ...trip,
+                status: TripStatus.COMPLETED,
+                ...data,
+            }));
+        });
+
+        it("should charge the commission of every booked seat", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue(ongoingTrip);
+            (debitAvailableBalance as jest.Mock).mockResolvedValueOnce(450);
+
+            const result = await completeTrip("trip-123", "driver-123");
+
+            expect(db.trip.updateMany).toHaveBeenCalledWith({
+                where: { id: "trip-123", status: TripStatus.ONGOING },
+                data: { status: TripStatus.COMPLETED },
+            });
+            // 150 DA per seat * 3 seats
+            expect(debitAvailableBalance).toHaveBeenCalledWith(db, "driver-123", 450, "Trip commission: trip-123 (3 seats)");
+            expect(db.tripBooking.update).toHaveBeenCalledWith({
+                where: { id: "booking-2" },
+                data: { status: TripBookingStatus.COMPLETED, commissionAmount: 300 },
+            });
+            expect(result.commissionAmount).toBe(450);
+            expect(result.commissionDebt).toBe(0);
+            expect(mockEmitter.emitTripStatusUpdated).toHaveBeenCalledWith(
+                expect.objectContaining({ status: TripStatus.COMPLETED }),
+                ["passenger-1", "passenger-2"]
+            );
+        });
+
+        it("should record the commission the driver's wallet cannot cover as debt", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue(ongoingTrip);
+            (debitAvailableBalance as jest.Mock).mockResolvedValueOnce(100);
+
+            const result = await completeTrip("trip-123", "driver-123");
+
+            expect(db.trip.update).toHaveBeenCalledWith(
+                expect.objectContaining({ data: { commissionDebt: 350 } })
+            );
+            expect(result.status).toBe(TripStatus.COMPLETED);
+            expect(result.commissionDebt).toBe(350);
+        });
+
+        it("should not charge the commission twice when completed twice at once", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue(ongoingTrip);
+            (db.trip.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(completeTrip("trip-123", "driver-123")).rejects.toThrow(
+                "Can only complete an ongoing trip"
+            );
+            expect(debitAvailableBalance).not.toHaveBeenCalled();
+            expect(mockEmitter.emitTripStatusUpdated).not.toHaveBeenCalled();
+        });
+
+        it("should not charge anything for an empty trip", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue({ ...trip, status: TripStatus.ONGOING, bookings: [] });
+
+            const result = await completeTrip("trip-123", "driver-123");
+
+            expect(debitAvailableBalance).not.toHaveBeenCalled();
+            expect(result.commissionAmount).toBe(0);
+        });
+
+        it("should only complete an ongoing trip of the driver", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue({ ...trip, bookings: [] });
+
+            await expect(completeTrip("trip-123", "driver-456")).rejects.toThrow(
+                "Only the driver can manage this trip"
+            );
+            await expect(completeTrip("trip-123", "driver-123")).rejects.toThrow(
+                "Can only complete an ongoing trip"
+            );
+        });
+    });
+
+    describe("collectTripCommissionDebts", () => {
+        it("should collect unpaid commissions from the driver's wallet, oldest trip first", async () => {
+            (db.trip.findMany as jest.Mock).mockResolvedValue([
+                { id: "trip-1", commissionDebt: 300 },
+                { id: "trip-2", commissionDebt: 200 },
+            ]);
+            (debitAvailableBalance as jest.Mock).mockResolvedValueOnce(300).mockResolvedValueOnce(50);
+            (db.trip.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const remaining = await collectTripCommissionDebts("driver-123");
+
+            expect(db.trip.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { driverId: "driver-123", commissionDebt: { gt: 0 } },
+                    orderBy: { departureAt: "asc" },
+                })
+            );
+            expect(db.trip.updateMany).toHaveBeenCalledWith({
+                where: { id: "trip-2", commissionDebt: 200 },
+                data: { commissionDebt: 150 },
+            });
+            expect(remaining).toBe(150);
+        });
+
+        it("should roll the debit back when the debt was collected in the meantime", async () => {
+            (db.trip.findMany as jest.Mock).mockResolvedValue([{ id: "trip-1", commissionDebt: 300 }]);
+            (debitAvailableBalance as jest.Mock).mockResolvedValueOnce(300);
+            (db.trip.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(collectTripCommissionDebts("driver-123")).rejects.toThrow(
+                "Trip commission debt is already being collected"
+            );
+        });
+
+        it("should be collected before publishing a new trip", async () => {
+            (db.trip.findMany as jest.Mock).mockResolvedValue([{ id: "trip-1", commissionDebt: 300 }]);
+            (debitAvailableBalance as jest.Mock).mockResolvedValueOnce(300);
+            (db.trip.create as jest.Mock).mockResolvedValue(trip);
+
+            await createTrip("driver-123", tripInput);
+
+            expect(debitAvailableBalance).toHaveBeenCalledWith(db, "driver-123", 300, "Trip commission debt: trip-1");
+        });
+    });
+
+    describe("cancelTrip", () => {
+        it("should cancel every confirmed booking and notify the passengers", async () => {
+            (db.trip.findUnique as jest.Mock)
+                .mockResolvedValueOnce({
+                    ...trip,
+                    bookings: [{ id: "booking-1", passengerId: "passenger-1", seats: 1 }],
+                })
+                .mockResolvedValueOnce({ ...trip, status: TripStatus.CANCELLED });
+            (db.trip.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            await cancelTrip("trip-123", "driver-123");
+
+            expect(db.trip.updateMany).toHaveBeenCalledWith({
+                where: { id: "trip-123", status: TripStatus.SCHEDULED },
+                data: { status: TripStatus.CANCELLED },
+            });
+            expect(db.tripBooking.updateMany).toHaveBeenCalledWith({
+                where: { tripId: "trip-123", status: TripBookingStatus.CONFIRMED },
+                data: { status: TripBookingStatus.CANCELLED, cancelledAt: expect.any(Date) },
+            });
+            expect(mockEmitter.emitTripStatusUpdated).toHaveBeenCalledWith(
+                expect.objectContaining({ status: TripStatus.CANCELLED }),
+                ["passenger-1"]
+            );
+        });
+
+        it("should not cancel a trip the driver started in the meantime", async () => {
+            (db.trip.findUnique as jest.Mock).mockResolvedValue({ ...trip, bookings: [] });
+            (db.trip.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 });
+
+            await expect(cancelTrip("trip-123", "driver-123")).rejects.toThrow("Trip is no longer SCHEDULED");
+            expect(db.tripBooking.updateMany).not.toHaveBeenCalled();
+            expect(mockEmitter.emitTripStatusUpdated).not.toHaveBeenCalled();
+        });
+    });
+});
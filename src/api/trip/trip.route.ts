@@ -0,0 +1,297 @@
+import express, { Request, Response } from "express";
+import { JwtPayload } from "jsonwebtoken";
+import { isAuthenticated, requireRole } from "../../middlewares/middlewares";
+import {
+    createTrip,
+    searchTrips,
+    findTripById,
+    getDriverTrips,
+    getPassengerBookings,
+    bookTrip,
+    cancelTripBooking,
+    startTrip,
+    cancelTrip,
+    completeTrip,
+} from "./trip.services";
+import { Role, TripStatus } from "@prisma/client";
+
+const router = express.Router();
+
+interface AuthenticatedRequest extends Request {
+    payload?: JwtPayload & { userId: string; role: Role };
+}
+
+interface CustomError extends Error {
+    statusCode?: number;
+}
+
+const REQUIRED_FIELDS = [
+    "vehicleId",
+    "originWilaya",
+    "destWilaya",
+    "departureAt",
+    "seatCapacity",
+    "pricePerSeat",
+] as const;
+
+/**
+ * POST /trips - Publish an intercity seat-sharing trip (drivers only)
+ */
+router.post(
+    "/",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { userId } = req.payload!;
+
+            const missing = REQUIRED_FIELDS.filter((field) => req.body[field] === undefined);
+            if (missing.length > 0) {
+                return res.status(400).json({
+                    error: `Missing required fields: ${missing.join(", ")}`,
+                });
+            }
+
+            const trip = await createTrip(userId, req.body);
+
+            res.status(201).json(trip);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /trips/search - Find upcoming trips with free seats
+ * Optional ?originWilaya=16&destWilaya=31&date=2026-10-20&seats=2
+ */
+router.get(
+    "/search",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { originWilaya, destWilaya, date, seats } = req.query;
+
+            const day = date !== undefined ? new Date(String(date)) : undefined;
+            if (day && isNaN(day.getTime())) {
+                return res.status(400).json({ error: "date must be a valid date" });
+            }
+
+            const seatCount = seats !== undefined ? Number(seats) : undefined;
+            if (seatCount !== undefined && (!Number.isInteger(seatCount) || seatCount < 1)) {
+                return res.status(400).json({ error: "seats must be a positive whole number" });
+            }
+
+            const trips = await searchTrips({
+                ...(originWilaya !== undefined && { originWilaya: String(originWilaya) }),
+                ...(destWilaya !== undefined && { destWilaya: String(destWilaya) }),
+                ...(day !== undefined && { date: day }),
+                ...(seatCount !== undefined && { seats: seatCount }),
+            });
+
+            res.json(trips);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /trips/mine - Get the trips the driver published
+ * Optional ?status=SCHEDULED
+ */
+router.get(
+    "/mine",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { userId } = req.payload!;
+            const { status } = req.query;
+
+            if (status !== undefined && !Object.values(TripStatus).includes(status as TripStatus)) {
+                return res.status(400).json({ error: "Invalid status value" });
+            }
+
+            const trips = await getDriverTrips(userId, status as TripStatus | undefined);
+            res.json(trips);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /trips/bookings - Get the passenger's seat bookings
+ */
+router.get(
+    "/bookings",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { userId } = req.payload!;
+
+            const bookings = await getPassengerBookings(userId);
+            res.json(bookings);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /trips/bookings/:bookingId/cancel - Cancel a seat booking (passenger)
+ */
+router.put(
+    "/bookings/:bookingId/cancel",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { bookingId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!bookingId) {
+                return res.status(400).json({ error: "bookingId is required" });
+            }
+
+            const booking = await cancelTripBooking(bookingId, userId);
+            res.json(booking);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /trips/:tripId - Get a trip (the driver also sees its bookings)
+ */
+router.get(
+    "/:tripId",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { tripId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!tripId) {
+                return res.status(400).json({ error: "tripId is required" });
+            }
+
+            const trip = await findTripById(tripId, userId);
+            res.json(trip);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /trips/:tripId/bookings - Book seats on a trip
+ * Body: { seats } (defaults to 1)
+ */
+router.post(
+    "/:tripId/bookings",
+    isAuthenticated,
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { tripId } = req.params;
+            const { userId } = req.payload!;
+            const { seats } = req.body;
+
+            if (!tripId) {
+                return res.status(400).json({ error: "tripId is required" });
+            }
+
+            const booking = await bookTrip(tripId, userId, seats ?? 1);
+            res.status(201).json(booking);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /trips/:tripId/start - Start a trip (driver only)
+ */
+router.put(
+    "/:tripId/start",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { tripId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!tripId) {
+                return res.status(400).json({ error: "tripId is required" });
+            }
+
+            const trip = await startTrip(tripId, userId);
+            res.json(trip);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /trips/:tripId/complete - Complete a trip (driver only)
+ * Charges the driver the commission of every booked seat
+ */
+router.put(
+    "/:tripId/complete",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { tripId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!tripId) {
+                return res.status(400).json({ error: "tripId is required" });
+            }
+
+            const trip = await completeTrip(tripId, userId);
+            res.json(trip);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /trips/:tripId/cancel - Cancel a trip before departure (driver only)
+ * Every booking on it is cancelled
+ */
+router.put(
+    "/:tripId/cancel",
+    isAuthenticated,
+    requireRole(Role.DRIVER),
+    async (req: AuthenticatedRequest, res: Response, next: any) => {
+        try {
+            const { tripId } = req.params;
+            const { userId } = req.payload!;
+
+            if (!tripId) {
+                return res.status(400).json({ error: "tripId is required" });
+            }
+
+            const trip = await cancelTrip(tripId, userId);
+            res.json(trip);
+        } catch (error: any) {
+            const statusCode = (error as CustomError).statusCode || 500;
+            res.status(statusCode).json({ error: error.message });
+        }
+    }
+);
+
+export = router;
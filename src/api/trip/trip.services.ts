@@ -0,0 +1,589 @@
+import { TripBookingStatus, TripStatus, VehicleType } from "@prisma/client";
+import { db } from "../../utils/db";
+import { getRideEmitter } from "../../socket";
+import { normalizeWilayaCode } from "../../utils/geocoding";
+import { getLocalDayBounds } from "../../utils/localTime";
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from "../../utils/errors";
+import { debitAvailableBalance } from "../wallet/wallet.services";
+import { getActiveTariff } from "../tariff/tariff.services";
+import { getPaymentConfig } from "../ride/ride.payment.services";
+
+/**
+ * Intercity seat-sharing ("blasa") configuration
+ */
+export const TRIP_CONFIG = {
+    MAX_SEATS: 8, // Seats a driver can offer on one trip
+    MIN_LEAD_MINUTES: Number(process.env.TRIP_MIN_LEAD_MINUTES) || 30, // Earliest departure publishable
+    MAX_DAYS_AHEAD: Number(process.env.TRIP_MAX_DAYS_AHEAD) || 30,
+};
+
+/**
+ * Fields a driver sets when publishing a trip
+ */
+export interface TripInput {
+    vehicleId: string;
+    originWilaya: string | number;
+    destWilaya: string | number;
+    meetingPoint?: string | null;
+    departureAt: Date;
+    seatCapacity: number;
+    pricePerSeat: number;
+}
+
+/**
+ * Search filters for published trips
+ */
+export interface TripSearch {
+    originWilaya?: string | number;
+    destWilaya?: string | number;
+    date?: Date; // any departure on that local day (PRICING_TIMEZONE)
+    seats?: number;
+}
+
+const userSelect = {
+    select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        phoneNumber: true,
+        photo: true,
+    },
+};
+
+const tripInclude = {
+    driver: userSelect,
+    vehicle: true,
+};
+
+const isPositiveInteger = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value > 0;
+
+/**
+ * Commission owed by the driver on a booking: a whole number of DA per seat
+ */
+export function calculateBookingCommission(pricePerSeat: number, seats: number, commissionPercent: number) {
+    return Math.floor(pricePerSeat * commissionPercent) * seats;
+}
+
+/**
+ * Publish an intercity trip (drivers only)
+ * The commission rate of the tariff in effect is recorded on the trip
+ */
+export async function createTrip(driverId: string, data: TripInput) {
+    const originWilaya = normalizeWilayaCode(data.originWilaya);
+    const destWilaya = normalizeWilayaCode(data.destWilaya);
+
+    if (!originWilaya || !destWilaya) {
+        throw new BadRequestError("originWilaya and destWilaya must be wilaya codes (e.g. \"16\")");
+    }
+
+    if (originWilaya === destWilaya) {
+        throw new BadRequestError("Trips must go from one wilaya to another");
+    }
+
+    const departureAt = new Date(data.departureAt);
+    if (isNaN(departureAt.getTime())) {
+        throw new BadRequestError("departureAt must be a valid date");
+    }
+
+    const now = Date.now();
+    if (departureAt.getTime() < now + TRIP_CONFIG.MIN_LEAD_MINUTES * 60 * 1000) {
+        throw new BadRequestError(
+            `Trips must be published at least ${TRIP_CONFIG.MIN_LEAD_MINUTES} minutes before departure`
+        );
+    }
+
+    if (departureAt.getTime() > now + TRIP_CONFIG.MAX_DAYS_AHEAD * 24 * 60 * 60 * 1000) {
+        throw new BadRequestError(`Trips can be published at most ${TRIP_CONFIG.MAX_DAYS_AHEAD} days ahead`);
+    }
+
+    if (!isPositiveInteger(data.seatCapacity) || data.seatCapacity > TRIP_CONFIG.MAX_SEATS) {
+        throw new BadRequestError(`seatCapacity must be between 1 and ${TRIP_CONFIG.MAX_SEATS}`);
+    }
+
+    if (!isPositiveInteger(data.pricePerSeat)) {
+        throw new BadRequestError("pricePerSeat must be a positive whole number of DA");
+    }
+
+    const driverProfile = await db.driverProfile.findUnique({
+        where: { userId: driverId },
+    });
+
+    const vehicle = await db.vehicle.findUnique({
+        where: { id: data.vehicleId },
+    });
+
+    if (!driverProfile || !vehicle || vehicle.driverId !== driverProfile.id) {
+        throw new BadRequestError("Vehicle not found or does not belong to driver");
+    }
+
+    // Motorbikes only do deliveries
+    if (vehicle.type !== VehicleType.CAR) {
+        throw new BadRequestError("Only cars can be used for seat-sharing trips");
+    }
+
+    const tariff = await getActiveTariff();
+    const commissionPercent = tariff?.commissionPercent ?? getPaymentConfig().commissionPercent;
+
+    // Commission left unpaid on earlier trips comes first
+    await collectTripCommissionDebts(driverId);
+
+    // The driver must be able to pay the commission of a full trip
+    const driverWallet = await db.wallet.findUnique({
+        where: { userId: driverId },
+    });
+
+    const minimumBalance = calculateBookingCommission(data.pricePerSeat, data.seatCapacity, commissionPercent);
+
+    if (!driverWallet || driverWallet.balance < minimumBalance) {
+        throw new BadRequestError(
+            `Insufficient balance. Minimum ${minimumBalance.toLocaleString()} DA required to publish this trip.`
+        );
+    }
+
+    return db.trip.create({
+        data: {
+            driverId,
+            vehicleId: data.vehicleId,
+            originWilaya,
+            destWilaya,
+            meetingPoint: data.meetingPoint ?? null,
+            departureAt,
+            seatCapacity: data.seatCapacity,
+            seatsAvailable: data.seatCapacity,
+            pricePerSeat: data.pricePerSeat,
+            commissionPercent,
+        },
+        include: tripInclude,
+    });
+}
+
+/**
+ * Search upcoming trips with free seats, earliest departure first
+ * A date searches the trips leaving on that local day
+ */
+export async function searchTrips(filters: TripSearch) {
+    const originWilaya = filters.originWilaya !== undefined ? normalizeWilayaCode(filters.originWilaya) : null;
+    const destWilaya = filters.destWilaya !== undefined ? normalizeWilayaCode(filters.destWilaya) : null;
+
+    const now = new Date();
+    let departureAt: { gt: Date; lt?: Date } = { gt: now };
+
+    if (filters.date) {
+        const { dayStart, dayEnd } = getLocalDayBounds(filters.date);
+
+        departureAt = { gt: dayStart > now ? dayStart : now, lt: dayEnd };
+    }
+
+    return db.trip.findMany({
+        where: {
+            status: TripStatus.SCHEDULED,
+            departureAt,
+            seatsAvailable: { gte: filters.seats ?? 1 },
+            ...(originWilaya && { originWilaya }),
+            ...(destWilaya && { destWilaya }),
+        },
+        include: tripInclude,
+        orderBy: { departureAt: "asc" },
+    });
+}
+
+/**
+ * Find a trip by ID
+ * The driver also sees the passengers booked on it
+ */
+export async function findTripById(tripId: string, userId: string) {
+    const trip = await db.trip.findUnique({
+        where: { id: tripId },
+        include: {
+            ...tripInclude,
+            bookings: {
+                where: { status: { not: TripBookingStatus.CANCELLED } },
+                include: { passenger: userSelect },
+                orderBy: { createdAt: "asc" },
+            },
+        },
+    });
+
+    if (!trip) {
+        throw new NotFoundError("Trip not found");
+    }
+
+    if (trip.driverId === userId) {
+        return trip;
+    }
+
+    const { bookings, ...publicTrip } = trip;
+    return {
+        ...publicTrip,
+        myBookings: bookings.filter((booking) => booking.passengerId === userId),
+    };
+}
+
+/**
+ * Get the trips a driver published, latest departure first
+ */
+export async function getDriverTrips(driverId: string, status?: TripStatus) {
+    return db.trip.findMany({
+        where: {
+            driverId,
+            ...(status && { status }),
+        },
+        include: {
+            vehicle: true,
+            bookings: {
+                where: { status: { not: TripBookingStatus.CANCELLED } },
+                include: { passenger: userSelect },
+            },
+        },
+        orderBy: { departureAt: "desc" },
+    });
+}
+
+/**
+ * Get a passenger's bookings, latest first
+ */
+export async function getPassengerBookings(passengerId: string) {
+    return db.tripBooking.findMany({
+        where: { passengerId },
+        include: {
+            trip: { include: tripInclude },
+        },
+        orderBy: { createdAt: "desc" },
+    });
+}
+
+/**
+ * Book seats on a trip (passengers)
+ * Seats are taken atomically so a trip is never overbooked
+ */
+export async function bookTrip(tripId: string, passengerId: string, seats: number = 1) {
+    if (!isPositiveInteger(seats)) {
+        throw new BadRequestError("seats must be a positive whole number");
+    }
+
+    const trip = await db.trip.findUnique({
+        where: { id: tripId },
+    });
+
+    if (!trip) {
+        throw new NotFoundError("Trip not found");
+    }
+
+    if (trip.driverId === passengerId) {
+        throw new BadRequestError("You cannot book your own trip");
+    }
+
+    if (trip.status !== TripStatus.SCHEDULED || trip.departureAt <= new Date()) {
+        throw new BadRequestError("Trip is no longer open for booking");
+    }
+
+    const existingBooking = await db.tripBooking.findFirst({
+        where: { tripId, passengerId, status: TripBookingStatus.CONFIRMED },
+    });
+
+    if (existingBooking) {
+        throw new BadRequestError("You already booked this trip. Cancel your booking to change the seats.");
+    }
+
+    const booking = await db.$transaction(async (tx) => {
+        // Only succeeds while enough seats are left
+        const { count } = await tx.trip.updateMany({
+            where: { id: tripId, status: TripStatus.SCHEDULED, seatsAvailable: { gte: seats } },
+            data: { seatsAvailable: { decrement: seats } },
+        });
+
+        if (count === 0) {
+            throw new BadRequestError("Not enough seats left on this trip");
+        }
+
+        return tx.tripBooking.create({
+            data: {
+                tripId,
+                passengerId,
+                seats,
+                price: seats * trip.pricePerSeat,
+            },
+            include: { passenger: userSelect },
+        });
+    });
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitTripBooked(trip, booking);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+
+    return booking;
+}
+
+/**
+ * Cancel a booking (passenger only, before departure)
+ * The seats are given back to the trip
+ */
+export async function cancelTripBooking(bookingId: string, passengerId: string) {
+    const booking = await db.tripBooking.findUnique({
+        where: { id: bookingId },
+        include: { trip: true },
+    });
+
+    if (!booking) {
+        throw new NotFoundError("Booking not found");
+    }
+
+    if (booking.passengerId !== passengerId) {
+        throw new UnauthorizedError("You are not authorized to cancel this booking");
+    }
+
+    if (booking.status !== TripBookingStatus.CONFIRMED) {
+        throw new BadRequestError("Booking is no longer active");
+    }
+
+    if (booking.trip.status !== TripStatus.SCHEDULED || booking.trip.departureAt <= new Date()) {
+        throw new BadRequestError("Cannot cancel a booking once the trip has started");
+    }
+
+    const cancelledBooking = await db.$transaction(async (tx) => {
+        const { count } = await tx.tripBooking.updateMany({
+            where: { id: bookingId, status: TripBookingStatus.CONFIRMED },
+            data: { status: TripBookingStatus.CANCELLED, cancelledAt: new Date() },
+        });
+
+        if (count === 0) {
+            throw new BadRequestError("Booking is no longer active");
+        }
+
+        // Seats only go back to a trip that has not started in the meantime
+        const { count: tripCount } = await tx.trip.updateMany({
+            where: { id: booking.tripId, status: TripStatus.SCHEDULED },
+            data: { seatsAvailable: { increment: booking.seats } },
+        });
+
+        if (tripCount === 0) {
+            throw new BadRequestError("Cannot cancel a booking once the trip has started");
+        }
+
+        return tx.tripBooking.findUnique({
+            where: { id: bookingId },
+        });
+    });
+
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitTripBookingCancelled(booking.trip, cancelledBooking);
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+
+    return cancelledBooking;
+}
+
+/**
+ * Load a trip and check it belongs to the driver
+ */
+async function findDriverTrip(tripId: string, driverId: string) {
+    const trip = await db.trip.findUnique({
+        where: { id: tripId },
+        include: {
+            bookings: {
+                where: { status: TripBookingStatus.CONFIRMED },
+            },
+        },
+    });
+
+    if (!trip) {
+        throw new NotFoundError("Trip not found");
+    }
+
+    if (trip.driverId !== driverId) {
+        throw new UnauthorizedError("Only the driver can manage this trip");
+    }
+
+    return trip;
+}
+
+/**
+ * Move a trip to a new status and notify its passengers
+ * Only applies while the trip is still in the status it was checked in
+ *
+ * @throws ConflictError if the trip changed status in the meantime
+ */
+async function setTripStatus(
+    trip: Awaited<ReturnType<typeof findDriverTrip>>,
+    status: TripStatus,
+    bookingStatus?: TripBookingStatus
+) {
+    const updatedTrip = await db.$transaction(async (tx) => {
+        const { count } = await tx.trip.updateMany({
+            where: { id: trip.id, status: trip.status },
+            data: { status },
+        });
+
+        if (count === 0) {
+            throw new ConflictError(`Trip is no longer ${trip.status}`);
+        }
+
+        if (bookingStatus === TripBookingStatus.CANCELLED) {
+            await tx.tripBooking.updateMany({
+                where: { tripId: trip.id, status: TripBookingStatus.CONFIRMED },
+                data: { status: bookingStatus, cancelledAt: new Date() },
+            });
+        }
+
+        return tx.trip.findUnique({
+            where: { id: trip.id },
+            include: tripInclude,
+        });
+    });
+
+    notifyTripPassengers(updatedTrip, trip.bookings);
+
+    return updatedTrip;
+}
+
+/**
+ * Tell the booked passengers of a trip its new status
+ */
+function notifyTripPassengers(updatedTrip: unknown, bookings: Array<{ passengerId: string }>) {
+    try {
+        const emitter = getRideEmitter();
+        emitter.emitTripStatusUpdated(
+            updatedTrip,
+            bookings.map((booking) => booking.passengerId)
+        );
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'test') {
+            console.log('WebSocket not available:', error);
+        }
+    }
+}
+
+/**
+ * Start a trip (driver only)
+ */
+export async function startTrip(tripId: string, driverId: string) {
+    const trip = await findDriverTrip(tripId, driverId);
+
+    if (trip.status !== TripStatus.SCHEDULED) {
+        throw new BadRequestError("Can only start a scheduled trip");
+    }
+
+    return setTripStatus(trip, TripStatus.ONGOING);
+}
+
+/**
+ * Cancel a trip before departure (driver only)
+ * Every booking on it is cancelled
+ */
+export async function cancelTrip(tripId: string, driverId: string) {
+    const trip = await findDriverTrip(tripId, driverId);
+
+    if (trip.status !== TripStatus.SCHEDULED) {
+        throw new BadRequestError("Can only cancel a trip before it starts");
+    }
+
+    return setTripStatus(trip, TripStatus.CANCELLED, TripBookingStatus.CANCELLED);
+}
+
+/**
+ * Complete a trip (driver only)
+ * Passengers paid their seats in cash, so the driver is charged the
+ * commission of every booked seat, at the rate recorded on the trip.
+ * What the driver's wallet cannot cover is owed as debt, collected when
+ * they publish their next trip.
+ */
+export async function completeTrip(tripId: string, driverId: string) {
+    const trip = await findDriverTrip(tripId, driverId);
+
+    if (trip.status !== TripStatus.ONGOING) {
+        throw new BadRequestError("Can only complete an ongoing trip");
+    }
+
+    const bookedSeats = trip.bookings.reduce((sum, booking) => sum + booking.seats, 0);
+    const commissionAmount = calculateBookingCommission(trip.pricePerSeat, bookedSeats, trip.commissionPercent);
+
+    // Only one completion goes through, so the commission is charged once
+    const completedTrip = await db.$transaction(async (tx) => {
+        const { count } = await tx.trip.updateMany({
+            where: { id: tripId, status: TripStatus.ONGOING },
+            data: { status: TripStatus.COMPLETED },
+        });
+
+        if (count !== 1) {
+            throw new BadRequestError("Can only complete an ongoing trip");
+        }
+
+        const chargedAmount = commissionAmount > 0
+            ? await debitAvailableBalance(tx, driverId, commissionAmount, `Trip commission: ${tripId} (${bookedSeats} seats)`)
+            : 0;
+
+        for (const booking of trip.bookings) {
+            await tx.tripBooking.update({
+                where: { id: booking.id },
+                data: {
+                    status: TripBookingStatus.COMPLETED,
+                    commissionAmount: calculateBookingCommission(trip.pricePerSeat, booking.seats, trip.commissionPercent),
+                },
+            });
+        }
+
+        return tx.trip.update({
+            where: { id: tripId },
+            data: { commissionDebt: commissionAmount - chargedAmount },
+            include: tripInclude,
+        });
+    });
+
+    notifyTripPassengers(completedTrip, trip.bookings);
+
+    return {
+        ...completedTrip,
+        bookedSeats,
+        commissionAmount,
+    };
+}
+
+/**
+ * Collect the unpaid trip commissions of a driver from their wallet, oldest trip first
+ * A debt collected by another request in the meantime rolls its debit back.
+ * @returns The debt left
+ */
+export async function collectTripCommissionDebts(driverId: string) {
+    const trips = await db.trip.findMany({
+        where: { driverId, commissionDebt: { gt: 0 } },
+        select: { id: true, commissionDebt: true },
+        orderBy: { departureAt: "asc" },
+    });
+
+    let remaining = 0;
+
+    for (const trip of trips) {
+        const collected = await db.$transaction(async (tx) => {
+            const debited = await debitAvailableBalance(tx, driverId, trip.commissionDebt, `Trip commission debt: ${trip.id}`);
+
+            if (debited === 0) {
+                return 0;
+            }
+
+            const { count } = await tx.trip.updateMany({
+                where: { id: trip.id, commissionDebt: trip.commissionDebt },
+                data: { commissionDebt: trip.commissionDebt - debited },
+            });
+
+            if (count === 0) {
+                throw new ConflictError("Trip commission debt is already being collected");
+            }
+
+            return debited;
+        });
+
+        remaining += trip.commissionDebt - collected;
+    }
+
+    return remaining;
+}
@@ -8,6 +8,8 @@ import {
     getTransactionHistory,
     creditWallet,
     debitWallet,
+    debitAvailableBalance,
+    creditWalletInTransaction,
 } from "../wallet.services";
 
 // Mock the database
@@ -17,6 +19,7 @@ jest.mock("../../../utils/db", () => ({
             create: jest.fn(),
             findUnique: jest.fn(),
             update: jest.fn(),
+            updateMany: jest.fn(),
         },
         transaction: {
             create: jest.fn(),
@@ -359,4 +362,72 @@ describe("Wallet Services", () => {
             expect(result).toEqual([]);
         });
     });
+
+    describe("debitAvailableBalance", () => {
+        it("should debit up to the balance of the wallet", async () => {
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({ id: "wallet-123", userId: "user-123", balance: 300 });
+            (db.wallet.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+            const debited = await debitAvailableBalance(db, "user-123", 500, "Trip commission: trip-123");
+
+            expect(debited).toBe(300);
+            expect(db.wallet.updateMany).toHaveBeenCalledWith({
+                where: { userId: "user-123", balance: { gte: 300 } },
+                data: { balance: { decrement: 300 } },
+            });
+            expect(db.transaction.create).toHaveBeenCalledWith({
+                data: {
+                    walletId: "wallet-123",
+                    type: TransactionType.DEBIT,
+                    amount: 300,
+                    reference: "Trip commission: trip-123",
+                },
+            });
+        });
+
+        it("should debit nothing from an empty or missing wallet", async () => {
+            (db.wallet.findUnique as jest.Mock).mockResolvedValueOnce({ id: "wallet-123", balance: 0 });
+            (db.wallet.findUnique as jest.Mock).mockResolvedValueOnce(null);
+
+            expect(await debitAvailableBalance(db, "user-123", 500)).toBe(0);
+            expect(await debitAvailableBalance(db, "user-123", 500)).toBe(0);
+            expect(db.wallet.updateMany).not.toHaveBeenCalled();
+        });
+
+        it("should debit nothing when the balance dropped in the meantime", async () => {
+            (db.wallet.findUnique as jest.Mock).mockResolvedValue({ id: "wallet-123", balance: 300 });
+            (db.wallet.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+            expect(await debitAvailableBalance(db, "user-123", 500)).toBe(0);
+            expect(db.transaction.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("creditWalletInTransaction", () => {
+        it("should credit the wallet and record the transaction with the given client", async () => {
+            (db.wallet.update as jest.Mock).mockResolvedValueOnce({ id: "wallet-123", balance: 580 });
+            (db.transaction.create as jest.Mock).mockResolvedValueOnce({ id: "tx-1" });
+
+            const result = await creditWalletInTransaction(db, "user-123", 80, "Cancellation compensation: ride-123");
+
+            expect(db.wallet.update).toHaveBeenCalledWith({
+                where: { userId: "user-123" },
+                data: { balance: { increment: 80 } },
+            });
+            expect(db.transaction.create).toHaveBeenCalledWith({
+                data: {
+                    walletId: "wallet-123",
+                    type: TransactionType.CREDIT,
+                    amount: 80,
+                    reference: "Cancellation compensation: ride-123",
+                },
+            });
+            expect(result.wallet.balance).toBe(580);
+            expect(db.$transaction).not.toHaveBeenCalled();
+        });
+
+        it("should reject a non-positive amount", async () => {
+            await expect(creditWalletInTransaction(db, "user-123", 0)).rejects.toThrow("Amount must be positive");
+        });
+    });
 });
@@ -1,4 +1,4 @@
-import { TransactionType } from "@prisma/client";
+import { Prisma, TransactionType } from "@prisma/client";
 import { db } from "../../utils/db";
 
 /**
@@ -167,3 +167,76 @@ export async function debitWallet(
 
     return { wallet: updatedWallet, transaction };
 }
+
+/**
+ * Debit a wallet within a transaction, up to its balance
+ * Users without a wallet are charged nothing; the caller records the rest as debt
+ * @returns The amount debited
+ */
+export async function debitAvailableBalance(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amount: number,
+    reference?: string
+) {
+    const wallet = await tx.wallet.findUnique({
+        where: { userId },
+    });
+
+    const debited = wallet ? Math.min(amount, Math.max(wallet.balance, 0)) : 0;
+
+    if (!wallet || debited <= 0) {
+        return 0;
+    }
+
+    // The balance may have dropped since it was read
+    const { count } = await tx.wallet.updateMany({
+        where: { userId, balance: { gte: debited } },
+        data: { balance: { decrement: debited } },
+    });
+
+    if (count === 0) {
+        return 0;
+    }
+
+    await tx.transaction.create({
+        data: {
+            walletId: wallet.id,
+            type: TransactionType.DEBIT,
+            amount: debited,
+            reference: reference ?? null,
+        },
+    });
+
+    return debited;
+}
+
+/**
+ * Credit a wallet within a transaction
+ */
+export async function creditWalletInTransaction(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amount: number,
+    reference?: string
+) {
+    if (amount <= 0) {
+        throw new Error("Amount must be positive");
+    }
+
+    const wallet = await tx.wallet.update({
+        where: { userId },
+        data: { balance: { increment: amount } },
+    });
+
+    const transaction = await tx.transaction.create({
+        data: {
+            walletId: wallet.id,
+            type: TransactionType.CREDIT,
+            amount,
+            reference: reference ?? null,
+        },
+    });
+
+    return { wallet, transaction };
+}
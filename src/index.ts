@@ -1,6 +1,7 @@
 import { createServer } from 'http';
 import app from './app';
 import { initializeSocket } from './socket';
+import { startRideScheduler } from './api/ride/ride.schedule.services';
 
 const port = process.env.PORT || 3000;
 
@@ -10,6 +11,9 @@ const httpServer = createServer(app);
 // Initialize Socket.IO
 initializeSocket(httpServer);
 
+// Dispatch scheduled rides ahead of their pickup time
+startRideScheduler();
+
 // Start server
 httpServer.listen(port, () => {
   /* eslint-disable no-console */
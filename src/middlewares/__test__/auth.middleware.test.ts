@@ -2,7 +2,7 @@ import express, { Request, Response, NextFunction } from "express";
 import request from "supertest";
 import jwt from "jsonwebtoken";
 import { Role } from "@prisma/client";
-import { isAuthenticated, requireRole, notFound, errorHandler } from "../middlewares";
+import { isAuthenticated, optionalAuthentication, requireRole, notFound, errorHandler } from "../middlewares";
 
 process.env.JWT_ACCESS_SECRET = "testsecret";
 
@@ -69,6 +69,42 @@ describe("isAuthenticated middleware", () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// optionalAuthentication
+// ─────────────────────────────────────────────────────────────────────────────
+describe("optionalAuthentication middleware", () => {
+  const app = express();
+  app.get("/public", optionalAuthentication, (req: any, res: Response) => {
+    res.json({ payload: req.payload ?? null });
+  });
+
+  it("should let anonymous requests through without a payload", async () => {
+    const res = await request(app).get("/public");
+
+    expect(res.status).toBe(200);
+    expect(res.body.payload).toBeNull();
+  });
+
+  it("should attach the payload of a valid token", async () => {
+    const token = generateToken({ userId: "user-123", role: "USER" });
+    const res = await request(app)
+      .get("/public")
+      .set("Authorization", `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.payload.userId).toBe("user-123");
+  });
+
+  it("should treat an invalid token as anonymous", async () => {
+    const res = await request(app)
+      .get("/public")
+      .set("Authorization", "Bearer invalid.token.here");
+
+    expect(res.status).toBe(200);
+    expect(res.body.payload).toBeNull();
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // requireRole
 // ─────────────────────────────────────────────────────────────────────────────
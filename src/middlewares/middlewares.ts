@@ -52,6 +52,25 @@ export function isAuthenticated(req: AuthenticatedRequest, res: Response, next:
   return next();
 }
 
+/**
+ * Attach the token payload when a valid access token is sent, but let
+ * anonymous requests through (public endpoints with per-user extras)
+ */
+export function optionalAuthentication(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  const { authorization } = req.headers;
+
+  if (authorization) {
+    try {
+      const token = authorization.split(' ')[1]!;
+      req.payload = jwt.verify(token, process.env.JWT_ACCESS_SECRET!) as JwtPayload;
+    } catch (err) {
+      // Invalid or expired tokens are treated as anonymous
+    }
+  }
+
+  return next();
+}
+
 export function requireRole(...allowedRoles: Role[]) {
   return (req: any, res: Response, next: NextFunction) => {
     // const userRole = req.user.role;
@@ -114,4 +133,17 @@ export function createUploader(subfolder: string) {
   });
 
   return multer({ storage });
-}
\ No newline at end of file
+}
+
+/**
+ * Delete a file multer stored for a request that was not saved
+ */
+export async function removeUploadedFile(file?: Express.Multer.File) {
+  if (!file) return;
+
+  try {
+    await fs.promises.unlink(file.path);
+  } catch (error) {
+    console.error('Failed to remove uploaded file:', error);
+  }
+}
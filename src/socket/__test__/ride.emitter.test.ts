@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { RideEmitter } from '../emitters/ride.emitter';
 import { Server } from 'socket.io';
 import { RIDE_EVENTS } from '../events/ride.events';
+import { TRACK_EVENTS } from '../events/track.events';
 
 // Mock dependencies
 jest.mock('../handlers/driver-location.handler', () => ({
@@ -15,13 +16,28 @@ describe('RideEmitter', () => {
     let mockIo: any;
     let mockEmit: jest.Mock;
     let mockTo: jest.Mock;
+    let mockTrackTo: jest.Mock;
+    let mockTrackEmit: jest.Mock;
+    let mockDisconnectSockets: jest.Mock;
+    let mockOf: jest.Mock;
 
     beforeEach(() => {
         // Setup Socket.IO mock
         mockEmit = jest.fn();
         mockTo = jest.fn().mockReturnValue({ emit: mockEmit });
+
+        // Public tracking namespace
+        mockTrackEmit = jest.fn();
+        mockTrackTo = jest.fn().mockReturnValue({ emit: mockTrackEmit });
+        mockDisconnectSockets = jest.fn();
+        mockOf = jest.fn().mockReturnValue({
+            to: mockTrackTo,
+            in: jest.fn().mockReturnValue({ disconnectSockets: mockDisconnectSockets }),
+        });
+
         mockIo = {
-            to: mockTo
+            to: mockTo,
+            of: mockOf
         } as unknown as Server;
 
         rideEmitter = new RideEmitter(mockIo);
@@ -102,4 +118,179 @@ describe('RideEmitter', () => {
             expect(mockTo).not.toHaveBeenCalledWith('user:driver-C');
         });
     });
+
+    describe('fare offers', () => {
+        const offer = { id: 'offer-1', rideId: 'ride-123', driverId: 'driver-A', price: 800 };
+
+        it('should send new offers to the passenger only', () => {
+            rideEmitter.emitOfferReceived(offer, 'passenger-1');
+
+            expect(mockTo).toHaveBeenCalledTimes(1);
+            expect(mockTo).toHaveBeenCalledWith('user:passenger-1');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.OFFER_RECEIVED, { offer });
+        });
+
+        it('should tell the driver whether their offer won', () => {
+            const ride = { id: 'ride-123', status: 'ACCEPTED', price: 800 };
+
+            rideEmitter.emitOfferAccepted(offer, ride);
+            rideEmitter.emitOfferRejected({ ...offer, driverId: 'driver-B' });
+
+            expect(mockTo).toHaveBeenCalledWith('user:driver-A');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.OFFER_ACCEPTED, { offer, ride });
+            expect(mockTo).toHaveBeenCalledWith('user:driver-B');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.OFFER_REJECTED, expect.objectContaining({
+                message: 'The passenger chose another driver'
+            }));
+        });
+
+        it('should tell the driver why their offer was rejected', () => {
+            rideEmitter.emitOfferRejected(offer, 'The ride was cancelled');
+
+            expect(mockTo).toHaveBeenCalledWith('user:driver-A');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.OFFER_REJECTED, {
+                offer,
+                message: 'The ride was cancelled'
+            });
+        });
+    });
+
+    describe('stop progress', () => {
+        it('should send stop progress to the ride room and the passenger', () => {
+            const ride = { id: 'ride-123', userId: 'passenger-1', driverId: 'driver-A' };
+            const progress = { rideId: 'ride-123', reachedStops: 1, totalStops: 2 };
+
+            rideEmitter.emitStopReached(ride, progress);
+
+            expect(mockTo).toHaveBeenCalledWith('ride:ride-123');
+            expect(mockTo).toHaveBeenCalledWith('user:passenger-1');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.STOP_REACHED, progress);
+        });
+    });
+
+    describe('shared ride tracking', () => {
+        it('should send only the new status to the followers of the ride', () => {
+            const ride = { id: 'ride-123', userId: 'passenger-1', driverId: 'driver-A', status: 'ONGOING', price: 800 };
+
+            rideEmitter.emitRideStatusUpdated(ride);
+
+            expect(mockOf).toHaveBeenCalledWith('/track');
+            expect(mockTrackTo).toHaveBeenCalledWith('ride:ride-123');
+            expect(mockTrackEmit).toHaveBeenCalledWith(TRACK_EVENTS.STATUS, { rideId: 'ride-123', status: 'ONGOING' });
+        });
+
+        it('should disconnect the followers when sharing is revoked', () => {
+            rideEmitter.emitShareRevoked('ride-123');
+
+            expect(mockTrackEmit).toHaveBeenCalledWith(TRACK_EVENTS.EXPIRED, { rideId: 'ride-123' });
+            expect(mockDisconnectSockets).toHaveBeenCalledWith(true);
+        });
+    });
+
+    describe('sequential dispatch', () => {
+        const offer = {
+            id: 'dispatch-1',
+            rideId: 'ride-123',
+            driverId: 'driver-A',
+            etaMinutes: 3,
+            expiresAt: new Date('2026-10-18T10:00:20.000Z'),
+        };
+
+        it('should offer the ride to one driver only', () => {
+            const ride = { id: 'ride-123', userId: 'passenger-1', originLat: 36.75, originLng: 3.05 };
+
+            rideEmitter.emitDispatchOffer(ride, offer, 1.234);
+
+            expect(mockTo).toHaveBeenCalledTimes(1);
+            expect(mockTo).toHaveBeenCalledWith('user:driver-A');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.DISPATCH_OFFER, {
+                ride,
+                offerId: 'dispatch-1',
+                expiresAt: offer.expiresAt,
+                distance: 1.23,
+                estimatedArrival: 3,
+            });
+        });
+
+        it('should tell the driver their offer ran out', () => {
+            rideEmitter.emitDispatchOfferExpired(offer);
+
+            expect(mockTo).toHaveBeenCalledWith('user:driver-A');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.DISPATCH_OFFER_EXPIRED, {
+                rideId: 'ride-123',
+                offerId: 'dispatch-1',
+            });
+        });
+    });
+
+    describe('pending ride expiry', () => {
+        const ride = { id: 'ride-123', userId: 'passenger-1', originLat: 36.75, originLng: 3.05 };
+
+        beforeEach(() => {
+            const drivers = new Map();
+            drivers.set('driver-near', { latitude: 36.751, longitude: 3.051 });  // ~0.1km
+            drivers.set('driver-ring', { latitude: 36.85, longitude: 3.05 });    // ~11km
+            drivers.set('driver-far', { latitude: 37.0, longitude: 3.05 });      // ~28km
+            (getAvailableDriverLocations as jest.Mock).mockReturnValue(drivers);
+        });
+
+        it('should only send a widened ride to the drivers it newly reaches', () => {
+            rideEmitter.emitRideSearchWidened({ ...ride, searchRadiusKm: 15 });
+
+            expect(mockTo).toHaveBeenCalledWith('user:driver-ring');
+            expect(mockTo).not.toHaveBeenCalledWith('user:driver-near');
+            expect(mockTo).not.toHaveBeenCalledWith('user:driver-far');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.CREATED, expect.objectContaining({
+                ride: expect.objectContaining({ id: 'ride-123' }),
+            }));
+        });
+
+        it('should only broadcast a ride to the drivers it matches', () => {
+            rideEmitter.emitRideCreated(ride, ['driver-ring']);
+
+            expect(mockTo).toHaveBeenCalledTimes(0);
+
+            rideEmitter.emitRideCreated(ride, ['driver-near']);
+
+            expect(mockTo).toHaveBeenCalledTimes(1);
+            expect(mockTo).toHaveBeenCalledWith('user:driver-near');
+        });
+
+        it('should only announce a scheduled ride to the drivers it matches', () => {
+            rideEmitter.emitScheduledRideCreated(ride, ['driver-ring']);
+
+            expect(mockTo).toHaveBeenCalledTimes(0);
+
+            rideEmitter.emitScheduledRideCreated(ride, ['driver-near']);
+
+            expect(mockTo).toHaveBeenCalledTimes(1);
+            expect(mockTo).toHaveBeenCalledWith('user:driver-near');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.SCHEDULED_CREATED, expect.objectContaining({
+                ride: expect.objectContaining({ id: 'ride-123' }),
+            }));
+        });
+
+        it('should tell the passenger and the drivers who saw the ride that it expired', () => {
+            const expired = { ...ride, status: 'EXPIRED', searchRadiusKm: 15 };
+
+            rideEmitter.emitRideExpired(expired);
+
+            expect(mockTo).toHaveBeenCalledWith('user:passenger-1');
+            expect(mockTo).toHaveBeenCalledWith('user:driver-near');
+            expect(mockTo).toHaveBeenCalledWith('user:driver-ring');
+            expect(mockTo).not.toHaveBeenCalledWith('user:driver-far');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.EXPIRED, { ride: expired });
+        });
+
+        it('should tell the other drivers who saw the ride that it was taken', () => {
+            const accepted = { ...ride, status: 'ACCEPTED', driverId: 'driver-near', searchRadiusKm: 15 };
+
+            rideEmitter.emitRideTaken(accepted);
+
+            expect(mockTo).toHaveBeenCalledWith('user:driver-ring');
+            expect(mockTo).not.toHaveBeenCalledWith('user:driver-near');
+            expect(mockTo).not.toHaveBeenCalledWith('user:driver-far');
+            expect(mockEmit).toHaveBeenCalledWith(RIDE_EVENTS.TAKEN, { rideId: 'ride-123' });
+        });
+    });
 });
@@ -1,5 +1,6 @@
 import { Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
+import { resolveShareToken } from '../api/ride/ride.share.services';
 
 export interface AuthenticatedSocket extends Socket {
     userId?: string;
@@ -51,3 +52,34 @@ export const socketAuthMiddleware = async (
         next(new Error('Invalid authentication token'));
     }
 };
+
+export interface TrackingSocket extends Socket {
+    rideId?: string;
+    shareExpiresAt?: Date;
+}
+
+/**
+ * Socket.IO middleware for the public tracking namespace
+ * Connections authenticate with a ride tracking link token instead of a JWT
+ */
+export const shareTokenMiddleware = async (
+    socket: TrackingSocket,
+    next: (err?: Error) => void
+) => {
+    try {
+        const token = socket.handshake.auth.token || socket.handshake.query.token;
+
+        if (!token || typeof token !== 'string') {
+            return next(new Error('Tracking token required'));
+        }
+
+        const shareToken = await resolveShareToken(token);
+
+        socket.rideId = shareToken.rideId;
+        socket.shareExpiresAt = shareToken.expiresAt;
+
+        next();
+    } catch (error) {
+        next(new Error('Invalid or expired tracking token'));
+    }
+};
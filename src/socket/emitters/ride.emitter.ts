@@ -1,5 +1,7 @@
 import { Server } from 'socket.io';
 import { RIDE_EVENTS, ROOMS } from '../events/ride.events';
+import { TRIP_EVENTS } from '../events/trip.events';
+import { TRACK_EVENTS, TRACK_NAMESPACE } from '../events/track.events';
 import { getAvailableDriverLocations } from '../handlers/driver-location.handler';
 import { calculateDistance, estimateTravelTime } from '../../utils/distance';
 
@@ -15,9 +17,14 @@ export class RideEmitter {
     constructor(private io: Server) { }
 
     /**
-     * Emit ride:created to nearby drivers only (within configured radius)
+     * Find available drivers within the broadcast radius of a ride's pickup point
+     * With beyondKm, only the drivers farther than that (the ring a widened search adds)
      */
-    emitRideCreated(ride: any) {
+    private findNearbyDrivers(
+        ride: any,
+        radiusKm: number = this.MAX_BROADCAST_DISTANCE_KM,
+        beyondKm?: number
+    ) {
         const driverLocations = getAvailableDriverLocations();
 
         // Filter drivers within radius
@@ -31,7 +38,7 @@ export class RideEmitter {
                 ride.originLng
             );
 
-            if (distance <= this.MAX_BROADCAST_DISTANCE_KM) {
+            if (distance <= radiusKm && (beyondKm === undefined || distance > beyondKm)) {
                 nearbyDrivers.push({
                     driverId,
                     distance,
@@ -40,6 +47,17 @@ export class RideEmitter {
             }
         }
 
+        return nearbyDrivers;
+    }
+
+    /**
+     * Emit ride:created to nearby drivers only (within configured radius)
+     * With matchingDriverIds, only to those drivers (the ones whose vehicle and preferences suit the ride)
+     */
+    emitRideCreated(ride: any, matchingDriverIds?: string[]) {
+        const nearbyDrivers = this.findNearbyDrivers(ride)
+            .filter(({ driverId }) => !matchingDriverIds || matchingDriverIds.includes(driverId));
+
         // Broadcast to each nearby driver with personalized distance info
         nearbyDrivers.forEach(({ driverId, distance, eta }) => {
             this.io.to(ROOMS.user(driverId)).emit(RIDE_EVENTS.CREATED, {
@@ -63,12 +81,25 @@ export class RideEmitter {
 
         // Emit to passenger
         this.io.to(ROOMS.user(ride.userId)).emit(RIDE_EVENTS.ACCEPTED, { ride });
+        this.emitTrackStatus(ride);
 
         // Join both passenger and driver to ride-specific room
         // Note: This requires the sockets to already be connected
         // The actual joining happens when sockets receive the event
     }
 
+    /**
+     * Emit ride:taken to the other drivers the ride was shown to, so they drop it from their list
+     */
+    emitRideTaken(ride: any) {
+        const radiusKm = Math.max(ride.searchRadiusKm ?? 0, this.MAX_BROADCAST_DISTANCE_KM);
+        this.findNearbyDrivers(ride, radiusKm)
+            .filter(({ driverId }) => driverId !== ride.driverId)
+            .forEach(({ driverId }) => {
+                this.io.to(ROOMS.user(driverId)).emit(RIDE_EVENTS.TAKEN, { rideId: ride.id });
+            });
+    }
+
     /**
      * Emit ride:statusUpdated to all parties in the ride
      */
@@ -81,6 +112,8 @@ export class RideEmitter {
         if (ride.driverId) {
             this.io.to(ROOMS.user(ride.driverId)).emit(RIDE_EVENTS.STATUS_UPDATED, { ride });
         }
+
+        this.emitTrackStatus(ride);
     }
 
     /**
@@ -99,6 +132,7 @@ export class RideEmitter {
 
         // 2. Always emit to passenger
         this.io.to(ROOMS.user(ride.userId)).emit(RIDE_EVENTS.CANCELLED, { ride, reason });
+        this.emitTrackStatus(ride);
 
         // 3. Handle driver notification
         if (ride.driverId) {
@@ -158,11 +192,207 @@ export class RideEmitter {
     /**
      * Emit when driver cancels ACCEPTED ride (ride returns to PENDING)
      */
-    emitDriverCancelled(ride: any) {
+    emitDriverCancelled(ride: any, reason?: string) {
         // Notify the passenger
         this.io.to(ROOMS.user(ride.userId)).emit(RIDE_EVENTS.DRIVER_CANCELLED, {
             ride,
+            reason,
             message: "Driver cancelled. Finding you another driver..."
         });
     }
+
+    /**
+     * Emit a driver's (counter-)offer to the passenger
+     */
+    emitOfferReceived(offer: any, passengerId: string) {
+        this.io.to(ROOMS.user(passengerId)).emit(RIDE_EVENTS.OFFER_RECEIVED, { offer });
+    }
+
+    /**
+     * Tell the passenger an offer is no longer available
+     */
+    emitOfferWithdrawn(offer: any, passengerId: string) {
+        this.io.to(ROOMS.user(passengerId)).emit(RIDE_EVENTS.OFFER_WITHDRAWN, { offer });
+    }
+
+    /**
+     * Tell a driver the passenger accepted their offer
+     */
+    emitOfferAccepted(offer: any, ride: any) {
+        this.io.to(ROOMS.user(offer.driverId)).emit(RIDE_EVENTS.OFFER_ACCEPTED, { offer, ride });
+    }
+
+    /**
+     * Tell a driver their offer lost (another offer or driver got the ride, or the ride was cancelled or expired)
+     */
+    emitOfferRejected(offer: any, message = "The passenger chose another driver") {
+        this.io.to(ROOMS.user(offer.driverId)).emit(RIDE_EVENTS.OFFER_REJECTED, {
+            offer,
+            message,
+        });
+    }
+
+    /**
+     * Announce a ride booked for later to nearby drivers so they can reserve it
+     * With matchingDriverIds, only to those drivers (the ones whose vehicle and preferences suit the ride)
+     */
+    emitScheduledRideCreated(ride: any, matchingDriverIds?: string[]) {
+        const nearbyDrivers = this.findNearbyDrivers(ride)
+            .filter(({ driverId }) => !matchingDriverIds || matchingDriverIds.includes(driverId));
+
+        nearbyDrivers.forEach(({ driverId, distance }) => {
+            this.io.to(ROOMS.user(driverId)).emit(RIDE_EVENTS.SCHEDULED_CREATED, {
+                ride,
+                distance: Number(distance.toFixed(2)),
+            });
+        });
+
+        if (process.env.NODE_ENV !== 'test') {
+            console.log(`🗓️ Announced scheduled ride ${ride.id} to ${nearbyDrivers.length} nearby drivers`);
+        }
+    }
+
+    /**
+     * Tell the passenger a driver reserved their scheduled ride
+     */
+    emitRideReserved(ride: any) {
+        this.io.to(ROOMS.user(ride.userId)).emit(RIDE_EVENTS.RESERVED, { ride });
+    }
+
+    /**
+     * Tell the passenger the driver gave up the reservation (the ride stays scheduled)
+     */
+    emitReservationCancelled(ride: any) {
+        this.io.to(ROOMS.user(ride.userId)).emit(RIDE_EVENTS.RESERVATION_CANCELLED, {
+            ride,
+            message: "Your driver cancelled the reservation. Another driver can still reserve your ride.",
+        });
+    }
+
+    /**
+     * Tell the reserved driver their scheduled ride is now live
+     */
+    emitRideDispatched(ride: any) {
+        this.io.to(ROOMS.user(ride.driverId)).emit(RIDE_EVENTS.DISPATCHED, { ride });
+    }
+
+    /**
+     * Emit ride:created to the drivers a widened search reaches
+     * Drivers within the previous radius already got the ride
+     */
+    emitRideSearchWidened(
+        ride: any,
+        previousRadiusKm: number = this.MAX_BROADCAST_DISTANCE_KM,
+        matchingDriverIds?: string[]
+    ) {
+        const newDrivers = this.findNearbyDrivers(ride, ride.searchRadiusKm, previousRadiusKm)
+            .filter(({ driverId }) => !matchingDriverIds || matchingDriverIds.includes(driverId));
+
+        newDrivers.forEach(({ driverId, distance, eta }) => {
+            this.io.to(ROOMS.user(driverId)).emit(RIDE_EVENTS.CREATED, {
+                ride,
+                distance: Number(distance.toFixed(2)),
+                estimatedArrival: eta
+            });
+        });
+
+        if (process.env.NODE_ENV !== 'test') {
+            console.log(`📍 Widened search of ride ${ride.id} to ${ride.searchRadiusKm}km: ${newDrivers.length} more drivers`);
+        }
+    }
+
+    /**
+     * Emit ride:dispatchOffer to the one driver a sequentially dispatched ride is offered to
+     */
+    emitDispatchOffer(ride: any, offer: any, distance: number) {
+        this.io.to(ROOMS.user(offer.driverId)).emit(RIDE_EVENTS.DISPATCH_OFFER, {
+            ride,
+            offerId: offer.id,
+            expiresAt: offer.expiresAt,
+            distance: Number(distance.toFixed(2)),
+            estimatedArrival: offer.etaMinutes
+        });
+    }
+
+    /**
+     * Emit ride:dispatchOfferExpired to the driver who let the offer run out
+     */
+    emitDispatchOfferExpired(offer: any) {
+        this.io.to(ROOMS.user(offer.driverId)).emit(RIDE_EVENTS.DISPATCH_OFFER_EXPIRED, {
+            rideId: offer.rideId,
+            offerId: offer.id,
+        });
+    }
+
+    /**
+     * Emit ride:expired to the passenger, and to the drivers who saw the ride so they drop it
+     */
+    emitRideExpired(ride: any) {
+        this.io.to(ROOMS.user(ride.userId)).emit(RIDE_EVENTS.EXPIRED, { ride });
+
+        const radiusKm = Math.max(ride.searchRadiusKm ?? 0, this.MAX_BROADCAST_DISTANCE_KM);
+        this.findNearbyDrivers(ride, radiusKm).forEach(({ driverId }) => {
+            this.io.to(ROOMS.user(driverId)).emit(RIDE_EVENTS.EXPIRED, { ride });
+        });
+
+        this.emitTrackStatus(ride);
+    }
+
+    /**
+     * Emit ride:pin to the passenger only: the driver must ask for it at pickup
+     */
+    emitRidePin(ride: any, pin: string) {
+        this.io.to(ROOMS.user(ride.userId)).emit(RIDE_EVENTS.PIN, { rideId: ride.id, pin });
+    }
+
+    /**
+     * Emit ride:stopReached to the ride room and the passenger
+     */
+    emitStopReached(ride: any, progress: any) {
+        this.io.to(ROOMS.ride(ride.id)).emit(RIDE_EVENTS.STOP_REACHED, progress);
+        this.io.to(ROOMS.user(ride.userId)).emit(RIDE_EVENTS.STOP_REACHED, progress);
+    }
+
+    /**
+     * Emit trip:booked to the driver of a seat-sharing trip
+     */
+    emitTripBooked(trip: any, booking: any) {
+        this.io.to(ROOMS.user(trip.driverId)).emit(TRIP_EVENTS.BOOKED, { tripId: trip.id, booking });
+    }
+
+    /**
+     * Emit trip:bookingCancelled to the driver of a seat-sharing trip
+     */
+    emitTripBookingCancelled(trip: any, booking: any) {
+        this.io.to(ROOMS.user(trip.driverId)).emit(TRIP_EVENTS.BOOKING_CANCELLED, { tripId: trip.id, booking });
+    }
+
+    /**
+     * Emit trip:statusUpdated to every passenger booked on a trip
+     */
+    emitTripStatusUpdated(trip: any, passengerIds: string[]) {
+        passengerIds.forEach((passengerId) => {
+            this.io.to(ROOMS.user(passengerId)).emit(TRIP_EVENTS.STATUS_UPDATED, { trip });
+        });
+    }
+
+    /**
+     * Emit track:status to the people following the ride with a tracking link
+     * Only the status is sent: the shared view never includes personal details
+     */
+    private emitTrackStatus(ride: any) {
+        this.io.of(TRACK_NAMESPACE).to(ROOMS.ride(ride.id)).emit(TRACK_EVENTS.STATUS, {
+            rideId: ride.id,
+            status: ride.status,
+        });
+    }
+
+    /**
+     * Emit track:expired and disconnect the followers of a ride whose tracking links were revoked
+     */
+    emitShareRevoked(rideId: string) {
+        const track = this.io.of(TRACK_NAMESPACE);
+        track.to(ROOMS.ride(rideId)).emit(TRACK_EVENTS.EXPIRED, { rideId });
+        track.in(ROOMS.ride(rideId)).disconnectSockets(true);
+    }
 }
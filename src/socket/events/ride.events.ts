@@ -2,6 +2,10 @@
 export const RIDE_EVENTS = {
     // Client -> Server
     UPDATE_STATUS: 'ride:updateStatus',
+    SEND_OFFER: 'ride:sendOffer',          // Driver counter-offer on a PENDING ride
+    WITHDRAW_OFFER: 'ride:withdrawOffer',
+    MARK_STOP_REACHED: 'ride:markStopReached', // Driver arrived at an intermediate stop
+    DECLINE_DISPATCH: 'ride:declineDispatch',  // Driver declines the ride offered to them alone
 
     // Server -> Client
     CREATED: 'ride:created',
@@ -9,6 +13,20 @@ export const RIDE_EVENTS = {
     STATUS_UPDATED: 'ride:statusUpdated',
     CANCELLED: 'ride:cancelled',
     DRIVER_CANCELLED: 'ride:driverCancelled',  // NEW: Driver cancelled, ride back to PENDING
+    OFFER_RECEIVED: 'ride:offerReceived',      // Passenger: new or updated driver offer
+    OFFER_WITHDRAWN: 'ride:offerWithdrawn',    // Passenger: driver withdrew an offer
+    OFFER_ACCEPTED: 'ride:offerAccepted',      // Driver: passenger accepted your offer
+    OFFER_REJECTED: 'ride:offerRejected',      // Driver: ride went to someone else
+    SCHEDULED_CREATED: 'ride:scheduledCreated',  // Nearby drivers: a ride booked for later can be reserved
+    RESERVED: 'ride:reserved',                   // Passenger: a driver reserved your scheduled ride
+    RESERVATION_CANCELLED: 'ride:reservationCancelled', // Passenger: the driver gave up the reservation
+    DISPATCHED: 'ride:dispatched',               // Reserved driver: your scheduled ride is now live
+    STOP_REACHED: 'ride:stopReached',            // Ride room: the driver reached an intermediate stop
+    PIN: 'ride:pin',                             // Passenger: PIN to give the driver at pickup
+    EXPIRED: 'ride:expired',                     // Passenger and nearby drivers: no driver accepted in time
+    DISPATCH_OFFER: 'ride:dispatchOffer',        // Driver: a ride offered to you alone, accept before expiresAt
+    DISPATCH_OFFER_EXPIRED: 'ride:dispatchOfferExpired', // Driver: you let the offer run out
+    TAKEN: 'ride:taken',                         // Nearby drivers: another driver accepted the ride
     ERROR: 'ride:error',
 } as const;
 
@@ -0,0 +1,11 @@
+// Public tracking (shared ride link) event constants
+// Read-only namespace: tracking clients never send events
+export const TRACK_NAMESPACE = '/track';
+
+export const TRACK_EVENTS = {
+    // Server → Tracking client
+    SNAPSHOT: 'track:snapshot',  // Ride view sent right after connecting
+    STATUS: 'track:status',      // The ride status changed
+    LOCATION: 'track:location',  // Live driver position
+    EXPIRED: 'track:expired',    // The link expired or was revoked; the socket is disconnected
+} as const;
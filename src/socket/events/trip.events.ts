@@ -0,0 +1,9 @@
+// Intercity seat-sharing trip event constants
+export const TRIP_EVENTS = {
+    // Server → Driver
+    BOOKED: 'trip:booked',                      // A passenger booked seats on your trip
+    BOOKING_CANCELLED: 'trip:bookingCancelled', // A passenger cancelled their booking
+
+    // Server → Passengers
+    STATUS_UPDATED: 'trip:statusUpdated',       // Trip started, completed or cancelled by the driver
+} as const;
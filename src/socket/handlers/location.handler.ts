@@ -2,6 +2,7 @@ import { Server } from 'socket.io';
 import { AuthenticatedSocket } from '../auth.middleware';
 import { LOCATION_EVENTS } from '../events/location.events';
 import { ROOMS } from '../events/ride.events';
+import { TRACK_EVENTS, TRACK_NAMESPACE } from '../events/track.events';
 import { db } from '../../utils/db';
 import { RideStatus } from '@prisma/client';
 
@@ -20,6 +21,7 @@ interface LocationUpdate {
 /**
  * In-memory storage for current driver locations
  * In production, consider Redis for multi-server scaling
+ * Every accepted update is also stored as a RideLocationPoint (the ride's trail)
  */
 const driverLocations = new Map<string, LocationUpdate & { timestamp: Date }>();
 
@@ -104,8 +106,12 @@ export const setupLocationHandlers = (io: Server, socket: AuthenticatedSocket) =
                 return;
             }
 
-            // Only track during ACCEPTED or ONGOING rides (privacy)
-            if (ride.status !== RideStatus.ACCEPTED && ride.status !== RideStatus.ONGOING) {
+            // Only track during ACCEPTED, ARRIVED or ONGOING rides (privacy)
+            if (
+                ride.status !== RideStatus.ACCEPTED &&
+                ride.status !== RideStatus.ARRIVED &&
+                ride.status !== RideStatus.ONGOING
+            ) {
                 socket.emit(LOCATION_EVENTS.ERROR, {
                     message: 'Location tracking only available during active rides',
                     code: 'INVALID_RIDE_STATUS'
@@ -121,6 +127,20 @@ export const setupLocationHandlers = (io: Server, socket: AuthenticatedSocket) =
             // store driver location in memory
             driverLocations.set(driverId, locationData);
 
+            // Keep the trail of the ride (actual distance, route replay)
+            await db.rideLocationPoint.create({
+                data: {
+                    rideId: ride.id,
+                    rideStatus: ride.status,
+                    lat: data.latitude,
+                    lng: data.longitude,
+                    heading: data.heading ?? null,
+                    speed: data.speed ?? null,
+                    accuracy: data.accuracy ?? null,
+                    recordedAt: locationData.timestamp
+                }
+            });
+
             // Broadcast to passenger
             io.to(ROOMS.user(ride.userId)).emit(LOCATION_EVENTS.UPDATED, {
                 driverId,
@@ -132,6 +152,15 @@ export const setupLocationHandlers = (io: Server, socket: AuthenticatedSocket) =
                 timestamp: locationData.timestamp
             });
 
+            // Broadcast to people following the ride with a tracking link
+            io.of(TRACK_NAMESPACE).to(ROOMS.ride(ride.id)).emit(TRACK_EVENTS.LOCATION, {
+                latitude: data.latitude,
+                longitude: data.longitude,
+                heading: data.heading,
+                speed: data.speed,
+                timestamp: locationData.timestamp
+            });
+
         } catch (error: any) {
             socket.emit(LOCATION_EVENTS.ERROR, {
                 message: error.message || 'Failed to update location',
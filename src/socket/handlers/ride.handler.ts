@@ -2,7 +2,10 @@ import { Server } from 'socket.io';
 import { AuthenticatedSocket } from '../auth.middleware';
 import { RIDE_EVENTS, ROOMS } from '../events/ride.events';
 import { updateRideStatus } from '../../api/ride/ride.services';
-import { RideStatus } from '@prisma/client';
+import { createRideOffer, withdrawRideOffer } from '../../api/ride/ride.offer.services';
+import { markStopReached } from '../../api/ride/ride.stop.services';
+import { declineDispatchOffer } from '../../api/ride/ride.dispatch.services';
+import { RideStatus, Role } from '@prisma/client';
 
 /**
  * Rate limiting map: userId -> timestamp[]
@@ -40,7 +43,7 @@ export const setupRideHandlers = (io: Server, socket: AuthenticatedSocket) => {
     socket.on(
         RIDE_EVENTS.UPDATE_STATUS,
         async (
-            data: { rideId: string; status: RideStatus },
+            data: { rideId: string; status: RideStatus; pin?: string; deliveryCode?: string },
             acknowledgment?: (response: any) => void
         ) => {
             try {
@@ -79,7 +82,11 @@ export const setupRideHandlers = (io: Server, socket: AuthenticatedSocket) => {
                 const updatedRide = await updateRideStatus(
                     data.rideId,
                     data.status,
-                    socket.userId!
+                    socket.userId!,
+                    {
+                        ...(data.pin !== undefined && { pin: String(data.pin) }),
+                        ...(data.deliveryCode !== undefined && { deliveryCode: String(data.deliveryCode) }),
+                    }
                 );
 
                 // Send acknowledgment
@@ -105,6 +112,175 @@ export const setupRideHandlers = (io: Server, socket: AuthenticatedSocket) => {
         }
     );
 
+    /**
+     * Handle ride:sendOffer from a driver (counter-offer on a PENDING ride)
+     */
+    socket.on(
+        RIDE_EVENTS.SEND_OFFER,
+        async (
+            data: { rideId: string; price: number; vehicleId: string },
+            acknowledgment?: (response: any) => void
+        ) => {
+            try {
+                if (socket.role !== Role.DRIVER) {
+                    const error = { error: 'Only drivers can make offers', code: 'UNAUTHORIZED' };
+                    if (acknowledgment) acknowledgment(error);
+                    return;
+                }
+
+                if (isRateLimited(socket.userId!)) {
+                    const error = {
+                        error: 'Rate limit exceeded. Max 10 requests per minute.',
+                        code: 'RATE_LIMIT_EXCEEDED',
+                    };
+                    if (acknowledgment) acknowledgment(error);
+                    socket.emit(RIDE_EVENTS.ERROR, error);
+                    return;
+                }
+
+                if (!data?.rideId || data.price === undefined || !data.vehicleId) {
+                    const error = {
+                        error: 'Missing required fields: rideId, price, vehicleId',
+                        code: 'INVALID_INPUT',
+                    };
+                    if (acknowledgment) acknowledgment(error);
+                    return;
+                }
+
+                // Creates the offer and notifies the passenger
+                const offer = await createRideOffer(data.rideId, socket.userId!, {
+                    price: data.price,
+                    vehicleId: data.vehicleId,
+                });
+
+                if (acknowledgment) {
+                    acknowledgment({ success: true, offer });
+                }
+            } catch (error: any) {
+                const errorResponse = {
+                    error: error.message || 'Failed to send offer',
+                    code: 'OFFER_FAILED',
+                };
+
+                if (acknowledgment) {
+                    acknowledgment(errorResponse);
+                }
+
+                socket.emit(RIDE_EVENTS.ERROR, errorResponse);
+            }
+        }
+    );
+
+    /**
+     * Handle ride:withdrawOffer from a driver
+     */
+    socket.on(
+        RIDE_EVENTS.WITHDRAW_OFFER,
+        async (data: { rideId: string }, acknowledgment?: (response: any) => void) => {
+            try {
+                if (socket.role !== Role.DRIVER || !data?.rideId) {
+                    const error = { error: 'Missing required fields: rideId', code: 'INVALID_INPUT' };
+                    if (acknowledgment) acknowledgment(error);
+                    return;
+                }
+
+                const offer = await withdrawRideOffer(data.rideId, socket.userId!);
+
+                if (acknowledgment) {
+                    acknowledgment({ success: true, offer });
+                }
+            } catch (error: any) {
+                const errorResponse = {
+                    error: error.message || 'Failed to withdraw offer',
+                    code: 'OFFER_FAILED',
+                };
+
+                if (acknowledgment) {
+                    acknowledgment(errorResponse);
+                }
+
+                socket.emit(RIDE_EVENTS.ERROR, errorResponse);
+            }
+        }
+    );
+
+    /**
+     * Handle ride:declineDispatch from the driver a ride is offered to
+     */
+    socket.on(
+        RIDE_EVENTS.DECLINE_DISPATCH,
+        async (data: { rideId: string }, acknowledgment?: (response: any) => void) => {
+            try {
+                if (socket.role !== Role.DRIVER || !data?.rideId) {
+                    const error = { error: 'Missing required fields: rideId', code: 'INVALID_INPUT' };
+                    if (acknowledgment) acknowledgment(error);
+                    return;
+                }
+
+                // The ride goes to the next driver right away
+                const offer = await declineDispatchOffer(data.rideId, socket.userId!);
+
+                if (acknowledgment) {
+                    acknowledgment({ success: true, offer });
+                }
+            } catch (error: any) {
+                const errorResponse = {
+                    error: error.message || 'Failed to decline ride',
+                    code: 'DISPATCH_FAILED',
+                };
+
+                if (acknowledgment) {
+                    acknowledgment(errorResponse);
+                }
+
+                socket.emit(RIDE_EVENTS.ERROR, errorResponse);
+            }
+        }
+    );
+
+    /**
+     * Handle ride:markStopReached from the driver of a multi-stop ride
+     */
+    socket.on(
+        RIDE_EVENTS.MARK_STOP_REACHED,
+        async (data: { rideId: string; stopId: string }, acknowledgment?: (response: any) => void) => {
+            try {
+                if (socket.role !== Role.DRIVER) {
+                    const error = { error: 'Only drivers can mark stops as reached', code: 'UNAUTHORIZED' };
+                    if (acknowledgment) acknowledgment(error);
+                    return;
+                }
+
+                if (!data?.rideId || !data.stopId) {
+                    const error = {
+                        error: 'Missing required fields: rideId, stopId',
+                        code: 'INVALID_INPUT',
+                    };
+                    if (acknowledgment) acknowledgment(error);
+                    return;
+                }
+
+                // Marks the stop and notifies the ride room
+                const progress = await markStopReached(data.rideId, data.stopId, socket.userId!);
+
+                if (acknowledgment) {
+                    acknowledgment({ success: true, progress });
+                }
+            } catch (error: any) {
+                const errorResponse = {
+                    error: error.message || 'Failed to mark stop as reached',
+                    code: 'STOP_FAILED',
+                };
+
+                if (acknowledgment) {
+                    acknowledgment(errorResponse);
+                }
+
+                socket.emit(RIDE_EVENTS.ERROR, errorResponse);
+            }
+        }
+    );
+
     /**
      * Handle joining a ride room (when ride is accepted)
      */
@@ -0,0 +1,51 @@
+import { Server } from 'socket.io';
+import { TrackingSocket, shareTokenMiddleware } from '../auth.middleware';
+import { ROOMS } from '../events/ride.events';
+import { TRACK_EVENTS, TRACK_NAMESPACE } from '../events/track.events';
+import { getSharedRide } from '../../api/ride/ride.share.services';
+
+// Longest delay setTimeout supports; longer ones fire at once
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Setup the public tracking namespace
+ * Followers of a shared ride join its room and only receive events; nothing they send is handled
+ */
+export const setupTrackNamespace = (io: Server) => {
+    const track = io.of(TRACK_NAMESPACE);
+
+    track.use(shareTokenMiddleware);
+
+    track.on('connection', async (socket: TrackingSocket) => {
+        const rideId = socket.rideId!;
+        socket.join(ROOMS.ride(rideId));
+
+        // Disconnect when the link expires; links further out than a timer
+        // can wait are checked again when it fires
+        let expiryTimer: NodeJS.Timeout;
+        const scheduleExpiry = () => {
+            const expiresInMs = socket.shareExpiresAt!.getTime() - Date.now();
+            expiryTimer = setTimeout(() => {
+                if (expiresInMs > MAX_TIMER_MS) {
+                    scheduleExpiry();
+                    return;
+                }
+                socket.emit(TRACK_EVENTS.EXPIRED, { rideId });
+                socket.disconnect(true);
+            }, Math.min(Math.max(expiresInMs, 0), MAX_TIMER_MS));
+        };
+        scheduleExpiry();
+
+        socket.on('disconnect', () => {
+            clearTimeout(expiryTimer);
+        });
+
+        try {
+            const token = socket.handshake.auth.token || socket.handshake.query.token;
+            socket.emit(TRACK_EVENTS.SNAPSHOT, await getSharedRide(String(token)));
+        } catch (error) {
+            socket.emit(TRACK_EVENTS.EXPIRED, { rideId });
+            socket.disconnect(true);
+        }
+    });
+};
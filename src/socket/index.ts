@@ -3,6 +3,7 @@ import { Server, ServerOptions } from 'socket.io';
 import { socketAuthMiddleware } from './auth.middleware';
 import { handleConnection } from './connection.handler';
 import { setupRideHandlers } from './handlers/ride.handler';
+import { setupTrackNamespace } from './handlers/track.handler';
 import { RideEmitter } from './emitters/ride.emitter';
 
 let io: Server;
@@ -34,6 +35,9 @@ export const initializeSocket = (httpServer: HTTPServer): Server => {
         setupRideHandlers(io, socket);
     });
 
+    // Public read-only namespace for shared ride links
+    setupTrackNamespace(io);
+
     console.log('✅ Socket.IO server initialized');
 
     return io;
@@ -1,5 +1,5 @@
 import { describe, it, expect } from '@jest/globals';
-import { calculateDistance, isWithinRadius, estimateTravelTime } from '../distance';
+import { calculateDistance, isWithinRadius, estimateTravelTime, isPointInPolygon } from '../distance';
 
 describe('Distance Calculation Utilities', () => {
     describe('calculateDistance', () => {
@@ -178,4 +178,38 @@ describe('Distance Calculation Utilities', () => {
             expect(distance).toBeLessThan(0.2);
         });
     });
+
+    describe('isPointInPolygon', () => {
+        // Rough box around central Algiers
+        const algiersBox = [
+            { lat: 36.70, lng: 2.95 },
+            { lat: 36.70, lng: 3.15 },
+            { lat: 36.82, lng: 3.15 },
+            { lat: 36.82, lng: 2.95 },
+        ];
+
+        it('should detect a point inside the polygon', () => {
+            expect(isPointInPolygon(36.7538, 3.0588, algiersBox)).toBe(true);
+        });
+
+        it('should reject a point outside the polygon', () => {
+            // Oran
+            expect(isPointInPolygon(35.6971, -0.6308, algiersBox)).toBe(false);
+        });
+
+        it('should handle concave polygons', () => {
+            // L-shaped polygon: the top-right square is cut out
+            const lShape = [
+                { lat: 0, lng: 0 },
+                { lat: 0, lng: 2 },
+                { lat: 1, lng: 2 },
+                { lat: 1, lng: 1 },
+                { lat: 2, lng: 1 },
+                { lat: 2, lng: 0 },
+            ];
+
+            expect(isPointInPolygon(0.5, 1.5, lShape)).toBe(true);
+            expect(isPointInPolygon(1.5, 1.5, lShape)).toBe(false);
+        });
+    });
 });
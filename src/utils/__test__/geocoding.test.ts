@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { reverseGeocode } from '../geocoding';
+import { reverseGeocode, reverseGeocodeRegion, normalizeWilayaCode, clearRegionCache } from '../geocoding';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -7,6 +7,7 @@ const mockedAxios = axios as jest.Mocked<typeof axios>;
 describe('geocoding utility', () => {
     beforeEach(() => {
         jest.clearAllMocks();
+        clearRegionCache();
     });
 
     it('should return a formatted address on success', async () => {
@@ -47,4 +48,63 @@ describe('geocoding utility', () => {
 
         expect(result).toBeNull();
     });
+
+    describe('reverseGeocodeRegion', () => {
+        it('should extract the wilaya code and commune', async () => {
+            mockedAxios.get.mockResolvedValueOnce({
+                data: {
+                    address: {
+                        'ISO3166-2-lvl4': 'DZ-16',
+                        state: 'Alger',
+                        municipality: 'Bab El Oued'
+                    }
+                }
+            });
+
+            const result = await reverseGeocodeRegion(36.79, 3.05);
+
+            expect(result).toEqual({ wilayaCode: '16', wilaya: 'Alger', commune: 'Bab El Oued' });
+            expect(mockedAxios.get).toHaveBeenCalledWith(
+                'https://nominatim.openstreetmap.org/reverse',
+                expect.objectContaining({
+                    params: expect.objectContaining({ addressdetails: 1 })
+                })
+            );
+        });
+
+        it('should return null on network error', async () => {
+            mockedAxios.get.mockRejectedValueOnce(new Error('Network Error'));
+
+            expect(await reverseGeocodeRegion(36.79, 3.05)).toBeNull();
+        });
+
+        it('should look up nearby points only once', async () => {
+            mockedAxios.get.mockResolvedValueOnce({
+                data: { address: { 'ISO3166-2-lvl4': 'DZ-16', state: 'Alger', municipality: 'Bab El Oued' } }
+            });
+
+            const first = await reverseGeocodeRegion(36.79012, 3.05004);
+            const second = await reverseGeocodeRegion(36.79034, 3.04987);
+
+            expect(second).toEqual(first);
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not cache a failed lookup', async () => {
+            mockedAxios.get
+                .mockRejectedValueOnce(new Error('Network Error'))
+                .mockResolvedValueOnce({ data: { address: { 'ISO3166-2-lvl4': 'DZ-16' } } });
+
+            expect(await reverseGeocodeRegion(36.79, 3.05)).toBeNull();
+            expect((await reverseGeocodeRegion(36.79, 3.05))?.wilayaCode).toBe('16');
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    it('should normalize wilaya codes to two digits', () => {
+        expect(normalizeWilayaCode('DZ-16')).toBe('16');
+        expect(normalizeWilayaCode('1')).toBe('01');
+        expect(normalizeWilayaCode(31)).toBe('31');
+        expect(normalizeWilayaCode('abc')).toBeNull();
+    });
 });
@@ -0,0 +1,30 @@
+import { describe, it, expect } from '@jest/globals';
+import { getLocalDayBounds, getLocalTime } from '../localTime';
+
+describe('Local Time Utilities', () => {
+    // Africa/Algiers is UTC+1 all year
+    const justAfterMidnight = new Date('2026-03-01T23:30:00Z');
+
+    describe('getLocalTime', () => {
+        it('should read the date and time in the local time zone', () => {
+            expect(getLocalTime(justAfterMidnight)).toEqual({
+                year: 2026,
+                month: 3,
+                day: 2,
+                weekday: 1, // Monday
+                hour: 0,
+                minute: 30,
+                second: 0,
+            });
+        });
+    });
+
+    describe('getLocalDayBounds', () => {
+        it('should return the local day an instant falls on', () => {
+            const { dayStart, dayEnd } = getLocalDayBounds(justAfterMidnight);
+
+            expect(dayStart.toISOString()).toBe('2026-03-01T23:00:00.000Z');
+            expect(dayEnd.toISOString()).toBe('2026-03-02T23:00:00.000Z');
+        });
+    });
+});
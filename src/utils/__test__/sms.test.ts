@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { SMS_CONFIG, sendSms } from '../sms';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('sms utility', () => {
+    const originalConfig = { ...SMS_CONFIG };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        Object.assign(SMS_CONFIG, {
+            GATEWAY_URL: 'https://sms.example.com/send',
+            API_KEY: 'secret-key',
+            SENDER_ID: 'VTC'
+        });
+    });
+
+    afterAll(() => {
+        Object.assign(SMS_CONFIG, originalConfig);
+    });
+
+    it('should send the message through the gateway', async () => {
+        mockedAxios.post.mockResolvedValueOnce({ data: {} });
+
+        await sendSms('0555123456', 'Your code is 987654');
+
+        expect(mockedAxios.post).toHaveBeenCalledWith(
+            'https://sms.example.com/send',
+            { to: '0555123456', from: 'VTC', message: 'Your code is 987654' },
+            expect.objectContaining({
+                headers: { Authorization: 'Bearer secret-key' }
+            })
+        );
+    });
+
+    it('should fail when no gateway is configured', async () => {
+        SMS_CONFIG.GATEWAY_URL = '';
+
+        await expect(sendSms('0555123456', 'Your code is 987654')).rejects.toThrow(
+            'SMS gateway is not configured'
+        );
+        expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should fail without logging the message when the gateway refuses it', async () => {
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        mockedAxios.post.mockRejectedValueOnce(new Error('Request failed with status code 500'));
+
+        await expect(sendSms('0555123456', 'Your code is 987654')).rejects.toThrow(
+            'The text message could not be sent'
+        );
+        const logged = JSON.stringify(consoleSpy.mock.calls);
+        expect(logged).not.toContain('987654');
+
+        consoleSpy.mockRestore();
+    });
+});
@@ -73,3 +73,33 @@ export function estimateTravelTime(
     const timeHours = distanceKm / avgSpeedKmh;
     return Math.round(timeHours * 60); // Convert to minutes
 }
+
+/**
+ * Check if a point lies inside a polygon (ray casting)
+ * @param lat Point latitude
+ * @param lng Point longitude
+ * @param polygon Polygon vertices in order (closing vertex optional)
+ * @returns true if the point is inside the polygon
+ */
+export function isPointInPolygon(
+    lat: number,
+    lng: number,
+    polygon: Array<{ lat: number; lng: number }>
+): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i]!;
+        const b = polygon[j]!;
+
+        const crosses =
+            (a.lat > lat) !== (b.lat > lat) &&
+            lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng;
+
+        if (crosses) {
+            inside = !inside;
+        }
+    }
+
+    return inside;
+}
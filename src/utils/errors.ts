@@ -28,3 +28,12 @@ export class BadRequestError extends Error {
         this.name = "BadRequestError";
     }
 }
+
+export class ConflictError extends Error {
+    statusCode = 409;
+
+    constructor(message: string) {
+        super(message);
+        this.name = "ConflictError";
+    }
+}
@@ -29,3 +29,102 @@ export async function reverseGeocode(lat: number, lng: number): Promise<string |
         return null;
     }
 }
+
+/**
+ * Administrative region of a point (Algerian wilaya and commune)
+ */
+export interface GeoRegion {
+    wilayaCode: string | null; // two-digit code, e.g. "16" for Algiers
+    wilaya: string | null;
+    commune: string | null;
+}
+
+/**
+ * Region lookups are cached by rounded coordinates, so the estimate and the
+ * booking of a trip (and nearby pickups) share one Nominatim request
+ */
+export const REGION_CACHE_CONFIG = {
+    PRECISION: 3, // Decimals kept (~100 m), well inside a commune
+    TTL_MS: 24 * 60 * 60 * 1000,
+    MAX_ENTRIES: 10000,
+};
+
+const regionCache = new Map<string, { region: GeoRegion | null; expiresAt: number }>();
+
+/**
+ * Resolve the wilaya and commune of a point using Nominatim's address details.
+ * The wilaya code is taken from the ISO 3166-2 code (e.g. "DZ-16" -> "16").
+ * Failed lookups are not cached.
+ */
+export async function reverseGeocodeRegion(lat: number, lng: number): Promise<GeoRegion | null> {
+    const key = `${lat.toFixed(REGION_CACHE_CONFIG.PRECISION)},${lng.toFixed(REGION_CACHE_CONFIG.PRECISION)}`;
+    const cached = regionCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.region;
+    }
+
+    const region = await fetchRegion(lat, lng);
+    if (region !== undefined) {
+        // Oldest entries go first when the cache is full
+        if (regionCache.size >= REGION_CACHE_CONFIG.MAX_ENTRIES) {
+            regionCache.delete(regionCache.keys().next().value!);
+        }
+        regionCache.set(key, { region, expiresAt: Date.now() + REGION_CACHE_CONFIG.TTL_MS });
+    }
+
+    return region ?? null;
+}
+
+/**
+ * Clear the region cache (for testing)
+ */
+export const clearRegionCache = () => {
+    regionCache.clear();
+};
+
+/**
+ * Region of a point from Nominatim; undefined when the lookup failed
+ */
+async function fetchRegion(lat: number, lng: number): Promise<GeoRegion | null | undefined> {
+    try {
+        const response = await axios.get('https://nominatim.openstreetmap.org/reverse', {
+            params: {
+                lat,
+                lon: lng,
+                format: 'jsonv2',
+                addressdetails: 1
+            },
+            headers: {
+                'User-Agent': 'VtcAppBackend/1.0 (contact@vtc-sahra.com)'
+            },
+            timeout: 5000
+        });
+
+        const address = response.data?.address;
+        if (!address) {
+            return null;
+        }
+
+        const isoCode: string | undefined = address['ISO3166-2-lvl4'];
+
+        return {
+            wilayaCode: isoCode ? normalizeWilayaCode(isoCode) : null,
+            wilaya: address.state ?? null,
+            commune: address.municipality ?? address.city ?? address.town ?? address.village ?? null
+        };
+    } catch (error) {
+        console.error('Failed to reverse geocode region:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Normalize a wilaya code to two digits ("DZ-16", "16" and 16 all become "16")
+ */
+export function normalizeWilayaCode(code: string | number): string | null {
+    const numeric = parseInt(String(code).replace(/^DZ-/i, ''), 10);
+    if (isNaN(numeric) || numeric < 1) {
+        return null;
+    }
+    return String(numeric).padStart(2, '0');
+}
@@ -0,0 +1,51 @@
+/**
+ * Local time of the service area, whatever the server's time zone
+ * Tariff rules, trip dates and reports all follow this clock
+ */
+export const LOCAL_TIMEZONE = process.env.PRICING_TIMEZONE || "Africa/Algiers";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Local date and time of an instant
+ * @returns Calendar fields, with month 1-12, weekday 0 = Sunday and hour 0-23
+ */
+export function getLocalTime(at: Date) {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: LOCAL_TIMEZONE,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        hourCycle: "h23",
+    }).formatToParts(at);
+
+    const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+
+    return {
+        year: Number(part("year")),
+        month: Number(part("month")),
+        day: Number(part("day")),
+        weekday: WEEKDAYS.indexOf(part("weekday")),
+        hour: Number(part("hour")),
+        minute: Number(part("minute")),
+        second: Number(part("second")),
+    };
+}
+
+/**
+ * Start and end of the local day an instant falls on
+ */
+export function getLocalDayBounds(at: Date) {
+    const local = getLocalTime(at);
+
+    // Offset of the local time from UTC at that instant
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+    const offsetMs = localAsUtc - Math.floor(at.getTime() / 1000) * 1000;
+
+    const dayStart = new Date(Date.UTC(local.year, local.month - 1, local.day) - offsetMs);
+    return { dayStart, dayEnd: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000) };
+}
@@ -0,0 +1,41 @@
+import axios from 'axios';
+
+/**
+ * SMS gateway configuration
+ * The gateway receives a JSON POST { to, from, message }, authenticated with a bearer token
+ */
+export const SMS_CONFIG = {
+    GATEWAY_URL: process.env.SMS_GATEWAY_URL || '',
+    API_KEY: process.env.SMS_GATEWAY_API_KEY || '',
+    SENDER_ID: process.env.SMS_SENDER_ID || 'VTC',
+};
+
+/**
+ * Send a text message to a phone number through the SMS gateway
+ * Messages can carry one-time codes, so their content is never logged
+ *
+ * @throws Error if no gateway is configured or the message could not be sent
+ */
+export async function sendSms(phoneNumber: string, message: string) {
+    if (!SMS_CONFIG.GATEWAY_URL) {
+        throw new Error('SMS gateway is not configured (SMS_GATEWAY_URL)');
+    }
+
+    try {
+        await axios.post(
+            SMS_CONFIG.GATEWAY_URL,
+            {
+                to: phoneNumber,
+                from: SMS_CONFIG.SENDER_ID,
+                message
+            },
+            {
+                headers: SMS_CONFIG.API_KEY ? { Authorization: `Bearer ${SMS_CONFIG.API_KEY}` } : {},
+                timeout: 10000
+            }
+        );
+    } catch (error) {
+        console.error('Failed to send SMS:', axios.isAxiosError(error) ? error.message : error);
+        throw new Error('The text message could not be sent');
+    }
+}